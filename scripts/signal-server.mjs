@@ -0,0 +1,140 @@
+#!/usr/bin/env node
+/**
+ * 局域网 WebSocket 信令汇合服务器：按房间码把发起方与加入方配对，只转发信令，不接触对局数据。
+ *
+ *   pnpm signal-server             # 监听 0.0.0.0:8787
+ *   PORT=9000 pnpm signal-server
+ *
+ * 客户端协议（JSON）：
+ *   -> { type: 'join', room, role: 'offer' | 'answer' }
+ *   -> { type: 'signal', message }
+ *   <- { type: 'joined', room, peers } / { type: 'peer-joined' } / { type: 'peer-left' }
+ *   <- { type: 'signal', message } / { type: 'error', message }
+ */
+import { WebSocketServer } from 'ws'
+
+const PORT = Number(process.env.PORT) || 8787
+const HOST = process.env.HOST || '0.0.0.0'
+const ROOM_CODE_PATTERN = /^[A-Z0-9]{4,12}$/
+// 对方尚未进入房间时最多暂存的信令条数
+const MAX_BACKLOG = 20
+const HEARTBEAT_INTERVAL_MS = 30000
+
+/** @type {Map<string, { peers: Map<import('ws').WebSocket, string>, backlog: { from: import('ws').WebSocket, data: string }[] }>} */
+const rooms = new Map()
+
+const send = (socket, data) => {
+  if (socket.readyState === socket.OPEN) {
+    socket.send(JSON.stringify(data))
+  }
+}
+
+const leaveRoom = (socket) => {
+  const code = socket.roomCode
+  if (!code) return
+  const room = rooms.get(code)
+  socket.roomCode = null
+  if (!room) return
+  room.peers.delete(socket)
+  // 已离开一方的暂存信令已经失效
+  room.backlog = room.backlog.filter((item) => item.from !== socket)
+  if (room.peers.size === 0) {
+    rooms.delete(code)
+    return
+  }
+  room.peers.forEach((_role, peer) => send(peer, { type: 'peer-left' }))
+}
+
+const joinRoom = (socket, code, role) => {
+  if (!ROOM_CODE_PATTERN.test(code)) {
+    send(socket, { type: 'error', message: '房间码格式不正确' })
+    return
+  }
+  if (role !== 'offer' && role !== 'answer') {
+    send(socket, { type: 'error', message: '未知的房间角色' })
+    return
+  }
+  leaveRoom(socket)
+  const room = rooms.get(code) ?? { peers: new Map(), backlog: [] }
+  if (room.peers.size >= 2) {
+    send(socket, { type: 'error', message: '房间已满' })
+    return
+  }
+  if ([...room.peers.values()].includes(role)) {
+    send(socket, {
+      type: 'error',
+      message: role === 'offer' ? '房间里已经有发起方了' : '房间里已经有加入方了',
+    })
+    return
+  }
+  room.peers.forEach((_role, peer) => send(peer, { type: 'peer-joined' }))
+  room.peers.set(socket, role)
+  rooms.set(code, room)
+  socket.roomCode = code
+  send(socket, { type: 'joined', room: code, peers: room.peers.size })
+  const pending = room.backlog
+  room.backlog = []
+  pending.forEach((item) => {
+    if (socket.readyState === socket.OPEN) socket.send(item.data)
+  })
+}
+
+const relaySignal = (socket, message) => {
+  const room = socket.roomCode ? rooms.get(socket.roomCode) : null
+  if (!room) {
+    send(socket, { type: 'error', message: '请先加入房间' })
+    return
+  }
+  const data = JSON.stringify({ type: 'signal', message })
+  const others = [...room.peers.keys()].filter((peer) => peer !== socket)
+  if (others.length === 0) {
+    room.backlog.push({ from: socket, data })
+    room.backlog = room.backlog.slice(-MAX_BACKLOG)
+    return
+  }
+  others.forEach((peer) => {
+    if (peer.readyState === peer.OPEN) peer.send(data)
+  })
+}
+
+const server = new WebSocketServer({ host: HOST, port: PORT, maxPayload: 64 * 1024 })
+
+server.on('connection', (socket) => {
+  socket.isAlive = true
+  socket.roomCode = null
+  socket.on('pong', () => {
+    socket.isAlive = true
+  })
+  socket.on('message', (raw) => {
+    let data
+    try {
+      data = JSON.parse(raw.toString())
+    } catch {
+      send(socket, { type: 'error', message: '消息不是合法的 JSON' })
+      return
+    }
+    if (data?.type === 'join') {
+      joinRoom(socket, String(data.room ?? '').toUpperCase(), data.role)
+    } else if (data?.type === 'signal') {
+      relaySignal(socket, data.message)
+    }
+  })
+  socket.on('close', () => leaveRoom(socket))
+})
+
+const heartbeat = setInterval(() => {
+  server.clients.forEach((socket) => {
+    if (!socket.isAlive) {
+      socket.terminate()
+      return
+    }
+    socket.isAlive = false
+    socket.ping()
+  })
+}, HEARTBEAT_INTERVAL_MS)
+
+server.on('close', () => clearInterval(heartbeat))
+
+server.on('listening', () => {
+  console.log(`vote2p signal server listening on ws://${HOST}:${PORT}`)
+})
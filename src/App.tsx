@@ -1,8 +1,16 @@
-import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import { useCallback, useEffect, useMemo, useRef, useState, type ChangeEvent } from 'react'
 import './App.css'
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert'
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+} from '@/components/ui/pagination'
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
@@ -20,117 +28,195 @@ import {
   AlertDialogTitle,
 } from '@/components/ui/alert-dialog'
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip'
-import { AlertCircle, Gamepad2, LineChart as LineChartIcon, Link2, Timer, Users, Copy } from 'lucide-react'
+import {
+  AlertCircle,
+  Gamepad2,
+  ImageUp,
+  LineChart as LineChartIcon,
+  Link2,
+  QrCode,
+  Timer,
+  Users,
+  Copy,
+  Eye,
+  Pause,
+  Play,
+  Undo2,
+  Download,
+  Upload,
+  ArrowDown,
+  ArrowUp,
+  ChevronLeft,
+  ChevronRight,
+} from 'lucide-react'
 import {
   CartesianGrid,
   Legend,
   Line,
   LineChart as RechartsLineChart,
+  ReferenceArea,
   ResponsiveContainer,
   Tooltip as RechartsTooltip,
   XAxis,
   YAxis,
 } from 'recharts'
+import { sharedNowMs, toLocalSeconds, toSharedSeconds } from '@/game/clock'
+import { SignalQrCode } from '@/components/signal-qr-code'
+import { HistoryFilters } from '@/components/history-filters'
+import { StatsDashboard } from '@/components/stats-dashboard'
+import {
+  buildSnapshot,
+  formatRoleLabel,
+  opponentOf,
+  sendsToPrimary,
+  type EngineEffect,
+  type EngineState,
+  type PendingStart,
+} from '@/game/engine'
+import { PROTOCOL_VERSION, formatVersionMismatch, parseMessage, peerSupports } from '@/game/protocol'
+import { buildScoreSeries, buildScoreSeriesForSnapshot } from '@/game/series'
+import {
+  buildArchive,
+  eventsToCsv,
+  parseArchive,
+  seriesToCsv,
+} from '@/game/archive'
+import {
+  entryDurationSec,
+  pageOf,
+  queryHistory,
+  SORT_KEY_LABELS,
+  visiblePages,
+  winnerFilterOptions,
+  type HistorySortKey,
+} from '@/game/history-query'
+import { BEST_OF_OPTIONS, isSeriesOver, roundWinner, seriesWins, seriesWinner } from '@/game/match'
+import { isPaused, pauseRanges } from '@/game/pause'
+import { UNDO_WINDOW_SEC } from '@/game/undo'
+import { START_COUNTDOWN_SEC } from '@/game/lobby'
+import {
+  DEFAULT_OVERTIME,
+  formatOvertimePhase,
+  isSuddenDeath,
+  MAX_OVERTIME_PERIODS,
+  OVERTIME_MODE_LABELS,
+  overtimeRange,
+} from '@/game/overtime'
+import { DEFAULT_GAME_SETTINGS } from '@/game/vote-limits'
+import {
+  DEFAULT_SCORING_RULES,
+  describeScoring,
+  inMultiplierWindow,
+  isDefaultScoring,
+} from '@/game/scoring'
+import {
+  createPreset,
+  DEFAULT_TEAM_NAMES,
+  formatDuration,
+  formatDurationLabel,
+  parseDuration,
+  QUICK_DURATIONS_SEC,
+} from '@/game/presets'
+import {
+  createTeams,
+  DEFAULT_TEAMS,
+  isMultiTeam,
+  MAX_TEAMS,
+  MIN_TEAMS,
+  snapshotTeamNames,
+  teamColor,
+  teamIdsOf,
+  teamName,
+  teamNamesOf,
+  votableTeams,
+} from '@/game/teams'
+import type {
+  ConnectionMode,
+  GameSettings,
+  GameSnapshot,
+  GameState,
+  GamePreset,
+  Message,
+  OvertimeMode,
+  OvertimeRules,
+  Role,
+  ScoringRules,
+  Scores,
+  TeamNames,
+  VoteKind,
+} from '@/game/types'
+import { useGameEngine } from '@/hooks/use-game-engine'
+import { useGameHistory } from '@/hooks/use-game-history'
+import { useGamePresets } from '@/hooks/use-game-presets'
+import { useHistoryView } from '@/hooks/use-history-view'
+import { usePeerDiagnostics } from '@/hooks/use-peer-diagnostics'
+import { useSignalingTransports } from '@/hooks/use-signaling-transports'
+import { useTimeout } from '@/hooks/use-timeout'
+import { SERIES_NEXT_ROUND_DELAY_MS, useRoundTimers } from '@/hooks/use-round-timers'
+import { usePlayerHub, type PlayerStatus } from '@/hooks/use-player-hub'
+import { useSpectatorHub, type SpectatorStatus } from '@/hooks/use-spectator-hub'
+import {
+  answerTargetHref,
+  buildAnswerLink,
+  buildPlayerLink,
+  buildSpectatorLink,
+  decodeSignal,
+  encodeSignal,
+  extractSignalText,
+  readAnswerFromHash,
+  signalToUrlParam,
+} from '@/signaling/codec'
+import { ICE_SERVERS } from '@/signaling/ice-servers'
+import { decodeQrImage } from '@/signaling/qr'
+import type { SignalMessage } from '@/signaling/transport'
+import { generateGameId, generateSessionId } from '@/lib/ids'
+import { getGameStore, writeGameStore } from '@/storage/game-store'
+import { generateRoomCode, normalizeRoomCode, type RoomStatus } from '@/signaling/websocket-transport'
 
-type Role = 'red' | 'blue'
-
-const formatRoleLabel = (role: Role) => (role === 'red' ? '红方 Red' : '蓝方 Blue')
-
-type ConnectionMode = 'offer' | 'answer'
 type ConnectionStatus = 'idle' | 'creating-offer' | 'waiting-answer' | 'connected' | 'error'
-type GameState = 'idle' | 'running' | 'ended'
-
-type VoteEvent = {
-  target: Role
-  elapsed: number
-}
-
-type SnapshotEvent = {
-  at: number
-  target: Role
-}
 
-type GameSnapshot = {
-  version: number
-  lastUpdatedAt: number
-  gameId: string
-  sessionId: string | null
-  isHost: boolean
-  lockedRole: Role
-  startTimeSec: number
-  endTimeSec: number
-  gameState: GameState
-  scoreRed: number
-  scoreBlue: number
-  events: SnapshotEvent[]
+const SPECTATOR_STATUS_LABELS: Record<SpectatorStatus, string> = {
+  inviting: '正在生成邀请…',
+  'waiting-answer': '等待观众回传 Answer',
+  connecting: '正在连接…',
+  watching: '观战中',
+  closed: '已断开',
 }
 
-type HistoryIndexEntry = {
-  gameId: string
-  startTimeSec: number
-  endTimeSec: number
-  scoreRed: number
-  scoreBlue: number
-  lastUpdatedAt: number
+const PLAYER_STATUS_LABELS: Record<PlayerStatus, string> = {
+  inviting: '正在生成邀请…',
+  'waiting-answer': '等待该队回传 Answer',
+  connecting: '正在连接…',
+  connected: '已连接',
+  closed: '已断开',
 }
 
-type SessionRoles = {
-  hostRole: Role
-  guestRole: Role
+const ROOM_STATUS_LABELS: Record<RoomStatus | 'idle', string> = {
+  idle: '未连接',
+  connecting: '连接服务器中',
+  'waiting-peer': '等待对方加入',
+  paired: '已配对',
+  closed: '已断开',
+  error: '出错',
 }
 
-type Message =
-  | { type: 'start'; roundId: string; endTime: number; roles?: SessionRoles }
-  | { type: 'vote'; roundId: string; target: Role; at: number }
-  | { type: 'proposeEndChange'; roundId: string; proposedEndTime: number }
-  | { type: 'acceptEndChange'; roundId: string; proposedEndTime: number }
-  | { type: 'rejectEndChange'; roundId: string; proposedEndTime: number }
-  | { type: 'proposeEndNow'; roundId: string }
-  | { type: 'acceptEndNow'; roundId: string }
-  | { type: 'rejectEndNow'; roundId: string }
-  | { type: 'assignRoles'; sessionId: string; hostRole: Role; guestRole: Role }
-  | { type: 'assignRolesAck'; sessionId: string; myRole: Role }
-  | { type: 'stateSnapshot'; roundId: string; payload: GameSnapshot }
-
-const GAME_ID_STORAGE_KEY = 'currentGameId'
-const SNAPSHOT_LAST_ID_KEY = 'vote2p:lastSnapshotId'
-const SNAPSHOT_KEY_PREFIX = 'vote2p:snapshot:'
-const HISTORY_INDEX_KEY = 'vote2p:historyIndex'
-
-const getSnapshotStorageKey = (gameId: string) => `${SNAPSHOT_KEY_PREFIX}${gameId}`
-
-const generateGameId = () => {
-  const bytes = new Uint8Array(24)
-  if (window.crypto && window.crypto.getRandomValues) {
-    window.crypto.getRandomValues(bytes)
-  } else {
-    for (let i = 0; i < bytes.length; i += 1) {
-      bytes[i] = Math.floor(Math.random() * 256)
-    }
-  }
-  let binary = ''
-  for (let i = 0; i < bytes.length; i += 1) {
-    binary += String.fromCharCode(bytes[i])
-  }
-  const base64 = btoa(binary)
-  const base64url = base64.replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/g, '')
-  return `GID-${base64url}`
-}
-
-const generateSessionId = () => `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`
-
-const toBase64Url = (str: string): string => {
-  const base64 = btoa(str)
-  return base64.replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/g, '')
-}
-
-const fromBase64Url = (str: string): string => {
-  let base64 = str.replace(/-/g, '+').replace(/_/g, '/')
-  const padding = (4 - (base64.length % 4)) % 4
-  if (padding) {
-    base64 += '='.repeat(padding)
-  }
-  return atob(base64)
+const HANDSHAKE_TIMEOUT_MS = 5000
+const ANSWER_RELAY_TIMEOUT_MS = 1500
+const VOTE_RESEND_INTERVAL_MS = 3000
+const HANDSHAKE_PENDING_ERROR = '正在与对方确认协议版本，请稍候再试。'
+const HANDSHAKE_TIMEOUT_ERROR =
+  '未收到对方的协议版本握手，对方可能仍在使用旧版本页面。请双方刷新到最新版本后重新连接。'
+const SAME_DEVICE_UNSUPPORTED_ERROR = '当前浏览器不支持 BroadcastChannel，无法在同一设备的标签页之间自动配对。'
+
+/** 以文件形式下载文本；CSV 加 BOM，方便表格软件识别 UTF-8 */
+const downloadTextFile = (filename: string, text: string, type: string) => {
+  const blob = new Blob([type === 'text/csv' ? `\uFEFF${text}` : text], { type: `${type};charset=utf-8` })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  link.click()
+  window.setTimeout(() => URL.revokeObjectURL(url), 0)
 }
 
 const formatAsDatetimeLocal = (date: Date) => {
@@ -162,18 +248,8 @@ const formatUnixSecondsToLocal = (value: number | null): string => {
   })
 }
 
-const iceServers: RTCIceServer[] = [
-  {
-    urls: 'stun:stun.l.google.com:19302',
-  },
-]
-
 function App() {
-  const [lockedRole, setLockedRole] = useState<Role | null>(null)
-  const [roleLocked, setRoleLocked] = useState(false)
-  const [sessionId, setSessionId] = useState<string | null>(null)
   const [roleSyncMessage, setRoleSyncMessage] = useState<string | null>(null)
-  const [connectionMode, setConnectionMode] = useState<ConnectionMode>('offer')
   const [connectionStatus, setConnectionStatus] = useState<ConnectionStatus>('idle')
   const [statusMessage, setStatusMessage] = useState('')
   const [error, setError] = useState<string | null>(null)
@@ -182,35 +258,81 @@ function App() {
   const [remoteSdp, setRemoteSdp] = useState('')
 
   const [showDebugPanel, setShowDebugPanel] = useState(false)
-  const [rtcConnectionState, setRtcConnectionState] =
-    useState<RTCPeerConnectionState | 'none'>('none')
-  const [rtcIceConnectionState, setRtcIceConnectionState] =
-    useState<RTCIceConnectionState | 'none'>('none')
-  const [dataChannelState, setDataChannelState] = useState<RTCDataChannelState | 'none'>(
-    'none',
-  )
-  const [localIceCandidateCount, setLocalIceCandidateCount] = useState(0)
-  const [lastError, setLastError] = useState<string | null>(null)
+  const [showSignalQr, setShowSignalQr] = useState(false)
+  const {
+    peerDiagnostics,
+    resetPeerDiagnostics,
+    notePeerConnection,
+    noteDataChannel,
+    countLocalIceCandidate,
+    noteError,
+  } = usePeerDiagnostics()
 
-  const [gameState, setGameState] = useState<GameState>('idle')
-  const [currentRoundId, setCurrentRoundId] = useState<string | null>(null)
-  const [currentGameId, setCurrentGameId] = useState<string | null>(null)
   const [storedGameIdHint, setStoredGameIdHint] = useState<string | null>(null)
   const [gameIdCopyMessage, setGameIdCopyMessage] = useState<string | null>(null)
   const [offlineSnapshotMode, setOfflineSnapshotMode] = useState(false)
   const [snapshotMeta, setSnapshotMeta] = useState<{ version: number; lastUpdatedAt: number } | null>(
     null,
   )
-  const [historyIndex, setHistoryIndex] = useState<HistoryIndexEntry[]>([])
-  const [historyError, setHistoryError] = useState<string | null>(null)
-  const [historyViewSnapshot, setHistoryViewSnapshot] = useState<GameSnapshot | null>(null)
-  const [openHistoryTabs, setOpenHistoryTabs] = useState<Array<{ gameId: string; title: string }>>([])
-  const [activeTabKey, setActiveTabKey] = useState<string>('current')
-  const [historyViewSnapshots, setHistoryViewSnapshots] = useState<Record<string, GameSnapshot>>({})
-  const [startTimeSec, setStartTimeSec] = useState<number | null>(null)
-  const [endTimeSec, setEndTimeSec] = useState<number | null>(null)
-  const [resolvedEndTimeSec, setResolvedEndTimeSec] = useState<number | null>(null)
-  const [timeRemaining, setTimeRemaining] = useState(0)
+  const [seriesBestOf, setSeriesBestOf] = useState<number>(1)
+  const [voteSettingsInput, setVoteSettingsInput] = useState<GameSettings>(DEFAULT_GAME_SETTINGS)
+  const [startMode, setStartMode] = useState<'duration' | 'endTime'>('duration')
+  const [durationInput, setDurationInput] = useState(() => formatDuration(600))
+  const [teamNamesInput, setTeamNamesInput] = useState<TeamNames>(DEFAULT_TEAM_NAMES)
+  const [scoringInput, setScoringInput] = useState<ScoringRules>(DEFAULT_SCORING_RULES)
+  const [presetNameInput, setPresetNameInput] = useState('')
+  const { presets, savePreset, deletePreset } = useGamePresets()
+  const {
+    spectators,
+    publish: publishToSpectators,
+    inviteSpectator,
+    acceptSpectatorAnswer,
+    removeSpectator,
+  } = useSpectatorHub()
+  const [spectatorAnswerInputs, setSpectatorAnswerInputs] = useState<Record<string, string>>({})
+  const [spectatorCopyId, setSpectatorCopyId] = useState<string | null>(null)
+  const [playerAnswerInputs, setPlayerAnswerInputs] = useState<Record<Role, string>>({})
+  const [playerCopyTeam, setPlayerCopyTeam] = useState<Role | null>(null)
+  const {
+    historyError,
+    setHistoryError,
+    historyNotice,
+    setHistoryNotice,
+    selectedHistoryIds,
+    setSelectedHistoryIds,
+    historyQuery,
+    historyPage,
+    setHistoryPage,
+    historyViewSnapshot,
+    historyViewSnapshots,
+    openHistoryTabs,
+    activeTabKey,
+    loadHistorySnapshot,
+    forgetHistorySnapshots,
+    showHistoryGame,
+    selectTab,
+    exitHistoryView,
+    clearHistoryViewSnapshot,
+    closeHistoryTab,
+    forgetHistoryGame,
+    toggleHistorySelected,
+    changeHistoryQuery,
+    sortHistory,
+  } = useHistoryView()
+  const {
+    historyIndex,
+    matchIndex,
+    quarantineCount,
+    recordEndedGame,
+    recordSeries,
+    changeNote: handleChangeHistoryNote,
+    deleteGame,
+    deleteMatch: handleDeleteMatch,
+    importGames,
+    loadQuarantine,
+    clearQuarantine,
+  } = useGameHistory(setHistoryError)
+  const [clearQuarantineConfirmOpen, setClearQuarantineConfirmOpen] = useState(false)
 
   const [initialEndTimeInput, setInitialEndTimeInput] = useState<string>(() => {
     const now = new Date()
@@ -220,14 +342,7 @@ function App() {
   })
   const [proposedEndTimeInput, setProposedEndTimeInput] = useState<string>('')
 
-  const [scores, setScores] = useState<{ red: number; blue: number }>({ red: 0, blue: 0 })
-  const [voteEvents, setVoteEvents] = useState<VoteEvent[]>([])
-
-  const [incomingEndChange, setIncomingEndChange] = useState<{ proposedEndTime: number } | null>(null)
-  const [incomingEndNow, setIncomingEndNow] = useState(false)
   const [infoMessage, setInfoMessage] = useState<string | null>(null)
-  const [rolesConfirmed, setRolesConfirmed] = useState(false)
-  const [sessionRoles, setSessionRoles] = useState<SessionRoles | null>(null)
   const [voteIgnoreMessage, setVoteIgnoreMessage] = useState<string | null>(null)
   const [roleAssignmentNotice, setRoleAssignmentNotice] = useState<string | null>(null)
   const [newGameConfirmOpen, setNewGameConfirmOpen] = useState(false)
@@ -236,126 +351,230 @@ function App() {
 
   const pcRef = useRef<RTCPeerConnection | null>(null)
   const dataChannelRef = useRef<RTCDataChannel | null>(null)
-  const timerRef = useRef<number | null>(null)
-  const currentRoundIdRef = useRef<string | null>(null)
-  const sessionIdRef = useRef<string | null>(null)
-  const lockedRoleRef = useRef<Role | null>(null)
-  const connectionModeRef = useRef<ConnectionMode>('offer')
   const hasSentAssignRolesRef = useRef(false)
   const snapshotVersionRef = useRef<number>(0)
-  const hasSentStateSnapshotRef = useRef(false)
+  const stateSnapshotSenderRef = useRef<(to?: Role) => void>(() => {})
+  const playerMessageRef = useRef<(message: Message, team: Role) => void>(() => {})
   const assignRolesRetryCountRef = useRef(0)
-  const assignRolesRetryTimerRef = useRef<number | null>(null)
-  const rolesConfirmedRef = useRef(false)
-  const sessionRolesRef = useRef<SessionRoles | null>(null)
   const hasAutoCopiedOfferRef = useRef(false)
   const hasAutoCopiedAnswerRef = useRef(false)
   const hasAutoAppliedOfferRef = useRef(false)
   const hasAutoAppliedAnswerRef = useRef(false)
   const autoReconnectInProgressRef = useRef(false)
   const autoReconnectAttemptsRef = useRef(0)
-  const autoReconnectTimerRef = useRef<number | null>(null)
   const hasRemoteAnswerAppliedRef = useRef(false)
   const hasEverConnectedRef = useRef(false)
-  const broadcastChannelRef = useRef<BroadcastChannel | null>(null)
-  const signalMessageHandlerRef = useRef<(data: any) => void>(() => {})
+  const signalMessageHandlerRef = useRef<(message: SignalMessage) => void>(() => {})
+  const remoteAnswerApplierRef = useRef<(raw?: string) => Promise<boolean>>(async () => false)
+  const pendingAnswerRelayRef = useRef(false)
   const connectionStatusRef = useRef<ConnectionStatus>('idle')
   const prevConnectionStatusRef = useRef<ConnectionStatus>('idle')
   const prevGameStateRef = useRef<GameState>('idle')
   const step3Ref = useRef<HTMLDivElement | null>(null)
+  const qrImageInputRef = useRef<HTMLInputElement | null>(null)
+  const archiveInputRef = useRef<HTMLInputElement | null>(null)
   const step4Ref = useRef<HTMLDivElement | null>(null)
 
-  const resetGameState = useCallback(() => {
-    if (timerRef.current !== null) {
-      window.clearInterval(timerRef.current)
-      timerRef.current = null
-    }
-    setCurrentRoundId(null)
-    currentRoundIdRef.current = null
-    setCurrentGameId(null)
-    setStoredGameIdHint(null)
+  const { schedule: scheduleAssignRolesRetry, clear: clearAssignRolesRetryTimer } = useTimeout()
+  const { schedule: scheduleHandshakeTimeout, clear: clearHandshakeTimer } = useTimeout()
+  const { schedule: scheduleAutoReconnect, clear: clearAutoReconnectTimer } = useTimeout()
+
+  const sendMessage = useCallback(
+    (msg: Message) => {
+      const channel = dataChannelRef.current
+      if (!channel || channel.readyState !== 'open') {
+        setError('数据通道未就绪，无法发送消息，请先完成连接。')
+        return
+      }
+      try {
+        channel.send(JSON.stringify(msg))
+      } catch (e) {
+        console.error(e)
+        setError('发送消息失败，请尝试重新建立连接。')
+      }
+    },
+    [setError],
+  )
+
+  const { players, sendToPlayers, invitePlayer, acceptPlayerAnswer, removePlayer, removeAllPlayers } =
+    usePlayerHub(useCallback((message: Message, team: Role) => playerMessageRef.current(message, team), []))
+
+  const {
+    roomServerUrl,
+    setRoomServerUrl,
+    roomCodeInput,
+    setRoomCodeInput,
+    activeRoomCode,
+    primaryTransportKind,
+    roomStatus,
+    roomStatusDetail,
+    ensureBroadcastTransport,
+    sendOnBroadcast,
+    ensureSignalTransport,
+    sendOnPrimaryTransport,
+    getManualTransport,
+    openRoomTransport,
+    openSameDeviceTransport,
+    leaveRoom,
+    closeSignalTransports,
+  } = useSignalingTransports(useCallback((message: SignalMessage) => signalMessageHandlerRef.current(message), []))
+
+  /** 按 send 效果的 to / exclude 分发到主连接与多队对局中的其他连接 */
+  const deliverMessage = useCallback(
+    (state: EngineState, msg: Message, routing: { to?: Role; exclude?: Role } = {}) => {
+      if (sendsToPrimary(state, routing)) {
+        sendMessage(msg)
+      }
+      if (state.mode === 'offer') {
+        sendToPlayers(msg, routing)
+      }
+    },
+    [sendMessage, sendToPlayers],
+  )
+
+  const applySnapshotLocally = useCallback(
+    (snapshot: GameSnapshot, options?: { offline?: boolean }) => {
+      snapshotVersionRef.current = snapshot.version || 0
+      setSnapshotMeta({
+        version: snapshot.version || 0,
+        lastUpdatedAt: snapshot.lastUpdatedAt || Date.now(),
+      })
+
+      writeGameStore((tx) => {
+        tx.putSnapshot(snapshot)
+        tx.setMeta('lastSnapshotId', snapshot.gameId)
+      })
+
+      setOfflineSnapshotMode(!!options?.offline)
+      setStoredGameIdHint(snapshot.gameId)
+      clearHistoryViewSnapshot()
+    },
+    [clearHistoryViewSnapshot],
+  )
+
+  const handleRoundStarted = useCallback((roundId: string) => {
     snapshotVersionRef.current = 0
     setSnapshotMeta(null)
     setOfflineSnapshotMode(false)
+    setStoredGameIdHint(roundId)
+    writeGameStore((tx) => tx.setMeta('currentGameId', roundId))
     try {
-      window.localStorage.removeItem(GAME_ID_STORAGE_KEY)
+      const url = new URL(window.location.href)
+      url.searchParams.set('gid', roundId)
+      window.history.replaceState(null, '', url.toString())
     } catch (e) {
       console.error(e)
     }
-    setStartTimeSec(null)
-    setEndTimeSec(null)
-    setResolvedEndTimeSec(null)
-    setScores({ red: 0, blue: 0 })
-    setVoteEvents([])
-    setTimeRemaining(0)
-    setGameState('idle')
-    setIncomingEndChange(null)
-    setIncomingEndNow(false)
-    setInfoMessage(null)
-    setVoteIgnoreMessage(null)
   }, [])
 
-  const applyVote = useCallback(
-    (target: Role, elapsed: number) => {
-      setScores((prev) => ({ ...prev, [target]: prev[target] + 1 }))
-      setVoteEvents((prev) => [...prev, { target, elapsed }])
-      setVoteIgnoreMessage(null)
-    },
-    [],
-  )
-
-  const beginGameWithEndTime = useCallback(
-    (roundId: string, startSec: number, endSec: number) => {
-      if (!Number.isFinite(endSec) || endSec <= startSec) {
-        return
+  const handleEngineEffect = useCallback(
+    (effect: EngineEffect, state: EngineState) => {
+      switch (effect.type) {
+        case 'send':
+          deliverMessage(state, effect.message, effect)
+          break
+        case 'error':
+          setError(effect.message)
+          break
+        case 'info':
+          setInfoMessage(effect.message)
+          break
+        case 'roleSync':
+          setRoleSyncMessage(effect.message)
+          break
+        case 'roleAssignment':
+          setRoleAssignmentNotice(effect.message)
+          break
+        case 'roundStarted':
+          handleRoundStarted(effect.roundId)
+          break
+        case 'snapshotApplied':
+          applySnapshotLocally(effect.snapshot)
+          break
+        case 'sendStateSnapshot':
+          stateSnapshotSenderRef.current(effect.to)
+          break
+        case 'rolesConfirmed':
+          clearAssignRolesRetryTimer()
+          break
+        case 'voteRejected':
+          setVoteIgnoreMessage(effect.message)
+          break
+        default:
+          break
       }
-      setCurrentRoundId(roundId)
-      currentRoundIdRef.current = roundId
-      setStartTimeSec(startSec)
-      setEndTimeSec(endSec)
-      setResolvedEndTimeSec(endSec)
-      setScores({ red: 0, blue: 0 })
-      setVoteEvents([])
-      setTimeRemaining(Math.max(0, endSec - startSec))
-      setGameState('running')
-      setIncomingEndChange(null)
-      setIncomingEndNow(false)
-      setInfoMessage(null)
     },
-    [],
+    [applySnapshotLocally, clearAssignRolesRetryTimer, deliverMessage, handleRoundStarted],
   )
 
-  const applyEndTimeUpdate = useCallback((newEndTimeSec: number) => {
-    setEndTimeSec(newEndTimeSec)
-    setResolvedEndTimeSec(newEndTimeSec)
-  }, [])
-
-  const applyImmediateEndLocal = useCallback(() => {
-    if (timerRef.current !== null) {
-      window.clearInterval(timerRef.current)
-      timerRef.current = null
-    }
-    const nowSec = Math.floor(Date.now() / 1000)
-    setEndTimeSec(nowSec)
-    setResolvedEndTimeSec(nowSec)
-    setTimeRemaining(0)
-    setGameState('ended')
-    setIncomingEndNow(false)
-  }, [])
+  const { state: engine, stateRef: engineRef, dispatch } = useGameEngine(handleEngineEffect)
 
-  const clearAssignRolesRetryTimer = useCallback(() => {
-    if (assignRolesRetryTimerRef.current !== null) {
-      window.clearTimeout(assignRolesRetryTimerRef.current)
-      assignRolesRetryTimerRef.current = null
-    }
-  }, [])
+  useEffect(() => {
+    playerMessageRef.current = dispatch
+  }, [dispatch])
+  const {
+    mode: connectionMode,
+    lockedRole,
+    roleLocked,
+    sessionId,
+    gameState,
+    handshake,
+    peerProtocol,
+    clock,
+    roundId: currentRoundId,
+    startTimeSec,
+    endTimeSec,
+    timeRemaining,
+    scores,
+    voteEvents,
+    pendingVotes,
+    scoreSync,
+    lastRepairSec,
+    incomingEndChange,
+    incomingEndNow,
+    pauses,
+    incomingPause,
+    undoneEvents,
+    rejectedSeqs,
+    incomingUndo,
+    readyTeams,
+    startsIn,
+    overtime,
+    series,
+    settings: roundSettings,
+    scoring,
+    teams,
+  } = engine
+
+  const isConnected = connectionStatus === 'connected' && handshake === 'ok'
+  useRoundTimers(engine, isConnected, dispatch)
+  const seriesChampion = series ? seriesWinner(series) : null
+  const displayTeamNames = historyViewSnapshot ? snapshotTeamNames(historyViewSnapshot) : teamNamesOf(teams)
+  const multiTeamGame = isMultiTeam(teams)
+  const paused = gameState === 'running' && isPaused(pauses)
+  const countingDown = gameState === 'running' && startsIn > 0
+  const votingBlocked = paused || countingDown
+  const readyCheck = peerSupports(peerProtocol, 'readyCheck')
+  const selfReady = !!lockedRole && readyTeams.includes(lockedRole)
+  const roleLabel = (role: Role) => (multiTeamGame ? teamName(teams, role) : formatRoleLabel(role))
+  const seriesInProgress = !!series && !isSeriesOver(series)
+
+  const setConnectionMode = useCallback(
+    (mode: ConnectionMode) => {
+      dispatch({ type: 'setMode', mode })
+    },
+    [dispatch],
+  )
 
-  const clearAutoReconnectTimer = useCallback(() => {
-    if (autoReconnectTimerRef.current !== null) {
-      window.clearTimeout(autoReconnectTimerRef.current)
-      autoReconnectTimerRef.current = null
-    }
-  }, [])
+  const resetGameState = useCallback(() => {
+    dispatch({ type: 'resetRound' })
+    setStoredGameIdHint(null)
+    snapshotVersionRef.current = 0
+    setSnapshotMeta(null)
+    setOfflineSnapshotMode(false)
+    writeGameStore((tx) => tx.setMeta('currentGameId', null))
+    setVoteIgnoreMessage(null)
+  }, [dispatch])
 
   const resetAutoReconnectState = useCallback(() => {
     autoReconnectInProgressRef.current = false
@@ -363,36 +582,6 @@ function App() {
     clearAutoReconnectTimer()
   }, [clearAutoReconnectTimer])
 
-  const closeBroadcastChannel = useCallback(() => {
-    if (broadcastChannelRef.current) {
-      try {
-        broadcastChannelRef.current.close()
-      } catch (e) {
-        console.error(e)
-      }
-      broadcastChannelRef.current = null
-    }
-  }, [])
-
-  const ensureSignalChannel = useCallback((): BroadcastChannel | null => {
-    if (typeof window === 'undefined' || !('BroadcastChannel' in window)) {
-      return null
-    }
-    if (broadcastChannelRef.current) {
-      return broadcastChannelRef.current
-    }
-    const channel = new BroadcastChannel('vote2p-signal')
-    channel.onmessage = (event) => {
-      try {
-        signalMessageHandlerRef.current?.(event.data)
-      } catch (e) {
-        console.error(e)
-      }
-    }
-    broadcastChannelRef.current = channel
-    return channel
-  }, [])
-
   const resetAutoSignalFlags = useCallback(() => {
     hasAutoCopiedOfferRef.current = false
     hasAutoCopiedAnswerRef.current = false
@@ -401,101 +590,33 @@ function App() {
   }, [])
 
   const resetSessionAndRolesForNewAnswerJoin = useCallback(() => {
-    setRoleLocked(false)
-    setLockedRole(null)
-    setRoleSyncMessage('等待发起方分配阵营…')
-    setSessionRoles(null)
-    sessionRolesRef.current = null
-    setRolesConfirmed(false)
-    rolesConfirmedRef.current = false
+    dispatch({ type: 'prepareJoin' })
     clearAssignRolesRetryTimer()
     assignRolesRetryCountRef.current = 0
-  }, [clearAssignRolesRetryTimer])
-
-  const ensureRoleFromSessionRoles = useCallback(
-    (reason: 'fallback-start' | 'vote-mismatch') => {
-      const roles = sessionRolesRef.current
-      if (!roles) return
-      const mode = connectionModeRef.current
-      const expectedRole: Role = mode === 'offer' ? roles.hostRole : roles.guestRole
-      setRoleLocked(true)
-      setLockedRole((prev) => {
-        if (!prev || prev !== expectedRole) {
-          const message =
-            reason === 'vote-mismatch'
-              ? '角色未正确分配，已自动校正，请重试。'
-              : '角色信息已根据对局数据自动校正。'
-          setRoleSyncMessage(message)
-          return expectedRole
-        }
-        return prev
-      })
-    },
-    [setLockedRole, setRoleLocked, setRoleSyncMessage],
-  )
+  }, [clearAssignRolesRetryTimer, dispatch])
 
   const sendAssignRolesOnce = useCallback(() => {
     const channel = dataChannelRef.current
     if (!channel || channel.readyState !== 'open') {
       return false
     }
-    const currentLockedRole = lockedRoleRef.current || lockedRole
-    if (!currentLockedRole) {
-      return false
-    }
-    const existingSessionId = sessionIdRef.current
-    const session = existingSessionId ?? generateSessionId()
-    const hostRole = currentLockedRole
-    const guestRole: Role = hostRole === 'red' ? 'blue' : 'red'
-
-    setSessionId(session)
-    sessionIdRef.current = session
-    const sessionRolesValue: SessionRoles = { hostRole, guestRole }
-    setSessionRoles(sessionRolesValue)
-    sessionRolesRef.current = sessionRolesValue
-
-    try {
-      channel.send(
-        JSON.stringify({
-          type: 'assignRoles',
-          sessionId: session,
-          hostRole,
-          guestRole,
-        }),
-      )
-      hasSentAssignRolesRef.current = true
-      setRoleLocked(true)
-      setLockedRole(hostRole)
-      setRoleSyncMessage(`角色已锁定：${formatRoleLabel(hostRole)}。`)
-      return true
-    } catch (e) {
-      console.error(e)
-      setError('发送角色分配信息失败，请尝试重新建立连接。')
+    if (!engineRef.current.lockedRole) {
       return false
     }
-  }, [lockedRole, setError, setLockedRole, setRoleLocked, setRoleSyncMessage, setSessionId, setSessionRoles])
+    dispatch({ type: 'lockSessionRoles', sessionId: generateSessionId() })
+    hasSentAssignRolesRef.current = true
+    return true
+  }, [dispatch, engineRef])
 
-  const sendMessage = useCallback(
-    (msg: Message) => {
-      const channel = dataChannelRef.current
-      if (!channel || channel.readyState !== 'open') {
-        setError('数据通道未就绪，无法发送消息，请先完成连接。')
-        return
-      }
-      try {
-        channel.send(JSON.stringify(msg))
-      } catch (e) {
-        console.error(e)
-        setError('发送消息失败，请尝试重新建立连接。')
-      }
-    },
-    [setError],
+  const getSignalSessionKey = useCallback(
+    () => engineRef.current.sessionId || engineRef.current.roundId || storedGameIdHint,
+    [engineRef, storedGameIdHint],
   )
 
   const handleRestartOffer = useCallback(
     async (incomingSdp: any, incomingSessionId?: string | null) => {
       try {
-        if (connectionModeRef.current !== 'answer') {
+        if (engineRef.current.mode !== 'answer') {
           return
         }
         const pc = pcRef.current
@@ -507,12 +628,11 @@ function App() {
         const answer = await pc.createAnswer()
         await pc.setLocalDescription(answer)
 
-        const channel = ensureSignalChannel()
-        const sessionKey =
-          sessionIdRef.current || currentRoundIdRef.current || storedGameIdHint || incomingSessionId || null
+        const transport = ensureSignalTransport()
+        const sessionKey = getSignalSessionKey() || incomingSessionId || null
 
-        if (channel && sessionKey) {
-          channel.postMessage({
+        if (transport && sessionKey) {
+          transport.send({
             type: 'restart-answer',
             sessionId: sessionKey,
             payload: answer,
@@ -524,13 +644,13 @@ function App() {
         console.error('处理 restart-offer 失败', e)
       }
     },
-    [ensureSignalChannel, setStatusMessage, storedGameIdHint],
+    [engineRef, ensureSignalTransport, getSignalSessionKey, setStatusMessage],
   )
 
   const handleRestartAnswer = useCallback(
     async (incomingSdp: any) => {
       try {
-        if (connectionModeRef.current !== 'offer') {
+        if (engineRef.current.mode !== 'offer') {
           return
         }
         const pc = pcRef.current
@@ -544,7 +664,7 @@ function App() {
         console.error('处理 restart-answer 失败', e)
       }
     },
-    [setStatusMessage],
+    [engineRef, setStatusMessage],
   )
 
   const handleSignalMessage = useCallback(
@@ -559,11 +679,55 @@ function App() {
         payload?: any
       }
 
+      if (type === 'offer') {
+        // 房间 / 同设备模式下收到发起方的 Offer，交给 remoteSdp 后由自动应用逻辑生成 Answer
+        if (engineRef.current.mode !== 'answer' || typeof payload !== 'string') {
+          return
+        }
+        hasAutoAppliedOfferRef.current = false
+        setRemoteSdp(payload)
+        return
+      }
+
+      if (type === 'answer') {
+        const pc = pcRef.current
+        if (engineRef.current.mode !== 'offer' || !pc || pc.signalingState !== 'have-local-offer') {
+          return
+        }
+        if (typeof payload !== 'string') {
+          return
+        }
+        void remoteAnswerApplierRef.current(payload)
+        return
+      }
+
+      if (type === 'answer-link') {
+        // 回传链接在新标签页中打开时，由仍持有 PeerConnection 的发起方标签页接手
+        const pc = pcRef.current
+        if (engineRef.current.mode !== 'offer' || !pc || pc.signalingState !== 'have-local-offer') {
+          return
+        }
+        if (typeof payload !== 'string') {
+          return
+        }
+        sendOnBroadcast({ type: 'answer-link-ack' })
+        void remoteAnswerApplierRef.current(payload)
+        return
+      }
+
+      if (type === 'answer-link-ack') {
+        if (pendingAnswerRelayRef.current) {
+          pendingAnswerRelayRef.current = false
+          setStatusMessage('已把 Answer 转交给原来的发起方标签页，可以关闭本页。')
+        }
+        return
+      }
+
       if (type !== 'restart-offer' && type !== 'restart-answer') {
         return
       }
 
-      const currentSessionKey = sessionIdRef.current || currentRoundIdRef.current || storedGameIdHint
+      const currentSessionKey = getSignalSessionKey()
 
       if (msgSessionId && currentSessionKey && msgSessionId !== currentSessionKey) {
         return
@@ -575,7 +739,28 @@ function App() {
         void handleRestartAnswer(payload)
       }
     },
-    [handleRestartAnswer, handleRestartOffer, storedGameIdHint],
+    [engineRef, getSignalSessionKey, handleRestartAnswer, handleRestartOffer, sendOnBroadcast, setStatusMessage],
+  )
+
+  const relayAnswerLink = useCallback(
+    (answerText: string) => {
+      const transport = ensureBroadcastTransport()
+      if (!transport) {
+        setError('当前浏览器不支持跨标签页转交，请在原标签页的 Answer 输入框中粘贴该链接。')
+        return
+      }
+      pendingAnswerRelayRef.current = true
+      transport.send({ type: 'answer-link', payload: answerText })
+      setStatusMessage('正在把 Answer 转交给原来的发起方标签页…')
+      window.setTimeout(() => {
+        if (!pendingAnswerRelayRef.current) {
+          return
+        }
+        pendingAnswerRelayRef.current = false
+        setError('没有找到正在等待 Answer 的发起方标签页，请在生成 Offer 的原标签页中粘贴该链接。')
+      }, ANSWER_RELAY_TIMEOUT_MS)
+    },
+    [ensureBroadcastTransport, setError, setStatusMessage],
   )
 
   const performIceRestartAttempt = useCallback(async () => {
@@ -612,11 +797,11 @@ function App() {
       const offer = await pc.createOffer({ iceRestart: true })
       await pc.setLocalDescription(offer)
 
-      const channel = ensureSignalChannel()
-      const sessionKey = sessionIdRef.current || currentRoundIdRef.current || storedGameIdHint
+      const transport = ensureSignalTransport()
+      const sessionKey = getSignalSessionKey()
 
-      if (channel && sessionKey) {
-        channel.postMessage({
+      if (transport && sessionKey) {
+        transport.send({
           type: 'restart-offer',
           sessionId: sessionKey,
           payload: offer,
@@ -646,19 +831,18 @@ function App() {
       }
 
       const delays = [5000, 10000, 20000]
-      clearAutoReconnectTimer()
       const delay = delays[nextIndex] ?? delays[delays.length - 1]
-      autoReconnectTimerRef.current = window.setTimeout(() => {
+      scheduleAutoReconnect(() => {
         void performIceRestartAttempt()
       }, delay)
     }
-  }, [clearAutoReconnectTimer, ensureSignalChannel, resetAutoReconnectState, setConnectionStatus, setError, setStatusMessage, storedGameIdHint])
+  }, [ensureSignalTransport, getSignalSessionKey, resetAutoReconnectState, scheduleAutoReconnect, setConnectionStatus, setError, setStatusMessage])
 
   const startAutoReconnect = useCallback(() => {
     if (autoReconnectInProgressRef.current) {
       return
     }
-    if (connectionModeRef.current !== 'offer') {
+    if (engineRef.current.mode !== 'offer') {
       return
     }
     if (!hasRemoteAnswerAppliedRef.current && !hasEverConnectedRef.current) {
@@ -670,39 +854,55 @@ function App() {
     }
     autoReconnectInProgressRef.current = true
     autoReconnectAttemptsRef.current = 0
-    clearAutoReconnectTimer()
     setStatusMessage('正在尝试自动恢复连接…')
     const delays = [5000, 10000, 20000]
-    autoReconnectTimerRef.current = window.setTimeout(() => {
+    scheduleAutoReconnect(() => {
       void performIceRestartAttempt()
     }, delays[0])
-  }, [clearAutoReconnectTimer, performIceRestartAttempt, setStatusMessage])
-
-  const buildSnapshotFromState = useCallback((): GameSnapshot | null => {
-    if (!currentRoundId || !startTimeSec || !endTimeSec || !lockedRole) {
-      return null
-    }
-    if (gameState === 'idle') {
-      return null
-    }
-    const isHost = connectionModeRef.current === 'offer'
-    const now = Date.now()
-
-    return {
-      version: snapshotVersionRef.current || 0,
-      lastUpdatedAt: now,
-      gameId: currentRoundId,
-      sessionId,
-      isHost,
-      lockedRole,
-      startTimeSec,
+  }, [engineRef, performIceRestartAttempt, scheduleAutoReconnect, setStatusMessage])
+
+  const buildSnapshotFromState = useCallback(
+    (): GameSnapshot | null =>
+      buildSnapshot(
+        {
+          mode: connectionMode,
+          roundId: currentRoundId,
+          sessionId,
+          lockedRole,
+          startTimeSec,
+          endTimeSec,
+          gameState,
+          scores,
+          voteEvents,
+          series,
+          scoring,
+          teams,
+          pauses,
+          undoneEvents,
+          rejectedSeqs,
+          overtime,
+        },
+        { version: snapshotVersionRef.current || 0, lastUpdatedAt: Date.now() },
+      ),
+    [
+      connectionMode,
+      currentRoundId,
       endTimeSec,
       gameState,
-      scoreRed: scores.red,
-      scoreBlue: scores.blue,
-      events: voteEvents.map((event) => ({ at: event.elapsed, target: event.target })),
-    }
-  }, [currentRoundId, endTimeSec, gameState, lockedRole, scores, startTimeSec, sessionId, voteEvents])
+      lockedRole,
+      overtime,
+      pauses,
+      rejectedSeqs,
+      scores,
+      scoring,
+      series,
+      sessionId,
+      startTimeSec,
+      teams,
+      undoneEvents,
+      voteEvents,
+    ],
+  )
 
   const persistSnapshot = useCallback((): GameSnapshot | null => {
     const base = buildSnapshotFromState()
@@ -715,325 +915,83 @@ function App() {
       version: newVersion,
       lastUpdatedAt: Date.now(),
     }
-    try {
-      const storageKey = getSnapshotStorageKey(snapshot.gameId)
-      window.localStorage.setItem(storageKey, JSON.stringify(snapshot))
-      window.localStorage.setItem(SNAPSHOT_LAST_ID_KEY, snapshot.gameId)
-      snapshotVersionRef.current = newVersion
-      setSnapshotMeta({ version: newVersion, lastUpdatedAt: snapshot.lastUpdatedAt })
-    } catch (e) {
-      console.error(e)
+    snapshotVersionRef.current = newVersion
+    setSnapshotMeta({ version: newVersion, lastUpdatedAt: snapshot.lastUpdatedAt })
+    if (snapshot.gameState === 'ended') {
+      recordEndedGame(snapshot)
+    } else {
+      writeGameStore((tx) => {
+        tx.putSnapshot(snapshot)
+        tx.setMeta('lastSnapshotId', snapshot.gameId)
+      })
     }
     return snapshot
-  }, [buildSnapshotFromState])
-
-  const upsertHistoryIndex = useCallback((snapshot: GameSnapshot) => {
-    if (!snapshot || snapshot.gameState !== 'ended') return
-    const entry: HistoryIndexEntry = {
-      gameId: snapshot.gameId,
-      startTimeSec: snapshot.startTimeSec,
-      endTimeSec: snapshot.endTimeSec,
-      scoreRed: snapshot.scoreRed,
-      scoreBlue: snapshot.scoreBlue,
-      lastUpdatedAt: snapshot.lastUpdatedAt,
-    }
-    setHistoryIndex((prev) => {
-      const next = [...prev]
-      const existingIndex = next.findIndex((item) => item.gameId === entry.gameId)
-      if (existingIndex >= 0) {
-        next[existingIndex] = entry
-      } else {
-        next.push(entry)
-      }
-      next.sort((a, b) => {
-        if (a.endTimeSec !== b.endTimeSec) {
-          return b.endTimeSec - a.endTimeSec
-        }
-        return b.lastUpdatedAt - a.lastUpdatedAt
-      })
-      try {
-        window.localStorage.setItem(HISTORY_INDEX_KEY, JSON.stringify(next))
-      } catch (e) {
-        console.error(e)
-      }
-      return next
-    })
-  }, [])
+  }, [buildSnapshotFromState, recordEndedGame])
 
   const hydrateStateFromSnapshot = useCallback(
-    (snapshot: GameSnapshot, options?: { offline?: boolean; fromRemote?: boolean }) => {
-      const nowSec = Math.floor(Date.now() / 1000)
-      const remaining =
-        snapshot.gameState === 'running' ? Math.max(0, snapshot.endTimeSec - nowSec) : 0
-
-      setCurrentRoundId(snapshot.gameId)
-      currentRoundIdRef.current = snapshot.gameId
-      setCurrentGameId(snapshot.gameId)
-      setStartTimeSec(snapshot.startTimeSec)
-      setEndTimeSec(snapshot.endTimeSec)
-      setResolvedEndTimeSec(snapshot.endTimeSec)
-      setScores({ red: snapshot.scoreRed, blue: snapshot.scoreBlue })
-      setVoteEvents(snapshot.events.map((event) => ({ target: event.target, elapsed: event.at })))
-      setTimeRemaining(remaining)
-      setGameState(snapshot.gameState)
-      setLockedRole(snapshot.lockedRole)
-      setRoleLocked(true)
-      setSessionId(snapshot.sessionId)
-      sessionIdRef.current = snapshot.sessionId
-
-      snapshotVersionRef.current = snapshot.version || 0
-      setSnapshotMeta({
-        version: snapshot.version || 0,
-        lastUpdatedAt: snapshot.lastUpdatedAt || Date.now(),
-      })
-
-      try {
-        const storageKey = getSnapshotStorageKey(snapshot.gameId)
-        window.localStorage.setItem(storageKey, JSON.stringify(snapshot))
-        window.localStorage.setItem(SNAPSHOT_LAST_ID_KEY, snapshot.gameId)
-      } catch (e) {
-        console.error(e)
-      }
-
-      if (options?.offline) {
-        setOfflineSnapshotMode(true)
-      }
-      setStoredGameIdHint(snapshot.gameId)
-      setHistoryViewSnapshot(null)
+    (snapshot: GameSnapshot, options?: { offline?: boolean }) => {
+      dispatch({ type: 'hydrate', snapshot })
+      applySnapshotLocally(snapshot, options)
     },
-    [
-      setCurrentRoundId,
-      setCurrentGameId,
-      setStartTimeSec,
-      setEndTimeSec,
-      setResolvedEndTimeSec,
-      setScores,
-      setVoteEvents,
-      setTimeRemaining,
-      setGameState,
-      setLockedRole,
-      setRoleLocked,
-      setSessionId,
-      setSnapshotMeta,
-      setOfflineSnapshotMode,
-      setStoredGameIdHint,
-      setHistoryViewSnapshot,
-    ],
+    [applySnapshotLocally, dispatch],
   )
 
-  const handleIncomingMessage = useCallback(
-    (msg: Message) => {
-      switch (msg.type) {
-        case 'start': {
-          const nowSec = Math.floor(Date.now() / 1000)
-          if (!Number.isFinite(msg.endTime) || msg.endTime <= nowSec) {
-            return
-          }
-
-          if (msg.roles) {
-            setSessionRoles(msg.roles)
-            sessionRolesRef.current = msg.roles
-            ensureRoleFromSessionRoles('fallback-start')
-          }
+  const setupDataChannel = useCallback(
+    (channel: RTCDataChannel) => {
+      noteDataChannel(channel)
 
-          snapshotVersionRef.current = 0
-          setSnapshotMeta(null)
-          setOfflineSnapshotMode(false)
-          setCurrentGameId(msg.roundId)
-          setStoredGameIdHint(msg.roundId)
-          try {
-            window.localStorage.setItem(GAME_ID_STORAGE_KEY, msg.roundId)
-          } catch (e) {
-            console.error(e)
-          }
-          try {
-            const url = new URL(window.location.href)
-            url.searchParams.set('gid', msg.roundId)
-            window.history.replaceState(null, '', url.toString())
-          } catch (e) {
-            console.error(e)
-          }
-          beginGameWithEndTime(msg.roundId, nowSec, msg.endTime)
-          break
+      channel.onopen = () => {
+        noteDataChannel(channel)
+        setConnectionStatus('connected')
+        if (autoReconnectInProgressRef.current || autoReconnectAttemptsRef.current > 0) {
+          resetAutoReconnectState()
+          setStatusMessage('连接已恢复')
+        } else {
+          setStatusMessage('已建立 P2P 连接，可以开始对局。')
         }
-        case 'stateSnapshot': {
-          const snapshot = msg.payload
-          if (!snapshot || !snapshot.gameId) {
-            return
+        setError(null)
+        ensureSignalTransport()
+        dispatch({ type: 'openHandshake' })
+        scheduleHandshakeTimeout(() => {
+          if (engineRef.current.handshake === 'pending') {
+            setError(HANDSHAKE_TIMEOUT_ERROR)
           }
-          if (currentRoundIdRef.current && currentRoundIdRef.current !== snapshot.gameId) {
-            console.warn('收到来自其他局的 stateSnapshot，已忽略。', {
-              current: currentRoundIdRef.current,
-              incoming: snapshot.gameId,
-            })
-            return
-          }
-          hydrateStateFromSnapshot(snapshot, { fromRemote: true })
-          setOfflineSnapshotMode(false)
-          break
-        }
-        case 'vote': {
-          if (!currentRoundIdRef.current || msg.roundId !== currentRoundIdRef.current) return
-          const localLockedRole = lockedRoleRef.current
-          // 若尚未锁定角色，则根据收到的投票目标进行自动锁定并应用
-          if (!localLockedRole) {
-            setRoleLocked(true)
-            setLockedRole(msg.target)
-            setRoleSyncMessage(`角色已锁定：${formatRoleLabel(msg.target)}（根据对局数据自动锁定）`)
-            applyVote(msg.target, msg.at)
-            break
-          }
-          // 若已锁定但不一致，则校正为对局数据中的目标再应用
-          if (msg.target !== localLockedRole) {
-            setRoleSyncMessage('角色未正确分配，已按对局数据校正。')
-            setLockedRole(msg.target)
-            applyVote(msg.target, msg.at)
-            break
-          }
-          // 一致则正常应用
-          applyVote(msg.target, msg.at)
-          break
-        }
-        case 'assignRoles': {
-          const mode = connectionModeRef.current
-          const myRole: Role = mode === 'offer' ? msg.hostRole : msg.guestRole
-          const newSessionId = msg.sessionId
-
-          setSessionId(newSessionId)
-          sessionIdRef.current = newSessionId
-          const sessionRolesValue: SessionRoles = { hostRole: msg.hostRole, guestRole: msg.guestRole }
-          setSessionRoles(sessionRolesValue)
-          sessionRolesRef.current = sessionRolesValue
-          setRoleLocked(true)
-          setLockedRole((prev) => {
-            if (prev && prev !== myRole) {
-              setRoleSyncMessage(
-                `你本地选择的是${formatRoleLabel(prev)}，已根据发起方方案调整为${formatRoleLabel(
-                  myRole,
-                )}。`,
-              )
-            } else {
-              setRoleSyncMessage(`角色已锁定：${formatRoleLabel(myRole)}。`)
-            }
-            return myRole
-          })
-
-          if (mode === 'answer') {
-            sendMessage({
-              type: 'assignRolesAck',
-              sessionId: msg.sessionId,
-              myRole,
-            })
-            setRoleAssignmentNotice('角色分配完成，你的阵营已锁定。')
-          }
-
-          break
-        }
-        case 'assignRolesAck': {
-          const currentSession = sessionIdRef.current
-          if (!currentSession || msg.sessionId !== currentSession) {
-            return
-          }
-          rolesConfirmedRef.current = true
-          setRolesConfirmed(true)
-          clearAssignRolesRetryTimer()
-          setRoleAssignmentNotice('角色分配完成，双方阵营已同步。')
-          break
-        }
-        case 'proposeEndChange': {
-          if (!currentRoundIdRef.current || msg.roundId !== currentRoundIdRef.current) return
-          setIncomingEndChange({ proposedEndTime: msg.proposedEndTime })
-          break
-        }
-        case 'acceptEndChange': {
-          if (!currentRoundIdRef.current || msg.roundId !== currentRoundIdRef.current) return
-          applyEndTimeUpdate(msg.proposedEndTime)
-          setInfoMessage('对方已同意修改结束时间，已同步更新。')
-          break
-        }
-        case 'rejectEndChange': {
-          if (!currentRoundIdRef.current || msg.roundId !== currentRoundIdRef.current) return
-          setInfoMessage('对方拒绝了本次结束时间修改，本局保持原结束时间。')
-          break
-        }
-        case 'proposeEndNow': {
-          if (!currentRoundIdRef.current || msg.roundId !== currentRoundIdRef.current) return
-          setIncomingEndNow(true)
-          break
-        }
-        case 'acceptEndNow': {
-          if (!currentRoundIdRef.current || msg.roundId !== currentRoundIdRef.current) return
-          applyImmediateEndLocal()
-          setInfoMessage('对方已同意立即结束，本局已结束。')
-          break
-        }
-        case 'rejectEndNow': {
-          if (!currentRoundIdRef.current || msg.roundId !== currentRoundIdRef.current) return
-          setInfoMessage('对方拒绝立即结束，本局继续进行。')
-          break
-        }
-        default:
-          break
-      }
-    },
-    [
-      applyEndTimeUpdate,
-      applyImmediateEndLocal,
-      applyVote,
-      beginGameWithEndTime,
-      clearAssignRolesRetryTimer,
-      ensureRoleFromSessionRoles,
-      hydrateStateFromSnapshot,
-      sendMessage,
-    ],
-  )
-
-  const setupDataChannel = useCallback(
-    (channel: RTCDataChannel) => {
-      setDataChannelState(channel.readyState)
-
-      channel.onopen = () => {
-        setDataChannelState(channel.readyState)
-        setConnectionStatus('connected')
-        if (autoReconnectInProgressRef.current || autoReconnectAttemptsRef.current > 0) {
-          resetAutoReconnectState()
-          setStatusMessage('连接已恢复')
-        } else {
-          setStatusMessage('已建立 P2P 连接，可以开始对局。')
-        }
-        setError(null)
-        ensureSignalChannel()
+        }, HANDSHAKE_TIMEOUT_MS)
       }
 
       channel.onclose = () => {
-        setDataChannelState(channel.readyState)
+        noteDataChannel(channel)
         setStatusMessage('数据通道已关闭，可以重新建立连接。')
       }
 
       channel.onerror = () => {
-        setDataChannelState(channel.readyState)
+        noteDataChannel(channel)
         setConnectionStatus('error')
         setError('DataChannel 发生错误，请尝试刷新页面或重新建立连接。')
       }
 
       channel.onmessage = (event) => {
-        try {
-          const parsed = JSON.parse(event.data) as Message
-          handleIncomingMessage(parsed)
-        } catch (e) {
-          console.error('Invalid message from data channel', e)
+        const parsed = parseMessage(event.data)
+        if (!parsed.ok) {
+          console.error('Invalid message from data channel', parsed.error)
+          noteError(parsed.error)
+          return
         }
+        dispatch(parsed.message)
       }
     },
-    [ensureSignalChannel, handleIncomingMessage, resetAutoReconnectState],
+    [
+      dispatch,
+      engineRef,
+      ensureSignalTransport,
+      noteDataChannel,
+      noteError,
+      resetAutoReconnectState,
+      scheduleHandshakeTimeout,
+    ],
   )
 
   const cleanupConnection = useCallback(() => {
-    if (timerRef.current !== null) {
-      window.clearInterval(timerRef.current)
-      timerRef.current = null
-    }
-
     if (dataChannelRef.current) {
       try {
         dataChannelRef.current.close()
@@ -1053,36 +1011,32 @@ function App() {
     setConnectionStatus('idle')
     setStatusMessage('')
     resetGameState()
-    setSessionId(null)
-    sessionIdRef.current = null
+    dispatch({ type: 'resetSession' })
+    removeAllPlayers()
     hasSentAssignRolesRef.current = false
-    hasSentStateSnapshotRef.current = false
     clearAssignRolesRetryTimer()
+    clearHandshakeTimer()
     assignRolesRetryCountRef.current = 0
-    setRolesConfirmed(false)
-    rolesConfirmedRef.current = false
-    setSessionRoles(null)
-    sessionRolesRef.current = null
-    setLockedRole(null)
-    setRoleLocked(false)
     setRoleSyncMessage(null)
     setRoleAssignmentNotice(null)
-    setHistoryViewSnapshot(null)
+    clearHistoryViewSnapshot()
     resetAutoSignalFlags()
     resetAutoReconnectState()
-    closeBroadcastChannel()
+    closeSignalTransports()
     hasRemoteAnswerAppliedRef.current = false
     hasEverConnectedRef.current = false
-    setRtcConnectionState('none')
-    setRtcIceConnectionState('none')
-    setDataChannelState('none')
-    setLocalIceCandidateCount(0)
+    resetPeerDiagnostics()
   }, [
     clearAssignRolesRetryTimer,
-    closeBroadcastChannel,
+    clearHandshakeTimer,
+    clearHistoryViewSnapshot,
+    closeSignalTransports,
+    dispatch,
+    removeAllPlayers,
     resetAutoReconnectState,
     resetGameState,
     resetAutoSignalFlags,
+    resetPeerDiagnostics,
   ])
 
   useEffect(() => {
@@ -1095,26 +1049,6 @@ function App() {
     signalMessageHandlerRef.current = handleSignalMessage
   }, [handleSignalMessage])
 
-  useEffect(() => {
-    connectionModeRef.current = connectionMode
-  }, [connectionMode])
-
-  useEffect(() => {
-    lockedRoleRef.current = lockedRole
-  }, [lockedRole])
-
-  useEffect(() => {
-    sessionIdRef.current = sessionId
-  }, [sessionId])
-
-  useEffect(() => {
-    rolesConfirmedRef.current = rolesConfirmed
-  }, [rolesConfirmed])
-
-  useEffect(() => {
-    sessionRolesRef.current = sessionRoles
-  }, [sessionRoles])
-
   useEffect(() => {
     if (!roleAssignmentNotice) {
       return
@@ -1145,9 +1079,54 @@ function App() {
 
   useEffect(() => {
     if (error) {
-      setLastError(error)
+      noteError(error)
+    }
+  }, [error, noteError])
+
+  useEffect(() => {
+    if (handshake !== 'ok') {
+      return
+    }
+    clearHandshakeTimer()
+    setError((prev) => (prev === HANDSHAKE_TIMEOUT_ERROR ? null : prev))
+  }, [clearHandshakeTimer, handshake])
+
+  // 连接（重新）建立并完成握手后，补发断线期间未被确认的投票
+  useEffect(() => {
+    if (isConnected) {
+      dispatch({ type: 'resendPendingVotes' })
+    }
+  }, [dispatch, isConnected])
+
+  const hasPendingVotes = pendingVotes.length > 0
+  const multiplierActive =
+    gameState === 'running' &&
+    !!startTimeSec &&
+    !!endTimeSec &&
+    inMultiplierWindow(scoring, endTimeSec - timeRemaining - startTimeSec)
+  // 连点检测标记按投票方统计：双队对局的事件没有 from，按被投阵营即可对应到投票方
+  const suspiciousVotes = useMemo(() => {
+    const events = historyViewSnapshot ? historyViewSnapshot.events : voteEvents
+    return events.reduce(
+      (acc, event) => {
+        const voter = event.from ?? opponentOf(event.target)
+        return event.suspicious ? { ...acc, [voter]: (acc[voter] ?? 0) + 1 } : acc
+      },
+      { red: 0, blue: 0 } as Scores,
+    )
+  }, [historyViewSnapshot, voteEvents])
+
+  useEffect(() => {
+    if (!isConnected || !hasPendingVotes) {
+      return
     }
-  }, [error])
+    const timer = window.setInterval(() => {
+      dispatch({ type: 'resendPendingVotes' })
+    }, VOTE_RESEND_INTERVAL_MS)
+    return () => {
+      window.clearInterval(timer)
+    }
+  }, [dispatch, hasPendingVotes, isConnected])
 
   useEffect(() => {
     const prev = prevConnectionStatusRef.current
@@ -1213,7 +1192,7 @@ function App() {
       if (connectionStatusRef.current === 'connected') {
         return
       }
-      if (connectionModeRef.current !== 'offer') {
+      if (engineRef.current.mode !== 'offer') {
         return
       }
       if (!pcRef.current) {
@@ -1234,52 +1213,21 @@ function App() {
     return () => {
       document.removeEventListener('visibilitychange', handleVisibilityChange)
     }
-  }, [clearAutoReconnectTimer, performIceRestartAttempt])
-
-  useEffect(() => {
-    try {
-      const raw = window.localStorage.getItem(HISTORY_INDEX_KEY)
-      if (!raw) return
-      const parsed = JSON.parse(raw) as HistoryIndexEntry[]
-      if (!Array.isArray(parsed)) return
-      const normalized = parsed
-        .filter((item) => item && typeof item.gameId === 'string')
-        .map((item) => ({
-          gameId: item.gameId,
-          startTimeSec: item.startTimeSec,
-          endTimeSec: item.endTimeSec,
-          scoreRed: item.scoreRed,
-          scoreBlue: item.scoreBlue,
-          lastUpdatedAt: item.lastUpdatedAt,
-        }))
-      normalized.sort((a, b) => {
-        if (a.endTimeSec !== b.endTimeSec) {
-          return b.endTimeSec - a.endTimeSec
-        }
-        return b.lastUpdatedAt - a.lastUpdatedAt
-      })
-      setHistoryIndex(normalized)
-    } catch (e) {
-      console.error(e)
-      setHistoryError('读取历史对局列表失败，本地存储可能已被清理。')
-    }
-  }, [])
+  }, [clearAutoReconnectTimer, engineRef, performIceRestartAttempt])
 
   useEffect(() => {
-    try {
+    let cancelled = false
+    const restoreSnapshot = async () => {
       const url = new URL(window.location.href)
       const gidFromUrl = url.searchParams.get('gid')
-      const lastSnapshotId = window.localStorage.getItem(SNAPSHOT_LAST_ID_KEY)
-      const gameIdToUse = gidFromUrl || lastSnapshotId
+      const store = await getGameStore()
+      const gameIdToUse = gidFromUrl || (await store.getMeta('lastSnapshotId'))
       if (!gameIdToUse) {
         return
       }
-      const raw = window.localStorage.getItem(getSnapshotStorageKey(gameIdToUse))
-      if (!raw) {
-        return
-      }
-      const parsed = JSON.parse(raw) as GameSnapshot
-      if (!parsed.gameId) {
+      const parsed = await store.getSnapshot(gameIdToUse)
+      // 读取是异步的，期间若已开始新的一局，就不再用旧快照覆盖
+      if (cancelled || !parsed || engineRef.current.roundId) {
         return
       }
       const nowSec = Math.floor(Date.now() / 1000)
@@ -1287,10 +1235,12 @@ function App() {
         return
       }
       hydrateStateFromSnapshot(parsed, { offline: true })
-    } catch (e) {
-      console.error(e)
     }
-  }, [hydrateStateFromSnapshot])
+    restoreSnapshot().catch((e) => console.error(e))
+    return () => {
+      cancelled = true
+    }
+  }, [engineRef, hydrateStateFromSnapshot])
 
   useEffect(() => {
     try {
@@ -1299,52 +1249,42 @@ function App() {
       if (!sdpParam) {
         return
       }
-      const decoded = fromBase64Url(sdpParam)
-      if (!decoded) {
-        return
-      }
+      // 紧凑编码与旧版 base64url JSON 都原样交给 decodeSignal 在应用时解析
       setConnectionMode('answer')
-      setRemoteSdp(decoded)
+      setRemoteSdp(sdpParam)
     } catch (e) {
       console.error(e)
     }
-  }, [])
+  }, [setConnectionMode])
 
   useEffect(() => {
-    if (!endTimeSec || gameState !== 'running') {
-      return
-    }
-
-    if (timerRef.current !== null) {
-      window.clearInterval(timerRef.current)
-      timerRef.current = null
-    }
-
-    const updateRemaining = () => {
-      const nowSec = Math.floor(Date.now() / 1000)
-      const remaining = endTimeSec - nowSec
-      if (remaining <= 0) {
-        setTimeRemaining(0)
-        setGameState('ended')
-        if (timerRef.current !== null) {
-          window.clearInterval(timerRef.current)
-          timerRef.current = null
-        }
-      } else {
-        setTimeRemaining(remaining)
+    const consumeAnswerHash = () => {
+      const answerText = readAnswerFromHash(window.location.hash)
+      if (!answerText) {
+        return
       }
+      // 先清掉 hash，避免刷新后重复应用
+      try {
+        const url = new URL(window.location.href)
+        url.hash = ''
+        window.history.replaceState(null, '', url.toString())
+      } catch (e) {
+        console.error(e)
+      }
+      const pc = pcRef.current
+      if (engineRef.current.mode === 'offer' && pc && pc.signalingState === 'have-local-offer') {
+        getManualTransport().deliver({ type: 'answer', payload: answerText })
+        return
+      }
+      relayAnswerLink(answerText)
     }
 
-    updateRemaining()
-    timerRef.current = window.setInterval(updateRemaining, 1000)
-
+    consumeAnswerHash()
+    window.addEventListener('hashchange', consumeAnswerHash)
     return () => {
-      if (timerRef.current !== null) {
-        window.clearInterval(timerRef.current)
-        timerRef.current = null
-      }
+      window.removeEventListener('hashchange', consumeAnswerHash)
     }
-  }, [endTimeSec, gameState])
+  }, [engineRef, getManualTransport, relayAnswerLink])
 
   useEffect(() => {
     if (!currentRoundId || !startTimeSec || !endTimeSec || !lockedRole) {
@@ -1353,47 +1293,41 @@ function App() {
     if (gameState === 'idle') {
       return
     }
-    const snapshot = persistSnapshot()
-    if (snapshot && snapshot.gameState === 'ended') {
-      upsertHistoryIndex(snapshot)
+    persistSnapshot()
+  }, [currentRoundId, endTimeSec, gameState, lockedRole, persistSnapshot, startTimeSec])
+
+  useEffect(() => {
+    if (!series || series.rounds.length === 0 || gameState !== 'ended' || !startTimeSec || !endTimeSec) {
+      return
     }
-  }, [currentRoundId, endTimeSec, gameState, lockedRole, persistSnapshot, startTimeSec, upsertHistoryIndex])
+    recordSeries(series, { startTimeSec, endTimeSec, teams })
+  }, [endTimeSec, gameState, recordSeries, series, startTimeSec, teams])
 
   useEffect(() => {
     if (gameState !== 'ended') {
       return
     }
-    try {
-      window.localStorage.removeItem(GAME_ID_STORAGE_KEY)
-    } catch (e) {
-      console.error(e)
-    }
     setStoredGameIdHint(null)
-    try {
-      if (currentRoundId && endTimeSec) {
-        const nowSec = Math.floor(Date.now() / 1000)
-        if (nowSec > endTimeSec) {
-          window.localStorage.removeItem(SNAPSHOT_LAST_ID_KEY)
-        }
+    const expired = !!currentRoundId && !!endTimeSec && Math.floor(Date.now() / 1000) > endTimeSec
+    writeGameStore((tx) => {
+      tx.setMeta('currentGameId', null)
+      if (expired) {
+        tx.setMeta('lastSnapshotId', null)
       }
-    } catch (e) {
-      console.error(e)
-    }
+    })
   }, [currentRoundId, endTimeSec, gameState])
 
-  useEffect(() => {
-    currentRoundIdRef.current = currentRoundId
-  }, [currentRoundId])
-
   useEffect(() => {
     if (connectionStatus !== 'connected') {
       clearAssignRolesRetryTimer()
       assignRolesRetryCountRef.current = 0
-      setRolesConfirmed(false)
-      rolesConfirmedRef.current = false
+      dispatch({ type: 'connectionLost' })
+      return
+    }
+    if (engineRef.current.mode !== 'offer') {
       return
     }
-    if (connectionModeRef.current !== 'offer') {
+    if (handshake !== 'ok') {
       return
     }
     if (!lockedRole) {
@@ -1409,13 +1343,10 @@ function App() {
     }
 
     assignRolesRetryCountRef.current = 1
-    rolesConfirmedRef.current = false
-    setRolesConfirmed(false)
 
     const scheduleRetry = () => {
-      clearAssignRolesRetryTimer()
-      assignRolesRetryTimerRef.current = window.setTimeout(() => {
-        if (rolesConfirmedRef.current) {
+      scheduleAssignRolesRetry(() => {
+        if (engineRef.current.rolesConfirmed) {
           return
         }
         if (assignRolesRetryCountRef.current >= 3) {
@@ -1435,58 +1366,36 @@ function App() {
     }
 
     scheduleRetry()
-  }, [clearAssignRolesRetryTimer, connectionStatus, lockedRole, sendAssignRolesOnce, setRolesConfirmed])
-
-  useEffect(() => {
-    if (connectionStatus !== 'connected') {
-      hasSentStateSnapshotRef.current = false
-      return
-    }
-    if (connectionModeRef.current !== 'offer') {
-      return
-    }
-    if (!currentRoundId || !startTimeSec || !endTimeSec || !lockedRole) {
-      return
-    }
-    if (gameState === 'idle') {
-      return
-    }
-    if (hasSentStateSnapshotRef.current) {
-      return
-    }
-
-    const channel = dataChannelRef.current
-    if (!channel || channel.readyState !== 'open') {
-      return
-    }
-
-    const snapshot = buildSnapshotFromState()
-    if (!snapshot) {
-      return
-    }
-
-    try {
-      channel.send(
-        JSON.stringify({
-          type: 'stateSnapshot',
-          roundId: snapshot.gameId,
-          payload: snapshot,
-        }),
-      )
-      hasSentStateSnapshotRef.current = true
-    } catch (e) {
-      console.error(e)
-    }
   }, [
-    buildSnapshotFromState,
+    clearAssignRolesRetryTimer,
     connectionStatus,
-    currentRoundId,
-    endTimeSec,
-    gameState,
+    dispatch,
+    engineRef,
+    handshake,
     lockedRole,
-    startTimeSec,
+    scheduleAssignRolesRetry,
+    sendAssignRolesOnce,
   ])
 
+  const sendStateSnapshot = useCallback(
+    (to?: Role) => {
+      const snapshot = buildSnapshotFromState()
+      if (!snapshot) {
+        return
+      }
+      deliverMessage(
+        engineRef.current,
+        { type: 'stateSnapshot', roundId: snapshot.gameId, payload: snapshot },
+        to ? { to } : {},
+      )
+    },
+    [buildSnapshotFromState, deliverMessage, engineRef],
+  )
+
+  useEffect(() => {
+    stateSnapshotSenderRef.current = sendStateSnapshot
+  }, [sendStateSnapshot])
+
   useEffect(() => {
     if (connectionMode !== 'offer') {
       return
@@ -1521,6 +1430,13 @@ function App() {
     }
   }, [connectionMode, localSdp])
 
+  useEffect(() => {
+    if (!localSdp) {
+      return
+    }
+    sendOnPrimaryTransport({ type: connectionMode, payload: localSdp })
+  }, [connectionMode, localSdp, sendOnPrimaryTransport])
+
   useEffect(() => {
     if (connectionMode !== 'answer') {
       return
@@ -1633,24 +1549,20 @@ function App() {
       setError(null)
       setLocalSdp('')
       setRemoteSdp('')
-      setRtcConnectionState('none')
-      setRtcIceConnectionState('none')
-      setDataChannelState('none')
-      setLocalIceCandidateCount(0)
+      resetPeerDiagnostics()
 
       hasRemoteAnswerAppliedRef.current = false
       hasEverConnectedRef.current = false
 
-      const pc = new RTCPeerConnection({ iceServers })
+      const pc = new RTCPeerConnection({ iceServers: ICE_SERVERS })
 
-      setRtcConnectionState(pc.connectionState)
-      setRtcIceConnectionState(pc.iceConnectionState)
+      notePeerConnection(pc)
 
       pc.oniceconnectionstatechange = () => {
         const state = pc.iceConnectionState
-        setRtcIceConnectionState(state)
+        notePeerConnection(pc)
         if (state === 'failed' || state === 'disconnected') {
-          if (connectionModeRef.current === 'offer') {
+          if (engineRef.current.mode === 'offer') {
             startAutoReconnect()
           }
         }
@@ -1658,7 +1570,7 @@ function App() {
 
       pc.onconnectionstatechange = () => {
         const state = pc.connectionState
-        setRtcConnectionState(state)
+        notePeerConnection(pc)
         if (state === 'connected') {
           setConnectionStatus('connected')
           hasEverConnectedRef.current = true
@@ -1672,7 +1584,7 @@ function App() {
         } else if (state === 'connecting') {
           setStatusMessage('正在建立连接，请稍候…')
         } else if (state === 'failed' || state === 'disconnected') {
-          if (connectionModeRef.current === 'offer') {
+          if (engineRef.current.mode === 'offer') {
             startAutoReconnect()
           } else if (!autoReconnectInProgressRef.current) {
             if (!hasEverConnectedRef.current) {
@@ -1689,11 +1601,16 @@ function App() {
 
       pc.onicecandidate = (event) => {
         if (event.candidate) {
-          setLocalIceCandidateCount((prev) => prev + 1)
+          countLocalIceCandidate()
         } else {
           const desc = pc.localDescription
           if (desc) {
-            setLocalSdp(JSON.stringify(desc))
+            encodeSignal(desc)
+              .then(setLocalSdp)
+              .catch((e) => {
+                console.error('生成紧凑信令失败，回退为完整 JSON', e)
+                setLocalSdp(JSON.stringify(desc))
+              })
           }
         }
       }
@@ -1701,14 +1618,14 @@ function App() {
       if (mode === 'offer') {
         const channel = pc.createDataChannel('vote-channel')
         dataChannelRef.current = channel
-        setDataChannelState(channel.readyState)
+        noteDataChannel(channel)
         setupDataChannel(channel)
       } else {
         resetSessionAndRolesForNewAnswerJoin()
         pc.ondatachannel = (event) => {
           const channel = event.channel
           dataChannelRef.current = channel
-          setDataChannelState(channel.readyState)
+          noteDataChannel(channel)
           setupDataChannel(channel)
         }
       }
@@ -1717,7 +1634,12 @@ function App() {
       return pc
     },
     [
+      countLocalIceCandidate,
+      engineRef,
+      noteDataChannel,
+      notePeerConnection,
       resetAutoReconnectState,
+      resetPeerDiagnostics,
       resetSessionAndRolesForNewAnswerJoin,
       setError,
       setStatusMessage,
@@ -1735,6 +1657,13 @@ function App() {
       setStatusMessage('正在创建 Offer 并收集 ICE 候选…')
       const pc = createPeerConnection('offer')
       if (!pc) return
+      // 地址与回传链接只差 hash，在本标签页打开回传链接时就地应用，不会重新加载而丢掉 Offer
+      const targetHref = answerTargetHref(window.location.href)
+      if (targetHref !== window.location.href) {
+        window.history.replaceState(null, '', targetHref)
+      }
+      // 提前打开信令通道，回传链接在其他标签页打开时才能转交到这里
+      ensureSignalTransport()
       const offer = await pc.createOffer()
       await pc.setLocalDescription(offer)
     } catch (e) {
@@ -1744,6 +1673,58 @@ function App() {
     }
   }
 
+  const prepareAnswerJoin = () => {
+    setConnectionMode('answer')
+    setLocalSdp('')
+    setRemoteSdp('')
+    setError(null)
+    resetAutoSignalFlags()
+  }
+
+  const handleCreateRoom = async () => {
+    if (!roomServerUrl.trim()) {
+      setError('请先填写信令服务器地址。')
+      return
+    }
+    const code = generateRoomCode()
+    openRoomTransport(code, 'offer')
+    // Offer 收集完 ICE 候选后由 effect 自动经房间发送
+    await handleCreateOffer()
+  }
+
+  const handleJoinRoom = () => {
+    const code = normalizeRoomCode(roomCodeInput)
+    if (!code) {
+      setError('请输入对方提供的房间码。')
+      return
+    }
+    if (!roomServerUrl.trim()) {
+      setError('请先填写信令服务器地址。')
+      return
+    }
+    prepareAnswerJoin()
+    openRoomTransport(code, 'answer')
+    setStatusMessage(`已加入房间 ${code}，等待发起方的 Offer…`)
+  }
+
+  const handleSameDeviceHost = async () => {
+    if (!openSameDeviceTransport('offer')) {
+      setError(SAME_DEVICE_UNSUPPORTED_ERROR)
+      return
+    }
+    // 配对前生成的 Offer 会在找到另一个标签页后补发
+    await handleCreateOffer()
+  }
+
+  const handleSameDeviceJoin = () => {
+    prepareAnswerJoin()
+    if (!openSameDeviceTransport('answer')) {
+      setError(SAME_DEVICE_UNSUPPORTED_ERROR)
+      return
+    }
+    setStatusMessage('正在查找本机上发起连接的标签页…')
+  }
+
   const handleApplyRemoteAnswer = async (raw?: string): Promise<boolean> => {
     const pc = pcRef.current
     if (!pc) {
@@ -1757,9 +1738,9 @@ function App() {
       return false
     }
 
-    let parsed: any
+    let parsed: RTCSessionDescriptionInit
     try {
-      parsed = JSON.parse(sourceText)
+      parsed = await decodeSignal(extractSignalText(sourceText))
     } catch (e) {
       console.error('解析 Answer 文本失败', e)
       setConnectionStatus('error')
@@ -1783,6 +1764,10 @@ function App() {
   }
 
 
+  useEffect(() => {
+    remoteAnswerApplierRef.current = handleApplyRemoteAnswer
+  })
+
   const handleApplyOfferAndCreateAnswer = async (): Promise<boolean> => {
     try {
       setConnectionMode('answer')
@@ -1791,10 +1776,10 @@ function App() {
       const pc = createPeerConnection('answer')
       if (!pc) return false
       if (!remoteSdp.trim()) {
-        setError('请先粘贴对方发送的 Offer JSON 文本。')
+        setError('请先粘贴对方发送的 Offer 文本。')
         return false
       }
-      const parsed = JSON.parse(remoteSdp)
+      const parsed = await decodeSignal(extractSignalText(remoteSdp))
       await pc.setRemoteDescription(parsed)
       const answer = await pc.createAnswer()
       await pc.setLocalDescription(answer)
@@ -1804,7 +1789,7 @@ function App() {
     } catch (e) {
       console.error(e)
       setConnectionStatus('error')
-      setError('处理 Offer / 创建 Answer 失败，请确认 JSON 文本是否完整。')
+      setError('处理 Offer / 创建 Answer 失败，请确认文本是否完整。')
       return false
     }
   }
@@ -1821,6 +1806,22 @@ function App() {
   }
 
 
+  const handleQrImageSelected = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    // 允许重复选择同一张图片
+    event.target.value = ''
+    if (!file) return
+    try {
+      const text = await decodeQrImage(file)
+      setRemoteSdp(extractSignalText(text))
+      setError(null)
+      setStatusMessage('已从图片中识别出对方的二维码。')
+    } catch (e) {
+      console.error(e)
+      setError('未能从图片中识别出二维码，请换一张更清晰、完整包含二维码的截图或照片。')
+    }
+  }
+
   const handleCopyShareUrl = async () => {
     if (!shareUrl) return
     try {
@@ -1833,7 +1834,7 @@ function App() {
   }
 
   const handleCopyGameId = async () => {
-    const idToCopy = historyViewSnapshot?.gameId || currentGameId
+    const idToCopy = historyViewSnapshot?.gameId || currentRoundId
     if (!idToCopy) return
     try {
       await navigator.clipboard.writeText(idToCopy)
@@ -1845,20 +1846,14 @@ function App() {
   }
 
   const handleDiscardSnapshotFromBanner = () => {
-    const gameId = currentRoundId || currentGameId || storedGameIdHint
-    try {
+    const gameId = currentRoundId || storedGameIdHint
+    writeGameStore((tx) => {
       if (gameId) {
-        window.localStorage.removeItem(getSnapshotStorageKey(gameId))
-        const lastId = window.localStorage.getItem(SNAPSHOT_LAST_ID_KEY)
-        if (lastId === gameId) {
-          window.localStorage.removeItem(SNAPSHOT_LAST_ID_KEY)
-        }
+        tx.deleteSnapshot(gameId)
       } else {
-        window.localStorage.removeItem(SNAPSHOT_LAST_ID_KEY)
+        tx.setMeta('lastSnapshotId', null)
       }
-    } catch (e) {
-      console.error(e)
-    }
+    })
     try {
       const url = new URL(window.location.href)
       url.searchParams.delete('gid')
@@ -1867,54 +1862,28 @@ function App() {
       console.error(e)
     }
     resetGameState()
-    setHistoryViewSnapshot(null)
-    setActiveTabKey('current')
+    exitHistoryView()
   }
 
   const handleDiscardSnapshotFromStats = () => {
-    const gameId = historyViewSnapshot?.gameId || currentRoundId || currentGameId || storedGameIdHint
+    const gameId = historyViewSnapshot?.gameId || currentRoundId || storedGameIdHint
     if (!gameId) {
       return
     }
-    try {
-      window.localStorage.removeItem(getSnapshotStorageKey(gameId))
-      const lastId = window.localStorage.getItem(SNAPSHOT_LAST_ID_KEY)
-      if (lastId === gameId) {
-        window.localStorage.removeItem(SNAPSHOT_LAST_ID_KEY)
-      }
-    } catch (e) {
-      console.error(e)
-    }
+    writeGameStore((tx) => tx.deleteSnapshot(gameId))
     setSnapshotMeta(null)
   }
 
-  const handleLoadHistoryGame = (gameId: string) => {
+  const handleLoadHistoryGame = async (gameId: string) => {
     setHistoryError(null)
     try {
-      let snapshot = historyViewSnapshots[gameId]
+      const snapshot = await loadHistorySnapshot(gameId)
       if (!snapshot) {
-        const raw = window.localStorage.getItem(getSnapshotStorageKey(gameId))
-        if (!raw) {
-          setHistoryError('找不到该对局的快照，本地记录可能已被清理。')
-          return
-        }
-        const parsed = JSON.parse(raw) as GameSnapshot
-        if (!parsed || !parsed.gameId) {
-          setHistoryError('快照数据格式异常，无法加载历史对局。')
-          return
-        }
-        snapshot = parsed
-        setHistoryViewSnapshots((prev) => ({ ...prev, [gameId]: parsed }))
+        await loadQuarantine()
+        setHistoryError('找不到该对局的快照，本地记录可能已被清理或已损坏。')
+        return
       }
-
-      setOpenHistoryTabs((prev) => {
-        if (prev.some((item) => item.gameId === gameId)) return prev
-        const title = gameId.startsWith('GID-') ? `GID-${gameId.slice(4, 11)}` : gameId.slice(0, 10)
-        return [...prev, { gameId, title }]
-      })
-
-      setActiveTabKey(`hist-${gameId}`)
-      setHistoryViewSnapshot(snapshot)
+      showHistoryGame(snapshot)
       setOfflineSnapshotMode(false)
       setVoteIgnoreMessage(null)
     } catch (e) {
@@ -1924,52 +1893,125 @@ function App() {
   }
 
   const handleDeleteHistoryGame = (gameId: string) => {
-    setHistoryIndex((prev) => {
-      const next = prev.filter((item) => item.gameId !== gameId)
-      try {
-        window.localStorage.setItem(HISTORY_INDEX_KEY, JSON.stringify(next))
-        window.localStorage.removeItem(getSnapshotStorageKey(gameId))
-      } catch (e) {
-        console.error(e)
-      }
-      return next
-    })
-
-    setOpenHistoryTabs((prev) => prev.filter((item) => item.gameId !== gameId))
-
-    if (activeTabKey === `hist-${gameId}`) {
-      setActiveTabKey('current')
-      setHistoryViewSnapshot(null)
-    }
-  }
-
-  const handleExitHistoryView = () => {
-    setHistoryViewSnapshot(null)
-    setHistoryError(null)
-    setActiveTabKey('current')
+    deleteGame(gameId)
+    forgetHistoryGame(gameId)
   }
 
-  const handleStartNewRound = () => {
-    const prevGameId = currentRoundIdRef.current || currentGameId || null
-
-    resetGameState()
+  const loadStoredSnapshot = useCallback(async (gameId: string) => {
+    const store = await getGameStore()
+    return store.getSnapshot(gameId)
+  }, [])
 
-    try {
-      const lastId = window.localStorage.getItem(SNAPSHOT_LAST_ID_KEY)
-      if (prevGameId) {
-        window.localStorage.removeItem(getSnapshotStorageKey(prevGameId))
-        if (lastId === prevGameId) {
-          window.localStorage.removeItem(SNAPSHOT_LAST_ID_KEY)
-        }
+  /** 导出所选对局；没有勾选时导出全部历史记录 */
+  const handleExportHistory = async (format: 'json' | 'csv') => {
+    setHistoryError(null)
+    setHistoryNotice(null)
+    const ids = selectedHistoryIds.length > 0 ? selectedHistoryIds : historyIndex.map((item) => item.gameId)
+    if (ids.length === 0) {
+      setHistoryError('当前没有可以导出的历史对局。')
+      return
+    }
+    try {
+      const store = await getGameStore()
+      const games: GameSnapshot[] = []
+      for (const gameId of ids) {
+        const snapshot = historyViewSnapshots[gameId] ?? (await store.getSnapshot(gameId))
+        if (snapshot) games.push(snapshot)
+      }
+      if (games.length === 0) {
+        setHistoryError('找不到所选对局的快照，本地记录可能已被清理。')
+        return
+      }
+      const stamp = new Date().toISOString().slice(0, 10)
+      if (format === 'json') {
+        downloadTextFile(
+          `vote2p-history-${stamp}.json`,
+          JSON.stringify(buildArchive(games, Date.now()), null, 2),
+          'application/json',
+        )
       } else {
-        if (lastId) {
-          window.localStorage.removeItem(getSnapshotStorageKey(lastId))
-        }
-        window.localStorage.removeItem(SNAPSHOT_LAST_ID_KEY)
+        downloadTextFile(`vote2p-events-${stamp}.csv`, eventsToCsv(games), 'text/csv')
+        downloadTextFile(`vote2p-series-${stamp}.csv`, seriesToCsv(games), 'text/csv')
+      }
+      const missing = ids.length - games.length
+      setHistoryNotice(
+        `已导出 ${games.length} 局${missing > 0 ? `，${missing} 局的快照已不在本机，未能导出` : ''}。`,
+      )
+    } catch (e) {
+      console.error(e)
+      setHistoryError('导出历史对局失败，请稍后重试。')
+    }
+  }
+
+  const handleExportQuarantine = async () => {
+    setHistoryError(null)
+    try {
+      const records = await loadQuarantine()
+      if (records.length === 0) return
+      const stamp = new Date().toISOString().slice(0, 10)
+      downloadTextFile(`vote2p-quarantine-${stamp}.json`, JSON.stringify(records, null, 2), 'application/json')
+    } catch (e) {
+      console.error(e)
+      setHistoryError('导出隔离记录失败，请稍后重试。')
+    }
+  }
+
+  const handleClearQuarantine = async () => {
+    setHistoryError(null)
+    try {
+      await clearQuarantine()
+    } catch (e) {
+      console.error(e)
+      setHistoryError('清除隔离记录失败，请稍后重试。')
+    }
+  }
+
+  const handleArchiveSelected = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    // 允许重复选择同一个文件
+    event.target.value = ''
+    if (!file) return
+    setHistoryError(null)
+    setHistoryNotice(null)
+    try {
+      const result = parseArchive(await file.text())
+      if (!result.ok) {
+        setHistoryError(result.error)
+        return
       }
+      const { games, invalid } = result.archive
+      const merged = await importGames(games)
+      forgetHistorySnapshots(merged.added.map((snapshot) => snapshot.gameId))
+      const details = [
+        merged.skipped > 0 ? `${merged.skipped} 局本机已有，已跳过` : null,
+        invalid > 0 ? `${invalid} 局格式不正确或尚未结束，已忽略` : null,
+      ].filter(Boolean)
+      setHistoryNotice(`已导入 ${merged.added.length} 局${details.length > 0 ? `；${details.join('，')}` : ''}。`)
     } catch (e) {
       console.error(e)
+      setHistoryError('导入失败，无法读取该文件或写入本地存储。')
+    }
+  }
+
+  const handleExitHistoryView = () => {
+    exitHistoryView()
+    setHistoryError(null)
+  }
+
+  const handleStartNewRound = () => {
+    const prevGameId = engineRef.current.roundId
+
+    resetGameState()
+
+    const discardPrevSnapshot = async () => {
+      const store = await getGameStore()
+      // 没有进行中的局时，丢弃最近保存的快照；deleteSnapshot 会一并清除 lastSnapshotId
+      const gameId = prevGameId || (await store.getMeta('lastSnapshotId'))
+      if (gameId) {
+        await store.transaction((tx) => tx.deleteSnapshot(gameId))
+      }
     }
+    discardPrevSnapshot().catch((e) => console.error(e))
 
     try {
       const url = new URL(window.location.href)
@@ -1979,43 +2021,30 @@ function App() {
       console.error(e)
     }
 
-    setSessionId(null)
-    sessionIdRef.current = null
+    dispatch({ type: 'resetSession' })
     hasSentAssignRolesRef.current = false
-    hasSentStateSnapshotRef.current = false
     clearAssignRolesRetryTimer()
     assignRolesRetryCountRef.current = 0
-    setRolesConfirmed(false)
-    rolesConfirmedRef.current = false
-    setSessionRoles(null)
-    sessionRolesRef.current = null
-    setLockedRole(null)
-    setRoleLocked(false)
     setRoleSyncMessage(null)
     setRoleAssignmentNotice(null)
-    setHistoryViewSnapshot(null)
-    setActiveTabKey('current')
-    setInfoMessage(null)
-    setVoteIgnoreMessage(null)
-    setIncomingEndChange(null)
-    setIncomingEndNow(false)
+    exitHistoryView()
     setError(null)
     setStatusMessage('')
     setLocalSdp('')
     setRemoteSdp('')
     resetAutoSignalFlags()
     resetAutoReconnectState()
-    closeBroadcastChannel()
+    closeSignalTransports()
     if (pcRef.current) {
-      ensureSignalChannel()
+      ensureSignalTransport()
     }
   }
 
-  const handleNewGameClick = () => {
+  const handleNewGameClick = async () => {
     let hasSnapshotFlag = false
     try {
-      const lastId = window.localStorage.getItem(SNAPSHOT_LAST_ID_KEY)
-      if (lastId) {
+      const store = await getGameStore()
+      if (await store.getMeta('lastSnapshotId')) {
         hasSnapshotFlag = true
       }
     } catch (e) {
@@ -2030,70 +2059,154 @@ function App() {
     handleStartNewRound()
   }
 
+  const ensurePeerReady = (notConnectedMessage: string) => {
+    if (connectionStatus !== 'connected') {
+      setError(notConnectedMessage)
+      return false
+    }
+    if (handshake !== 'ok') {
+      setError(
+        handshake === 'mismatch' && peerProtocol
+          ? formatVersionMismatch(peerProtocol)
+          : HANDSHAKE_PENDING_ERROR,
+      )
+      return false
+    }
+    return true
+  }
+
+  /** 按步骤 3 的设置生成开局参数；设置不合法时提示错误并返回 null。 */
+  const buildStartAction = (): PendingStart | null => {
+    if (seriesInProgress && connectionMode === 'offer') {
+      return { type: 'startSeriesRound', roundId: generateGameId() }
+    }
+    let timing: { durationSec: number } | { endTimeSec: number }
+    if (startMode === 'duration') {
+      const durationSec = parseDuration(durationInput)
+      if (!durationSec) {
+        setError('请填写合法的本局时长，例如 3:00 或 10。')
+        return null
+      }
+      timing = { durationSec }
+    } else {
+      const endTimeUnix = parseDatetimeLocalToUnixSeconds(initialEndTimeInput)
+      if (!endTimeUnix) {
+        setError('请先选择一个合法的结束时间。')
+        return null
+      }
+      timing = { endTimeSec: toSharedSeconds(clock, endTimeUnix) }
+    }
+    const bestOf = connectionMode === 'offer' ? seriesBestOf : 1
+    if (bestOf > 1 && !peerSupports(peerProtocol, 'matchSeries')) {
+      setError('对方的页面版本不支持系列赛，请双方刷新到最新版本，或改为单局。')
+      return null
+    }
+    if (!isDefaultScoring(scoringInput) && !peerSupports(peerProtocol, 'scoringRules')) {
+      setError('对方的页面版本不支持自定义计分规则，请双方刷新到最新版本，或恢复默认规则。')
+      return null
+    }
+    if ((scoringInput.overtime?.mode ?? 'off') !== 'off' && !peerSupports(peerProtocol, 'overtime')) {
+      setError('对方的页面版本不支持平局加时，请双方刷新到最新版本，或关闭加时。')
+      return null
+    }
+    const roundId = generateGameId()
+    return {
+      type: 'startRound',
+      roundId,
+      ...timing,
+      bestOf,
+      seriesId: bestOf > 1 ? `series-${roundId}` : undefined,
+      settings: voteSettingsInput,
+      scoring: scoringInput,
+      teamNames: {
+        red: teamNamesInput.red.trim() || DEFAULT_TEAM_NAMES.red,
+        blue: teamNamesInput.blue.trim() || DEFAULT_TEAM_NAMES.blue,
+      },
+    }
+  }
+
   const handleStartGame = () => {
     if (historyViewSnapshot) {
       setError('当前正在查看历史对局（只读），请先返回当前会话或新开一局。')
       return
     }
-    if (!lockedRole) {
-      setError('请先在步骤 1 中确认阵营并完成角色锁定。')
+    if (!ensurePeerReady('请先完成 P2P 连接，再开始对局。')) {
       return
     }
-    if (connectionStatus !== 'connected') {
-      setError('请先完成 P2P 连接，再开始对局。')
+    const action = buildStartAction()
+    if (action) {
+      dispatch(action)
+    }
+  }
+
+  const handleToggleReady = () => {
+    if (historyViewSnapshot) {
+      setError('当前正在查看历史对局（只读），请先返回当前会话或新开一局。')
       return
     }
-    const endTimeUnix = parseDatetimeLocalToUnixSeconds(initialEndTimeInput)
-    if (!endTimeUnix) {
-      setError('请先选择一个合法的结束时间。')
+    if (!ensurePeerReady('请先完成 P2P 连接，再点击准备。')) {
       return
     }
-    const nowSec = Math.floor(Date.now() / 1000)
-    if (endTimeUnix <= nowSec) {
-      setError('结束时间必须晚于当前时间。')
+    if (selfReady) {
+      dispatch({ type: 'setReady', ready: false })
       return
     }
-
-    const roles = sessionRolesRef.current
-    let hostRole: Role
-    let guestRole: Role
-    if (roles) {
-      hostRole = roles.hostRole
-      guestRole = roles.guestRole
-    } else if (connectionModeRef.current === 'offer') {
-      hostRole = lockedRole
-      guestRole = lockedRole === 'red' ? 'blue' : 'red'
-    } else {
-      guestRole = lockedRole
-      hostRole = lockedRole === 'red' ? 'blue' : 'red'
+    // 开局参数以发起方为准，加入方只需表明已准备
+    if (connectionMode !== 'offer') {
+      dispatch({ type: 'setReady', ready: true })
+      return
     }
-
-    if (!roles) {
-      const sessionRolesValue: SessionRoles = { hostRole, guestRole }
-      setSessionRoles(sessionRolesValue)
-      sessionRolesRef.current = sessionRolesValue
+    const start = buildStartAction()
+    if (start) {
+      dispatch({ type: 'setReady', ready: true, start })
     }
+  }
 
-    snapshotVersionRef.current = 0
-    setSnapshotMeta(null)
-    setOfflineSnapshotMode(false)
-    const gameId = generateGameId()
-    setCurrentGameId(gameId)
-    setStoredGameIdHint(gameId)
-    try {
-      window.localStorage.setItem(GAME_ID_STORAGE_KEY, gameId)
-    } catch (e) {
-      console.error(e)
+  const handleChangeScoringField = (field: keyof ScoringRules, raw: string, min: number) => {
+    const value = Math.max(min, Math.floor(Number(raw) || 0))
+    setScoringInput((prev) => ({ ...prev, [field]: value }))
+  }
+
+  const handleChangeOvertime = (patch: Partial<OvertimeRules>) => {
+    setScoringInput((prev) => {
+      const next = { ...(prev.overtime ?? DEFAULT_OVERTIME), ...patch }
+      // 不加时时不携带该字段，与旧版本的规则保持一致
+      return { ...prev, overtime: next.mode === 'off' ? undefined : next }
+    })
+  }
+
+  const handleApplyPreset = (preset: GamePreset) => {
+    setStartMode('duration')
+    setDurationInput(formatDuration(preset.durationSec))
+    setSeriesBestOf(preset.bestOf)
+    setVoteSettingsInput(preset.settings)
+    setTeamNamesInput(preset.teamNames)
+    setScoringInput(preset.scoring ?? DEFAULT_SCORING_RULES)
+    setPresetNameInput(preset.name)
+    setError(null)
+  }
+
+  const handleSavePreset = () => {
+    const name = presetNameInput.trim()
+    if (!name) {
+      setError('请先为预设起一个名称。')
+      return
     }
-    try {
-      const url = new URL(window.location.href)
-      url.searchParams.set('gid', gameId)
-      window.history.replaceState(null, '', url.toString())
-    } catch (e) {
-      console.error(e)
+    const durationSec = parseDuration(durationInput)
+    if (!durationSec) {
+      setError('预设只保存时长，请先填写合法的本局时长，例如 3:00 或 10。')
+      return
     }
-    beginGameWithEndTime(gameId, nowSec, endTimeUnix)
-    sendMessage({ type: 'start', roundId: gameId, endTime: endTimeUnix, roles: { hostRole, guestRole } })
+    savePreset(
+      createPreset(generateGameId(), name, {
+        durationSec,
+        bestOf: seriesBestOf,
+        settings: voteSettingsInput,
+        teamNames: teamNamesInput,
+        scoring: scoringInput,
+      }),
+    )
+    setError(null)
   }
 
   const handleProposeEndChange = () => {
@@ -2101,12 +2214,7 @@ function App() {
       setError('当前为历史只读模式，无法协商修改结束时间。')
       return
     }
-    if (connectionStatus !== 'connected') {
-      setError('请先完成 P2P 连接，再发起结束时间协商。')
-      return
-    }
-    if (gameState !== 'running' || !currentRoundId) {
-      setError('只有在本局进行中时才能协商修改结束时间。')
+    if (!ensurePeerReady('请先完成 P2P 连接，再发起结束时间协商。')) {
       return
     }
     const baseInput = proposedEndTimeInput || initialEndTimeInput
@@ -2115,13 +2223,7 @@ function App() {
       setError('请先选择一个合法的新的结束时间。')
       return
     }
-    const nowSec = Math.floor(Date.now() / 1000)
-    if (proposedUnix <= nowSec) {
-      setError('新的结束时间必须晚于当前时间。')
-      return
-    }
-    sendMessage({ type: 'proposeEndChange', roundId: currentRoundId, proposedEndTime: proposedUnix })
-    setInfoMessage('已向对方发出修改结束时间的提议，等待对方回应。')
+    dispatch({ type: 'requestEndChange', proposedEndTime: toSharedSeconds(clock, proposedUnix) })
   }
 
   const handleProposeEndNow = () => {
@@ -2129,126 +2231,141 @@ function App() {
       setError('当前为历史只读模式，无法提议立即结束。')
       return
     }
-    if (connectionStatus !== 'connected') {
-      setError('请先完成 P2P 连接，再发起立即结束的提议。')
+    if (!ensurePeerReady('请先完成 P2P 连接，再发起立即结束的提议。')) {
+      return
+    }
+    dispatch({ type: 'requestEndNow' })
+  }
+
+  const handleProposePause = () => {
+    if (historyViewSnapshot) {
+      setError('当前为历史只读模式，无法提议暂停。')
+      return
+    }
+    if (!ensurePeerReady('请先完成 P2P 连接，再发起暂停的提议。')) {
+      return
+    }
+    if (!peerSupports(peerProtocol, 'pause')) {
+      setError('对方页面版本较旧，不支持暂停，请让对方刷新页面后重新连接。')
       return
     }
-    if (gameState !== 'running' || !currentRoundId) {
-      setError('只有在本局进行中时才能提议立即结束。')
+    dispatch({ type: 'requestPause' })
+  }
+
+  const handleResume = () => {
+    if (!ensurePeerReady('请先完成 P2P 连接，再恢复对局。')) {
       return
     }
-    sendMessage({ type: 'proposeEndNow', roundId: currentRoundId })
-    setInfoMessage('已向对方发出“立即结束本局”的提议。')
+    dispatch({ type: 'resume' })
+  }
+
+  const handleAcceptIncomingPause = () => {
+    dispatch({ type: 'answerPause', accept: true })
+  }
+
+  const handleRejectIncomingPause = () => {
+    dispatch({ type: 'answerPause', accept: false })
   }
 
   const handleAcceptIncomingEndChange = () => {
-    if (!incomingEndChange || !currentRoundId) return
-    applyEndTimeUpdate(incomingEndChange.proposedEndTime)
-    sendMessage({
-      type: 'acceptEndChange',
-      roundId: currentRoundId,
-      proposedEndTime: incomingEndChange.proposedEndTime,
-    })
-    setIncomingEndChange(null)
-    setInfoMessage('你已同意修改结束时间，已同步更新。')
+    dispatch({ type: 'answerEndChange', accept: true })
   }
 
   const handleRejectIncomingEndChange = () => {
-    if (!incomingEndChange || !currentRoundId) return
-    sendMessage({
-      type: 'rejectEndChange',
-      roundId: currentRoundId,
-      proposedEndTime: incomingEndChange.proposedEndTime,
-    })
-    setIncomingEndChange(null)
-    setInfoMessage('你已拒绝本次结束时间修改，本局保持原结束时间。')
+    dispatch({ type: 'answerEndChange', accept: false })
   }
 
   const handleAcceptIncomingEndNow = () => {
-    if (!currentRoundId) return
-    applyImmediateEndLocal()
-    sendMessage({ type: 'acceptEndNow', roundId: currentRoundId })
-    setInfoMessage('你已同意立即结束，本局已结束。')
+    dispatch({ type: 'answerEndNow', accept: true })
   }
 
   const handleRejectIncomingEndNow = () => {
-    if (!currentRoundId) return
-    setIncomingEndNow(false)
-    sendMessage({ type: 'rejectEndNow', roundId: currentRoundId })
-    setInfoMessage('你已拒绝立即结束，本局继续进行。')
+    dispatch({ type: 'answerEndNow', accept: false })
   }
 
   const handleSelectRole = (nextRole: Role) => {
-    if (roleLocked && lockedRole && lockedRole !== nextRole) {
-      setRoleSyncMessage('角色已锁定，如需更换阵营，请断开当前连接并重新进入房间。')
-      return
-    }
-    setLockedRole(nextRole)
-    setRoleLocked(true)
-    setRoleSyncMessage(`角色已锁定：${formatRoleLabel(nextRole)}。`)
+    dispatch({ type: 'selectRole', role: nextRole })
+  }
+
+  const handleChangeTeamCount = (count: number) => {
+    const names = Object.fromEntries(teams.map((team) => [team.id, team.name]))
+    dispatch({ type: 'setTeams', teams: createTeams(count, names) })
   }
 
-  const handleVote = () => {
+  const handleRenameTeam = (id: Role, name: string) => {
+    const names = Object.fromEntries(teams.map((team) => [team.id, team.name]))
+    dispatch({ type: 'setTeams', teams: createTeams(teams.length, { ...names, [id]: name }) })
+  }
+
+  const handleVote = (kind?: VoteKind, target?: Role) => {
     if (historyViewSnapshot) {
       setError('当前正在查看历史对局（只读），无法投票，请先返回当前会话。')
       return
     }
-    if (!lockedRole) {
-      setError('角色尚未锁定，请先在步骤 1 中选择阵营。')
+    if (!ensurePeerReady('连接尚未建立，无法投票。')) {
       return
     }
-    if (connectionStatus !== 'connected') {
-      setError('连接尚未建立，无法投票。')
+    setVoteIgnoreMessage(null)
+    dispatch({ type: 'castVote', ...(kind ? { kind } : {}), ...(target ? { target } : {}) })
+  }
+
+  const handleUndoVote = () => {
+    if (historyViewSnapshot) {
+      setError('当前正在查看历史对局（只读），无法撤销投票。')
       return
     }
-    if (gameState !== 'running' || !startTimeSec || !currentRoundId) {
-      setError('本局尚未开始或已经结束，无法继续投票。')
+    if (!ensurePeerReady('连接尚未建立，无法撤销投票。')) {
       return
     }
-    const nowSec = Math.floor(Date.now() / 1000)
-    const elapsed = Math.max(0, nowSec - startTimeSec)
-    const target: Role = lockedRole === 'red' ? 'blue' : 'red'
-    applyVote(target, elapsed)
-    sendMessage({ type: 'vote', roundId: currentRoundId, target, at: elapsed })
+    if (!peerSupports(peerProtocol, 'undo')) {
+      setError('对方页面版本较旧，不支持撤销投票，请让对方刷新页面后重新连接。')
+      return
+    }
+    dispatch({ type: 'requestUndo' })
   }
 
-  const isConnected = connectionStatus === 'connected'
+  const handleAnswerIncomingUndo = (accept: boolean) => {
+    dispatch({ type: 'answerUndo', accept })
+  }
 
   const liveTotalDurationSec = useMemo(() => {
-    if (!startTimeSec || !resolvedEndTimeSec) return null
-    return Math.max(0, resolvedEndTimeSec - startTimeSec)
-  }, [resolvedEndTimeSec, startTimeSec])
+    if (!startTimeSec || !endTimeSec) return null
+    return Math.max(0, endTimeSec - startTimeSec)
+  }, [endTimeSec, startTimeSec])
 
   const gameDuration = liveTotalDurationSec
 
-  const displayResolvedEndTimeSec = resolvedEndTimeSec
+  const displayResolvedEndTimeSec = endTimeSec ? toLocalSeconds(clock, endTimeSec) : endTimeSec
 
   const liveTimeLabel = useMemo(() => {
     if (!endTimeSec || gameState === 'idle') {
       return '--:--'
     }
+    if (gameState === 'running' && isSuddenDeath(scoring, overtime)) {
+      return '突然死亡'
+    }
     const totalSeconds = Math.max(0, timeRemaining)
     const minutes = Math.floor(totalSeconds / 60)
     const seconds = totalSeconds % 60
     return `${minutes}:${seconds.toString().padStart(2, '0')}`
-  }, [endTimeSec, gameState, timeRemaining])
+  }, [endTimeSec, gameState, overtime, scoring, timeRemaining])
 
   const displayTimeLabel = liveTimeLabel
 
   const displayScores = scores
 
-  const displayGameId = currentGameId
+  const displayGameId = currentRoundId
 
   const shareUrl = useMemo(() => {
-    if (connectionMode !== 'offer') {
-      return ''
-    }
     if (!localSdp) {
       return ''
     }
     try {
+      if (connectionMode === 'answer') {
+        return buildAnswerLink(window.location.href, localSdp)
+      }
       const url = new URL(window.location.href)
-      url.searchParams.set('sdp', toBase64Url(localSdp))
+      url.searchParams.set('sdp', signalToUrlParam(localSdp))
       return url.toString()
     } catch (e) {
       console.error(e)
@@ -2260,76 +2377,31 @@ function App() {
 
   const resultLabel = useMemo(() => {
     if (!currentRoundId || !startTimeSec) return '等待本局开始'
+    if (isMultiTeam(teams)) {
+      const leader = roundWinner(scores)
+      return leader ? `当前：${teamName(teams, leader)}领先` : '当前：并列领先'
+    }
     if (scoreDiff === 0) return '当前：平局'
     if (scoreDiff > 0) return `当前：红方领先 ${scoreDiff}`
     return `当前：蓝方领先 ${Math.abs(scoreDiff)}`
-  }, [currentRoundId, scoreDiff, startTimeSec])
+  }, [currentRoundId, scoreDiff, scores, startTimeSec, teams])
 
   const chartData = useMemo(() => {
-    const baseEvents: VoteEvent[] = voteEvents
-
-    const durationFromTimes = liveTotalDurationSec ?? 0
-
-    const maxElapsedFromVotes =
-      baseEvents.length > 0 ? Math.max(...baseEvents.map((event) => event.elapsed)) : 0
-
-    const finalDuration = Math.max(durationFromTimes, maxElapsedFromVotes)
-    const idForChart = currentRoundId
-    if (!idForChart || finalDuration <= 0) return []
-
-    const points: { second: number; red: number; blue: number }[] = []
-    let redAcc = 0
-    let blueAcc = 0
-
-    for (let second = 0; second <= finalDuration; second += 1) {
-      baseEvents.forEach((event) => {
-        if (event.elapsed === second) {
-          if (event.target === 'red') {
-            redAcc += 1
-          } else {
-            blueAcc += 1
-          }
-        }
-      })
-      points.push({ second, red: redAcc, blue: blueAcc })
-    }
-
-    return points
-  }, [currentRoundId, liveTotalDurationSec, voteEvents])
+    if (!currentRoundId) return []
+    return buildScoreSeries(voteEvents, liveTotalDurationSec ?? 0, scoring, teamIdsOf(teams))
+  }, [currentRoundId, liveTotalDurationSec, scoring, teams, voteEvents])
 
-  const buildChartDataForSnapshot = (snapshot: GameSnapshot) => {
-    const baseEvents: VoteEvent[] = snapshot.events.map((event) => ({
-      target: event.target,
-      elapsed: event.at,
-    }))
-
-    const durationFromTimes = Math.max(0, snapshot.endTimeSec - snapshot.startTimeSec)
-
-    const maxElapsedFromVotes =
-      baseEvents.length > 0 ? Math.max(...baseEvents.map((event) => event.elapsed)) : 0
-
-    const finalDuration = Math.max(durationFromTimes, maxElapsedFromVotes)
-    if (finalDuration <= 0) return [] as { second: number; red: number; blue: number }[]
-
-    const points: { second: number; red: number; blue: number }[] = []
-    let redAcc = 0
-    let blueAcc = 0
+  const pauseAreas = useMemo(
+    () => (startTimeSec ? pauseRanges(pauses, startTimeSec, liveTotalDurationSec ?? 0) : []),
+    [liveTotalDurationSec, pauses, startTimeSec],
+  )
 
-    for (let second = 0; second <= finalDuration; second += 1) {
-      baseEvents.forEach((event) => {
-        if (event.elapsed === second) {
-          if (event.target === 'red') {
-            redAcc += 1
-          } else {
-            blueAcc += 1
-          }
-        }
-      })
-      points.push({ second, red: redAcc, blue: blueAcc })
-    }
+  const filteredHistory = useMemo(() => queryHistory(historyIndex, historyQuery), [historyIndex, historyQuery])
+  const historyWinnerOptions = useMemo(() => winnerFilterOptions(historyIndex), [historyIndex])
+  const historyPageView = pageOf(filteredHistory, historyPage)
 
-    return points
-  }
+  const overtimeArea =
+    overtime && startTimeSec ? overtimeRange(overtime, startTimeSec, chartData[chartData.length - 1]?.second ?? 0) : null
 
   const pendingEndChangeSummary = useMemo(() => {
     if (!incomingEndChange) return null
@@ -2346,18 +2418,20 @@ function App() {
       }
     }
     return {
-      proposedLabel: formatUnixSecondsToLocal(proposed),
-      currentLabel: formatUnixSecondsToLocal(current ?? null),
+      proposedLabel: formatUnixSecondsToLocal(toLocalSeconds(clock, proposed)),
+      currentLabel: formatUnixSecondsToLocal(current ? toLocalSeconds(clock, current) : null),
       diffText,
     }
-  }, [endTimeSec, incomingEndChange])
+  }, [clock, endTimeSec, incomingEndChange])
 
   const gameStateLabel: string = (() => {
     switch (gameState) {
       case 'idle':
         return '未开始'
       case 'running':
-        return '进行中'
+        if (countingDown) return `倒计时 ${startsIn}`
+        if (paused) return '已暂停'
+        return overtime ? formatOvertimePhase(scoring, overtime) : '进行中'
       case 'ended':
         return '已结束'
       default:
@@ -2403,44 +2477,65 @@ function App() {
     setStatusMessage('')
     resetAutoSignalFlags()
     resetAutoReconnectState()
+    leaveRoom()
   }
 
-  const handleChangeHistoryTab = (value: string) => {
-    setActiveTabKey(value)
-    if (value === 'current' || value === 'history-list') {
-      setHistoryViewSnapshot(null)
-      return
-    }
-    if (value.startsWith('hist-')) {
-      const gameId = value.slice(5)
-      const cached = historyViewSnapshots[gameId]
-      if (cached) {
-        setHistoryViewSnapshot(cached)
-        setOfflineSnapshotMode(false)
-        setVoteIgnoreMessage(null)
-        setHistoryError(null)
+  const handleChangeHistoryTab = async (value: string) => {
+    selectTab(value)
+    if (!value.startsWith('hist-')) return
+    try {
+      const snapshot = await loadHistorySnapshot(value.slice(5))
+      if (!snapshot) {
+        setHistoryError('找不到该对局的快照，本地记录可能已被清理。')
         return
       }
-      try {
-        const raw = window.localStorage.getItem(getSnapshotStorageKey(gameId))
-        if (!raw) {
-          setHistoryError('找不到该对局的快照，本地记录可能已被清理。')
-          return
-        }
-        const parsed = JSON.parse(raw) as GameSnapshot
-        if (!parsed || !parsed.gameId) {
-          setHistoryError('快照数据格式异常，无法加载历史对局。')
-          return
-        }
-        setHistoryViewSnapshots((prev) => ({ ...prev, [gameId]: parsed }))
-        setHistoryViewSnapshot(parsed)
-        setOfflineSnapshotMode(false)
-        setVoteIgnoreMessage(null)
-        setHistoryError(null)
-      } catch (e) {
-        console.error(e)
-        setHistoryError('加载历史对局失败，请稍后重试。')
-      }
+      showHistoryGame(snapshot)
+      setOfflineSnapshotMode(false)
+      setVoteIgnoreMessage(null)
+      setHistoryError(null)
+    } catch (e) {
+      console.error(e)
+      setHistoryError('加载历史对局失败，请稍后重试。')
+    }
+  }
+
+  // 只有发起方推送观战数据；计时刷新不会产生消息，只有比分、事件或结束时间变化时才推送
+  useEffect(() => {
+    if (connectionMode !== 'offer') return
+    publishToSpectators(engine, () => sharedNowMs(engine.clock, Date.now()))
+  }, [connectionMode, engine, publishToSpectators])
+
+  const handleCopySpectatorLink = async (id: string, offer: string) => {
+    try {
+      await navigator.clipboard.writeText(buildSpectatorLink(window.location.href, offer))
+      setSpectatorCopyId(id)
+    } catch (e) {
+      console.error(e)
+      setError('复制观战链接失败，请手动选择文本复制。')
+    }
+  }
+
+  const handleApplySpectatorAnswer = async (id: string) => {
+    const ok = await acceptSpectatorAnswer(id, spectatorAnswerInputs[id] ?? '')
+    if (!ok) {
+      setError('观众的 Answer 无效，请让对方重新复制后再试。')
+    }
+  }
+
+  const handleCopyPlayerLink = async (team: Role, offer: string) => {
+    try {
+      await navigator.clipboard.writeText(buildPlayerLink(window.location.href, offer))
+      setPlayerCopyTeam(team)
+    } catch (e) {
+      console.error(e)
+      setError('复制加入链接失败，请手动选择文本复制。')
+    }
+  }
+
+  const handleApplyPlayerAnswer = async (team: Role) => {
+    const ok = await acceptPlayerAnswer(team, playerAnswerInputs[team] ?? '')
+    if (!ok) {
+      setError(`${teamName(teams, team)}的 Answer 无效，请让对方重新复制后再试。`)
     }
   }
 
@@ -2448,11 +2543,7 @@ function App() {
     if (event && typeof event.stopPropagation === 'function') {
       event.stopPropagation()
     }
-    setOpenHistoryTabs((prev) => prev.filter((item) => item.gameId !== gameId))
-    if (activeTabKey === `hist-${gameId}`) {
-      setActiveTabKey('current')
-      setHistoryViewSnapshot(null)
-    }
+    closeHistoryTab(gameId)
   }
 
   return (
@@ -2490,9 +2581,7 @@ function App() {
                 <span>
                   你的阵营{roleLocked ? '（已锁定）' : '（未锁定）'}：
                   <span className='font-medium text-slate-900'>
-                    {lockedRole === 'red' && '红方 Red'}
-                    {lockedRole === 'blue' && '蓝方 Blue'}
-                    {!lockedRole && '未锁定'}
+                    {lockedRole ? roleLabel(lockedRole) : '未锁定'}
                   </span>
                 </span>
                 <Separator orientation='vertical' className='h-3.5 bg-slate-200' />
@@ -2660,6 +2749,9 @@ function App() {
               <TabsTrigger value='history-list' className='px-3 py-1 text-[11px]'>
                 历史记录
               </TabsTrigger>
+              <TabsTrigger value='stats' className='px-3 py-1 text-[11px]'>
+                统计
+              </TabsTrigger>
               {openHistoryTabs.map((tab) => (
                 <TabsTrigger
                   key={tab.gameId}
@@ -2703,51 +2795,117 @@ function App() {
                   </div>
                 </CardHeader>
                 <CardContent className='space-y-3'>
-                  <div className='grid grid-cols-2 gap-3'>
-                    <Button
-                      type='button'
-                      variant={lockedRole === 'red' ? 'default' : 'outline'}
-                      className={`flex h-16 flex-col items-start justify-center gap-1 rounded-xl border text-left text-xs md:h-20 md:text-sm ${
-                        lockedRole === 'red'
-                          ? 'border-rose-500 bg-rose-50 text-rose-700 hover:bg-rose-100'
-                          : 'border-slate-200 bg-white text-slate-700 hover:bg-rose-50/60 hover:text-rose-700'
-                      }`}
-                      onClick={() => handleSelectRole('red')}
-                      disabled={roleLocked}
-                    >
-                      <span className='inline-flex items-center gap-2'>
-                        <span className='inline-flex h-5 w-5 items-center justify-center rounded-full bg-rose-500 text-[11px] font-semibold text-white'>
-                          R
+                  {connectionMode === 'offer' && !sessionId && (
+                    <div className='space-y-2 rounded-xl border border-slate-100 bg-slate-50/70 p-3'>
+                      <div className='flex flex-wrap items-center gap-2 text-[11px] text-slate-600'>
+                        <span>队伍数：</span>
+                        {Array.from({ length: MAX_TEAMS - MIN_TEAMS + 1 }, (_, index) => MIN_TEAMS + index).map(
+                          (count) => (
+                            <Button
+                              key={count}
+                              type='button'
+                              size='sm'
+                              variant={teams.length === count ? 'default' : 'outline'}
+                              className='h-7 rounded-full px-3 text-[11px]'
+                              onClick={() => handleChangeTeamCount(count)}
+                              disabled={gameState === 'running'}
+                            >
+                              {count} 队
+                            </Button>
+                          ),
+                        )}
+                      </div>
+                      {multiTeamGame && (
+                        <div className='grid grid-cols-2 gap-2 md:grid-cols-3'>
+                          {teams.map((team) => (
+                            <label key={team.id} className='flex items-center gap-1.5 text-[11px] text-slate-600'>
+                              <span
+                                className='h-3 w-3 shrink-0 rounded-full'
+                                style={{ backgroundColor: team.color }}
+                              />
+                              <Input
+                                value={team.name}
+                                maxLength={24}
+                                onChange={(event) => handleRenameTeam(team.id, event.target.value)}
+                                className='h-7 rounded-lg border-slate-200 bg-white text-[11px]'
+                              />
+                            </label>
+                          ))}
+                        </div>
+                      )}
+                      <p className='text-[11px] text-slate-500'>
+                        3 队及以上时由发起方居中中继（星形连接）：主连接之外的队伍在连接后通过“邀请其他队伍”加入，每队可为除本队以外的任意一队加分。
+                      </p>
+                    </div>
+                  )}
+                  {multiTeamGame ? (
+                    <div className='grid grid-cols-2 gap-3 md:grid-cols-3'>
+                      {teams.map((team) => (
+                        <Button
+                          key={team.id}
+                          type='button'
+                          variant='outline'
+                          className={`flex h-14 flex-col items-start justify-center gap-1 rounded-xl border text-left text-xs md:text-sm ${
+                            lockedRole === team.id ? 'bg-slate-50' : 'border-slate-200 bg-white text-slate-700'
+                          }`}
+                          style={lockedRole === team.id ? { borderColor: team.color, color: team.color } : undefined}
+                          onClick={() => handleSelectRole(team.id)}
+                          disabled={roleLocked || connectionMode === 'answer'}
+                        >
+                          <span className='inline-flex items-center gap-2'>
+                            <span className='h-3 w-3 rounded-full' style={{ backgroundColor: team.color }} />
+                            <span className='font-semibold'>{team.name}</span>
+                          </span>
+                        </Button>
+                      ))}
+                    </div>
+                  ) : (
+                    <div className='grid grid-cols-2 gap-3'>
+                      <Button
+                        type='button'
+                        variant={lockedRole === 'red' ? 'default' : 'outline'}
+                        className={`flex h-16 flex-col items-start justify-center gap-1 rounded-xl border text-left text-xs md:h-20 md:text-sm ${
+                          lockedRole === 'red'
+                            ? 'border-rose-500 bg-rose-50 text-rose-700 hover:bg-rose-100'
+                            : 'border-slate-200 bg-white text-slate-700 hover:bg-rose-50/60 hover:text-rose-700'
+                        }`}
+                        onClick={() => handleSelectRole('red')}
+                        disabled={roleLocked}
+                      >
+                        <span className='inline-flex items-center gap-2'>
+                          <span className='inline-flex h-5 w-5 items-center justify-center rounded-full bg-rose-500 text-[11px] font-semibold text-white'>
+                            R
+                          </span>
+                          <span className='font-semibold'>红方 Red</span>
                         </span>
-                        <span className='font-semibold'>红方 Red</span>
-                      </span>
-                      <span className='text-[11px] text-rose-700/80'>
-                        你看到的是“为蓝方 +1”的按钮。
-                      </span>
-                    </Button>
+                        <span className='text-[11px] text-rose-700/80'>
+                          你看到的是“为蓝方 +1”的按钮。
+                        </span>
+                      </Button>
 
-                    <Button
-                      type='button'
-                      variant={lockedRole === 'blue' ? 'default' : 'outline'}
-                      className={`flex h-16 flex-col items-start justify-center gap-1 rounded-xl border text-left text-xs md:h-20 md:text-sm ${
-                        lockedRole === 'blue'
-                          ? 'border-sky-500 bg-sky-50 text-sky-700 hover:bg-sky-100'
-                          : 'border-slate-200 bg-white text-slate-700 hover:bg-sky-50/60 hover:text-sky-700'
-                      }`}
-                      onClick={() => handleSelectRole('blue')}
-                      disabled={roleLocked}
-                    >
-                      <span className='inline-flex items-center gap-2'>
-                        <span className='inline-flex h-5 w-5 items-center justify-center rounded-full bg-sky-500 text-[11px] font-semibold text-white'>
-                          B
+                      <Button
+                        type='button'
+                        variant={lockedRole === 'blue' ? 'default' : 'outline'}
+                        className={`flex h-16 flex-col items-start justify-center gap-1 rounded-xl border text-left text-xs md:h-20 md:text-sm ${
+                          lockedRole === 'blue'
+                            ? 'border-sky-500 bg-sky-50 text-sky-700 hover:bg-sky-100'
+                            : 'border-slate-200 bg-white text-slate-700 hover:bg-sky-50/60 hover:text-sky-700'
+                        }`}
+                        onClick={() => handleSelectRole('blue')}
+                        disabled={roleLocked}
+                      >
+                        <span className='inline-flex items-center gap-2'>
+                          <span className='inline-flex h-5 w-5 items-center justify-center rounded-full bg-sky-500 text-[11px] font-semibold text-white'>
+                            B
+                          </span>
+                          <span className='font-semibold'>蓝方 Blue</span>
                         </span>
-                        <span className='font-semibold'>蓝方 Blue</span>
-                      </span>
-                      <span className='text-[11px] text-sky-700/80'>
-                        你看到的是“为红方 +1”的按钮。
-                      </span>
-                    </Button>
-                  </div>
+                        <span className='text-[11px] text-sky-700/80'>
+                          你看到的是“为红方 +1”的按钮。
+                        </span>
+                      </Button>
+                    </div>
+                  )}
                   <p className='text-[11px] text-slate-500'>
                     建议一人选择红方、一人选择蓝方。角色在本次连接会话内锁定，不随每局重置；发起方的选择为最终方案，加入方在连接建立后会自动被分配为相反颜色。
                   </p>
@@ -2766,13 +2924,121 @@ function App() {
                     <span>步骤 2 · 建立 P2P 连接</span>
                   </CardTitle>
                   <CardDescription className='text-xs text-slate-600'>
-                    一人作为“创建房间”，另一人作为“加入房间”，通过复制粘贴 Offer / Answer 完成信令交换。
+                    一人作为“创建房间”，另一人作为“加入房间”。同一台设备上的两个标签页可直接自动配对，局域网内运行了信令服务器时可用房间码配对，否则通过复制粘贴 Offer / Answer 完成信令交换。
                   </CardDescription>
                 </CardHeader>
                 <CardContent className='space-y-4'>
-                  <Tabs
-                    value={connectionMode}
-                    onValueChange={(value) => handleChangeConnectionMode(value as ConnectionMode)}
+                  <div className='space-y-2 rounded-xl border border-slate-200 bg-slate-50/70 p-3'>
+                    <div className='flex items-center justify-between gap-2'>
+                      <span className='text-[11px] font-medium text-slate-700'>自动信令（可选）</span>
+                      {primaryTransportKind !== 'manual' && (
+                        <Badge
+                          variant='outline'
+                          className='border-slate-200 bg-white font-mono text-[11px] font-normal text-slate-700'
+                        >
+                          {activeRoomCode ?? '本机标签页'} · {ROOM_STATUS_LABELS[roomStatus]}
+                        </Badge>
+                      )}
+                    </div>
+                    {primaryTransportKind === 'manual' && (
+                      <div className='flex flex-wrap items-center gap-2'>
+                        <span className='text-[11px] text-slate-600'>同一设备：</span>
+                        <Button
+                          type='button'
+                          size='sm'
+                          className='h-8 rounded-full bg-slate-900 px-3 text-[11px] text-slate-50 hover:bg-slate-800'
+                          onClick={handleSameDeviceHost}
+                        >
+                          本页发起
+                        </Button>
+                        <Button
+                          type='button'
+                          size='sm'
+                          variant='outline'
+                          className='h-8 rounded-full px-3 text-[11px]'
+                          onClick={handleSameDeviceJoin}
+                        >
+                          本页加入
+                        </Button>
+                        <span className='text-[11px] text-slate-500'>
+                          在另一个标签页点另一个按钮即可自动连接，无需复制粘贴。
+                        </span>
+                      </div>
+                    )}
+                    <div className='flex flex-wrap items-center gap-2'>
+                      <Input
+                        className='h-8 min-w-[12rem] flex-1 rounded-full border-slate-200 bg-white px-3 font-mono text-[11px]'
+                        value={roomServerUrl}
+                        onChange={(e) => setRoomServerUrl(e.target.value)}
+                        placeholder='ws://192.168.1.10:8787'
+                        disabled={primaryTransportKind !== 'manual'}
+                      />
+                    </div>
+                    {primaryTransportKind !== 'manual' ? (
+                      <div className='flex flex-wrap items-center gap-2'>
+                        <span className='text-[11px] text-slate-600'>
+                          {primaryTransportKind === 'same-device'
+                            ? connectionMode === 'offer'
+                              ? '在本机另一个标签页点“本页加入”，配对后会自动交换信令。'
+                              : '正在等待本机发起方标签页，收到 Offer 后会自动回复 Answer。'
+                            : connectionMode === 'offer'
+                              ? '把房间码告诉对方，对方加入后会自动交换信令。'
+                              : '已加入房间，收到 Offer 后会自动回复 Answer。'}
+                        </span>
+                        <Button
+                          type='button'
+                          size='sm'
+                          variant='outline'
+                          className='h-7 rounded-full px-3 text-[11px]'
+                          onClick={leaveRoom}
+                        >
+                          {primaryTransportKind === 'same-device' ? '取消配对' : '离开房间'}
+                        </Button>
+                      </div>
+                    ) : (
+                      <div className='flex flex-wrap items-center gap-2'>
+                        <Button
+                          type='button'
+                          size='sm'
+                          className='h-8 rounded-full bg-slate-900 px-3 text-[11px] text-slate-50 hover:bg-slate-800'
+                          onClick={handleCreateRoom}
+                        >
+                          创建房间码
+                        </Button>
+                        <Input
+                          className='h-8 w-28 rounded-full border-slate-200 bg-white px-3 font-mono text-[11px] uppercase'
+                          value={roomCodeInput}
+                          onChange={(e) => setRoomCodeInput(e.target.value)}
+                          placeholder='房间码'
+                          maxLength={12}
+                        />
+                        <Button
+                          type='button'
+                          size='sm'
+                          variant='outline'
+                          className='h-8 rounded-full px-3 text-[11px]'
+                          onClick={handleJoinRoom}
+                        >
+                          加入
+                        </Button>
+                      </div>
+                    )}
+                    {roomStatusDetail && (
+                      <p
+                        className={`text-[11px] ${
+                          roomStatus === 'error' ? 'text-rose-600' : 'text-slate-600'
+                        }`}
+                      >
+                        {roomStatusDetail}
+                      </p>
+                    )}
+                    <p className='text-[11px] text-slate-500'>
+                      房间码需要局域网信令服务器（pnpm signal-server），服务器只转发信令，对局数据仍走 P2P。
+                    </p>
+                  </div>
+                  <Tabs
+                    value={connectionMode}
+                    onValueChange={(value) => handleChangeConnectionMode(value as ConnectionMode)}
                     className='w-full'
                   >
                     <TabsList className='grid w-full grid-cols-2 bg-slate-50'>
@@ -2831,10 +3097,10 @@ function App() {
                             className='h-28 resize-none rounded-xl border-slate-200 bg-slate-50 text-[11px]'
                             value={localSdp}
                             readOnly
-                            placeholder='点击“生成 Offer”后，这里会出现 JSON 文本。请完整复制，勿修改任意字符。'
+                            placeholder='点击“生成 Offer”后，这里会出现一段信令文本。请完整复制，勿修改任意字符。'
                           />
                           <div className='flex items-center justify-between gap-2 text-[11px] text-slate-500'>
-                            <span>文本为标准 JSON 字符串，包含 SDP 与 ICE 信息。</span>
+                            <span>文本为压缩后的紧凑信令，只包含建立连接所需的 ICE 与 DTLS 信息。</span>
                             <Tooltip>
                               <TooltipTrigger asChild>
                                 <Button
@@ -2883,18 +3149,51 @@ function App() {
                               复制分享链接
                             </Button>
                           </div>
+                          <div className='flex justify-end'>
+                            <Button
+                              type='button'
+                              variant='outline'
+                              size='sm'
+                              className='inline-flex h-7 items-center gap-1 rounded-full border-slate-200 px-2 text-[11px]'
+                              onClick={() => setShowSignalQr((prev) => !prev)}
+                              disabled={!localSdp}
+                            >
+                              <QrCode className='h-3 w-3' />
+                              {showSignalQr ? '隐藏二维码' : '显示二维码'}
+                            </Button>
+                          </div>
+                          {showSignalQr && localSdp && (
+                            <SignalQrCode
+                              value={shareUrl || localSdp}
+                              caption={
+                                shareUrl
+                                  ? '对方用手机相机扫码即可打开分享链接并自动生成 Answer。'
+                                  : '对方可扫码或截图后在“从图片识别”中导入 Offer。'
+                              }
+                            />
+                          )}
                         </div>
                         <div className='space-y-1.5'>
                           <Label className='text-[11px] text-slate-700'>
-                            对方 Answer JSON（粘贴后点击应用）
+                            对方 Answer 文本（粘贴后点击应用）
                           </Label>
                           <Textarea
                             className='h-24 resize-none rounded-xl border-slate-200 bg-white text-[11px]'
                             value={remoteSdp}
                             onChange={(e) => setRemoteSdp(e.target.value)}
-                            placeholder='请让对方将 Answer JSON 文本发给你，完整粘贴在此处。'
+                            placeholder='请让对方将 Answer 文本或回传链接发给你，完整粘贴在此处。'
                           />
-                          <div className='flex justify-end'>
+                          <div className='flex justify-end gap-2'>
+                            <Button
+                              type='button'
+                              variant='outline'
+                              size='sm'
+                              className='inline-flex h-8 items-center gap-1 rounded-full border-slate-200 px-3 text-[11px]'
+                              onClick={() => qrImageInputRef.current?.click()}
+                            >
+                              <ImageUp className='h-3.5 w-3.5' />
+                              从图片识别二维码
+                            </Button>
                             <Button
                               type='button'
                               size='sm'
@@ -2913,9 +3212,9 @@ function App() {
                     <TabsContent value='answer' className='pt-4'>
                       <div className='space-y-3'>
                         <ol className='list-decimal space-y-1 pl-4 text-[11px] text-slate-600'>
-                          <li>从发起方处获取其生成的 Offer JSON 文本。</li>
+                          <li>从发起方处获取其生成的 Offer 文本或分享链接。</li>
                           <li>完整粘贴到下方输入框，点击“应用 Offer 并生成 Answer”。</li>
-                          <li>等待几秒钟，复制生成的 Answer 文本发回给对方即可。</li>
+                          <li>等待几秒钟，把生成的 Answer 文本或回传链接发回给对方即可。</li>
                         </ol>
                         <div className='flex flex-wrap items-center justify-between gap-2'>
                           <div className='flex items-center gap-2 text-[11px] text-slate-600'>
@@ -2939,14 +3238,26 @@ function App() {
                         </div>
                         <div className='space-y-1.5'>
                           <Label className='text-[11px] text-slate-700'>
-                            对方 Offer JSON（完整粘贴在此处）
+                            对方 Offer 文本（完整粘贴在此处）
                           </Label>
                           <Textarea
                             className='h-24 resize-none rounded-xl border-slate-200 bg-white text-[11px]'
                             value={remoteSdp}
                             onChange={(e) => setRemoteSdp(e.target.value)}
-                            placeholder='从发起方复制过来的 Offer JSON 文本，勿修改内容。'
+                            placeholder='从发起方复制过来的 Offer 文本，勿修改内容。'
                           />
+                          <div className='flex justify-end'>
+                            <Button
+                              type='button'
+                              variant='outline'
+                              size='sm'
+                              className='inline-flex h-7 items-center gap-1 rounded-full border-slate-200 px-2 text-[11px]'
+                              onClick={() => qrImageInputRef.current?.click()}
+                            >
+                              <ImageUp className='h-3 w-3' />
+                              从图片识别二维码
+                            </Button>
+                          </div>
                         </div>
                         <div className='space-y-1.5'>
                           <Label className='text-[11px] text-slate-700'>
@@ -2956,25 +3267,76 @@ function App() {
                             className='h-28 resize-none rounded-xl border-slate-200 bg-slate-50 text-[11px]'
                             value={localSdp}
                             readOnly
-                            placeholder='点击上方按钮后，这里会生成 Answer JSON 文本，请完整复制发给发起方。'
+                            placeholder='点击上方按钮后，这里会生成 Answer 文本，请完整复制发给发起方。'
                           />
                           <div className='flex flex-wrap items-center justify-between gap-2 text-[11px] text-slate-500'>
-                            <span>只有当此处出现完整 JSON 文本时，才说明 ICE 收集完成。</span>
+                            <span>只有当此处出现 Answer 文本时，才说明 ICE 收集完成。</span>
+                            <div className='flex gap-2'>
+                              <Button
+                                type='button'
+                                variant='outline'
+                                size='sm'
+                                className='inline-flex h-7 items-center gap-1 rounded-full border-slate-200 px-2 text-[11px]'
+                                onClick={() => setShowSignalQr((prev) => !prev)}
+                                disabled={!localSdp}
+                              >
+                                <QrCode className='h-3 w-3' />
+                                {showSignalQr ? '隐藏二维码' : '显示二维码'}
+                              </Button>
+                              <Button
+                                type='button'
+                                variant='outline'
+                                size='sm'
+                                className='h-7 rounded-full border-slate-200 px-2 text-[11px]'
+                                onClick={handleCopyLocalSdp}
+                                disabled={!localSdp}
+                              >
+                                复制 Answer 文本
+                              </Button>
+                            </div>
+                          </div>
+                          <div className='flex items-center justify-between gap-2 text-[11px] text-slate-500'>
+                            <Tooltip>
+                              <TooltipTrigger asChild>
+                                <span className={shareUrl ? 'text-slate-700' : 'text-slate-400'}>
+                                  回传链接（发起方在原标签页打开即自动连接）
+                                </span>
+                              </TooltipTrigger>
+                              <TooltipContent side='top' className='max-w-xs text-[11px]'>
+                                发起方把链接粘贴到原标签页的地址栏或 Answer 输入框即可；在新标签页打开时会自动转交给原标签页。
+                              </TooltipContent>
+                            </Tooltip>
                             <Button
                               type='button'
                               variant='outline'
                               size='sm'
-                              className='h-7 rounded-full border-slate-200 px-2 text-[11px]'
-                              onClick={handleCopyLocalSdp}
-                              disabled={!localSdp}
+                              className='inline-flex h-7 items-center gap-1 rounded-full border-slate-200 px-2 text-[11px]'
+                              onClick={handleCopyShareUrl}
+                              disabled={!shareUrl}
                             >
-                              复制 Answer JSON
+                              <Copy className='h-3 w-3' />
+                              复制回传链接
                             </Button>
                           </div>
+                          {showSignalQr && localSdp && (
+                            <SignalQrCode
+                              value={shareUrl || localSdp}
+                              caption='发起方可截图或拍下此二维码，在“从图片识别二维码”中导入 Answer。'
+                            />
+                          )}
                         </div>
                       </div>
                     </TabsContent>
                   </Tabs>
+                  <input
+                    ref={qrImageInputRef}
+                    type='file'
+                    accept='image/*'
+                    className='hidden'
+                    onChange={(event) => {
+                      void handleQrImageSelected(event)
+                    }}
+                  />
 
                   <div className='rounded-xl border border-dashed border-slate-200 bg-slate-50/80 p-3 text-[11px] text-slate-700'>
                     <div className='flex items-center justify-between gap-2'>
@@ -2997,10 +3359,10 @@ function App() {
                         <div>
                           <div className='text-slate-500'>PeerConnection 状态</div>
                           <div className='font-mono text-[11px] text-slate-900'>
-                            connectionState: {rtcConnectionState}
+                            connectionState: {peerDiagnostics.connectionState}
                           </div>
                           <div className='font-mono text-[11px] text-slate-900'>
-                            iceConnectionState: {rtcIceConnectionState}
+                            iceConnectionState: {peerDiagnostics.iceConnectionState}
                           </div>
                         </div>
                         <div>
@@ -3015,10 +3377,10 @@ function App() {
                         <div>
                           <div className='text-slate-500'>DataChannel &amp; ICE</div>
                           <div className='text-[11px] text-slate-900'>
-                            dataChannel.readyState：{dataChannelState}
+                            dataChannel.readyState：{peerDiagnostics.dataChannelState}
                           </div>
                           <div className='text-[11px] text-slate-900'>
-                            本地 ICE 候选数：{localIceCandidateCount}
+                            本地 ICE 候选数：{peerDiagnostics.localIceCandidateCount}
                           </div>
                         </div>
                         <div>
@@ -3030,10 +3392,57 @@ function App() {
                             remoteSdp.length：{remoteSdp ? remoteSdp.length : 0}
                           </div>
                         </div>
+                        <div>
+                          <div className='text-slate-500'>协议版本握手</div>
+                          <div className='text-[11px] text-slate-900'>
+                            本机 v{PROTOCOL_VERSION} · 对方{' '}
+                            {peerProtocol ? `v${peerProtocol.protocolVersion}` : '--'}
+                          </div>
+                          <div className='text-[11px] text-slate-900'>handshake：{handshake}</div>
+                        </div>
+                        <div>
+                          <div className='text-slate-500'>时钟同步</div>
+                          <div className='text-[11px] text-slate-900'>
+                            偏移：{connectionMode === 'offer' ? '0 ms（本机为基准）' : `${clock.offsetMs} ms`}
+                          </div>
+                          <div className='text-[11px] text-slate-900'>
+                            RTT：{clock.rttMs !== null ? `${clock.rttMs} ms` : '--'} · 采样{' '}
+                            {clock.samples.length}
+                          </div>
+                        </div>
+                        <div>
+                          <div className='text-slate-500'>投票送达</div>
+                          <div className='text-[11px] text-slate-900'>
+                            下一序号：{engine.nextVoteSeq} · 待确认：{pendingVotes.length}
+                          </div>
+                          <div className='text-[11px] text-slate-900'>
+                            比分校验：{scoreSync}
+                            {lastRepairSec && ` · 上次修复 ${new Date(lastRepairSec * 1000).toLocaleTimeString()}`}
+                          </div>
+                          <div className='text-[11px] text-slate-900'>
+                            已收到对方序号：
+                            {Object.entries(engine.peerVoteSeqs)
+                              .map(
+                                ([owner, window]) =>
+                                  `${owner} ≤${window.watermark}${
+                                    window.above.length > 0 ? `（另有 ${window.above.length} 条乱序）` : ''
+                                  }`,
+                              )
+                              .join('，') || '无'}
+                          </div>
+                        </div>
+                        <div>
+                          <div className='text-slate-500'>对方能力声明</div>
+                          <div className='break-all font-mono text-[11px] text-slate-900'>
+                            {peerProtocol && peerProtocol.capabilities.length > 0
+                              ? peerProtocol.capabilities.join(', ')
+                              : '--'}
+                          </div>
+                        </div>
                         <div className='md:col-span-2'>
                           <div className='text-slate-500'>最近错误</div>
                           <div className='text-[11px] text-slate-900'>
-                            {lastError || '暂无错误'}
+                            {peerDiagnostics.lastError || '暂无错误'}
                           </div>
                         </div>
                       </div>
@@ -3054,7 +3463,7 @@ function App() {
                     <span>协商修改结束时间 / 立即结束</span>
                   </CardTitle>
                   <CardDescription className='text-xs text-slate-600'>
-                    在本局进行中，可向对方提议调整结束时间或立即结束，只有对方同意后才会真正生效。
+                    在本局进行中，可向对方提议调整结束时间、暂停或立即结束，只有对方同意后才会真正生效；暂停后任意一方都可以恢复对局。
                   </CardDescription>
                 </CardHeader>
                 <CardContent className='space-y-3'>
@@ -3081,10 +3490,35 @@ function App() {
                       variant='outline'
                       className='h-8 rounded-full border-slate-200 px-3 text-[11px] text-slate-700 disabled:cursor-not-allowed disabled:opacity-60'
                       onClick={handleProposeEndChange}
-                      disabled={!isConnected || gameState !== 'running' || !currentRoundId}
+                      disabled={!isConnected || gameState !== 'running' || !currentRoundId || paused}
                     >
                       提议延后/提前结束时间
                     </Button>
+                    {paused ? (
+                      <Button
+                        type='button'
+                        size='sm'
+                        variant='outline'
+                        className='h-8 rounded-full border-emerald-200 bg-emerald-50 px-3 text-[11px] text-emerald-700 disabled:cursor-not-allowed disabled:opacity-60'
+                        onClick={handleResume}
+                        disabled={!isConnected}
+                      >
+                        <Play className='mr-1 h-3 w-3' />
+                        恢复对局
+                      </Button>
+                    ) : (
+                      <Button
+                        type='button'
+                        size='sm'
+                        variant='outline'
+                        className='h-8 rounded-full border-amber-200 bg-amber-50 px-3 text-[11px] text-amber-800 disabled:cursor-not-allowed disabled:opacity-60'
+                        onClick={handleProposePause}
+                        disabled={!isConnected || gameState !== 'running' || !currentRoundId}
+                      >
+                        <Pause className='mr-1 h-3 w-3' />
+                        提议暂停
+                      </Button>
+                    )}
                     <Button
                       type='button'
                       size='sm'
@@ -3103,6 +3537,172 @@ function App() {
                   )}
                 </CardContent>
               </Card>
+
+              {connectionMode === 'offer' && multiTeamGame && engine.sessionRoles && (
+                <Card className='border-slate-200/80 shadow-sm'>
+                  <CardHeader className='pb-3'>
+                    <CardTitle className='flex items-center gap-2 text-base'>
+                      <Users className='h-4 w-4 text-slate-500' />
+                      <span>邀请其他队伍</span>
+                    </CardTitle>
+                    <CardDescription className='text-xs text-slate-600'>
+                      主连接之外的每支队伍都与你单独建立连接，投票与协商消息由你中继给其他队伍。把加入链接发给对应队伍，再粘贴对方回传的 Answer。
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className='space-y-2'>
+                    {teams
+                      .filter(
+                        (team) =>
+                          team.id !== engine.sessionRoles?.hostRole && team.id !== engine.sessionRoles?.guestRole,
+                      )
+                      .map((team) => {
+                        const peer = players.find((item) => item.team === team.id)
+                        return (
+                          <div
+                            key={team.id}
+                            className='space-y-2 rounded-xl border border-slate-100 bg-slate-50/70 p-2 text-[11px] text-slate-600'
+                          >
+                            <div className='flex items-center justify-between gap-2'>
+                              <span className='inline-flex items-center gap-1.5'>
+                                <span className='h-2.5 w-2.5 rounded-full' style={{ backgroundColor: team.color }} />
+                                {team.name} · {peer ? PLAYER_STATUS_LABELS[peer.status] : '未邀请'}
+                              </span>
+                              {peer ? (
+                                <Button
+                                  type='button'
+                                  size='sm'
+                                  variant='ghost'
+                                  className='h-6 rounded-full px-2 text-[11px] text-slate-500'
+                                  onClick={() => removePlayer(team.id)}
+                                >
+                                  移除
+                                </Button>
+                              ) : (
+                                <Button
+                                  type='button'
+                                  size='sm'
+                                  variant='outline'
+                                  className='h-6 rounded-full border-slate-200 px-2 text-[11px]'
+                                  onClick={() => invitePlayer(team.id)}
+                                >
+                                  生成邀请
+                                </Button>
+                              )}
+                            </div>
+                            {peer?.status === 'waiting-answer' && (
+                              <div className='flex flex-wrap items-center gap-2'>
+                                <Button
+                                  type='button'
+                                  size='sm'
+                                  variant='outline'
+                                  className='h-7 rounded-full border-slate-200 px-3 text-[11px]'
+                                  onClick={() => handleCopyPlayerLink(team.id, peer.offer)}
+                                >
+                                  <Copy className='mr-1 h-3 w-3' />
+                                  {playerCopyTeam === team.id ? '已复制加入链接' : '复制加入链接'}
+                                </Button>
+                                <Input
+                                  className='h-7 min-w-0 flex-1 rounded-full border-slate-200 bg-white px-3 text-[11px]'
+                                  placeholder='粘贴该队回传的 Answer'
+                                  value={playerAnswerInputs[team.id] ?? ''}
+                                  onChange={(e) =>
+                                    setPlayerAnswerInputs((prev) => ({ ...prev, [team.id]: e.target.value }))
+                                  }
+                                />
+                                <Button
+                                  type='button'
+                                  size='sm'
+                                  className='h-7 rounded-full px-3 text-[11px]'
+                                  disabled={!playerAnswerInputs[team.id]}
+                                  onClick={() => handleApplyPlayerAnswer(team.id)}
+                                >
+                                  应用
+                                </Button>
+                              </div>
+                            )}
+                          </div>
+                        )
+                      })}
+                  </CardContent>
+                </Card>
+              )}
+
+              {connectionMode === 'offer' && (
+                <Card className='border-slate-200/80 shadow-sm'>
+                  <CardHeader className='pb-3'>
+                    <CardTitle className='flex items-center gap-2 text-base'>
+                      <Eye className='h-4 w-4 text-slate-500' />
+                      <span>邀请观众（只读观战）</span>
+                    </CardTitle>
+                    <CardDescription className='text-xs text-slate-600'>
+                      每位观众单独建立一条连接：把观战链接发给对方，再粘贴对方回传的 Answer。观众只能看到比分、倒计时与曲线，不能投票或参与协商。
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className='space-y-3'>
+                    <Button
+                      type='button'
+                      size='sm'
+                      variant='outline'
+                      className='h-8 rounded-full border-slate-200 px-3 text-[11px] text-slate-700'
+                      onClick={() => inviteSpectator()}
+                    >
+                      邀请一位观众
+                    </Button>
+                    {spectators.map((peer) => (
+                      <div
+                        key={peer.id}
+                        className='space-y-2 rounded-xl border border-slate-100 bg-slate-50/70 p-2 text-[11px] text-slate-600'
+                      >
+                        <div className='flex items-center justify-between gap-2'>
+                          <span>
+                            观众 {peer.id} · {SPECTATOR_STATUS_LABELS[peer.status]}
+                          </span>
+                          <Button
+                            type='button'
+                            size='sm'
+                            variant='ghost'
+                            className='h-6 rounded-full px-2 text-[11px] text-slate-500'
+                            onClick={() => removeSpectator(peer.id)}
+                          >
+                            移除
+                          </Button>
+                        </div>
+                        {peer.status === 'waiting-answer' && (
+                          <div className='flex flex-wrap items-center gap-2'>
+                            <Button
+                              type='button'
+                              size='sm'
+                              variant='outline'
+                              className='h-7 rounded-full border-slate-200 px-3 text-[11px]'
+                              onClick={() => handleCopySpectatorLink(peer.id, peer.offer)}
+                            >
+                              <Copy className='mr-1 h-3 w-3' />
+                              {spectatorCopyId === peer.id ? '已复制观战链接' : '复制观战链接'}
+                            </Button>
+                            <Input
+                              className='h-7 min-w-0 flex-1 rounded-full border-slate-200 bg-white px-3 text-[11px]'
+                              placeholder='粘贴观众回传的 Answer'
+                              value={spectatorAnswerInputs[peer.id] ?? ''}
+                              onChange={(e) =>
+                                setSpectatorAnswerInputs((prev) => ({ ...prev, [peer.id]: e.target.value }))
+                              }
+                            />
+                            <Button
+                              type='button'
+                              size='sm'
+                              className='h-7 rounded-full px-3 text-[11px]'
+                              disabled={!spectatorAnswerInputs[peer.id]}
+                              onClick={() => handleApplySpectatorAnswer(peer.id)}
+                            >
+                              应用
+                            </Button>
+                          </div>
+                        )}
+                      </div>
+                    ))}
+                  </CardContent>
+                </Card>
+              )}
             </div>
 
             <div className='flex flex-col gap-4 md:gap-5'>
@@ -3115,29 +3715,131 @@ function App() {
                 <CardHeader className='pb-3'>
                   <CardTitle className='flex items-center gap-2 text-base'>
                     <Timer className='h-4 w-4 text-slate-500' />
-                    <span>步骤 3 · 设置结束时间点并开始本局</span>
+                    <span>步骤 3 · 设置时长并开始本局</span>
                   </CardTitle>
                   <CardDescription className='text-xs text-slate-600'>
-                    开局时约定一个固定的结束时间点，到达该时间或双方同意立即结束时，本局自动锁定投票并生成统计与曲线。
+                    开局时约定本局时长（开局瞬间才换算成结束时间）或固定的结束时间点，到达该时间或双方同意立即结束时，本局自动锁定投票并生成统计与曲线。
                   </CardDescription>
                 </CardHeader>
                 <CardContent className='space-y-4'>
+                  <div className='space-y-2'>
+                    <Label className='text-[11px] text-slate-700'>预设</Label>
+                    <div className='flex flex-wrap items-center gap-2'>
+                      {presets.length === 0 && (
+                        <span className='text-[11px] text-slate-500'>
+                          还没有保存的预设，可在下方调整时长、赛制、投票限制与队名后保存。
+                        </span>
+                      )}
+                      {presets.map((preset) => (
+                        <span
+                          key={preset.id}
+                          className='inline-flex items-center overflow-hidden rounded-full border border-slate-200 bg-white text-[11px]'
+                        >
+                          <button
+                            type='button'
+                            className='px-2.5 py-1 text-slate-700 hover:bg-slate-50'
+                            onClick={() => handleApplyPreset(preset)}
+                            title={`${formatDurationLabel(preset.durationSec)} · ${
+                              preset.bestOf > 1 ? `BO${preset.bestOf}` : '单局'
+                            } · ${preset.teamNames.red} vs ${preset.teamNames.blue}`}
+                          >
+                            {preset.name}
+                          </button>
+                          <button
+                            type='button'
+                            className='border-l border-slate-200 px-1.5 py-1 text-slate-400 hover:bg-red-50 hover:text-red-600'
+                            onClick={() => deletePreset(preset.id)}
+                            aria-label={`删除预设 ${preset.name}`}
+                          >
+                            ×
+                          </button>
+                        </span>
+                      ))}
+                    </div>
+                    <div className='flex flex-wrap items-center gap-2'>
+                      <Input
+                        className='h-8 w-40 rounded-full border-slate-200 bg-white px-3 text-[11px]'
+                        value={presetNameInput}
+                        onChange={(e) => setPresetNameInput(e.target.value)}
+                        placeholder='预设名称，如“课堂 3 分钟”'
+                        maxLength={40}
+                      />
+                      <Button
+                        type='button'
+                        size='sm'
+                        variant='outline'
+                        className='h-8 rounded-full px-3 text-[11px]'
+                        onClick={handleSavePreset}
+                      >
+                        保存当前设置为预设
+                      </Button>
+                    </div>
+                  </div>
+
+                  <Separator className='my-2 bg-slate-100' />
+
                   <div className='flex flex-col gap-3 md:flex-row md:items-center md:justify-between'>
                     <div className='space-y-2'>
-                      <Label className='text-[11px] text-slate-700'>
-                        本局结束时间
-                      </Label>
                       <div className='flex items-center gap-2'>
-                        <Input
-                          type='datetime-local'
-                          className='h-8 rounded-full border-slate-200 bg-white px-3 text-[11px]'
-                          value={initialEndTimeInput}
-                          onChange={(e) => setInitialEndTimeInput(e.target.value)}
-                        />
-                        <span className='text-[11px] text-slate-500'>
-                          默认约为当前时间后 10 分钟，可按需调整。
-                        </span>
+                        <Label className='text-[11px] text-slate-700'>本局时长</Label>
+                        <div className='inline-flex rounded-full border border-slate-200 bg-slate-50 p-0.5 text-[11px]'>
+                          <button
+                            type='button'
+                            className={`rounded-full px-2 py-0.5 ${
+                              startMode === 'duration' ? 'bg-white font-medium text-slate-900 shadow-sm' : 'text-slate-500'
+                            }`}
+                            onClick={() => setStartMode('duration')}
+                          >
+                            按时长
+                          </button>
+                          <button
+                            type='button'
+                            className={`rounded-full px-2 py-0.5 ${
+                              startMode === 'endTime' ? 'bg-white font-medium text-slate-900 shadow-sm' : 'text-slate-500'
+                            }`}
+                            onClick={() => setStartMode('endTime')}
+                          >
+                            按结束时间点
+                          </button>
+                        </div>
                       </div>
+                      {startMode === 'duration' ? (
+                        <div className='flex flex-wrap items-center gap-2'>
+                          {QUICK_DURATIONS_SEC.map((option) => (
+                            <Button
+                              key={option}
+                              type='button'
+                              size='sm'
+                              variant={parseDuration(durationInput) === option ? 'default' : 'outline'}
+                              className='h-7 rounded-full px-3 text-[11px]'
+                              onClick={() => setDurationInput(formatDuration(option))}
+                            >
+                              {formatDurationLabel(option)}
+                            </Button>
+                          ))}
+                          <Input
+                            className='h-8 w-24 rounded-full border-slate-200 bg-white px-3 font-mono text-[11px]'
+                            value={durationInput}
+                            onChange={(e) => setDurationInput(e.target.value)}
+                            placeholder='mm:ss'
+                          />
+                          <span className='text-[11px] text-slate-500'>
+                            自定义 mm:ss，点击开始时才计算结束时间。
+                          </span>
+                        </div>
+                      ) : (
+                        <div className='flex items-center gap-2'>
+                          <Input
+                            type='datetime-local'
+                            className='h-8 rounded-full border-slate-200 bg-white px-3 text-[11px]'
+                            value={initialEndTimeInput}
+                            onChange={(e) => setInitialEndTimeInput(e.target.value)}
+                          />
+                          <span className='text-[11px] text-slate-500'>
+                            适合约定在某个固定时刻结束。
+                          </span>
+                        </div>
+                      )}
                     </div>
                     <div className='space-y-1 text-[11px] text-slate-600'>
                       <div>
@@ -3149,8 +3851,205 @@ function App() {
                         </span>
                       </div>
                       <div className='text-[11px] text-slate-500'>
-                        剩余时间根据各自浏览器时间计算，不要求双方系统时间完全一致。
+                        {connectionMode === 'answer' && clock.rttMs !== null
+                          ? `已与发起方校准时钟（本机偏差约 ${(clock.offsetMs / 1000).toFixed(1)} 秒），双方按同一时间线倒计时。`
+                          : '双方按发起方的时钟统一计时，加入方连接后会自动校准本机时间偏差。'}
+                      </div>
+                    </div>
+                  </div>
+
+                  <div className='space-y-2'>
+                    <Label className='text-[11px] text-slate-700'>赛制</Label>
+                    {connectionMode === 'offer' ? (
+                      <div className='flex flex-wrap items-center gap-2'>
+                        {BEST_OF_OPTIONS.map((option) => (
+                          <Button
+                            key={option}
+                            type='button'
+                            size='sm'
+                            variant={seriesBestOf === option ? 'default' : 'outline'}
+                            className='h-7 rounded-full px-3 text-[11px]'
+                            onClick={() => setSeriesBestOf(option)}
+                            disabled={seriesInProgress}
+                          >
+                            {option === 1 ? '单局' : `BO${option}`}
+                          </Button>
+                        ))}
+                        <span className='text-[11px] text-slate-500'>
+                          多局制下每局时长与第一局相同，一局结束后会自动开始下一局，先赢过半局数的一方获胜。
+                        </span>
+                      </div>
+                    ) : (
+                      <div className='text-[11px] text-slate-500'>
+                        {series
+                          ? `发起方已设置 BO${series.bestOf} 系列赛。`
+                          : '赛制由发起方设置，默认单局。'}
                       </div>
+                    )}
+                  </div>
+
+                  <div className='space-y-2'>
+                    <Label className='text-[11px] text-slate-700'>队名</Label>
+                    <div className='flex flex-wrap items-center gap-2'>
+                      <Input
+                        className='h-8 w-32 rounded-full border-rose-200 bg-rose-50/60 px-3 text-[11px]'
+                        value={teamNamesInput.red}
+                        onChange={(e) => setTeamNamesInput((prev) => ({ ...prev, red: e.target.value }))}
+                        placeholder={DEFAULT_TEAM_NAMES.red}
+                        maxLength={24}
+                      />
+                      <span className='text-[11px] text-slate-400'>vs</span>
+                      <Input
+                        className='h-8 w-32 rounded-full border-sky-200 bg-sky-50/60 px-3 text-[11px]'
+                        value={teamNamesInput.blue}
+                        onChange={(e) => setTeamNamesInput((prev) => ({ ...prev, blue: e.target.value }))}
+                        placeholder={DEFAULT_TEAM_NAMES.blue}
+                        maxLength={24}
+                      />
+                      <span className='text-[11px] text-slate-500'>开局时同步给对方，仅用于显示。</span>
+                    </div>
+                  </div>
+
+                  <div className='space-y-2'>
+                    <Label className='text-[11px] text-slate-700'>计分规则</Label>
+                    <div className='flex flex-wrap items-center gap-2 text-[11px] text-slate-600'>
+                      <span>每票</span>
+                      <Input
+                        type='number'
+                        min={1}
+                        className='h-8 w-16 rounded-full border-slate-200 bg-white px-3 text-[11px]'
+                        value={scoringInput.pointsPerVote}
+                        onChange={(e) => handleChangeScoringField('pointsPerVote', e.target.value, 1)}
+                      />
+                      <span>分；最后</span>
+                      <Input
+                        type='number'
+                        min={0}
+                        className='h-8 w-16 rounded-full border-slate-200 bg-white px-3 text-[11px]'
+                        value={scoringInput.finalWindowSec}
+                        onChange={(e) => handleChangeScoringField('finalWindowSec', e.target.value, 0)}
+                      />
+                      <span>秒 ×</span>
+                      <Input
+                        type='number'
+                        min={1}
+                        className='h-8 w-14 rounded-full border-slate-200 bg-white px-3 text-[11px]'
+                        value={scoringInput.finalMultiplier}
+                        onChange={(e) => handleChangeScoringField('finalMultiplier', e.target.value, 1)}
+                      />
+                      <span>倍；偷分</span>
+                      <Input
+                        type='number'
+                        min={0}
+                        className='h-8 w-14 rounded-full border-slate-200 bg-white px-3 text-[11px]'
+                        value={scoringInput.stealPoints}
+                        onChange={(e) => handleChangeScoringField('stealPoints', e.target.value, 0)}
+                      />
+                      <span>分；封顶</span>
+                      <Input
+                        type='number'
+                        min={0}
+                        className='h-8 w-16 rounded-full border-slate-200 bg-white px-3 text-[11px]'
+                        value={scoringInput.scoreCap}
+                        onChange={(e) => handleChangeScoringField('scoreCap', e.target.value, 0)}
+                      />
+                      <span>分</span>
+                    </div>
+                    <div className='flex flex-wrap items-center gap-2 text-[11px] text-slate-600'>
+                      <span>平局时</span>
+                      <div className='inline-flex rounded-full border border-slate-200 bg-slate-50 p-0.5 text-[11px]'>
+                        {(Object.keys(OVERTIME_MODE_LABELS) as OvertimeMode[]).map((mode) => (
+                          <button
+                            key={mode}
+                            type='button'
+                            className={`rounded-full px-2 py-0.5 ${
+                              (scoringInput.overtime?.mode ?? 'off') === mode
+                                ? 'bg-white font-medium text-slate-900 shadow-sm'
+                                : 'text-slate-500'
+                            }`}
+                            onClick={() => handleChangeOvertime({ mode })}
+                          >
+                            {OVERTIME_MODE_LABELS[mode]}
+                          </button>
+                        ))}
+                      </div>
+                      {scoringInput.overtime?.mode === 'periods' && (
+                        <>
+                          <span>每段</span>
+                          <Input
+                            type='number'
+                            min={1}
+                            className='h-8 w-16 rounded-full border-slate-200 bg-white px-3 text-[11px]'
+                            value={scoringInput.overtime.periodSec}
+                            onChange={(e) =>
+                              handleChangeOvertime({ periodSec: Math.max(1, Math.floor(Number(e.target.value) || 0)) })
+                            }
+                          />
+                          <span>秒，最多</span>
+                          <Input
+                            type='number'
+                            min={1}
+                            max={MAX_OVERTIME_PERIODS}
+                            className='h-8 w-14 rounded-full border-slate-200 bg-white px-3 text-[11px]'
+                            value={scoringInput.overtime.maxPeriods}
+                            onChange={(e) =>
+                              handleChangeOvertime({
+                                maxPeriods: Math.min(
+                                  MAX_OVERTIME_PERIODS,
+                                  Math.max(1, Math.floor(Number(e.target.value) || 0)),
+                                ),
+                              })
+                            }
+                          />
+                          <span>段</span>
+                        </>
+                      )}
+                    </div>
+                    <div className='text-[11px] text-slate-500'>
+                      偷分票会从对方分数中扣分；任一方达到封顶分数时本局立即结束。填 0 表示关闭对应规则。
+                      平局时可选择突然死亡（率先得分者胜）或固定时长的加时赛，加时赛全部打完仍平局则记为平局。
+                      {gameState !== 'idle' && ` 本局：${describeScoring(scoring)}。`}
+                    </div>
+                  </div>
+
+                  <div className='space-y-2'>
+                    <Label className='text-[11px] text-slate-700'>投票节奏限制</Label>
+                    <div className='flex flex-wrap items-center gap-2 text-[11px] text-slate-600'>
+                      <span>最小间隔</span>
+                      <Input
+                        type='number'
+                        min={0}
+                        step={10}
+                        className='h-8 w-20 rounded-full border-slate-200 bg-white px-3 text-[11px]'
+                        value={voteSettingsInput.minVoteIntervalMs}
+                        onChange={(e) =>
+                          setVoteSettingsInput((prev) => ({
+                            ...prev,
+                            minVoteIntervalMs: Math.max(0, Math.floor(Number(e.target.value) || 0)),
+                          }))
+                        }
+                      />
+                      <span>毫秒，每秒最多</span>
+                      <Input
+                        type='number'
+                        min={0}
+                        className='h-8 w-16 rounded-full border-slate-200 bg-white px-3 text-[11px]'
+                        value={voteSettingsInput.maxVotesPerSecond}
+                        onChange={(e) =>
+                          setVoteSettingsInput((prev) => ({
+                            ...prev,
+                            maxVotesPerSecond: Math.max(0, Math.floor(Number(e.target.value) || 0)),
+                          }))
+                        }
+                      />
+                      <span>票</span>
+                    </div>
+                    <div className='text-[11px] text-slate-500'>
+                      开局时随对局一起下发，双方都会校验，超限的投票会被拒绝；填 0 表示不限制。
+                      {gameState !== 'idle' &&
+                        ` 本局：间隔 ≥ ${roundSettings.minVoteIntervalMs} 毫秒，每秒 ≤ ${
+                          roundSettings.maxVotesPerSecond || '不限'
+                        } 票。`}
                     </div>
                   </div>
 
@@ -3166,21 +4065,63 @@ function App() {
                         </span>
                       </div>
                       <div className='text-[11px] text-slate-500'>
-                        建议由一方点击“开始本局”，另一方看到结束时间与倒计时同步变化即可。
+                        {readyCheck
+                          ? `各队都点击“准备”后同步倒计时 ${START_COUNTDOWN_SEC} 秒开局，倒计时结束前不能投票；开局设置以发起方为准，开局前可随时取消准备。`
+                          : '建议由一方点击“开始本局”，另一方看到结束时间与倒计时同步变化即可。'}
                       </div>
                     </div>
-                    <div className='flex flex-wrap items-center gap-2'>
-                      <Button
-                        type='button'
-                        size='sm'
-                        className='inline-flex items-center gap-1.5 rounded-full bg-emerald-600 px-3 text-[11px] font-medium text-white hover:bg-emerald-700 disabled:cursor-not-allowed disabled:bg-emerald-200'
-                        onClick={handleStartGame}
-                        disabled={!isConnected || gameState === 'running'}
-                      >
-                        <Gamepad2 className='h-3.5 w-3.5' />
-                        开始本局
-                      </Button>
-                    </div>
+                    {readyCheck ? (
+                      <div className='flex flex-wrap items-center gap-2'>
+                        {teams.map((team) => (
+                          <Badge
+                            key={team.id}
+                            variant='outline'
+                            className={`text-[11px] font-normal ${
+                              readyTeams.includes(team.id)
+                                ? 'border-emerald-200 bg-emerald-50 text-emerald-700'
+                                : 'border-slate-200 bg-slate-50 text-slate-500'
+                            }`}
+                          >
+                            {roleLabel(team.id)}
+                            {readyTeams.includes(team.id) ? ' 已准备' : ' 未准备'}
+                          </Badge>
+                        ))}
+                        <Button
+                          type='button'
+                          size='sm'
+                          variant={selfReady ? 'outline' : 'default'}
+                          className={`inline-flex items-center gap-1.5 rounded-full px-3 text-[11px] font-medium disabled:cursor-not-allowed ${
+                            selfReady
+                              ? 'border-slate-300 text-slate-700'
+                              : 'bg-emerald-600 text-white hover:bg-emerald-700 disabled:bg-emerald-200'
+                          }`}
+                          onClick={handleToggleReady}
+                          disabled={!isConnected || gameState === 'running' || !lockedRole}
+                        >
+                          <Gamepad2 className='h-3.5 w-3.5' />
+                          {selfReady
+                            ? '取消准备'
+                            : series && seriesInProgress && connectionMode === 'offer'
+                              ? `准备第 ${series.rounds.length + 1} 局`
+                              : '准备'}
+                        </Button>
+                      </div>
+                    ) : (
+                      <div className='flex flex-wrap items-center gap-2'>
+                        <Button
+                          type='button'
+                          size='sm'
+                          className='inline-flex items-center gap-1.5 rounded-full bg-emerald-600 px-3 text-[11px] font-medium text-white hover:bg-emerald-700 disabled:cursor-not-allowed disabled:bg-emerald-200'
+                          onClick={handleStartGame}
+                          disabled={!isConnected || gameState === 'running'}
+                        >
+                          <Gamepad2 className='h-3.5 w-3.5' />
+                          {series && seriesInProgress && connectionMode === 'offer'
+                            ? `开始第 ${series.rounds.length + 1} 局`
+                            : '开始本局'}
+                        </Button>
+                      </div>
+                    )}
                   </div>
                 </CardContent>
               </Card>
@@ -3209,47 +4150,135 @@ function App() {
                   </CardDescription>
                 </CardHeader>
                 <CardContent className='space-y-4'>
-                  <div className='grid gap-3 md:grid-cols-2'>
-                    <div className='rounded-2xl border border-rose-100 bg-rose-50/80 p-3 shadow-[0_10px_30px_rgba(248,113,113,0.15)]'>
-                      <div className='flex items-center justify-between gap-2'>
-                        <div className='flex items-center gap-2'>
-                          <span className='inline-flex h-6 w-6 items-center justify-center rounded-full bg-rose-500 text-xs font-bold text-white'>
-                            R
+                  {series && !historyViewSnapshot && (
+                    <div className='flex flex-wrap items-center justify-between gap-2 rounded-2xl border border-slate-200 bg-slate-50/80 px-3 py-2 text-[11px] text-slate-600'>
+                      <div className='flex items-center gap-2'>
+                        <Badge
+                          variant='outline'
+                          className='border-slate-300 bg-white text-[11px] font-semibold text-slate-800'
+                        >
+                          BO{series.bestOf}
+                        </Badge>
+                        {multiTeamGame ? (
+                          <span>
+                            系列赛胜局：
+                            {Object.entries(seriesWins(series, teamIdsOf(teams)))
+                              .map(([id, wins]) => `${teamName(teams, id)} ${wins}`)
+                              .join(' / ')}
                           </span>
-                          <div>
-                            <div className='text-xs font-semibold text-rose-800'>红方</div>
-                            <div className='text-[11px] text-rose-700/80'>Red team</div>
+                        ) : (
+                          <span>
+                            系列赛胜局：
+                            <span className='font-semibold text-rose-600'>红方 {seriesWins(series).red}</span>
+                            <span className='mx-1 text-slate-400'>:</span>
+                            <span className='font-semibold text-sky-600'>{seriesWins(series).blue} 蓝方</span>
+                          </span>
+                        )}
+                      </div>
+                      <div className='flex items-center gap-1'>
+                        {series.rounds.map((round, index) => (
+                          <span
+                            key={round.roundId}
+                            title={`第 ${index + 1} 局`}
+                            className='inline-flex h-5 w-5 items-center justify-center rounded-full bg-slate-400 text-[10px] font-bold text-white'
+                            style={round.winner ? { backgroundColor: teamColor(teams, round.winner) } : undefined}
+                          >
+                            {!round.winner
+                              ? '='
+                              : multiTeamGame
+                                ? teamName(teams, round.winner).slice(0, 1)
+                                : round.winner.slice(0, 1).toUpperCase()}
+                          </span>
+                        ))}
+                      </div>
+                      <div className='w-full text-[11px] text-slate-500'>
+                        {seriesChampion
+                          ? `系列赛已结束，${roleLabel(seriesChampion)} 获胜。`
+                          : !seriesInProgress
+                            ? `系列赛已打满 ${series.rounds.length} 局，各方胜局相同，系列赛战平。`
+                            : gameState === 'running'
+                              ? `正在进行第 ${series.rounds.length + 1} 局。`
+                              : readyCheck
+                                ? connectionMode === 'offer'
+                                  ? `${SERIES_NEXT_ROUND_DELAY_MS / 1000} 秒后自动为你准备，各队都准备后开始下一局。`
+                                  : '点击“准备”后，等各队都准备就开始下一局。'
+                                : connectionMode === 'offer'
+                                  ? `下一局将在 ${SERIES_NEXT_ROUND_DELAY_MS / 1000} 秒后自动开始。`
+                                  : '等待发起方开始下一局…'}
+                      </div>
+                    </div>
+                  )}
+                  {multiTeamGame ? (
+                    <div className='grid grid-cols-2 gap-3 md:grid-cols-3'>
+                      {teams.map((team) => (
+                        <div
+                          key={team.id}
+                          className='rounded-2xl border bg-white/80 p-3 shadow-sm'
+                          style={{ borderColor: team.color }}
+                        >
+                          <div className='flex items-center justify-between gap-2'>
+                            <div className='flex min-w-0 items-center gap-2'>
+                              <span className='h-3 w-3 shrink-0 rounded-full' style={{ backgroundColor: team.color }} />
+                              <span className='truncate text-xs font-semibold text-slate-800'>{team.name}</span>
+                            </div>
+                            {lockedRole === team.id && (
+                              <Badge variant='outline' className='text-[10px] font-normal'>
+                                你自己
+                              </Badge>
+                            )}
+                          </div>
+                          <div
+                            className='mt-2 text-3xl font-black tracking-tight tabular-nums'
+                            style={{ color: team.color }}
+                          >
+                            {displayScores[team.id] ?? 0}
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  ) : (
+                    <div className='grid gap-3 md:grid-cols-2'>
+                      <div className='rounded-2xl border border-rose-100 bg-rose-50/80 p-3 shadow-[0_10px_30px_rgba(248,113,113,0.15)]'>
+                        <div className='flex items-center justify-between gap-2'>
+                          <div className='flex items-center gap-2'>
+                            <span className='inline-flex h-6 w-6 items-center justify-center rounded-full bg-rose-500 text-xs font-bold text-white'>
+                              R
+                            </span>
+                            <div>
+                              <div className='text-xs font-semibold text-rose-800'>{displayTeamNames.red}</div>
+                              <div className='text-[11px] text-rose-700/80'>Red team</div>
+                            </div>
                           </div>
+                          <Badge className='border-none bg-rose-600/90 text-[11px] font-medium text-rose-50 shadow-sm'>
+                            {lockedRole === 'red' ? '你自己' : '对手'}
+                          </Badge>
+                        </div>
+                        <div className='mt-3 text-3xl font-black tracking-tight text-rose-600 md:text-4xl'>
+                          <span className='tabular-nums'>{displayScores.red}</span>
                         </div>
-                        <Badge className='border-none bg-rose-600/90 text-[11px] font-medium text-rose-50 shadow-sm'>
-                          {lockedRole === 'red' ? '你自己' : '对手'}
-                        </Badge>
-                      </div>
-                      <div className='mt-3 text-3xl font-black tracking-tight text-rose-600 md:text-4xl'>
-                        <span className='tabular-nums'>{displayScores.red}</span>
                       </div>
-                    </div>
 
-                    <div className='rounded-2xl border border-sky-100 bg-sky-50/80 p-3 shadow-[0_10px_30px_rgba(56,189,248,0.18)]'>
-                      <div className='flex items-center justify-between gap-2'>
-                        <div className='flex items-center gap-2'>
-                          <span className='inline-flex h-6 w-6 items-center justify-center rounded-full bg-sky-500 text-xs font-bold text-white'>
-                            B
-                          </span>
-                          <div>
-                            <div className='text-xs font-semibold text-sky-800'>蓝方</div>
-                            <div className='text-[11px] text-sky-700/80'>Blue team</div>
+                      <div className='rounded-2xl border border-sky-100 bg-sky-50/80 p-3 shadow-[0_10px_30px_rgba(56,189,248,0.18)]'>
+                        <div className='flex items-center justify-between gap-2'>
+                          <div className='flex items-center gap-2'>
+                            <span className='inline-flex h-6 w-6 items-center justify-center rounded-full bg-sky-500 text-xs font-bold text-white'>
+                              B
+                            </span>
+                            <div>
+                              <div className='text-xs font-semibold text-sky-800'>{displayTeamNames.blue}</div>
+                              <div className='text-[11px] text-sky-700/80'>Blue team</div>
+                            </div>
                           </div>
+                          <Badge className='border-none bg-sky-600/90 text-[11px] font-medium text-sky-50 shadow-sm'>
+                            {lockedRole === 'blue' ? '你自己' : '对手'}
+                          </Badge>
+                        </div>
+                        <div className='mt-3 text-3xl font-black tracking-tight text-sky-600 md:text-4xl'>
+                          <span className='tabular-nums'>{displayScores.blue}</span>
                         </div>
-                        <Badge className='border-none bg-sky-600/90 text-[11px] font-medium text-sky-50 shadow-sm'>
-                          {lockedRole === 'blue' ? '你自己' : '对手'}
-                        </Badge>
-                      </div>
-                      <div className='mt-3 text-3xl font-black tracking-tight text-sky-600 md:text-4xl'>
-                        <span className='tabular-nums'>{displayScores.blue}</span>
                       </div>
                     </div>
-                  </div>
+                  )}
 
                   <div className='flex flex-col gap-3 rounded-2xl bg-slate-50/80 p-3 md:flex-row md:items-center md:justify-between'>
                     <div className='space-y-1 text-[11px] text-slate-600'>
@@ -3262,10 +4291,39 @@ function App() {
                       </div>
                       <div>
                         总得分：
-                        <span className='font-medium text-slate-900'>红方 {displayScores.red}</span>
-                        <span className='mx-1 text-slate-400'>/</span>
-                        <span className='font-medium text-slate-900'>蓝方 {displayScores.blue}</span>
+                        {multiTeamGame ? (
+                          <span className='font-medium text-slate-900'>
+                            {teams.map((team) => `${team.name} ${displayScores[team.id] ?? 0}`).join(' / ')}
+                          </span>
+                        ) : (
+                          <>
+                            <span className='font-medium text-slate-900'>红方 {displayScores.red}</span>
+                            <span className='mx-1 text-slate-400'>/</span>
+                            <span className='font-medium text-slate-900'>蓝方 {displayScores.blue}</span>
+                          </>
+                        )}
                       </div>
+                      {Object.values(suspiciousVotes).some((count) => count > 0) && (
+                        <div className='text-[11px] text-amber-700'>
+                          事件日志中有节奏异常规律的点击（疑似连点器）：
+                          {Object.entries(suspiciousVotes)
+                            .filter(([, count]) => count > 0)
+                            .map(([voter, count]) => ` ${roleLabel(voter)}投出 ${count} 票`)
+                            .join('，')}
+                          。
+                        </div>
+                      )}
+                      {!historyViewSnapshot && scoreSync === 'repairing' && (
+                        <div className='text-[11px] text-amber-700'>
+                          检测到双方比分不一致，正在以发起方数据自动修复…
+                        </div>
+                      )}
+                      {!historyViewSnapshot && scoreSync !== 'repairing' && lastRepairSec && (
+                        <div className='text-[11px] text-amber-700'>
+                          双方比分曾不同步，已于 {new Date(lastRepairSec * 1000).toLocaleTimeString()}{' '}
+                          自动修复。
+                        </div>
+                      )}
                       {(historyViewSnapshot?.gameState === 'ended' || gameState === 'ended') && (
                         <div className='text-[11px] text-slate-500'>
                           本局已结束，你可以在下方查看最终统计与得分曲线，或点击“新开一局”开始下一回合。
@@ -3273,29 +4331,110 @@ function App() {
                       )}
                     </div>
                     <div className='flex flex-col items-stretch gap-1 md:items-end'>
+                      {multiTeamGame && lockedRole ? (
+                        <div className='flex flex-wrap justify-end gap-1.5'>
+                          {votableTeams(teams, lockedRole).map((team) => (
+                            <div key={team.id} className='flex items-center gap-1'>
+                              <Button
+                                type='button'
+                                disabled={!isConnected || gameState !== 'running' || votingBlocked}
+                                onClick={() => handleVote(undefined, team.id)}
+                                className='rounded-full px-3 py-1.5 text-xs font-semibold text-white shadow-sm disabled:cursor-not-allowed disabled:opacity-50'
+                                style={{ backgroundColor: team.color }}
+                              >
+                                为 {team.name} +{scoring.pointsPerVote * (multiplierActive ? scoring.finalMultiplier : 1)}
+                              </Button>
+                              {scoring.stealPoints > 0 && (
+                                <Button
+                                  type='button'
+                                  variant='outline'
+                                  disabled={!isConnected || gameState !== 'running' || votingBlocked}
+                                  onClick={() => handleVote('steal', team.id)}
+                                  className='rounded-full border-amber-300 bg-amber-50 px-2 py-1 text-[11px] font-semibold text-amber-800 hover:bg-amber-100 disabled:cursor-not-allowed'
+                                >
+                                  -{scoring.stealPoints * (multiplierActive ? scoring.finalMultiplier : 1)}
+                                </Button>
+                              )}
+                            </div>
+                          ))}
+                        </div>
+                      ) : (
+                        <>
+                          <Button
+                            type='button'
+                            disabled={!isConnected || gameState !== 'running' || !lockedRole || votingBlocked}
+                            onClick={() => handleVote()}
+                            className={`inline-flex items-center justify-center gap-2 rounded-full px-4 py-2 text-xs font-semibold shadow-sm transition-colors md:text-sm ${
+                              lockedRole === 'red'
+                                ? 'bg-sky-600 text-sky-50 hover:bg-sky-700 disabled:bg-sky-200'
+                                : 'bg-rose-600 text-rose-50 hover:bg-rose-700 disabled:bg-rose-200'
+                            } disabled:cursor-not-allowed`}
+                          >
+                            <span>
+                              为{' '}
+                              <span className='font-bold'>
+                                {lockedRole === 'red' && '蓝方 Blue'}
+                                {lockedRole === 'blue' && '红方 Red'}
+                                {!lockedRole && '对方'}
+                              </span>{' '}
+                              +{scoring.pointsPerVote * (multiplierActive ? scoring.finalMultiplier : 1)}
+                            </span>
+                          </Button>
+                          {scoring.stealPoints > 0 && (
+                            <Button
+                              type='button'
+                              variant='outline'
+                              disabled={!isConnected || gameState !== 'running' || !lockedRole || votingBlocked}
+                              onClick={() => handleVote('steal')}
+                              className='inline-flex items-center justify-center gap-1 rounded-full border-amber-300 bg-amber-50 px-4 py-1.5 text-[11px] font-semibold text-amber-800 hover:bg-amber-100 disabled:cursor-not-allowed'
+                            >
+                              偷分：对方 -{scoring.stealPoints * (multiplierActive ? scoring.finalMultiplier : 1)}
+                            </Button>
+                          )}
+                        </>
+                      )}
                       <Button
                         type='button'
+                        variant='ghost'
+                        size='sm'
                         disabled={!isConnected || gameState !== 'running' || !lockedRole}
-                        onClick={handleVote}
-                        className={`inline-flex items-center justify-center gap-2 rounded-full px-4 py-2 text-xs font-semibold shadow-sm transition-colors md:text-sm ${
-                          lockedRole === 'red'
-                            ? 'bg-sky-600 text-sky-50 hover:bg-sky-700 disabled:bg-sky-200'
-                            : 'bg-rose-600 text-rose-50 hover:bg-rose-700 disabled:bg-rose-200'
-                        } disabled:cursor-not-allowed`}
+                        onClick={handleUndoVote}
+                        className='h-7 self-end rounded-full px-3 text-[11px] text-slate-600 disabled:cursor-not-allowed'
                       >
-                        <span>
-                          为{' '}
-                          <span className='font-bold'>
-                            {lockedRole === 'red' && '蓝方 Blue'}
-                            {lockedRole === 'blue' && '红方 Red'}
-                            {!lockedRole && '对方'}
-                          </span>{' '}
-                          +1
-                        </span>
+                        <Undo2 className='mr-1 h-3 w-3' />
+                        撤销上一票（{UNDO_WINDOW_SEC} 秒内，需对方同意）
                       </Button>
+                      {countingDown && (
+                        <span className='text-sm font-bold text-emerald-700 tabular-nums'>
+                          {startsIn} 秒后开始，准备投票！
+                        </span>
+                      )}
+                      {overtime && gameState === 'running' && (
+                        <span className='text-[11px] font-medium text-violet-700'>
+                          {formatOvertimePhase(scoring, overtime)}：
+                          {isSuddenDeath(scoring, overtime)
+                            ? '率先得分的一方赢得本局。'
+                            : '本段结束时仍平局则继续加时，加时打完仍平局记为平局。'}
+                        </span>
+                      )}
+                      {paused && (
+                        <span className='text-[11px] font-medium text-amber-700'>
+                          本局已暂停，倒计时停止，恢复前双方都不能投票。
+                        </span>
+                      )}
+                      {multiplierActive && (
+                        <span className='text-[11px] font-medium text-amber-700'>
+                          最后 {scoring.finalWindowSec} 秒，每票 ×{scoring.finalMultiplier}！
+                        </span>
+                      )}
                       <span className='text-[11px] text-slate-500'>
                         按钮始终只会给“对方”的分数板加 1，本地与远端会保持同步。
                       </span>
+                      {hasPendingVotes && (
+                        <span className='text-[11px] text-amber-700'>
+                          {pendingVotes.length} 票等待对方确认，连接恢复后会自动重发。
+                        </span>
+                      )}
                       {voteIgnoreMessage && (
                         <span className='text-[11px] text-amber-700'>{voteIgnoreMessage}</span>
                       )}
@@ -3355,26 +4494,38 @@ function App() {
                                 <span className='text-[11px] text-slate-600'>{value}</span>
                               )}
                             />
-                            <Line
-                              type='monotone'
-                              dataKey='red'
-                              name='红方累计得分'
-                              stroke='#f97373'
-                              strokeWidth={2}
-                              dot={{ r: 2 }}
-                              activeDot={{ r: 3 }}
-                              isAnimationActive={false}
-                            />
-                            <Line
-                              type='monotone'
-                              dataKey='blue'
-                              name='蓝方累计得分'
-                              stroke='#0ea5e9'
-                              strokeWidth={2}
-                              dot={{ r: 2 }}
-                              activeDot={{ r: 3 }}
-                              isAnimationActive={false}
-                            />
+                            {pauseAreas.map((range) => (
+                              <ReferenceArea
+                                key={range.from}
+                                x1={range.from}
+                                x2={range.to}
+                                fill='#94a3b8'
+                                fillOpacity={0.2}
+                                label={{ value: '暂停', fontSize: 10, fill: '#64748b' }}
+                              />
+                            ))}
+                            {overtimeArea && (
+                              <ReferenceArea
+                                x1={overtimeArea.from}
+                                x2={overtimeArea.to}
+                                fill='#8b5cf6'
+                                fillOpacity={0.12}
+                                label={{ value: '加时', fontSize: 10, fill: '#6d28d9' }}
+                              />
+                            )}
+                            {teams.map((team) => (
+                              <Line
+                                key={team.id}
+                                type='monotone'
+                                dataKey={team.id}
+                                name={multiTeamGame ? team.name : `${team.name}累计得分`}
+                                stroke={team.color}
+                                strokeWidth={2}
+                                dot={{ r: 2 }}
+                                activeDot={{ r: 3 }}
+                                isAnimationActive={false}
+                              />
+                            ))}
                           </RechartsLineChart>
                         </ResponsiveContainer>
                       ) : (
@@ -3390,22 +4541,35 @@ function App() {
                       <div className='rounded-xl border border-slate-100 bg-slate-50/70 p-3'>
                         <div className='mb-1 text-xs font-semibold text-slate-800'>本局统计</div>
                         <div className='space-y-1'>
-                          <div>
-                            红方总分：
-                            <span className='font-semibold text-rose-700'>{displayScores.red}</span>
-                          </div>
-                          <div>
-                            蓝方总分：
-                            <span className='font-semibold text-sky-700'>{displayScores.blue}</span>
-                          </div>
-                          <div>
-                            分差：
-                            <span className='font-semibold text-slate-900'>
-                              {scoreDiff === 0 && '0（平局）'}
-                              {scoreDiff > 0 && `红方领先 ${scoreDiff}`}
-                              {scoreDiff < 0 && `蓝方领先 ${Math.abs(scoreDiff)}`}
-                            </span>
-                          </div>
+                          {multiTeamGame ? (
+                            teams.map((team) => (
+                              <div key={team.id}>
+                                {team.name}总分：
+                                <span className='font-semibold' style={{ color: team.color }}>
+                                  {displayScores[team.id] ?? 0}
+                                </span>
+                              </div>
+                            ))
+                          ) : (
+                            <>
+                              <div>
+                                红方总分：
+                                <span className='font-semibold text-rose-700'>{displayScores.red}</span>
+                              </div>
+                              <div>
+                                蓝方总分：
+                                <span className='font-semibold text-sky-700'>{displayScores.blue}</span>
+                              </div>
+                              <div>
+                                分差：
+                                <span className='font-semibold text-slate-900'>
+                                  {scoreDiff === 0 && '0（平局）'}
+                                  {scoreDiff > 0 && `红方领先 ${scoreDiff}`}
+                                  {scoreDiff < 0 && `蓝方领先 ${Math.abs(scoreDiff)}`}
+                                </span>
+                              </div>
+                            </>
+                          )}
                           <div>
                             本局时长：
                             <span className='font-semibold text-slate-900'>
@@ -3456,7 +4620,7 @@ function App() {
                               </span>
                             )}
                           </div>
-                          {snapshotMeta && (currentRoundId || currentGameId) && (
+                          {snapshotMeta && currentRoundId && (
                             <div className='mt-1 flex flex-wrap items-center gap-2'>
                               <Button
                                 type='button'
@@ -3490,7 +4654,7 @@ function App() {
                             <span className='font-medium text-slate-900'>建立连接</span>：一人在“创建房间”生成 Offer 文本发出；另一人在“加入房间”粘贴 Offer 生成 Answer 并发回；发起方粘贴 Answer 后，P2P 连接建立。
                           </li>
                           <li>
-                            <span className='font-medium text-slate-900'>设置结束时间并开始本局</span>：在步骤 3 选择一个具体的结束时间点（默认当前时间后约 10 分钟），任意一方点击“开始本局”，由房主生成一个高熵的 Game ID，双方会共享同一个 Game ID（同时作为 roundId 用于消息校验）与结束时间，剩余时间按各自浏览器时间计算，该 ID 也会写入本地用于刷新后的恢复提示，不易被猜测。
+                            <span className='font-medium text-slate-900'>设置时长并开始本局</span>：在步骤 3 选择本局时长（3 / 5 / 10 分钟或自定义 mm:ss，也可切换为指定结束时间点），常用的时长、赛制、投票限制与队名可以保存为本机预设一键套用；任意一方点击“开始本局”时才按时长算出结束时间，由房主生成一个高熵的 Game ID，双方会共享同一个 Game ID（同时作为 roundId 用于消息校验）与开始、结束时间，剩余时间按校准后的共享时钟计算，该 ID 也会写入本地用于刷新后的恢复提示，不易被猜测。
                           </li>
                           <li>
                             <span className='font-medium text-slate-900'>离线快照与刷新恢复</span>
@@ -3500,11 +4664,41 @@ function App() {
                             <span className='font-medium text-slate-900'>投票与结束</span>：在步骤 4 中，只能使用大按钮为“对方阵营 +1”——红方只能给蓝方 +1，蓝方只能给红方 +1。所有投票消息都带有 roundId（即本局 Game ID），旧局或旧页面发出的投票会被自动忽略；到达约定结束时间或双方同意“立即结束”后，本局将锁定，无法继续投票。
                           </li>
                           <li>
-                            <span className='font-medium text-slate-900'>重开一局</span>：在保持 P2P 连接不变的前提下，可以在步骤 3 重新选择结束时间点并点击“开始本局”；也可以先点击“新开一局”快速重置本局状态，再设置结束时间后开始下一回合，系统会生成新的 roundId，但沿用当前会话锁定的红/蓝阵营。
+                            <span className='font-medium text-slate-900'>防连点</span>：开局时可设置两次投票的最小间隔与每秒最多票数，设置随开局消息下发，双方都会校验，超限的投票会被接收方拒绝并撤回；点击间隔过于规律（疑似连点器）的投票会在事件日志中被标记。
+                          </li>
+                          <li>
+                            <span className='font-medium text-slate-900'>重开一局</span>：在保持 P2P 连接不变的前提下，可以在步骤 3 直接再次点击“开始本局”；也可以先点击“新开一局”快速重置本局状态，再设置时长后开始下一回合，系统会生成新的 roundId，但沿用当前会话锁定的红/蓝阵营。
+                          </li>
+                          <li>
+                            <span className='font-medium text-slate-900'>系列赛</span>：发起方可在步骤 3 选择 BO3 / BO5 / BO7，每局时长与第一局相同，一局结束后休息几秒自动开始下一局，先赢得过半局数的一方赢下系列赛；平局不计胜负。比分板上方会显示双方胜局，结束后系列赛会作为一组出现在历史记录中，可逐局加载查看。
+                          </li>
+                          <li>
+                            <span className='font-medium text-slate-900'>准备与倒计时</span>：双方页面都是新版本时，步骤 3 的开局按钮变为“准备”。各队都准备后（开局前可随时取消），按发起方的设置同步倒计时 3 秒再开局，倒计时结束前不能投票；系列赛的后续各局同样会先倒计时。
+                          </li>
+                          <li>
+                            <span className='font-medium text-slate-900'>撤销投票</span>：点错时可在投票后 10 秒内点击“撤销上一票”，对方同意后双方都会移除这一票并重新计分；对方拒绝或超时未处理时这一票仍然有效。被撤销的票会保留在本局快照中，可在历史记录里查看。
+                          </li>
+                          <li>
+                            <span className='font-medium text-slate-900'>平局加时</span>：发起方可在赛制设置中选择常规时间结束仍平局时的处理方式：“突然死亡”不限时，下一次得分的一方直接获胜；“加时赛”按设定的时长追加一到多段，每段结束时仍平局才进入下一段，全部打完仍平局则记为平局。加时阶段在比分板上标出，并在得分曲线上以紫色区域显示。
+                          </li>
+                          <li>
+                            <span className='font-medium text-slate-900'>暂停</span>：对局进行中可在“对局协商”卡片中提议暂停，对方同意后倒计时停止、双方都不能投票；任意一方点击“恢复对局”即可继续，结束时间会按暂停时长顺延，暂停的时段在得分曲线上以灰色区域标出。
+                          </li>
+                          <li>
+                            <span className='font-medium text-slate-900'>观战</span>：发起方可在“邀请观众”卡片中为每位观众生成观战链接，观众打开链接后把 Answer 回传给发起方即可实时查看比分、倒计时与得分曲线；观众连接是只读的，不能投票，也不参与结束时间的协商。
+                          </li>
+                          <li>
+                            <span className='font-medium text-slate-900'>多队对局</span>：发起方在连接前于步骤 1 选择 3–6 支队伍并填写队名，连接建立后在“邀请其他队伍”卡片中为主连接之外的每支队伍生成加入链接。所有队伍都只与发起方相连，投票与协商由发起方中继；每队可以为除本队以外的任意一队加分，开局只能由发起方操作，曲线与历史记录按队伍分别显示。
+                          </li>
+                          <li>
+                            <span className='font-medium text-slate-900'>对局统计</span>：顶部的“统计”页汇总本机保存的历史对局，可按日期范围查看你在各阵营的胜负平、平均与最大分差、平均每分钟票数、最长连胜与连败，以及按天的胜率与分差趋势。
+                          </li>
+                          <li>
+                            <span className='font-medium text-slate-900'>旧记录升级与隔离</span>：本机保存的快照与历史条目带有结构版本，旧版本页面留下的记录会在读取时自动升级；无法读取的记录会移到隔离区而不是报错，历史页会提示数量，可导出后再清除。
                           </li>
                           <li>
                             <span className='font-medium text-slate-900'>历史记录与只读查看</span>
-                            ：每当一局结束时，系统会将该局的 Game ID、开始/结束时间、最终红蓝比分和投票时间线写入“历史对局记录”卡片。你可以在右侧列表中点击“加载只读”进入历史只读模式，查看该局的最终比分与累计曲线；此时所有投票和结束时间相关操作都会被禁用，可通过顶部提示的“返回当前会话”按钮回到当前进行中的局或默认视图，也可以在列表中删除不再需要的历史记录。
+                            ：每当一局结束时，系统会将该局的 Game ID、开始/结束时间、最终红蓝比分和投票时间线写入“历史对局记录”卡片。你可以在右侧列表中点击“加载只读”进入历史只读模式，查看该局的最终比分与累计曲线；此时所有投票和结束时间相关操作都会被禁用，可通过顶部提示的“返回当前会话”按钮回到当前进行中的局或默认视图，也可以在列表中删除不再需要的历史记录。勾选若干局（不勾选即全部）可导出为 JSON（完整快照，可在另一台设备上导入，重复的 Game ID 会自动跳过）或 CSV（投票事件与逐秒累计比分两个文件）。对局多了以后，可以按 Game ID 或备注搜索，按结束日期、胜方、分差与时长筛选，点击排序按钮切换排序方式，列表每页显示 10 局。
                           </li>
                         </ol>
                       </div>
@@ -3526,7 +4720,7 @@ function App() {
                     <span>历史对局记录（仅本机）</span>
                   </CardTitle>
                   <CardDescription className='text-xs text-slate-600'>
-                    每当一局结束时，系统会自动将最终比分、时长和 Game ID 保存在浏览器本地，你可以在此加载历史对局进行只读查看或删除记录。
+                    每当一局结束时，系统会自动将最终比分、时长和 Game ID 保存在浏览器本地，你可以在此加载历史对局进行只读查看或删除记录，也可以导出为 JSON / CSV 文件存档，或在另一台设备上导入 JSON。
                   </CardDescription>
                 </CardHeader>
                 <CardContent className='space-y-3'>
@@ -3535,15 +4729,222 @@ function App() {
                       {historyError}
                     </div>
                   )}
+                  {historyNotice && (
+                    <div className='rounded-md bg-emerald-50 px-3 py-2 text-[11px] text-emerald-700'>
+                      {historyNotice}
+                    </div>
+                  )}
+                  {quarantineCount > 0 && (
+                    <div className='flex flex-wrap items-center gap-2 rounded-md bg-amber-50 px-3 py-2 text-[11px] text-amber-800'>
+                      <span>
+                        有 {quarantineCount} 条本地记录无法读取，已移到隔离区，不再出现在列表中。可以导出留存或反馈问题。
+                      </span>
+                      <div className='ml-auto flex gap-2'>
+                        <Button
+                          type='button'
+                          size='sm'
+                          variant='outline'
+                          className='h-7 rounded-full border-amber-200 bg-white px-2 text-[11px]'
+                          onClick={() => void handleExportQuarantine()}
+                        >
+                          <Download className='mr-1 h-3 w-3' />
+                          导出隔离记录
+                        </Button>
+                        <Button
+                          type='button'
+                          size='sm'
+                          variant='ghost'
+                          className='h-7 rounded-full px-2 text-[11px] text-amber-800'
+                          onClick={() => setClearQuarantineConfirmOpen(true)}
+                        >
+                          清除
+                        </Button>
+                      </div>
+                    </div>
+                  )}
+                  <div className='flex flex-wrap items-center gap-2 rounded-lg border border-slate-200 bg-white p-2.5 text-[11px]'>
+                    <span className='text-slate-600'>
+                      {selectedHistoryIds.length > 0
+                        ? `已选 ${selectedHistoryIds.length} 局`
+                        : '未勾选时导出全部对局'}
+                    </span>
+                    {selectedHistoryIds.length > 0 && (
+                      <Button
+                        type='button'
+                        size='sm'
+                        variant='ghost'
+                        className='h-7 rounded-full px-2 text-[11px] text-slate-500'
+                        onClick={() => setSelectedHistoryIds([])}
+                      >
+                        清除勾选
+                      </Button>
+                    )}
+                    <div className='ml-auto flex flex-wrap gap-2'>
+                      <Button
+                        type='button'
+                        size='sm'
+                        variant='outline'
+                        className='h-7 rounded-full border-slate-200 px-2 text-[11px]'
+                        onClick={() => void handleExportHistory('json')}
+                        disabled={historyIndex.length === 0}
+                      >
+                        <Download className='mr-1 h-3 w-3' />
+                        导出 JSON
+                      </Button>
+                      <Button
+                        type='button'
+                        size='sm'
+                        variant='outline'
+                        className='h-7 rounded-full border-slate-200 px-2 text-[11px]'
+                        onClick={() => void handleExportHistory('csv')}
+                        disabled={historyIndex.length === 0}
+                      >
+                        <Download className='mr-1 h-3 w-3' />
+                        导出 CSV
+                      </Button>
+                      <Button
+                        type='button'
+                        size='sm'
+                        variant='outline'
+                        className='h-7 rounded-full border-slate-200 px-2 text-[11px]'
+                        onClick={() => archiveInputRef.current?.click()}
+                      >
+                        <Upload className='mr-1 h-3 w-3' />
+                        导入 JSON
+                      </Button>
+                    </div>
+                    <input
+                      ref={archiveInputRef}
+                      type='file'
+                      accept='application/json,.json'
+                      className='hidden'
+                      onChange={(event) => {
+                        void handleArchiveSelected(event)
+                      }}
+                    />
+                  </div>
+                  {matchIndex.length > 0 && (
+                    <div className='space-y-2'>
+                      <div className='text-[11px] font-medium text-slate-700'>系列赛</div>
+                      {matchIndex.map((match) => {
+                        const matchTeams = match.teams ?? DEFAULT_TEAMS
+                        const wins = seriesWins(match, teamIdsOf(matchTeams))
+                        return (
+                          <div
+                            key={match.seriesId}
+                            className='flex flex-col gap-1.5 rounded-lg border border-slate-200 bg-white p-2.5'
+                          >
+                            <div className='flex items-center justify-between gap-2 text-[11px]'>
+                              <div className='flex items-center gap-2'>
+                                <Badge
+                                  variant='outline'
+                                  className='border-slate-300 bg-slate-50 text-[10px] font-semibold text-slate-800'
+                                >
+                                  BO{match.bestOf}
+                                </Badge>
+                                <span className='text-slate-500'>
+                                  {formatUnixSecondsToLocal(match.endTimeSec)}
+                                </span>
+                              </div>
+                              <div>
+                                {match.teams
+                                  ? matchTeams.map((team) => `${team.name} ${wins[team.id] ?? 0}`).join(' : ')
+                                  : `红 ${wins.red} : ${wins.blue} 蓝`}
+                                <span className='ml-2 text-slate-500'>
+                                  {match.winner
+                                    ? `${match.teams ? teamName(matchTeams, match.winner) : formatRoleLabel(match.winner)} 获胜`
+                                    : isSeriesOver(match)
+                                      ? '战平'
+                                      : '未完成'}
+                                </span>
+                              </div>
+                            </div>
+                            <div className='flex flex-wrap items-center gap-1.5'>
+                              {match.rounds.map((round, index) => {
+                                const saved = historyIndex.some((item) => item.gameId === round.roundId)
+                                return (
+                                  <Button
+                                    key={round.roundId}
+                                    type='button'
+                                    size='sm'
+                                    variant='outline'
+                                    className='h-6 rounded-full border-slate-200 px-2 text-[10px]'
+                                    onClick={() => handleLoadHistoryGame(round.roundId)}
+                                    disabled={!saved}
+                                  >
+                                    第 {index + 1} 局 ·{' '}
+                                    {!round.winner
+                                      ? '平局'
+                                      : match.teams
+                                        ? `${teamName(matchTeams, round.winner)}胜`
+                                        : round.winner === 'red'
+                                          ? '红胜'
+                                          : '蓝胜'}
+                                  </Button>
+                                )
+                              })}
+                              <Button
+                                type='button'
+                                size='sm'
+                                variant='outline'
+                                className='ml-auto h-6 rounded-full border-red-200 bg-red-50 px-2 text-[10px] text-red-700'
+                                onClick={() => handleDeleteMatch(match.seriesId)}
+                              >
+                                删除分组
+                              </Button>
+                            </div>
+                          </div>
+                        )
+                      })}
+                      <div className='pt-1 text-[11px] font-medium text-slate-700'>全部对局</div>
+                    </div>
+                  )}
+                  {historyIndex.length > 0 && (
+                    <HistoryFilters
+                      query={historyQuery}
+                      onChange={changeHistoryQuery}
+                      winnerOptions={historyWinnerOptions}
+                      matched={filteredHistory.length}
+                      total={historyIndex.length}
+                    />
+                  )}
                   {historyIndex.length === 0 ? (
                     <div className='rounded-lg border border-dashed border-slate-200 bg-slate-50/60 px-3 py-3 text-[11px] text-slate-500'>
                       当前还没有历史对局记录。完成一局并结束后，这里会自动出现该局的 Game ID、结束时间和最终比分。
                     </div>
+                  ) : filteredHistory.length === 0 ? (
+                    <div className='rounded-lg border border-dashed border-slate-200 bg-slate-50/60 px-3 py-3 text-[11px] text-slate-500'>
+                      没有符合筛选条件的对局，可以放宽条件或点击“清除筛选”。
+                    </div>
                   ) : (
                     <div className='space-y-2'>
-                      {historyIndex.map((item) => {
+                      <div className='flex flex-wrap items-center gap-1 text-[11px] text-slate-500'>
+                        <span>排序：</span>
+                        {(Object.keys(SORT_KEY_LABELS) as HistorySortKey[]).map((key) => {
+                          const active = historyQuery.sortKey === key
+                          return (
+                            <Button
+                              key={key}
+                              type='button'
+                              size='sm'
+                              variant={active ? 'secondary' : 'ghost'}
+                              className='h-6 rounded-full px-2 text-[11px]'
+                              onClick={() => sortHistory(key)}
+                            >
+                              {SORT_KEY_LABELS[key]}
+                              {active &&
+                                (historyQuery.sortDesc ? (
+                                  <ArrowDown className='ml-0.5 h-3 w-3' />
+                                ) : (
+                                  <ArrowUp className='ml-0.5 h-3 w-3' />
+                                ))}
+                            </Button>
+                          )
+                        })}
+                      </div>
+                      {historyPageView.items.map((item) => {
                         const isActive = historyViewSnapshot?.gameId === item.gameId
-                        const durationSec = Math.max(0, item.endTimeSec - item.startTimeSec)
+                        const durationSec = entryDurationSec(item)
                         return (
                           <div
                             key={item.gameId}
@@ -3552,6 +4953,13 @@ function App() {
                             <div className='flex items-center justify-between gap-2'>
                               <div className='min-w-0'>
                                 <div className='flex items-center gap-2'>
+                                  <Checkbox
+                                    checked={selectedHistoryIds.includes(item.gameId)}
+                                    onCheckedChange={(checked) =>
+                                      toggleHistorySelected(item.gameId, checked === true)
+                                    }
+                                    aria-label='选择此局用于导出'
+                                  />
                                   <span className='max-w-[180px] truncate font-mono text-[11px]'>
                                     {item.gameId}
                                   </span>
@@ -3570,11 +4978,24 @@ function App() {
                               </div>
                               <div className='text-right text-[11px]'>
                                 <div>
-                                  红 {item.scoreRed} / 蓝 {item.scoreBlue}
+                                  {item.teams && item.scores
+                                    ? item.teams.map((team) => `${team.name} ${item.scores?.[team.id] ?? 0}`).join(' / ')
+                                    : `红 ${item.scoreRed} / 蓝 ${item.scoreBlue}`}
                                 </div>
                                 <div className='text-slate-500'>时长 {durationSec} 秒</div>
                               </div>
                             </div>
+                            <Input
+                              key={`${item.gameId}:${item.note ?? ''}`}
+                              defaultValue={item.note ?? ''}
+                              onBlur={(event) => handleChangeHistoryNote(item.gameId, event.target.value)}
+                              onKeyDown={(event) => {
+                                if (event.key === 'Enter') event.currentTarget.blur()
+                              }}
+                              maxLength={200}
+                              placeholder='添加备注（仅本机，可用于搜索）'
+                              className='h-7 border-slate-200 bg-white text-[11px]'
+                            />
                             <div className='flex flex-wrap items-center justify-between gap-2 pt-1'>
                               <div className='text-[11px] text-slate-400'>
                                 最后更新：
@@ -3604,22 +5025,100 @@ function App() {
                           </div>
                         )
                       })}
+                      {historyPageView.pageCount > 1 && (
+                        <Pagination className='pt-1'>
+                          <PaginationContent>
+                            <PaginationItem>
+                              <PaginationLink
+                                href='#'
+                                size='default'
+                                className='h-8 gap-1 px-2 text-[11px]'
+                                aria-disabled={historyPageView.page === 1}
+                                onClick={(event) => {
+                                  event.preventDefault()
+                                  setHistoryPage(Math.max(1, historyPageView.page - 1))
+                                }}
+                              >
+                                <ChevronLeft className='h-3.5 w-3.5' />
+                                上一页
+                              </PaginationLink>
+                            </PaginationItem>
+                            {visiblePages(historyPageView.page, historyPageView.pageCount).map((page, index) =>
+                              page === 'ellipsis' ? (
+                                <PaginationItem key={`ellipsis-${index}`}>
+                                  <PaginationEllipsis />
+                                </PaginationItem>
+                              ) : (
+                                <PaginationItem key={page}>
+                                  <PaginationLink
+                                    href='#'
+                                    isActive={page === historyPageView.page}
+                                    className='h-8 w-8 text-[11px]'
+                                    onClick={(event) => {
+                                      event.preventDefault()
+                                      setHistoryPage(page)
+                                    }}
+                                  >
+                                    {page}
+                                  </PaginationLink>
+                                </PaginationItem>
+                              ),
+                            )}
+                            <PaginationItem>
+                              <PaginationLink
+                                href='#'
+                                size='default'
+                                className='h-8 gap-1 px-2 text-[11px]'
+                                aria-disabled={historyPageView.page === historyPageView.pageCount}
+                                onClick={(event) => {
+                                  event.preventDefault()
+                                  setHistoryPage(Math.min(historyPageView.pageCount, historyPageView.page + 1))
+                                }}
+                              >
+                                下一页
+                                <ChevronRight className='h-3.5 w-3.5' />
+                              </PaginationLink>
+                            </PaginationItem>
+                          </PaginationContent>
+                        </Pagination>
+                      )}
                     </div>
                   )}
                 </CardContent>
               </Card>
             </TabsContent>
 
+            <TabsContent value='stats' className='mt-4'>
+              <StatsDashboard
+                entries={historyIndex}
+                loadSnapshot={loadStoredSnapshot}
+                onOpenGame={(gameId) => void handleLoadHistoryGame(gameId)}
+              />
+            </TabsContent>
+
             {openHistoryTabs.map((tab) => {
               const snapshot = historyViewSnapshots[tab.gameId]
               const histScores = snapshot
                 ? { red: snapshot.scoreRed, blue: snapshot.scoreBlue }
                 : null
               const histScoreDiff = histScores ? histScores.red - histScores.blue : 0
+              const histTeams = snapshot?.teams ?? DEFAULT_TEAMS
+              const histMultiTeam = isMultiTeam(histTeams)
+              const histLeader = snapshot?.scores ? roundWinner(snapshot.scores) : null
               const histDuration = snapshot
                 ? Math.max(0, snapshot.endTimeSec - snapshot.startTimeSec)
                 : null
-              const histChartData = snapshot ? buildChartDataForSnapshot(snapshot) : []
+              const histChartData = snapshot ? buildScoreSeriesForSnapshot(snapshot) : []
+              const histPauseAreas = snapshot
+                ? pauseRanges(snapshot.pauses ?? [], snapshot.startTimeSec, histDuration ?? 0)
+                : []
+              const histOvertimeArea = snapshot?.overtime
+                ? overtimeRange(
+                    snapshot.overtime,
+                    snapshot.startTimeSec,
+                    histChartData[histChartData.length - 1]?.second ?? 0,
+                  )
+                : null
 
               return (
                 <TabsContent key={tab.gameId} value={`hist-${tab.gameId}`} className='mt-4'>
@@ -3635,11 +5134,15 @@ function App() {
                             variant='outline'
                             className='border-slate-200 bg-slate-50 text-[11px] font-normal text-slate-700'
                           >
-                            {histScoreDiff === 0
-                              ? '平局'
-                              : histScoreDiff > 0
-                                ? `红方胜出 ${histScoreDiff}`
-                                : `蓝方胜出 ${Math.abs(histScoreDiff)}`}
+                            {histMultiTeam
+                              ? histLeader
+                                ? `${teamName(histTeams, histLeader)}胜出`
+                                : '并列'
+                              : histScoreDiff === 0
+                                ? '平局'
+                                : histScoreDiff > 0
+                                  ? `红方胜出 ${histScoreDiff}`
+                                  : `蓝方胜出 ${Math.abs(histScoreDiff)}`}
                           </Badge>
                         </CardTitle>
                         <CardDescription className='text-xs text-slate-600'>
@@ -3693,26 +5196,38 @@ function App() {
                                       <span className='text-[11px] text-slate-600'>{value}</span>
                                     )}
                                   />
-                                  <Line
-                                    type='monotone'
-                                    dataKey='red'
-                                    name='红方累计得分'
-                                    stroke='#f97373'
-                                    strokeWidth={2}
-                                    dot={{ r: 2 }}
-                                    activeDot={{ r: 3 }}
-                                    isAnimationActive={false}
-                                  />
-                                  <Line
-                                    type='monotone'
-                                    dataKey='blue'
-                                    name='蓝方累计得分'
-                                    stroke='#0ea5e9'
-                                    strokeWidth={2}
-                                    dot={{ r: 2 }}
-                                    activeDot={{ r: 3 }}
-                                    isAnimationActive={false}
-                                  />
+                                  {histPauseAreas.map((range) => (
+                                    <ReferenceArea
+                                      key={range.from}
+                                      x1={range.from}
+                                      x2={range.to}
+                                      fill='#94a3b8'
+                                      fillOpacity={0.2}
+                                      label={{ value: '暂停', fontSize: 10, fill: '#64748b' }}
+                                    />
+                                  ))}
+                                  {histOvertimeArea && (
+                                    <ReferenceArea
+                                      x1={histOvertimeArea.from}
+                                      x2={histOvertimeArea.to}
+                                      fill='#8b5cf6'
+                                      fillOpacity={0.12}
+                                      label={{ value: '加时', fontSize: 10, fill: '#6d28d9' }}
+                                    />
+                                  )}
+                                  {histTeams.map((team) => (
+                                    <Line
+                                      key={team.id}
+                                      type='monotone'
+                                      dataKey={team.id}
+                                      name={histMultiTeam ? team.name : `${team.name}累计得分`}
+                                      stroke={teamColor(histTeams, team.id)}
+                                      strokeWidth={2}
+                                      dot={{ r: 2 }}
+                                      activeDot={{ r: 3 }}
+                                      isAnimationActive={false}
+                                    />
+                                  ))}
                                 </RechartsLineChart>
                               </ResponsiveContainer>
                             ) : (
@@ -3723,22 +5238,35 @@ function App() {
                           </div>
 
                           <div className='space-y-1 text-[11px] text-slate-600'>
-                            <div>
-                              红方总分：
-                              <span className='font-semibold text-rose-700'>{histScores?.red ?? 0}</span>
-                            </div>
-                            <div>
-                              蓝方总分：
-                              <span className='font-semibold text-sky-700'>{histScores?.blue ?? 0}</span>
-                            </div>
-                            <div>
-                              分差：
-                              <span className='font-semibold text-slate-900'>
-                                {histScoreDiff === 0 && '0（平局）'}
-                                {histScoreDiff > 0 && `红方领先 ${histScoreDiff}`}
-                                {histScoreDiff < 0 && `蓝方领先 ${Math.abs(histScoreDiff)}`}
-                              </span>
-                            </div>
+                            {histMultiTeam &&
+                              histTeams.map((team) => (
+                                <div key={team.id}>
+                                  {team.name}总分：
+                                  <span className='font-semibold' style={{ color: team.color }}>
+                                    {snapshot.scores?.[team.id] ?? 0}
+                                  </span>
+                                </div>
+                              ))}
+                            {!histMultiTeam && (
+                              <>
+                                <div>
+                                  红方总分：
+                                  <span className='font-semibold text-rose-700'>{histScores?.red ?? 0}</span>
+                                </div>
+                                <div>
+                                  蓝方总分：
+                                  <span className='font-semibold text-sky-700'>{histScores?.blue ?? 0}</span>
+                                </div>
+                                <div>
+                                  分差：
+                                  <span className='font-semibold text-slate-900'>
+                                    {histScoreDiff === 0 && '0（平局）'}
+                                    {histScoreDiff > 0 && `红方领先 ${histScoreDiff}`}
+                                    {histScoreDiff < 0 && `蓝方领先 ${Math.abs(histScoreDiff)}`}
+                                  </span>
+                                </div>
+                              </>
+                            )}
                             <div>
                               本局时长：
                               <span className='font-semibold text-slate-900'>
@@ -3749,6 +5277,21 @@ function App() {
                               Game ID：
                               <span className='font-mono text-[11px]'>{snapshot.gameId}</span>
                             </div>
+                            {snapshot.undone && snapshot.undone.length > 0 && (
+                              <div>
+                                经双方同意撤销：
+                                <span className='font-semibold text-slate-900'>
+                                  {snapshot.undone
+                                    .map(
+                                      (event) =>
+                                        `第 ${event.at} 秒${event.kind === 'steal' ? '对' : '投给'}${
+                                          histMultiTeam ? teamName(histTeams, event.target) : formatRoleLabel(event.target)
+                                        }的 1 票`,
+                                    )
+                                    .join('、')}
+                                </span>
+                              </div>
+                            )}
                           </div>
                         </div>
                       </CardContent>
@@ -3801,11 +5344,41 @@ function App() {
         </AlertDialogContent>
       </AlertDialog>
 
+      <AlertDialog
+        open={clearQuarantineConfirmOpen}
+        onOpenChange={(open) => {
+          if (!open) {
+            setClearQuarantineConfirmOpen(false)
+          }
+        }}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle className='text-sm'>清除隔离记录？</AlertDialogTitle>
+            <AlertDialogDescription className='text-[11px] text-slate-600'>
+              隔离区中的 {quarantineCount} 条记录将被永久删除，无法恢复。如需留存，请先导出。
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel className='text-[11px]'>取消</AlertDialogCancel>
+            <AlertDialogAction
+              className='text-[11px]'
+              onClick={() => {
+                setClearQuarantineConfirmOpen(false)
+                void handleClearQuarantine()
+              }}
+            >
+              确认清除
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
       <AlertDialog
         open={!!incomingEndChange}
         onOpenChange={(open) => {
           if (!open) {
-            setIncomingEndChange(null)
+            dispatch({ type: 'dismissEndChange' })
           }
         }}
       >
@@ -3847,11 +5420,68 @@ function App() {
         </AlertDialogContent>
       </AlertDialog>
 
+      <AlertDialog
+        open={!!incomingUndo}
+        onOpenChange={(open) => {
+          if (!open) {
+            dispatch({ type: 'dismissUndo' })
+          }
+        }}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle className='text-sm'>
+              {incomingUndo?.requestedBy && multiTeamGame ? roleLabel(incomingUndo.requestedBy) : '对方'}请求撤销上一票
+            </AlertDialogTitle>
+            <AlertDialogDescription className='text-[11px] text-slate-600'>
+              {incomingUndo &&
+                `撤销的是${incomingUndo.kind === 'steal' ? '对' : '投给'}${roleLabel(incomingUndo.target)}的 1 票${
+                  incomingUndo.kind === 'steal' ? '（偷分）' : ''
+                }。同意后双方都会移除这一票并重新计分；请在投票后 ${UNDO_WINDOW_SEC} 秒内处理，超时将自动拒绝。`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel className='text-[11px]' onClick={() => handleAnswerIncomingUndo(false)}>
+              保留这一票
+            </AlertDialogCancel>
+            <AlertDialogAction className='text-[11px]' onClick={() => handleAnswerIncomingUndo(true)}>
+              同意撤销
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <AlertDialog
+        open={incomingPause}
+        onOpenChange={(open) => {
+          if (!open) {
+            dispatch({ type: 'dismissPause' })
+          }
+        }}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle className='text-sm'>对方请求暂停本局</AlertDialogTitle>
+            <AlertDialogDescription className='text-[11px] text-slate-600'>
+              同意后倒计时停止，暂停期间双方都不能投票；任意一方恢复对局后，结束时间会按暂停的时长顺延。
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel className='text-[11px]' onClick={handleRejectIncomingPause}>
+              继续对局
+            </AlertDialogCancel>
+            <AlertDialogAction className='text-[11px]' onClick={handleAcceptIncomingPause}>
+              同意暂停
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
       <AlertDialog
         open={incomingEndNow}
         onOpenChange={(open) => {
           if (!open) {
-            setIncomingEndNow(false)
+            dispatch({ type: 'dismissEndNow' })
           }
         }}
       >
@@ -0,0 +1,56 @@
+import type { DateRange } from 'react-day-picker'
+import { CalendarDays } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Calendar } from '@/components/ui/calendar'
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
+
+type DateRangePickerProps = {
+  /** 范围起点（秒，含）与终点（秒，不含）；null 表示不限 */
+  fromSec: number | null
+  toSec: number | null
+  onChange: (fromSec: number | null, toSec: number | null) => void
+}
+
+const DAY_SEC = 24 * 60 * 60
+
+const startOfDaySec = (date: Date) =>
+  Math.floor(new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime() / 1000)
+
+const formatDay = (sec: number) => new Date(sec * 1000).toLocaleDateString()
+
+/** 日期范围按本地日期整天计算：结束日当天的对局也包含在内。 */
+export function DateRangePicker({ fromSec, toSec, onChange }: DateRangePickerProps) {
+  const lastDaySec = fromSec === null ? null : toSec === null ? fromSec : toSec - DAY_SEC
+  const selected: DateRange | undefined =
+    fromSec === null
+      ? undefined
+      : { from: new Date(fromSec * 1000), to: lastDaySec === null ? undefined : new Date(lastDaySec * 1000) }
+  const label =
+    fromSec === null || lastDaySec === null
+      ? '全部日期'
+      : lastDaySec === fromSec
+        ? formatDay(fromSec)
+        : `${formatDay(fromSec)} – ${formatDay(lastDaySec)}`
+
+  const handleSelect = (range: DateRange | undefined) => {
+    if (!range?.from) {
+      onChange(null, null)
+      return
+    }
+    onChange(startOfDaySec(range.from), startOfDaySec(range.to ?? range.from) + DAY_SEC)
+  }
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button type='button' size='sm' variant='outline' className='h-8 rounded-md border-slate-200 px-2 text-[11px]'>
+          <CalendarDays className='mr-1 h-3.5 w-3.5' />
+          {label}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className='w-auto p-0' align='end'>
+        <Calendar mode='range' selected={selected} onSelect={handleSelect} numberOfMonths={1} />
+      </PopoverContent>
+    </Popover>
+  )
+}
@@ -0,0 +1,107 @@
+import { Search, X } from 'lucide-react'
+import { DateRangePicker } from '@/components/date-range-picker'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import {
+  DEFAULT_HISTORY_QUERY,
+  DURATION_FILTER_LABELS,
+  isDefaultHistoryQuery,
+  type HistoryDurationFilter,
+  type HistoryQuery,
+  type WinnerFilterOption,
+} from '@/game/history-query'
+
+type HistoryFiltersProps = {
+  query: HistoryQuery
+  onChange: (patch: Partial<HistoryQuery>) => void
+  /** 由历史列表中出现过的队伍生成，见 winnerFilterOptions */
+  winnerOptions: WinnerFilterOption[]
+  matched: number
+  total: number
+}
+
+/** 历史对局列表上方的搜索与筛选栏；排序与分页由列表自己处理。 */
+export function HistoryFilters({ query, onChange, winnerOptions, matched, total }: HistoryFiltersProps) {
+  return (
+    <div className='space-y-2 rounded-lg border border-slate-200 bg-white p-2.5 text-[11px]'>
+      <div className='flex flex-wrap items-center gap-2'>
+        <div className='relative min-w-[180px] flex-1'>
+          <Search className='pointer-events-none absolute left-2 top-1/2 h-3.5 w-3.5 -translate-y-1/2 text-slate-400' />
+          <Input
+            value={query.search}
+            onChange={(event) => onChange({ search: event.target.value })}
+            placeholder='搜索 Game ID 或备注'
+            className='h-8 pl-7 text-xs'
+          />
+        </div>
+        <DateRangePicker
+          fromSec={query.fromSec}
+          toSec={query.toSec}
+          onChange={(fromSec, toSec) => onChange({ fromSec, toSec })}
+        />
+      </div>
+      <div className='flex flex-wrap items-center gap-2'>
+        <Select value={query.winner} onValueChange={(value) => onChange({ winner: value })}>
+          <SelectTrigger className='h-8 w-[110px] text-[11px]'>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {winnerOptions.map((option) => (
+              <SelectItem key={option.value} value={option.value} className='text-xs'>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select
+          value={query.duration}
+          onValueChange={(value) => onChange({ duration: value as HistoryDurationFilter })}
+        >
+          <SelectTrigger className='h-8 w-[120px] text-[11px]'>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(DURATION_FILTER_LABELS) as HistoryDurationFilter[]).map((key) => (
+              <SelectItem key={key} value={key} className='text-xs'>
+                {DURATION_FILTER_LABELS[key]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <label className='flex items-center gap-1 text-slate-600'>
+          分差 ≥
+          <Input
+            type='number'
+            min={0}
+            value={query.minMargin || ''}
+            onChange={(event) => onChange({ minMargin: Math.max(0, Math.floor(Number(event.target.value) || 0)) })}
+            placeholder='0'
+            className='h-8 w-16 text-xs'
+          />
+        </label>
+        <span className='ml-auto text-slate-500'>
+          {isDefaultHistoryQuery(query) ? `共 ${total} 局` : `筛选出 ${matched} / ${total} 局`}
+        </span>
+        {!isDefaultHistoryQuery(query) && (
+          <Button
+            type='button'
+            size='sm'
+            variant='ghost'
+            className='h-7 rounded-full px-2 text-[11px] text-slate-500'
+            onClick={() =>
+              onChange({
+                ...DEFAULT_HISTORY_QUERY,
+                sortKey: query.sortKey,
+                sortDesc: query.sortDesc,
+              })
+            }
+          >
+            <X className='mr-1 h-3 w-3' />
+            清除筛选
+          </Button>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,50 @@
+import { useEffect, useState } from 'react'
+import QRCode from 'qrcode'
+
+type SignalQrCodeProps = {
+  value: string
+  caption: string
+}
+
+/** 把信令文本或分享链接渲染为二维码，方便另一台设备扫码或截图识别。 */
+export function SignalQrCode({ value, caption }: SignalQrCodeProps) {
+  const [dataUrl, setDataUrl] = useState<string | null>(null)
+  const [failed, setFailed] = useState(false)
+
+  useEffect(() => {
+    let cancelled = false
+    setFailed(false)
+    QRCode.toDataURL(value, { errorCorrectionLevel: 'L', margin: 1, width: 240 })
+      .then((url) => {
+        if (!cancelled) setDataUrl(url)
+      })
+      .catch((e) => {
+        console.error(e)
+        if (cancelled) return
+        setDataUrl(null)
+        setFailed(true)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [value])
+
+  if (failed) {
+    return (
+      <div className='rounded-xl border border-dashed border-slate-200 p-3 text-[11px] text-slate-500'>
+        内容过长，无法生成二维码，请改用复制文本的方式。
+      </div>
+    )
+  }
+
+  return (
+    <div className='flex flex-col items-center gap-1 rounded-xl border border-slate-200 bg-white p-3'>
+      {dataUrl ? (
+        <img src={dataUrl} alt={caption} className='h-48 w-48 [image-rendering:pixelated]' />
+      ) : (
+        <div className='h-48 w-48 animate-pulse rounded-lg bg-slate-100' />
+      )}
+      <span className='text-center text-[11px] text-slate-500'>{caption}</span>
+    </div>
+  )
+}
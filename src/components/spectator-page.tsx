@@ -0,0 +1,251 @@
+import { useEffect, useMemo, useState } from 'react'
+import { Eye } from 'lucide-react'
+import {
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ReferenceArea,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Textarea } from '@/components/ui/textarea'
+import { seriesWins } from '@/game/match'
+import { formatOvertimePhase, isSuddenDeath, overtimeRange } from '@/game/overtime'
+import { isPaused, pauseRanges } from '@/game/pause'
+import { formatDuration } from '@/game/presets'
+import { describeScoring } from '@/game/scoring'
+import { buildScoreSeriesForSnapshot } from '@/game/series'
+import { spectatorTimeRemaining } from '@/game/spectator'
+import { createTeams, isMultiTeam, MIN_TEAMS, teamIdsOf, teamNamesOf } from '@/game/teams'
+import { useSpectatorSession, type SpectatorSessionStatus } from '@/hooks/use-spectator-session'
+
+const STATUS_LABELS: Record<SpectatorSessionStatus, string> = {
+  preparing: '正在生成回传信令…',
+  'waiting-host': '请把下方 Answer 发给主机，等待主机应用',
+  watching: '观战中',
+  disconnected: '与主机的连接已断开',
+  error: '无法加入观战',
+}
+
+type SpectatorPageProps = {
+  /** 主机邀请链接中的 Offer */
+  offer: string
+}
+
+/** 观众的只读页面：只显示比分、倒计时与得分曲线，没有任何投票或协商操作。 */
+export function SpectatorPage({ offer }: SpectatorPageProps) {
+  const { status, answer, view, error } = useSpectatorSession(offer)
+  const [nowMs, setNowMs] = useState(() => Date.now())
+  const [copied, setCopied] = useState(false)
+
+  useEffect(() => {
+    const timer = window.setInterval(() => setNowMs(Date.now()), 500)
+    return () => window.clearInterval(timer)
+  }, [])
+
+  const { snapshot, series } = view
+  // 队名与配色取自快照中的队伍；旧版本主机的快照不带队伍，改用单独推送的红 / 蓝队名
+  const teams = snapshot?.teams ?? createTeams(MIN_TEAMS, view.teamNames ?? {})
+  const multiTeam = isMultiTeam(teams)
+  const teamNames = teamNamesOf(teams)
+  const chartData = useMemo(() => (snapshot ? buildScoreSeriesForSnapshot(snapshot) : []), [snapshot])
+  const remaining = spectatorTimeRemaining(view, nowMs)
+  const pauseAreas = snapshot
+    ? pauseRanges(snapshot.pauses ?? [], snapshot.startTimeSec, snapshot.endTimeSec - snapshot.startTimeSec)
+    : []
+  const overtime = snapshot?.overtime ?? null
+  const overtimeArea =
+    snapshot && overtime
+      ? overtimeRange(overtime, snapshot.startTimeSec, chartData[chartData.length - 1]?.second ?? 0)
+      : null
+  const overtimeLabel = overtime ? `${formatOvertimePhase(snapshot?.scoring ?? {}, overtime)} · ` : ''
+
+  const handleCopyAnswer = async () => {
+    try {
+      await navigator.clipboard.writeText(answer)
+      setCopied(true)
+    } catch (e) {
+      console.error(e)
+    }
+  }
+
+  const gameStateLabel = !snapshot
+    ? '等待主机开局'
+    : snapshot.gameState === 'running'
+      ? isPaused(snapshot.pauses ?? [])
+        ? `已暂停，剩余 ${formatDuration(remaining)}`
+        : isSuddenDeath(snapshot.scoring ?? {}, overtime)
+          ? '加时·突然死亡：下一分决胜'
+          : remaining > 0
+            ? `${overtimeLabel}剩余 ${formatDuration(remaining)}`
+            : '等待主机结算…'
+      : '本局已结束'
+
+  return (
+    <div className='min-h-screen bg-gradient-to-br from-sky-50 via-slate-50 to-slate-100 px-4 py-6 text-slate-900'>
+      <div className='mx-auto max-w-3xl space-y-4'>
+        <Card className='border-slate-200/80 shadow-sm'>
+          <CardHeader className='pb-3'>
+            <CardTitle className='flex items-center gap-2 text-base'>
+              <Eye className='h-4 w-4 text-slate-500' />
+              <span>观战模式（只读）</span>
+              <Badge variant='outline' className='ml-auto text-[11px] font-normal'>
+                {STATUS_LABELS[status]}
+              </Badge>
+            </CardTitle>
+            <CardDescription className='text-xs text-slate-600'>
+              观众只能查看比分、倒计时与得分曲线，不能投票，也不参与结束时间等协商。
+            </CardDescription>
+          </CardHeader>
+          {(status === 'preparing' || status === 'waiting-host' || error) && (
+            <CardContent className='space-y-2'>
+              {error ? (
+                <div className='text-[11px] text-red-700'>{error}</div>
+              ) : (
+                <>
+                  <Textarea
+                    readOnly
+                    value={answer}
+                    placeholder='正在生成 Answer…'
+                    className='h-20 resize-none rounded-xl border-slate-200 bg-slate-50 font-mono text-[11px]'
+                  />
+                  <Button
+                    type='button'
+                    size='sm'
+                    variant='outline'
+                    disabled={!answer}
+                    onClick={handleCopyAnswer}
+                    className='rounded-full text-[11px]'
+                  >
+                    {copied ? '已复制，请发给主机' : '复制 Answer'}
+                  </Button>
+                </>
+              )}
+            </CardContent>
+          )}
+        </Card>
+
+        <Card className='border-slate-200/80 shadow-sm'>
+          <CardContent className='space-y-3 pt-4'>
+            <div className='flex flex-wrap items-center justify-between gap-2 text-[11px] text-slate-600'>
+              <span className='text-sm font-semibold text-slate-900 tabular-nums'>{gameStateLabel}</span>
+              {snapshot?.scoring && <span>{describeScoring(snapshot.scoring)}</span>}
+              {series && series.bestOf > 1 && multiTeam && (
+                <span>
+                  BO{series.bestOf} 系列赛：
+                  {Object.entries(seriesWins(series, teamIdsOf(teams)))
+                    .map(([id, wins]) => `${teams.find((team) => team.id === id)?.name ?? id} ${wins}`)
+                    .join(' / ')}
+                </span>
+              )}
+              {series && series.bestOf > 1 && !multiTeam && (
+                <span>
+                  BO{series.bestOf} 系列赛：
+                  <span className='font-semibold text-rose-600'>{seriesWins(series).red}</span>
+                  {' : '}
+                  <span className='font-semibold text-sky-600'>{seriesWins(series).blue}</span>
+                </span>
+              )}
+            </div>
+            {view.outOfSync && (
+              <div className='text-[11px] text-amber-700'>画面与主机不同步，等待主机推送完整数据…</div>
+            )}
+            {multiTeam ? (
+              <div className='grid grid-cols-2 gap-3 md:grid-cols-3'>
+                {teams.map((team) => (
+                  <div key={team.id} className='rounded-2xl border bg-white/80 p-3' style={{ borderColor: team.color }}>
+                    <div className='text-xs font-semibold text-slate-800'>{team.name}</div>
+                    <div className='mt-2 text-4xl font-black tracking-tight tabular-nums' style={{ color: team.color }}>
+                      {snapshot?.scores?.[team.id] ?? 0}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <div className='grid gap-3 md:grid-cols-2'>
+                <div className='rounded-2xl border border-rose-100 bg-rose-50/80 p-3'>
+                  <div className='text-xs font-semibold text-rose-800'>{teamNames.red}</div>
+                  <div className='mt-2 text-4xl font-black tracking-tight text-rose-600 tabular-nums'>
+                    {snapshot?.scoreRed ?? 0}
+                  </div>
+                </div>
+                <div className='rounded-2xl border border-sky-100 bg-sky-50/80 p-3'>
+                  <div className='text-xs font-semibold text-sky-800'>{teamNames.blue}</div>
+                  <div className='mt-2 text-4xl font-black tracking-tight text-sky-600 tabular-nums'>
+                    {snapshot?.scoreBlue ?? 0}
+                  </div>
+                </div>
+              </div>
+            )}
+            <div className='h-56 rounded-xl border border-slate-100 bg-slate-50/70 p-2'>
+              {chartData.length > 0 ? (
+                <ResponsiveContainer width='100%' height='100%'>
+                  <LineChart data={chartData} margin={{ top: 8, right: 8, left: 0, bottom: 8 }}>
+                    <CartesianGrid strokeDasharray='3 3' stroke='#e5e7eb' />
+                    <XAxis
+                      dataKey='second'
+                      tickLine={false}
+                      axisLine={false}
+                      tickMargin={8}
+                      tick={{ fontSize: 11, fill: '#6b7280' }}
+                    />
+                    <YAxis
+                      tickLine={false}
+                      axisLine={false}
+                      width={28}
+                      allowDecimals={false}
+                      tick={{ fontSize: 11, fill: '#6b7280' }}
+                    />
+                    <Tooltip contentStyle={{ fontSize: 11 }} labelFormatter={(value) => `第 ${value} 秒`} />
+                    <Legend verticalAlign='top' align='right' height={24} iconSize={10} />
+                    {pauseAreas.map((range) => (
+                      <ReferenceArea
+                        key={range.from}
+                        x1={range.from}
+                        x2={range.to}
+                        fill='#94a3b8'
+                        fillOpacity={0.2}
+                        label={{ value: '暂停', fontSize: 10, fill: '#64748b' }}
+                      />
+                    ))}
+                    {overtimeArea && (
+                      <ReferenceArea
+                        x1={overtimeArea.from}
+                        x2={overtimeArea.to}
+                        fill='#8b5cf6'
+                        fillOpacity={0.12}
+                        label={{ value: '加时', fontSize: 10, fill: '#6d28d9' }}
+                      />
+                    )}
+                    {teams.map((team) => (
+                      <Line
+                        key={team.id}
+                        type='monotone'
+                        dataKey={team.id}
+                        name={team.name}
+                        stroke={team.color}
+                        strokeWidth={2}
+                        dot={false}
+                        isAnimationActive={false}
+                      />
+                    ))}
+                  </LineChart>
+                </ResponsiveContainer>
+              ) : (
+                <div className='flex h-full items-center justify-center text-[11px] text-slate-500'>
+                  主机开局后，这里会实时显示各队累计得分曲线。
+                </div>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,237 @@
+import { useEffect, useMemo, useState } from 'react'
+import { BarChart3 } from 'lucide-react'
+import { CartesianGrid, Legend, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts'
+import { DateRangePicker } from '@/components/date-range-picker'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { computeStats, type Streak } from '@/game/stats'
+import { TEAM_PALETTE, teamName } from '@/game/teams'
+import type { GameSnapshot, HistoryIndexEntry } from '@/game/types'
+
+type StatsDashboardProps = {
+  entries: HistoryIndexEntry[]
+  loadSnapshot: (gameId: string) => Promise<GameSnapshot | null>
+  onOpenGame: (gameId: string) => void
+}
+
+const shortGameId = (gameId: string) =>
+  gameId.startsWith('GID-') ? `GID-${gameId.slice(4, 11)}` : gameId.slice(0, 10)
+
+function StatTile({ label, value, hint }: { label: string; value: string; hint?: string }) {
+  return (
+    <div className='rounded-xl border border-slate-100 bg-slate-50/80 p-3'>
+      <div className='text-[11px] text-slate-500'>{label}</div>
+      <div className='mt-1 text-2xl font-black tracking-tight text-slate-900 tabular-nums'>{value}</div>
+      {hint && <div className='mt-0.5 truncate text-[10px] text-slate-400'>{hint}</div>}
+    </div>
+  )
+}
+
+/**
+ * 跨对局统计：按日期范围从历史列表中选出对局，读取它们的快照后汇总。
+ * 胜负以本机在各局中的阵营为准；快照已被清理的对局不计入。
+ */
+export function StatsDashboard({ entries, loadSnapshot, onOpenGame }: StatsDashboardProps) {
+  const [range, setRange] = useState<{ fromSec: number | null; toSec: number | null }>({
+    fromSec: null,
+    toSec: null,
+  })
+  const [snapshots, setSnapshots] = useState<GameSnapshot[]>([])
+  const [loading, setLoading] = useState(false)
+  /** 列表中有、但读取不到快照的对局数 */
+  const [missing, setMissing] = useState(0)
+
+  const scopedIds = useMemo(
+    () =>
+      entries
+        .filter(
+          (entry) =>
+            (range.fromSec === null || entry.endTimeSec >= range.fromSec) &&
+            (range.toSec === null || entry.endTimeSec < range.toSec),
+        )
+        .map((entry) => entry.gameId),
+    [entries, range],
+  )
+
+  useEffect(() => {
+    let cancelled = false
+    setLoading(true)
+    Promise.all(scopedIds.map((gameId) => loadSnapshot(gameId).catch(() => null)))
+      .then((loaded) => {
+        if (cancelled) return
+        const found = loaded.filter((snapshot): snapshot is GameSnapshot => !!snapshot)
+        setSnapshots(found)
+        setMissing(loaded.length - found.length)
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [loadSnapshot, scopedIds])
+
+  const stats = useMemo(() => computeStats(snapshots), [snapshots])
+
+  const streakHint = (streak: Streak) =>
+    streak.fromGameId && streak.toGameId
+      ? streak.fromGameId === streak.toGameId
+        ? shortGameId(streak.fromGameId)
+        : `${shortGameId(streak.fromGameId)} → ${shortGameId(streak.toGameId)}`
+      : undefined
+
+  return (
+    <Card className='border-slate-200/80 shadow-sm'>
+      <CardHeader className='pb-3'>
+        <CardTitle className='flex items-center justify-between gap-2 text-base'>
+          <span className='flex items-center gap-2'>
+            <BarChart3 className='h-4 w-4 text-slate-500' />
+            <span>对局统计（仅本机）</span>
+          </span>
+          <DateRangePicker
+            fromSec={range.fromSec}
+            toSec={range.toSec}
+            onChange={(fromSec, toSec) => setRange({ fromSec, toSec })}
+          />
+        </CardTitle>
+        <CardDescription className='text-xs text-slate-600'>
+          汇总所选日期范围内已保存快照的对局。胜负按你在每局中所在的阵营计算，平局会打断连胜与连败。
+        </CardDescription>
+      </CardHeader>
+      <CardContent className='space-y-4'>
+        {loading && snapshots.length === 0 ? (
+          <div className='text-[11px] text-slate-500'>正在读取对局快照…</div>
+        ) : stats.games === 0 ? (
+          <div className='rounded-lg border border-dashed border-slate-200 bg-slate-50/60 px-3 py-3 text-[11px] text-slate-500'>
+            所选范围内还没有可统计的对局。完成几局后再来看看，或放宽日期范围。
+          </div>
+        ) : (
+          <>
+            <div className='grid grid-cols-2 gap-3 md:grid-cols-4'>
+              <StatTile
+                label='统计局数'
+                value={String(stats.games)}
+                hint={missing > 0 ? `${missing} 局快照已清理，未计入` : undefined}
+              />
+              <StatTile
+                label='平均分差'
+                value={String(stats.avgMargin)}
+                hint={
+                  stats.maxMargin
+                    ? `最大 ${stats.maxMargin.margin} 分 · ${shortGameId(stats.maxMargin.gameId)}`
+                    : undefined
+                }
+              />
+              <StatTile label='平均每分钟票数' value={String(stats.votesPerMinute)} />
+              <StatTile
+                label='最长连胜 / 连败'
+                value={`${stats.longestWinStreak.length} / ${stats.longestLossStreak.length}`}
+                hint={streakHint(stats.longestWinStreak)}
+              />
+            </div>
+
+            <div className='overflow-hidden rounded-xl border border-slate-100'>
+              <table className='w-full text-[11px]'>
+                <thead className='bg-slate-50 text-slate-500'>
+                  <tr>
+                    <th className='px-3 py-2 text-left font-medium'>我方阵营</th>
+                    <th className='px-3 py-2 text-right font-medium'>局数</th>
+                    <th className='px-3 py-2 text-right font-medium'>胜</th>
+                    <th className='px-3 py-2 text-right font-medium'>负</th>
+                    <th className='px-3 py-2 text-right font-medium'>平</th>
+                    <th className='px-3 py-2 text-right font-medium'>胜率</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {stats.roles.map((record) => (
+                    <tr key={record.role} className='border-t border-slate-100'>
+                      <td className='px-3 py-2'>{teamName(TEAM_PALETTE, record.role)}</td>
+                      <td className='px-3 py-2 text-right tabular-nums'>{record.played}</td>
+                      <td className='px-3 py-2 text-right tabular-nums text-emerald-700'>{record.wins}</td>
+                      <td className='px-3 py-2 text-right tabular-nums text-red-700'>{record.losses}</td>
+                      <td className='px-3 py-2 text-right tabular-nums text-slate-500'>{record.draws}</td>
+                      <td className='px-3 py-2 text-right tabular-nums'>
+                        {Math.round((record.wins / record.played) * 100)}%
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div className='h-56 rounded-xl border border-slate-100 bg-slate-50/70 p-2'>
+              <ResponsiveContainer width='100%' height='100%'>
+                <LineChart data={stats.trend} margin={{ top: 8, right: 8, left: 0, bottom: 8 }}>
+                  <CartesianGrid strokeDasharray='3 3' stroke='#e5e7eb' />
+                  <XAxis
+                    dataKey='day'
+                    tickLine={false}
+                    axisLine={false}
+                    tickMargin={8}
+                    tick={{ fontSize: 11, fill: '#6b7280' }}
+                  />
+                  <YAxis
+                    yAxisId='rate'
+                    domain={[0, 100]}
+                    tickLine={false}
+                    axisLine={false}
+                    width={32}
+                    tick={{ fontSize: 11, fill: '#6b7280' }}
+                    unit='%'
+                  />
+                  <YAxis
+                    yAxisId='value'
+                    orientation='right'
+                    tickLine={false}
+                    axisLine={false}
+                    width={28}
+                    allowDecimals={false}
+                    tick={{ fontSize: 11, fill: '#6b7280' }}
+                  />
+                  <Tooltip contentStyle={{ fontSize: 11 }} />
+                  <Legend verticalAlign='top' align='right' height={24} iconSize={10} />
+                  <Line
+                    yAxisId='rate'
+                    type='monotone'
+                    dataKey='winRate'
+                    name='胜率 %'
+                    stroke='#10b981'
+                    strokeWidth={2}
+                    dot
+                  />
+                  <Line
+                    yAxisId='value'
+                    type='monotone'
+                    dataKey='avgMargin'
+                    name='平均分差'
+                    stroke='#6366f1'
+                    strokeWidth={2}
+                    dot
+                  />
+                  <Line
+                    yAxisId='value'
+                    type='monotone'
+                    dataKey='votesPerMinute'
+                    name='每分钟票数'
+                    stroke='#f59e0b'
+                    strokeWidth={2}
+                    dot
+                  />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+
+            {stats.maxMargin && (
+              <button
+                type='button'
+                className='text-[11px] text-sky-700 underline-offset-2 hover:underline'
+                onClick={() => stats.maxMargin && onOpenGame(stats.maxMargin.gameId)}
+              >
+                查看分差最大的一局
+              </button>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
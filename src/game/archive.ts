@@ -0,0 +1,171 @@
+import { z } from 'zod'
+import { HISTORY_SCHEMA_VERSION, migrateSnapshot } from './migrations'
+import { buildScoreSeriesForSnapshot } from './series'
+import { DEFAULT_TEAMS, teamIdsOf } from './teams'
+import type { GameSnapshot, HistoryIndexEntry } from './types'
+
+/**
+ * 历史对局的导出文件：JSON 包含完整快照，可以在另一台设备上导入；
+ * CSV 只用于存档与表格分析，不能再导入。
+ */
+
+export const ARCHIVE_FORMAT = 'vote2p-archive'
+export const ARCHIVE_VERSION = 1
+
+export type GameArchive = {
+  format: typeof ARCHIVE_FORMAT
+  version: number
+  exportedAt: number
+  games: GameSnapshot[]
+}
+
+const archiveSchema = z.object({
+  format: z.literal(ARCHIVE_FORMAT),
+  version: z.number().int().positive(),
+  exportedAt: z.number(),
+  games: z.array(z.unknown()),
+})
+
+export const buildArchive = (games: GameSnapshot[], exportedAt: number): GameArchive => ({
+  format: ARCHIVE_FORMAT,
+  version: ARCHIVE_VERSION,
+  exportedAt,
+  games,
+})
+
+export type ParsedArchive = {
+  games: GameSnapshot[]
+  /** 格式不对或尚未结束、因而被跳过的对局数 */
+  invalid: number
+}
+
+/**
+ * 解析导入的 JSON 文件，逐局校验快照；同一文件中重复的 gameId 只保留最后更新的一份。
+ * 文件本身不是导出包时返回错误描述。
+ */
+export const parseArchive = (
+  text: string,
+): { ok: true; archive: ParsedArchive } | { ok: false; error: string } => {
+  let data: unknown
+  try {
+    data = JSON.parse(text)
+  } catch {
+    return { ok: false, error: '文件不是合法的 JSON。' }
+  }
+  const result = archiveSchema.safeParse(data)
+  if (!result.success) {
+    return { ok: false, error: '文件不是本应用导出的对局记录。' }
+  }
+  if (result.data.version > ARCHIVE_VERSION) {
+    return { ok: false, error: '文件来自更新版本的页面，请先刷新到最新版本后再导入。' }
+  }
+  const byId = new Map<string, GameSnapshot>()
+  let invalid = 0
+  for (const item of result.data.games) {
+    // 旧版本导出的对局按本地记录同样的方式升级；来自更新版本的对局无法理解，也计为无效
+    const migrated = migrateSnapshot(item)
+    if (!migrated.ok || migrated.value.gameState !== 'ended') {
+      invalid += 1
+      continue
+    }
+    const game = migrated.value
+    const existing = byId.get(game.gameId)
+    if (!existing || existing.lastUpdatedAt < game.lastUpdatedAt) {
+      byId.set(game.gameId, game)
+    }
+  }
+  return { ok: true, archive: { games: [...byId.values()], invalid } }
+}
+
+export const toHistoryEntry = (snapshot: GameSnapshot): HistoryIndexEntry => ({
+  schemaVersion: HISTORY_SCHEMA_VERSION,
+  gameId: snapshot.gameId,
+  startTimeSec: snapshot.startTimeSec,
+  endTimeSec: snapshot.endTimeSec,
+  scoreRed: snapshot.scoreRed,
+  scoreBlue: snapshot.scoreBlue,
+  lastUpdatedAt: snapshot.lastUpdatedAt,
+  ...(snapshot.seriesId ? { seriesId: snapshot.seriesId } : {}),
+  ...(snapshot.teams && snapshot.scores ? { teams: snapshot.teams, scores: snapshot.scores } : {}),
+})
+
+/** 按结束时间倒序，结束时间相同时按最后更新时间倒序 */
+export const sortHistoryIndex = (entries: HistoryIndexEntry[]) =>
+  [...entries].sort((a, b) => {
+    if (a.endTimeSec !== b.endTimeSec) {
+      return b.endTimeSec - a.endTimeSec
+    }
+    return b.lastUpdatedAt - a.lastUpdatedAt
+  })
+
+/**
+ * 把导入的对局并入历史列表：本机已有同一 gameId 且不比导入的旧时保留本机的，
+ * 替换时保留本机备注。返回合并后的列表与实际需要写入的快照。
+ */
+export const mergeImportedGames = (
+  index: HistoryIndexEntry[],
+  games: GameSnapshot[],
+): { index: HistoryIndexEntry[]; added: GameSnapshot[]; skipped: number } => {
+  const existing = new Map(index.map((entry) => [entry.gameId, entry]))
+  const added = games.filter((game) => {
+    const current = existing.get(game.gameId)
+    return !current || current.lastUpdatedAt < game.lastUpdatedAt
+  })
+  const addedIds = new Set(added.map((game) => game.gameId))
+  return {
+    index: sortHistoryIndex([
+      ...index.filter((entry) => !addedIds.has(entry.gameId)),
+      ...added.map((game) => {
+        const note = existing.get(game.gameId)?.note
+        return { ...toHistoryEntry(game), ...(note ? { note } : {}) }
+      }),
+    ]),
+    added,
+    skipped: games.length - added.length,
+  }
+}
+
+const csvCell = (value: string | number | boolean | undefined) => {
+  if (value === undefined) return ''
+  const text = String(value)
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+const toCsv = (rows: (string | number | boolean | undefined)[][]) =>
+  rows.map((row) => row.map(csvCell).join(',')).join('\r\n') + '\r\n'
+
+/** 每张票一行；被撤销的票也列出，undoneAt 非空 */
+export const eventsToCsv = (games: GameSnapshot[]) =>
+  toCsv([
+    ['gameId', 'second', 'atMs', 'target', 'from', 'seq', 'kind', 'suspicious', 'undoneAt'],
+    ...games.flatMap((game) =>
+      [...game.events.map((event) => ({ ...event, undoneAt: undefined })), ...(game.undone ?? [])]
+        .sort((a, b) => (a.atMs ?? a.at * 1000) - (b.atMs ?? b.at * 1000))
+        .map((event) => [
+          game.gameId,
+          event.at,
+          event.atMs,
+          event.target,
+          event.from,
+          event.seq,
+          event.kind,
+          event.suspicious,
+          event.undoneAt,
+        ]),
+    ),
+  ])
+
+/** 每局每秒一行累计得分；各局队伍不同时，列取所有出现过的队伍，缺的留空 */
+export const seriesToCsv = (games: GameSnapshot[]) => {
+  const teamIds = [...new Set(games.flatMap((game) => teamIdsOf(game.teams ?? DEFAULT_TEAMS)))]
+  return toCsv([
+    ['gameId', 'second', ...teamIds],
+    ...games.flatMap((game) =>
+      buildScoreSeriesForSnapshot(game).map((point) => [
+        game.gameId,
+        point.second,
+        ...teamIds.map((id) => point[id]),
+      ]),
+    ),
+  ])
+}
@@ -0,0 +1,41 @@
+/**
+ * NTP 式时钟对齐：以发起方的时钟作为双方共享时间线，
+ * 加入方通过 ping/pong 估计 offsetMs = 发起方时间 - 本机时间。
+ */
+export type ClockSample = {
+  offsetMs: number
+  rttMs: number
+}
+
+export type ClockSync = {
+  offsetMs: number
+  rttMs: number | null
+  samples: ClockSample[]
+}
+
+// 只保留最近若干次采样，取往返时延最小的一次作为估计（排队抖动最小）
+const MAX_CLOCK_SAMPLES = 8
+
+export const CLOCK_SETTLED_SAMPLES = 5
+
+export const createClockSync = (): ClockSync => ({ offsetMs: 0, rttMs: null, samples: [] })
+
+/** sentAt、receivedAt 为本机时间，replyAt 为对方共享时间线上的时间，均为毫秒。 */
+export const clockSampleFrom = (sentAt: number, replyAt: number, receivedAt: number): ClockSample => ({
+  offsetMs: Math.round(replyAt - (sentAt + receivedAt) / 2),
+  rttMs: Math.max(0, receivedAt - sentAt),
+})
+
+export const addClockSample = (clock: ClockSync, sample: ClockSample): ClockSync => {
+  const samples = [...clock.samples, sample].slice(-MAX_CLOCK_SAMPLES)
+  const best = samples.reduce((acc, item) => (item.rttMs < acc.rttMs ? item : acc))
+  return { offsetMs: best.offsetMs, rttMs: best.rttMs, samples }
+}
+
+export const sharedNowMs = (clock: ClockSync, localNowMs: number) => localNowMs + clock.offsetMs
+
+export const toSharedSeconds = (clock: ClockSync, localSec: number) =>
+  localSec + Math.round(clock.offsetMs / 1000)
+
+export const toLocalSeconds = (clock: ClockSync, sharedSec: number) =>
+  sharedSec - Math.round(clock.offsetMs / 1000)
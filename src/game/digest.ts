@@ -0,0 +1,73 @@
+import { seqWindowFrom } from './sequence'
+import type { RejectedSeq, Role, SeqCut, UndoneEvent, VoteEvent } from './types'
+
+/**
+ * 事件日志摘要：只覆盖各阵营序号不超过 upTo 的事件（以及没有序号的旧事件），
+ * 这样仍在途中的投票不会被误判为不一致。
+ */
+export type EventDigest = {
+  count: number
+  hash: string
+  upTo: SeqCut
+}
+
+// 32 位 FNV-1a，只用于比对，不需要抗碰撞
+const fnv1a = (input: string) => {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < input.length; i += 1) {
+    hash ^= input.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0')
+}
+
+/** 序号的归属方：多队对局的事件带投出方，双队对局沿用按目标阵营区分。 */
+export const seqOwnerOf = (event: Pick<VoteEvent, 'target' | 'from'>) => event.from ?? event.target
+
+// 已撤销与被拒绝的票不计入摘要，但其序号仍算作已收到，否则截止点会停在该序号处
+const contiguousSeq = (events: VoteEvent[], owner: Role, undone: UndoneEvent[], rejected: RejectedSeq[]) =>
+  seqWindowFrom([
+    ...[...events, ...undone]
+      .filter((event) => seqOwnerOf(event) === owner && event.seq !== undefined)
+      .map((event) => event.seq as number),
+    ...rejected.filter((item) => item.owner === owner).map((item) => item.seq),
+  ]).watermark
+
+const canonicalKey = (event: VoteEvent) =>
+  `${event.from ? `${event.from}>` : ''}${event.target}:${event.seq ?? ''}:${event.elapsed}`
+
+const digestWithin = (events: VoteEvent[], upTo: SeqCut): EventDigest => {
+  // 双方收到投票的先后顺序不同，排序后再计算摘要
+  const keys = events
+    .filter((event) => event.seq === undefined || event.seq <= (upTo[seqOwnerOf(event)] ?? 0))
+    .map(canonicalKey)
+    .sort()
+  return { count: keys.length, hash: fnv1a(keys.join('|')), upTo }
+}
+
+/** 以本地已连续收齐的序号为截止点计算摘要，用于发给对方；owners 中的归属方即使没有投票也会列出。 */
+export const digestEvents = (
+  events: VoteEvent[],
+  owners: Role[] = ['red', 'blue'],
+  undone: UndoneEvent[] = [],
+  rejected: RejectedSeq[] = [],
+): EventDigest => {
+  const all = [...new Set([...owners, ...events.map(seqOwnerOf)])]
+  return digestWithin(
+    events,
+    Object.fromEntries(all.map((owner) => [owner, contiguousSeq(events, owner, undone, rejected)])),
+  )
+}
+
+/** 按对方摘要的截止点计算本地摘要；本地尚未收齐到该截止点时返回 null，表示暂时无法比对。 */
+export const digestEventsUpTo = (
+  events: VoteEvent[],
+  upTo: SeqCut,
+  undone: UndoneEvent[] = [],
+  rejected: RejectedSeq[] = [],
+): EventDigest | null => {
+  if (Object.entries(upTo).some(([owner, seq]) => contiguousSeq(events, owner, undone, rejected) < seq)) {
+    return null
+  }
+  return digestWithin(events, upTo)
+}
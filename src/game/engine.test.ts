@@ -0,0 +1,278 @@
+import { describe, expect, it } from 'vitest'
+import { buildSnapshot, createInitialState, reduce, type EngineEffect, type EngineInput, type EngineState } from './engine'
+import { createHello } from './protocol'
+import { DEFAULT_SCORING_RULES } from './scoring'
+import { createTeams } from './teams'
+import type { ConnectionMode, Message, Role, ScoringRules } from './types'
+
+const T0 = 1_700_000_000_000
+
+type Peer = {
+  state: EngineState
+  outbox: Message[]
+  effects: EngineEffect[]
+}
+
+const createPeer = (mode: ConnectionMode): Peer => ({ state: createInitialState(mode), outbox: [], effects: [] })
+
+const run = (peer: Peer, input: EngineInput, nowMs: number, from?: Role) => {
+  const result = reduce(peer.state, input, nowMs, from)
+  peer.state = result.state
+  result.effects.forEach((effect) => {
+    if (effect.type === 'send') {
+      peer.outbox.push(effect.message)
+    } else {
+      peer.effects.push(effect)
+    }
+  })
+}
+
+/** 把 from 已发出的消息按顺序交给 to */
+const flush = (from: Peer, to: Peer, nowMs: number) => {
+  from.outbox.splice(0).forEach((message) => run(to, message, nowMs))
+}
+
+/** 双方来回投递消息，直到没有新的消息 */
+const exchange = (a: Peer, b: Peer, nowMs: number) => {
+  while (a.outbox.length > 0 || b.outbox.length > 0) {
+    flush(a, b, nowMs)
+    flush(b, a, nowMs)
+  }
+}
+
+/** 完成握手、由发起方锁定红方并开始一局 60 秒的对局；teamCount 大于 2 时为多队对局 */
+const startedPair = (options: { bestOf?: number; teamCount?: number; scoring?: ScoringRules } = {}) => {
+  const { teamCount, ...start } = options
+  const host = createPeer('offer')
+  const guest = createPeer('answer')
+  if (teamCount) run(host, { type: 'setTeams', teams: createTeams(teamCount) }, T0)
+  run(host, { type: 'openHandshake' }, T0)
+  run(guest, { type: 'openHandshake' }, T0)
+  exchange(host, guest, T0)
+  run(host, { type: 'selectRole', role: 'red' }, T0)
+  run(host, { type: 'lockSessionRoles', sessionId: 'session-1' }, T0)
+  exchange(host, guest, T0)
+  run(host, { type: 'startRound', roundId: 'round-1', durationSec: 60, ...start }, T0)
+  exchange(host, guest, T0)
+  return { host, guest }
+}
+
+describe('reduce', () => {
+  it('completes the handshake when both sides send hello', () => {
+    const host = createPeer('offer')
+    const guest = createPeer('answer')
+    run(host, { type: 'openHandshake' }, T0)
+    run(guest, { type: 'openHandshake' }, T0)
+    exchange(host, guest, T0)
+    expect(host.state.handshake).toBe('ok')
+    expect(guest.state.handshake).toBe('ok')
+  })
+
+  it('treats a game message before hello as a legacy peer', () => {
+    const host = createPeer('offer')
+    run(host, { type: 'openHandshake' }, T0)
+    run(host, { type: 'ping', sentAt: T0 }, T0)
+    expect(host.state.handshake).toBe('mismatch')
+    expect(host.effects.some((effect) => effect.type === 'error')).toBe(true)
+  })
+
+  it('starts the same round on both sides with the assigned roles', () => {
+    const { host, guest } = startedPair()
+    expect(host.state.gameState).toBe('running')
+    expect(guest.state.gameState).toBe('running')
+    expect(guest.state.roundId).toBe('round-1')
+    expect(guest.state.endTimeSec).toBe(host.state.endTimeSec)
+    expect(host.state.lockedRole).toBe('red')
+    expect(guest.state.lockedRole).toBe('blue')
+  })
+
+  it('carries custom team names in teams and keeps teamNames for older peers', () => {
+    const host = createPeer('offer')
+    const guest = createPeer('answer')
+    run(host, { type: 'openHandshake' }, T0)
+    run(guest, { type: 'openHandshake' }, T0)
+    exchange(host, guest, T0)
+    run(host, { type: 'selectRole', role: 'red' }, T0)
+    run(host, { type: 'lockSessionRoles', sessionId: 'session-1' }, T0)
+    exchange(host, guest, T0)
+    const teamNames = { red: '狮子', blue: '老虎' }
+    run(host, { type: 'startRound', roundId: 'round-1', durationSec: 60, teamNames }, T0)
+    expect(host.outbox[0]).toMatchObject({ type: 'start', teamNames })
+    exchange(host, guest, T0)
+    expect(guest.state.teams.map((team) => team.name)).toEqual(['狮子', '老虎'])
+    expect(buildSnapshot(guest.state, { version: 1, lastUpdatedAt: T0 })?.teamNames).toEqual(teamNames)
+
+    // 旧版本发起方只发送 teamNames
+    const legacy = createPeer('answer')
+    legacy.state = { ...guest.state, roundId: null, gameState: 'idle', teams: createTeams(2) }
+    run(legacy, { type: 'start', roundId: 'round-2', startTime: T0 / 1000, endTime: T0 / 1000 + 60, teamNames }, T0)
+    expect(legacy.state.teams.map((team) => team.name)).toEqual(['狮子', '老虎'])
+  })
+
+  it('ignores an extra peer until it sends a compatible hello', () => {
+    const { host } = startedPair({ teamCount: 3 })
+    const vote: Message = { type: 'vote', roundId: 'round-1', target: 'red', at: 1, seq: 1, from: 'green' }
+    run(host, { type: 'hello', protocolVersion: 0, capabilities: [] }, T0 + 1000, 'green')
+    expect(host.effects.some((effect) => effect.type === 'error')).toBe(true)
+    run(host, vote, T0 + 1000, 'green')
+    expect(host.state.scores.red).toBe(0)
+    expect(host.outbox).toEqual([])
+
+    run(host, createHello(), T0 + 2000, 'green')
+    expect(host.outbox[0]).toMatchObject({ type: 'assignRoles', guestRole: 'green' })
+    run(host, vote, T0 + 2000, 'green')
+    expect(host.state.scores.red).toBe(1)
+  })
+
+  it('counts an acknowledged vote once on both sides', () => {
+    const { host, guest } = startedPair()
+    run(guest, { type: 'castVote' }, T0 + 1000)
+    const [vote] = guest.outbox
+    exchange(host, guest, T0 + 1000)
+    expect(host.state.scores).toEqual({ red: 1, blue: 0 })
+    expect(guest.state.scores).toEqual({ red: 1, blue: 0 })
+    expect(guest.state.pendingVotes).toEqual([])
+
+    // 重发的同一票只补发确认，不重复计分
+    run(host, vote, T0 + 2000)
+    expect(host.state.scores).toEqual({ red: 1, blue: 0 })
+    expect(host.outbox).toEqual([{ type: 'voteAck', roundId: 'round-1', seq: 1 }])
+  })
+
+  it('reports matching digests as in sync', () => {
+    const { host, guest } = startedPair()
+    run(guest, { type: 'castVote' }, T0 + 1000)
+    run(host, { type: 'castVote' }, T0 + 1500)
+    exchange(host, guest, T0 + 2000)
+    run(guest, { type: 'sendDigest' }, T0 + 3000)
+    exchange(host, guest, T0 + 3000)
+    expect(host.state.scoreSync).toBe('inSync')
+  })
+
+  it('ends the round when the timer runs out', () => {
+    const { host } = startedPair()
+    run(host, { type: 'tick' }, T0 + 30_000)
+    expect(host.state.gameState).toBe('running')
+    expect(host.state.timeRemaining).toBe(30)
+    run(host, { type: 'tick' }, T0 + 61_000)
+    expect(host.state.gameState).toBe('ended')
+  })
+
+  it('agrees on one pause start when both sides propose and accept at once', () => {
+    const { host, guest } = startedPair()
+    run(host, { type: 'requestPause' }, T0 + 10_000)
+    run(guest, { type: 'requestPause' }, T0 + 10_000)
+    flush(host, guest, T0 + 10_000)
+    flush(guest, host, T0 + 10_000)
+    run(host, { type: 'answerPause', accept: true }, T0 + 11_000)
+    run(guest, { type: 'answerPause', accept: true }, T0 + 13_000)
+    exchange(host, guest, T0 + 13_000)
+    expect(host.state.pauses).toEqual([{ startSec: T0 / 1000 + 11 }])
+    expect(guest.state.pauses).toEqual(host.state.pauses)
+
+    run(guest, { type: 'resume' }, T0 + 20_000)
+    exchange(host, guest, T0 + 20_000)
+    expect(host.state.endTimeSec).toBe(T0 / 1000 + 69)
+    expect(guest.state.endTimeSec).toBe(host.state.endTimeSec)
+  })
+
+  it('settles simultaneous sudden-death votes on the earlier one on both sides', () => {
+    const overtime = { mode: 'suddenDeath' as const, periodSec: 60, maxPeriods: 1 }
+    const { host, guest } = startedPair({ scoring: { ...DEFAULT_SCORING_RULES, overtime } })
+    run(host, { type: 'tick' }, T0 + 61_000)
+    run(guest, { type: 'tick' }, T0 + 61_000)
+    expect(host.state.overtime).not.toBeNull()
+
+    // 双方几乎同时投出决胜票，各自先按本方的票结束本局
+    run(guest, { type: 'castVote' }, T0 + 62_000)
+    run(host, { type: 'castVote' }, T0 + 62_500)
+    expect(host.state.scores).toEqual({ red: 0, blue: 1 })
+    expect(guest.state.scores).toEqual({ red: 1, blue: 0 })
+
+    exchange(host, guest, T0 + 63_000)
+    expect(host.state.gameState).toBe('ended')
+    expect(guest.state.gameState).toBe('ended')
+    expect(host.state.scores).toEqual({ red: 1, blue: 0 })
+    expect(guest.state.scores).toEqual(host.state.scores)
+    expect(guest.state.endTimeSec).toBe(host.state.endTimeSec)
+    expect(host.state.rejectedSeqs).toEqual([{ owner: 'blue', seq: 1 }])
+    expect(guest.state.rejectedSeqs).toEqual(host.state.rejectedSeqs)
+    expect(host.state.pendingVotes).toEqual([])
+  })
+
+  it('counts a vote cast before the end that arrives after the round has ended', () => {
+    const { host } = startedPair()
+    run(host, { type: 'tick' }, T0 + 61_000)
+    expect(host.state.gameState).toBe('ended')
+    run(host, { type: 'vote', roundId: 'round-1', target: 'red', at: 59, atMs: 59_000, seq: 1 }, T0 + 62_000)
+    expect(host.state.scores).toEqual({ red: 1, blue: 0 })
+    expect(host.outbox).toEqual([{ type: 'voteAck', roundId: 'round-1', seq: 1 }])
+  })
+
+  it('rejects votes cast after the round has ended', () => {
+    const { host } = startedPair()
+    run(host, { type: 'tick' }, T0 + 61_000)
+    run(host, { type: 'vote', roundId: 'round-1', target: 'red', at: 61, atMs: 61_000, seq: 1 }, T0 + 62_000)
+    expect(host.state.scores).toEqual({ red: 0, blue: 0 })
+    expect(host.state.rejectedSeqs).toEqual([{ owner: 'red', seq: 1 }])
+    expect(host.outbox).toEqual([{ type: 'voteRejected', roundId: 'round-1', seq: 1, reason: 'ended' }])
+  })
+
+  it('ignores votes for another round', () => {
+    const { host } = startedPair()
+    run(host, { type: 'vote', roundId: 'round-0', target: 'red', at: 1, seq: 1 }, T0 + 1000)
+    expect(host.state.scores).toEqual({ red: 0, blue: 0 })
+    expect(host.outbox).toEqual([])
+  })
+
+  it('starts the next series round only after every team is ready', () => {
+    const { host, guest } = startedPair({ bestOf: 3 })
+    run(host, { type: 'tick' }, T0 + 61_000)
+    run(guest, { type: 'tick' }, T0 + 61_000)
+    expect(host.state.series?.rounds).toEqual([{ roundId: 'round-1', winner: null }])
+
+    run(host, { type: 'setReady', ready: true, start: { type: 'startSeriesRound', roundId: 'round-2' } }, T0 + 66_000)
+    exchange(host, guest, T0 + 66_000)
+    expect(host.state.gameState).toBe('ended')
+
+    run(guest, { type: 'setReady', ready: true }, T0 + 70_000)
+    exchange(host, guest, T0 + 70_000)
+    expect(host.state.roundId).toBe('round-2')
+    expect(guest.state.roundId).toBe('round-2')
+    expect(guest.state.gameState).toBe('running')
+  })
+
+  it('steps over rejected seqs in digests and restores them from snapshots', () => {
+    const { host, guest } = startedPair()
+    // 投票时间远超发起方当前时间，被发起方以时钟超前为由拒绝
+    run(guest, { type: 'castVote' }, T0 + 10_000)
+    flush(guest, host, T0 + 2000)
+    expect(host.outbox).toContainEqual({ type: 'voteRejected', roundId: 'round-1', seq: 1, reason: 'clock' })
+    flush(host, guest, T0 + 2000)
+    expect(guest.state.voteEvents).toEqual([])
+    expect(guest.state.rejectedSeqs).toEqual([{ owner: 'red', seq: 1 }])
+
+    run(guest, { type: 'castVote' }, T0 + 11_000)
+    run(host, { type: 'castVote' }, T0 + 11_500)
+    exchange(host, guest, T0 + 12_000)
+    run(guest, { type: 'sendDigest' }, T0 + 12_000)
+    expect(guest.outbox[0]).toMatchObject({ type: 'digest', upTo: { red: 2, blue: 1 } })
+    run(host, { type: 'sendDigest' }, T0 + 12_000)
+    exchange(host, guest, T0 + 12_000)
+    expect(host.state.scoreSync).toBe('inSync')
+    expect(guest.state.scoreSync).toBe('inSync')
+
+    // 加入方的记录出现偏差后，由发起方的快照修复，被拒绝的序号一并恢复
+    const snapshot = buildSnapshot(host.state, { version: 1, lastUpdatedAt: T0 + 13_000 })
+    expect(snapshot?.rejected).toEqual([{ owner: 'red', seq: 1 }])
+    guest.state = { ...guest.state, voteEvents: [], rejectedSeqs: [], scores: { red: 0, blue: 0 } }
+    run(guest, { type: 'stateSnapshot', roundId: 'round-1', payload: snapshot! }, T0 + 13_000)
+    expect(guest.state.rejectedSeqs).toEqual([{ owner: 'red', seq: 1 }])
+    expect(guest.state.scores).toEqual(host.state.scores)
+    expect(guest.state.nextVoteSeq).toBe(3)
+    run(host, { type: 'sendDigest' }, T0 + 14_000)
+    exchange(host, guest, T0 + 14_000)
+    expect(guest.state.scoreSync).toBe('inSync')
+    expect(guest.state.digestGaps).toBe(0)
+  })
+})
@@ -0,0 +1,2077 @@
+import { addClockSample, clockSampleFrom, createClockSync, sharedNowMs, type ClockSync } from './clock'
+import { digestEvents, digestEventsUpTo, seqOwnerOf } from './digest'
+import { allReady, START_COUNTDOWN_SEC, withReady } from './lobby'
+import { createSeries, isSeriesOver, recordSeriesRound, roundWinner, seriesWins, seriesWinner } from './match'
+import { SNAPSHOT_SCHEMA_VERSION } from './migrations'
+import { isSuddenDeath, nextOvertime } from './overtime'
+import { createHello, formatVersionMismatch, isCompatiblePeer, peerSupports } from './protocol'
+import {
+  DEFAULT_SCORING_RULES,
+  LEGACY_SCORING,
+  reachedScoreCap,
+  resolveScoring,
+  scoreEvents,
+} from './scoring'
+import { activePause, endPause, isPaused, pausedAtElapsed, remainingSec, setPauseStart, startPause } from './pause'
+import { addSeq, emptySeqWindow, hasSeq, seqWindowFrom, type SeqWindow } from './sequence'
+import { findVote, lastVoteOf, UNDO_WINDOW_SEC, undoDeadlineMs, undoVote } from './undo'
+import {
+  canVoteFor,
+  createTeams,
+  DEFAULT_TEAMS,
+  emptyScores,
+  isMultiTeam,
+  MIN_TEAMS,
+  teamIdsOf,
+  teamName,
+  teamNamesOf,
+  TEAM_PALETTE,
+} from './teams'
+import {
+  checkVoteRate,
+  DEFAULT_GAME_SETTINGS,
+  formatVoteRejectReason,
+  isSuspiciouslyRegular,
+  NO_VOTE_LIMITS,
+} from './vote-limits'
+import type {
+  ConnectionMode,
+  GameSettings,
+  GameSnapshot,
+  GameState,
+  HandshakeState,
+  MatchSeries,
+  Message,
+  OvertimeState,
+  PauseInterval,
+  PeerProtocol,
+  RejectedSeq,
+  Role,
+  RoundScoring,
+  ScoreSyncStatus,
+  ScoringRules,
+  Scores,
+  SessionRoles,
+  SnapshotEvent,
+  Team,
+  TeamNames,
+  UndoneEvent,
+  VoteEvent,
+  VoteKind,
+  VoteRejectReason,
+} from './types'
+
+/**
+ * 无框架依赖的对局引擎：所有规则都集中在 reduce 中，
+ * 输入为远端 Message 或本地 LocalAction，输出新状态与需要由宿主执行的副作用列表。
+ */
+
+/** 已发出但尚未收到对方 voteAck 的本方投票，重连后按序号重发。 */
+export type PendingVote = {
+  seq: number
+  target: Role
+  at: number
+  atMs?: number
+  kind?: VoteKind
+  from?: Role
+}
+
+/** 对方请求撤销的那一票；expiresAtMs 为共享时间线上的撤销期限，requestedBy 为请求方所在的连接 */
+export type IncomingUndo = {
+  owner: Role
+  seq: number
+  target: Role
+  kind?: VoteKind
+  expiresAtMs: number
+  requestedBy?: Role
+}
+
+export type EngineState = {
+  mode: ConnectionMode
+  handshake: HandshakeState
+  peerProtocol: PeerProtocol | null
+  /** 多队对局中主连接之外各加入方的握手状态，握手完成前不处理其对局消息 */
+  extraHandshakes: Record<Role, HandshakeState>
+  clock: ClockSync
+  lockedRole: Role | null
+  roleLocked: boolean
+  sessionId: string | null
+  sessionRoles: SessionRoles | null
+  rolesConfirmed: boolean
+  gameState: GameState
+  roundId: string | null
+  startTimeSec: number | null
+  endTimeSec: number | null
+  timeRemaining: number
+  scores: Scores
+  voteEvents: VoteEvent[]
+  nextVoteSeq: number
+  pendingVotes: PendingVote[]
+  /** 按序号归属方（见 seqOwnerOf）记录已收到的对方投票序号 */
+  peerVoteSeqs: Record<Role, SeqWindow>
+  scoreSync: ScoreSyncStatus
+  lastRepairSec: number | null
+  digestGaps: number
+  incomingEndChange: { proposedEndTime: number } | null
+  incomingEndNow: boolean
+  /** 本局的暂停记录，最后一段没有 endSec 表示正在暂停 */
+  pauses: PauseInterval[]
+  incomingPause: boolean
+  /** 经双方同意撤销的投票，已从 voteEvents 中移除 */
+  undoneEvents: UndoneEvent[]
+  /** 本局被拒绝的投票序号，包括本方被对方拒绝的与本方拒绝对方的 */
+  rejectedSeqs: RejectedSeq[]
+  incomingUndo: IncomingUndo | null
+  /** 开局前已准备的队伍；发起方在各队都准备后按 pendingStart 开局 */
+  readyTeams: Role[]
+  pendingStart: PendingStart | null
+  /** 开局倒计时剩余秒数，倒计时结束后为 0 */
+  startsIn: number
+  /** 平局加时；常规时间内为 null */
+  overtime: OvertimeState | null
+  series: MatchSeries | null
+  settings: GameSettings
+  scoring: RoundScoring
+  /** 本会话的队伍；超过两队时为星型拓扑，发起方负责转发各加入方的消息 */
+  teams: Team[]
+}
+
+export type LocalAction =
+  | { type: 'setMode'; mode: ConnectionMode }
+  | { type: 'openHandshake' }
+  | { type: 'selectRole'; role: Role }
+  | { type: 'lockSessionRoles'; sessionId: string }
+  | { type: 'setTeams'; teams: Team[] }
+  | { type: 'prepareJoin' }
+  | { type: 'connectionLost' }
+  | {
+      type: 'startRound'
+      roundId: string
+      /** 二选一：按时长开局时，结束时间在开局这一刻才确定 */
+      endTimeSec?: number
+      durationSec?: number
+      bestOf?: number
+      seriesId?: string
+      settings?: GameSettings
+      teamNames?: TeamNames
+      scoring?: ScoringRules
+      /** 开局倒计时：开始时间推迟到这么多秒之后 */
+      countdownSec?: number
+    }
+  | { type: 'startSeriesRound'; roundId: string; countdownSec?: number }
+  | { type: 'setReady'; ready: boolean; start?: PendingStart }
+  | { type: 'castVote'; kind?: VoteKind; target?: Role }
+  | { type: 'resendPendingVotes' }
+  | { type: 'sendDigest' }
+  | { type: 'sendClockPing' }
+  | { type: 'tick' }
+  | { type: 'requestEndChange'; proposedEndTime: number }
+  | { type: 'answerEndChange'; accept: boolean }
+  | { type: 'dismissEndChange' }
+  | { type: 'requestEndNow' }
+  | { type: 'answerEndNow'; accept: boolean }
+  | { type: 'dismissEndNow' }
+  | { type: 'requestPause' }
+  | { type: 'answerPause'; accept: boolean }
+  | { type: 'dismissPause' }
+  | { type: 'resume' }
+  | { type: 'requestUndo' }
+  | { type: 'answerUndo'; accept: boolean }
+  | { type: 'dismissUndo' }
+  | { type: 'hydrate'; snapshot: GameSnapshot }
+  | { type: 'resetRound' }
+  | { type: 'resetSession' }
+
+/** 发起方准备时附带的开局参数，各队都准备后才执行 */
+export type PendingStart = Extract<LocalAction, { type: 'startRound' | 'startSeriesRound' }>
+
+export type EngineInput = Message | LocalAction
+
+/**
+ * send 的 to / exclude 按队伍 id 选择连接：都不填时发给所有直接相连的对端，
+ * 双队对局只有一个对端，因此与不填相同。
+ */
+export type EngineEffect =
+  | { type: 'send'; message: Message; to?: Role; exclude?: Role }
+  | { type: 'error'; message: string }
+  | { type: 'info'; message: string | null }
+  | { type: 'roleSync'; message: string | null }
+  | { type: 'roleAssignment'; message: string }
+  | { type: 'roundStarted'; roundId: string }
+  | { type: 'snapshotApplied'; snapshot: GameSnapshot }
+  | { type: 'sendStateSnapshot'; to?: Role }
+  | { type: 'rolesConfirmed' }
+  | { type: 'voteRejected'; message: string }
+
+export type EngineResult = {
+  state: EngineState
+  effects: EngineEffect[]
+}
+
+export const formatRoleLabel = (role: Role) => {
+  if (role === 'red') return '红方 Red'
+  if (role === 'blue') return '蓝方 Blue'
+  return teamName(TEAM_PALETTE, role)
+}
+
+/** 只用于双队对局 */
+export const opponentOf = (role: Role): Role => (role === 'red' ? 'blue' : 'red')
+
+export const createInitialState = (mode: ConnectionMode = 'offer'): EngineState => ({
+  mode,
+  handshake: 'pending',
+  peerProtocol: null,
+  extraHandshakes: {},
+  clock: createClockSync(),
+  lockedRole: null,
+  roleLocked: false,
+  sessionId: null,
+  sessionRoles: null,
+  rolesConfirmed: false,
+  gameState: 'idle',
+  roundId: null,
+  startTimeSec: null,
+  endTimeSec: null,
+  timeRemaining: 0,
+  scores: { red: 0, blue: 0 },
+  voteEvents: [],
+  nextVoteSeq: 1,
+  pendingVotes: [],
+  peerVoteSeqs: {},
+  scoreSync: 'unchecked',
+  lastRepairSec: null,
+  digestGaps: 0,
+  incomingEndChange: null,
+  incomingEndNow: false,
+  pauses: [],
+  incomingPause: false,
+  undoneEvents: [],
+  rejectedSeqs: [],
+  incomingUndo: null,
+  readyTeams: [],
+  pendingStart: null,
+  startsIn: 0,
+  overtime: null,
+  series: null,
+  settings: DEFAULT_GAME_SETTINGS,
+  scoring: LEGACY_SCORING,
+  teams: DEFAULT_TEAMS,
+})
+
+export const isHost = (state: Pick<EngineState, 'mode'>) => state.mode === 'offer'
+
+const unchanged = (state: EngineState): EngineResult => ({ state, effects: [] })
+
+const isCurrentRound = (state: EngineState, roundId: string) =>
+  !!state.roundId && roundId === state.roundId
+
+const multiTeam = (state: Pick<EngineState, 'teams'>) => isMultiTeam(state.teams)
+
+/** 直接相连的对端：加入方只连发起方，发起方的主连接对应 guestRole。 */
+const primaryPeerOf = (state: EngineState): Role | undefined => {
+  if (!state.sessionRoles) return undefined
+  return isHost(state) ? state.sessionRoles.guestRole : state.sessionRoles.hostRole
+}
+
+/** send 的目标是否包含主连接；加入方只有主连接，发起方按主连接对应的队伍判断。 */
+export const sendsToPrimary = (state: EngineState, routing: { to?: Role; exclude?: Role }) => {
+  const primary = primaryPeerOf(state)
+  if (!isHost(state) || primary === undefined) return true
+  return (routing.to === undefined || routing.to === primary) && routing.exclude !== primary
+}
+
+/** 本方投票的序号归属方：多队对局为本队，双队对局为对方阵营（投票目标）。 */
+const ownSeqOwner = (state: Pick<EngineState, 'teams'>, lockedRole: Role) =>
+  multiTeam(state) ? lockedRole : opponentOf(lockedRole)
+
+const labelOf = (state: Pick<EngineState, 'teams'>, role: Role) =>
+  multiTeam(state) ? teamName(state.teams, role) : formatRoleLabel(role)
+
+const resetRoundFields = (state: EngineState): EngineState => ({
+  ...state,
+  roundId: null,
+  startTimeSec: null,
+  endTimeSec: null,
+  timeRemaining: 0,
+  scores: emptyScores(teamIdsOf(state.teams)),
+  voteEvents: [],
+  nextVoteSeq: 1,
+  pendingVotes: [],
+  peerVoteSeqs: {},
+  scoreSync: 'unchecked',
+  lastRepairSec: null,
+  digestGaps: 0,
+  gameState: 'idle',
+  incomingEndChange: null,
+  incomingEndNow: false,
+  pauses: [],
+  incomingPause: false,
+  undoneEvents: [],
+  rejectedSeqs: [],
+  incomingUndo: null,
+  readyTeams: [],
+  pendingStart: null,
+  startsIn: 0,
+  overtime: null,
+  series: null,
+})
+
+/** 同一投票方的各票时间（毫秒），即其点击时间序列；owner 为序号归属方。 */
+const voteTimesOf = (events: VoteEvent[], owner: Role) =>
+  events.flatMap((event) =>
+    seqOwnerOf(event) === owner && event.atMs !== undefined ? [event.atMs] : [],
+  )
+
+const withVoteEvents = (state: EngineState, voteEvents: VoteEvent[]): EngineState => ({
+  ...state,
+  voteEvents,
+  scores: scoreEvents(voteEvents, state.scoring, teamIdsOf(state.teams)),
+})
+
+type IncomingVote = Pick<VoteEvent, 'target' | 'seq' | 'atMs' | 'kind' | 'from'> & { at: number }
+
+const applyVote = (state: EngineState, vote: IncomingVote): EngineState => {
+  const event: VoteEvent = { target: vote.target, elapsed: vote.at }
+  if (vote.seq !== undefined) event.seq = vote.seq
+  if (vote.atMs !== undefined) {
+    event.atMs = vote.atMs
+    if (isSuspiciouslyRegular([...voteTimesOf(state.voteEvents, seqOwnerOf(vote)), vote.atMs])) {
+      event.suspicious = true
+    }
+  }
+  if (vote.kind) event.kind = vote.kind
+  if (vote.from) event.from = vote.from
+  return withVoteEvents(state, [...state.voteEvents, event])
+}
+
+const peerSeqsOf = (state: EngineState, owner: Role) => state.peerVoteSeqs[owner] ?? emptySeqWindow()
+
+const withPeerSeq = (state: EngineState, owner: Role, seq: number): EngineState => ({
+  ...state,
+  peerVoteSeqs: { ...state.peerVoteSeqs, [owner]: addSeq(peerSeqsOf(state, owner), seq) },
+})
+
+/** 记下一个被拒绝的序号；同一序号只记一次 */
+const withRejectedSeq = (state: EngineState, owner: Role, seq: number): EngineState =>
+  state.rejectedSeqs.some((item) => item.owner === owner && item.seq === seq)
+    ? state
+    : { ...state, rejectedSeqs: [...state.rejectedSeqs, { owner, seq }] }
+
+/** 拒绝的对方投票同样算作已收到，并留下墓碑，双方摘要的截止点才能越过这个序号 */
+const rejectPeerVote = (state: EngineState, owner: Role, seq: number): EngineState =>
+  withRejectedSeq(withPeerSeq(state, owner, seq), owner, seq)
+
+const fromSnapshotEvent = ({ at, ...rest }: SnapshotEvent): VoteEvent => ({ ...rest, elapsed: at })
+
+const toSnapshotEvent = ({ elapsed, ...rest }: VoteEvent): SnapshotEvent => ({ ...rest, at: elapsed })
+
+const sendVote = (roundId: string, vote: PendingVote): EngineEffect => ({
+  type: 'send',
+  message: {
+    type: 'vote',
+    roundId,
+    target: vote.target,
+    at: vote.at,
+    seq: vote.seq,
+    ...(vote.atMs === undefined ? {} : { atMs: vote.atMs }),
+    ...(vote.kind ? { kind: vote.kind } : {}),
+    ...(vote.from ? { from: vote.from } : {}),
+  },
+})
+
+const ackVote = (roundId: string, seq: number, to?: Role): EngineEffect => ({
+  type: 'send',
+  message: { type: 'voteAck', roundId, seq },
+  ...(to ? { to } : {}),
+})
+
+const beginRound = (
+  state: EngineState,
+  roundId: string,
+  startSec: number,
+  endSec: number,
+): EngineState | null => {
+  if (!Number.isFinite(endSec) || endSec <= startSec) {
+    return null
+  }
+  return {
+    ...state,
+    roundId,
+    startTimeSec: startSec,
+    endTimeSec: endSec,
+    scores: emptyScores(teamIdsOf(state.teams)),
+    voteEvents: [],
+    nextVoteSeq: 1,
+    pendingVotes: [],
+    peerVoteSeqs: {},
+    scoreSync: 'unchecked',
+    lastRepairSec: null,
+    digestGaps: 0,
+    timeRemaining: Math.max(0, endSec - startSec),
+    gameState: 'running',
+    incomingEndChange: null,
+    incomingEndNow: false,
+    pauses: [],
+    incomingPause: false,
+    undoneEvents: [],
+    rejectedSeqs: [],
+    incomingUndo: null,
+    readyTeams: [],
+    pendingStart: null,
+    startsIn: 0,
+    overtime: null,
+  }
+}
+
+const endImmediately = (state: EngineState, nowSec: number): EngineState => ({
+  ...state,
+  endTimeSec: nowSec,
+  timeRemaining: 0,
+  gameState: 'ended',
+  incomingEndNow: false,
+  pauses: endPause(state.pauses, nowSec),
+  incomingPause: false,
+  incomingUndo: null,
+})
+
+const applyPause = (state: EngineState, atSec: number): EngineState => ({
+  ...state,
+  pauses: startPause(state.pauses, atSec),
+  incomingPause: false,
+  timeRemaining: state.endTimeSec ? Math.max(0, state.endTimeSec - atSec) : 0,
+})
+
+/**
+ * 恢复时结束时间顺延暂停的时长；暂停开始于倍数窗口之前时，倍数窗口一并顺延，
+ * 保证“最后 N 秒”仍是最后 N 秒。双方按同一个恢复时间计算，结果一致。
+ */
+const applyResume = (state: EngineState, atSec: number): EngineState => {
+  const pause = activePause(state.pauses)
+  if (!pause || !state.endTimeSec || !state.startTimeSec) return state
+  const pausedSec = Math.max(0, atSec - pause.startSec)
+  const pausedAtElapsedSec = pause.startSec - state.startTimeSec
+  const scoring =
+    state.scoring.finalWindowSec > 0 && pausedAtElapsedSec < state.scoring.multiplierFromSec
+      ? { ...state.scoring, multiplierFromSec: state.scoring.multiplierFromSec + pausedSec }
+      : state.scoring
+  return {
+    ...state,
+    endTimeSec: state.endTimeSec + pausedSec,
+    pauses: endPause(state.pauses, atSec),
+    scoring,
+  }
+}
+
+const applyUndo = (state: EngineState, vote: VoteEvent, undoneAt: number): EngineState => {
+  const { events, undone } = undoVote(state.voteEvents, state.undoneEvents, vote, undoneAt)
+  const incoming = state.incomingUndo
+  const answered = !!incoming && seqOwnerOf(vote) === incoming.owner && vote.seq === incoming.seq
+  return {
+    ...withVoteEvents(state, events),
+    undoneEvents: undone,
+    incomingUndo: answered ? null : incoming,
+  }
+}
+
+const rejectUndo = (
+  roundId: string,
+  request: Pick<IncomingUndo, 'owner' | 'seq' | 'requestedBy'>,
+): EngineEffect => ({
+  type: 'send',
+  message: { type: 'rejectUndo', roundId, owner: request.owner, seq: request.seq },
+  ...(request.requestedBy ? { to: request.requestedBy } : {}),
+})
+
+const isPausedVote = (state: EngineState, vote: Pick<IncomingVote, 'at' | 'atMs'>) =>
+  !!state.startTimeSec && pausedAtElapsed(state.pauses, state.startTimeSec, vote.atMs ?? vote.at * 1000)
+
+/**
+ * 用快照覆盖当前局。按序号归属方（双队对局为投票目标，多队对局为投出方）
+ * 从事件中恢复本方与各对端的投票序号；快照中尚未包含的待确认投票会保留并重新计入。
+ */
+const hydrate = (
+  state: EngineState,
+  snapshot: GameSnapshot,
+  lockedRole: Role,
+  nowSec: number,
+): EngineState => {
+  const teams = snapshot.teams ?? DEFAULT_TEAMS
+  const ownOwner = ownSeqOwner({ teams }, lockedRole)
+  const ownSeqs: number[] = []
+  const peerSeqs: Record<Role, number[]> = {}
+  const undoneEvents = snapshot.undone ?? []
+  const rejectedSeqs = snapshot.rejected ?? []
+  // 已撤销与被拒绝的票的序号同样视为已用过，避免重新分配或把重发当作新票
+  const usedSeqs = [
+    ...[...snapshot.events, ...undoneEvents].flatMap((event) =>
+      event.seq === undefined ? [] : [{ owner: seqOwnerOf(event), seq: event.seq }],
+    ),
+    ...rejectedSeqs,
+  ]
+  usedSeqs.forEach(({ owner, seq }) => {
+    if (owner === ownOwner) {
+      ownSeqs.push(seq)
+    } else {
+      peerSeqs[owner] = [...(peerSeqs[owner] ?? []), seq]
+    }
+  })
+  const sameRound = state.roundId === snapshot.gameId
+  const pendingVotes = sameRound
+    ? state.pendingVotes.filter((vote) => !ownSeqs.includes(vote.seq))
+    : []
+  const hydrated: EngineState = {
+    ...state,
+    roundId: snapshot.gameId,
+    startTimeSec: snapshot.startTimeSec,
+    endTimeSec: snapshot.endTimeSec,
+    scores: snapshot.scores ?? { red: snapshot.scoreRed, blue: snapshot.scoreBlue },
+    voteEvents: snapshot.events.map(fromSnapshotEvent),
+    scoring: snapshot.scoring ?? LEGACY_SCORING,
+    pauses: snapshot.pauses ?? [],
+    undoneEvents,
+    rejectedSeqs,
+    overtime: snapshot.overtime ?? null,
+    teams,
+    nextVoteSeq: Math.max(sameRound ? state.nextVoteSeq : 1, ...ownSeqs.map((seq) => seq + 1)),
+    pendingVotes,
+    peerVoteSeqs: Object.fromEntries(
+      Object.entries(peerSeqs).map(([owner, seqs]) => [owner, seqWindowFrom(seqs)]),
+    ),
+    timeRemaining:
+      snapshot.gameState === 'running' ? remainingSec(snapshot.endTimeSec, snapshot.pauses ?? [], nowSec) : 0,
+    gameState: snapshot.gameState,
+    lockedRole,
+    roleLocked: true,
+    sessionId: snapshot.sessionId,
+  }
+  return pendingVotes.reduce((acc, vote) => applyVote(acc, vote), hydrated)
+}
+
+const ensureRoleFromSessionRoles = (
+  state: EngineState,
+  roles: SessionRoles,
+  effects: EngineEffect[],
+): EngineState => {
+  // 多队对局中 start 广播给所有加入方，guestRole 只对应主连接，加入方的队伍以 assignRoles 为准
+  if (multiTeam(state) && !isHost(state) && state.lockedRole) {
+    return { ...state, sessionRoles: { hostRole: roles.hostRole, guestRole: state.lockedRole } }
+  }
+  const expectedRole = isHost(state) ? roles.hostRole : roles.guestRole
+  if (state.lockedRole !== expectedRole) {
+    effects.push({ type: 'roleSync', message: '角色信息已根据对局数据自动校正。' })
+  }
+  return { ...state, sessionRoles: roles, roleLocked: true, lockedRole: expectedRole }
+}
+
+/** 主连接上加入方的队伍：双队对局为对方阵营，多队对局为第一个不是本方的队伍。 */
+const primaryGuestRoleOf = (state: Pick<EngineState, 'teams'>, hostRole: Role) =>
+  multiTeam(state)
+    ? (state.teams.find((team) => team.id !== hostRole)?.id ?? opponentOf(hostRole))
+    : opponentOf(hostRole)
+
+const startRoundNow = (
+  state: EngineState,
+  lockedRole: Role,
+  roundId: string,
+  nowSec: number,
+  startSec: number,
+  endTimeSec: number,
+): EngineResult => {
+  const roles: SessionRoles = state.sessionRoles
+    ? state.sessionRoles
+    : isHost(state)
+      ? { hostRole: lockedRole, guestRole: primaryGuestRoleOf(state, lockedRole) }
+      : { hostRole: opponentOf(lockedRole), guestRole: lockedRole }
+  const begun = beginRound({ ...state, sessionRoles: roles }, roundId, startSec, endTimeSec)
+  if (!begun) {
+    return unchanged(state)
+  }
+  const started: EngineState = { ...begun, startsIn: Math.max(0, startSec - nowSec) }
+  const start: Message = {
+    type: 'start',
+    roundId,
+    startTime: startSec,
+    endTime: endTimeSec,
+    roles,
+    settings: started.settings,
+    scoring: started.scoring,
+    teams: started.teams,
+    ...(multiTeam(started) ? {} : { teamNames: teamNamesOf(started.teams) }),
+  }
+  return {
+    state: started,
+    effects: [
+      { type: 'roundStarted', roundId },
+      { type: 'info', message: null },
+      { type: 'send', message: started.series ? { ...start, series: started.series } : start },
+    ],
+  }
+}
+
+const formatSeriesScore = (series: MatchSeries, teams: Team[]) => {
+  if (!isMultiTeam(teams)) {
+    const wins = seriesWins(series)
+    return `红方 ${wins.red} : ${wins.blue} 蓝方`
+  }
+  const wins = seriesWins(series, teamIdsOf(teams))
+  return teams.map((team) => `${team.name} ${wins[team.id]}`).join(' : ')
+}
+
+/** 任一方达到封顶分数时立即结束本局；双方按同样的事件计分，会各自得出同样的结果。 */
+const settleScoreCap = (result: EngineResult, nowSec: number): EngineResult => {
+  const { state } = result
+  if (state.gameState !== 'running') return result
+  const capped = reachedScoreCap(state.scores, state.scoring)
+  if (!capped) return result
+  return {
+    state: endImmediately(state, nowSec),
+    effects: [
+      ...result.effects,
+      {
+        type: 'info',
+        message: `${labelOf(state, capped)} 率先达到 ${state.scoring.scoreCap} 分，本局结束。`,
+      },
+    ],
+  }
+}
+
+/** 突然死亡中打破平局的一票结束本局；结束时间取该票的时间，双方结果一致。 */
+const settleSuddenDeath = (result: EngineResult): EngineResult => {
+  const { state } = result
+  const { startTimeSec, endTimeSec } = state
+  if (state.gameState !== 'running' || !startTimeSec || !endTimeSec) return result
+  if (!isSuddenDeath(state.scoring, state.overtime)) return result
+  const winner = roundWinner(state.scores)
+  if (!winner) return result
+  const lastElapsed = Math.max(0, ...state.voteEvents.map((event) => event.elapsed))
+  return {
+    state: endImmediately(state, Math.max(endTimeSec, startTimeSec + lastElapsed)),
+    effects: [
+      ...result.effects,
+      { type: 'info', message: `${labelOf(state, winner)} 在突然死亡加时中率先得分，赢得本局。` },
+    ],
+  }
+}
+
+/** 当前局结束（或结束后比分被修复）时，把本局胜负记入系列赛。 */
+const settleSeriesRound = (result: EngineResult): EngineResult => {
+  const { state } = result
+  const { series, roundId } = state
+  if (!series || !roundId || state.gameState !== 'ended') return result
+  const wasOver = isSeriesOver(series)
+  const updated = recordSeriesRound(series, roundId, roundWinner(state.scores))
+  if (updated === series) return result
+  const winner = seriesWinner(updated)
+  const score = formatSeriesScore(updated, state.teams)
+  const message =
+    !isSeriesOver(updated) || wasOver
+      ? `第 ${updated.rounds.length} 局结束，系列赛比分 ${score}。`
+      : winner
+        ? `系列赛结束：${score}，${labelOf(state, winner)} 赢得 BO${updated.bestOf}。`
+        : `系列赛结束：${score}，打满 ${updated.rounds.length} 局仍未分出胜负，系列赛战平。`
+  return {
+    state: { ...state, series: updated },
+    effects: [...result.effects, { type: 'info', message }],
+  }
+}
+
+// 旧版本页面不会发送 hello，收到的第一条消息就是对局消息
+const LEGACY_PEER: PeerProtocol = { protocolVersion: 0, capabilities: [] }
+
+const rejectPeer = (state: EngineState, peer: PeerProtocol): EngineResult => ({
+  state: { ...state, handshake: 'mismatch', peerProtocol: peer },
+  effects: [{ type: 'error', message: formatVersionMismatch(peer) }],
+})
+
+// 连续多少次摘要仍无法覆盖对方截止点时，视为投票丢失而非仍在途中
+const DIGEST_GAP_LIMIT = 3
+
+/**
+ * 多队对局中发起方收到的投票：校验后确认给投出方，并转发给其他加入方；
+ * 加入方收到的是发起方转发（或发起方自己投出）的票，只有发起方自己的票需要确认。
+ */
+const receiveTeamVote = (
+  state: EngineState,
+  msg: Extract<Message, { type: 'vote' }>,
+  sender: Role | undefined,
+  localNowMs: number,
+): EngineResult => {
+  const voter = msg.from
+  if (!voter || (isHost(state) && voter !== sender)) return unchanged(state)
+  const replyTo = isHost(state) ? voter : undefined
+  const needsAck = isHost(state) || voter === sender
+  if (hasSeq(peerSeqsOf(state, voter), msg.seq)) {
+    return { state, effects: needsAck ? [ackVote(msg.roundId, msg.seq, replyTo)] : [] }
+  }
+  const received = withPeerSeq(state, voter, msg.seq)
+  if (isHost(state)) {
+    const reject = (reason: VoteRejectReason): EngineResult => ({
+      state: rejectPeerVote(state, voter, msg.seq),
+      effects: [
+        {
+          type: 'send',
+          message: { type: 'voteRejected', roundId: msg.roundId, seq: msg.seq, reason },
+          to: voter,
+        },
+        // 其他加入方没有收到这一票，同样需要记下这个序号
+        {
+          type: 'send',
+          message: { type: 'voteRejected', roundId: msg.roundId, seq: msg.seq, reason, owner: voter },
+          exclude: voter,
+        },
+        {
+          type: 'voteRejected',
+          message: `已拒绝${teamName(state.teams, voter)} 1 票：${formatVoteRejectReason(reason, state.settings)}。`,
+        },
+      ],
+    })
+    if (!canVoteFor(state.teams, voter, msg.target)) return reject('rules')
+    if (msg.kind === 'steal' && state.scoring.stealPoints <= 0) return reject('rules')
+    if (isPausedVote(state, msg)) return reject('paused')
+    if (msg.atMs !== undefined && state.startTimeSec) {
+      const elapsedNowMs = sharedNowMs(state.clock, localNowMs) - state.startTimeSec * 1000
+      const reason = checkVoteRate(
+        voteTimesOf(state.voteEvents, voter),
+        msg.atMs,
+        state.settings,
+        elapsedNowMs,
+      )
+      if (reason) return reject(reason)
+    }
+  }
+  const effects: EngineEffect[] = []
+  if (needsAck) effects.push(ackVote(msg.roundId, msg.seq, replyTo))
+  if (isHost(state)) effects.push({ type: 'send', message: msg, exclude: voter })
+  return { state: applyVote(received, msg), effects }
+}
+
+type VoteOrder = { timeMs: number; owner: Role }
+
+const voteOrderOf = (timeMs: number, vote: Pick<VoteEvent, 'target' | 'from'>): VoteOrder => ({
+  timeMs,
+  owner: seqOwnerOf(vote),
+})
+
+/** 按共享时间线上的投票时间排先后，同一毫秒投出的票按序号归属方的 id 排序，各端结果一致 */
+const isEarlierVote = (a: VoteOrder, b: VoteOrder) =>
+  a.timeMs < b.timeMs || (a.timeMs === b.timeMs && a.owner < b.owner)
+
+/**
+ * 突然死亡以最先投出的决胜票为准：本局已由某一票决出胜负后，又收到更早投出的加时票时，
+ * 撤回排在它之后的票（记为被拒绝的序号）并回到加时中，由这一票重新结算。不需要改判时返回 null。
+ * 双队对局双方按同样的规则各自改判；多队对局由发起方把撤回的票告知各加入方。
+ */
+const reopenSuddenDeath = (
+  state: EngineState,
+  msg: Extract<Message, { type: 'vote' }>,
+): EngineResult | null => {
+  const { overtime, startTimeSec, lockedRole } = state
+  if (!overtime || !startTimeSec || !lockedRole || !isSuddenDeath(state.scoring, overtime)) return null
+  if (!roundWinner(state.scores)) return null
+  const incoming = voteOrderOf(msg.atMs ?? msg.at * 1000, msg)
+  if (incoming.timeMs < (overtime.startSec - startTimeSec) * 1000) return null
+  const later = state.voteEvents.filter((event) =>
+    isEarlierVote(incoming, voteOrderOf(event.atMs ?? event.elapsed * 1000, event)),
+  )
+  if (later.length === 0) return null
+  const ownOwner = ownSeqOwner(state, lockedRole)
+  const effects: EngineEffect[] = []
+  let next = withVoteEvents(
+    { ...state, gameState: 'running', endTimeSec: overtime.startSec, timeRemaining: 0 },
+    state.voteEvents.filter((event) => !later.includes(event)),
+  )
+  later.forEach((event) => {
+    const owner = seqOwnerOf(event)
+    const { seq } = event
+    if (seq === undefined) return
+    if (owner === ownOwner) {
+      const pendingVotes = next.pendingVotes.filter((vote) => vote.seq !== seq)
+      next = withRejectedSeq({ ...next, pendingVotes }, owner, seq)
+      return
+    }
+    next = rejectPeerVote(next, owner, seq)
+    if (isHost(state) && multiTeam(state)) {
+      const message: Message = { type: 'voteRejected', roundId: msg.roundId, seq, reason: 'ended' }
+      effects.push(
+        { type: 'send', message, to: owner },
+        { type: 'send', message: { ...message, owner }, exclude: owner },
+      )
+    }
+  })
+  return { state: next, effects }
+}
+
+/** 投票是否在本局结束之后才投出；结束前投出、因重发晚到的票仍然有效 */
+const castAfterEnd = (state: EngineState, msg: Extract<Message, { type: 'vote' }>) => {
+  const { startTimeSec, endTimeSec } = state
+  if (!startTimeSec || !endTimeSec) return true
+  return (msg.atMs ?? msg.at * 1000) >= (endTimeSec - startTimeSec) * 1000
+}
+
+/**
+ * 本局结束之后才投出的票一律拒绝。多队对局由发起方告知投出方与其他加入方；
+ * 加入方收到的是发起方转发的票，只记下序号。
+ */
+const rejectLateVote = (
+  state: EngineState,
+  msg: Extract<Message, { type: 'vote' }>,
+  sender: Role | undefined,
+): EngineResult => {
+  const owner = seqOwnerOf(msg)
+  const message: Message = { type: 'voteRejected', roundId: msg.roundId, seq: msg.seq, reason: 'ended' }
+  if (!multiTeam(state)) {
+    return { state: rejectPeerVote(state, owner, msg.seq), effects: [{ type: 'send', message }] }
+  }
+  if (!isHost(state)) return unchanged(rejectPeerVote(state, owner, msg.seq))
+  if (owner !== sender) return unchanged(state)
+  return {
+    state: rejectPeerVote(state, owner, msg.seq),
+    effects: [
+      { type: 'send', message, to: owner },
+      { type: 'send', message: { ...message, owner }, exclude: owner },
+    ],
+  }
+}
+
+// 多队对局中，由某个加入方接受的结束时间修改需要由发起方转告其他加入方
+const relayToOthers = (state: EngineState, msg: Message, sender: Role | undefined): EngineEffect[] =>
+  isHost(state) && multiTeam(state) && sender ? [{ type: 'send', message: msg, exclude: sender }] : []
+
+/** 给主连接之外的加入方分配队伍；本局已开始时再补发一份快照。 */
+const assignExtraPeer = (state: EngineState, team: Role): EngineResult => {
+  const { sessionId, lockedRole } = state
+  if (!sessionId || !lockedRole || !multiTeam(state)) {
+    return {
+      state,
+      effects: [{ type: 'error', message: '请先在步骤 1 中设置多队对局并锁定本方队伍。' }],
+    }
+  }
+  const effects: EngineEffect[] = [
+    {
+      type: 'send',
+      message: { type: 'assignRoles', sessionId, hostRole: lockedRole, guestRole: team, teams: state.teams },
+      to: team,
+    },
+  ]
+  if (state.roundId && state.gameState !== 'idle') {
+    effects.push({ type: 'sendStateSnapshot', to: team })
+  }
+  return { state, effects }
+}
+
+// 多队对局中只由发起方处理的消息；加入方之间没有直接连接
+const HOST_ONLY_FROM_EXTRA = new Set<Message['type']>(['start', 'stateSnapshot', 'assignRoles', 'pong'])
+
+const reduceMessage = (
+  state: EngineState,
+  msg: Message,
+  nowSec: number,
+  localNowMs: number,
+  from?: Role,
+): EngineResult => {
+  const primary = primaryPeerOf(state)
+  // 主连接之外的加入方（多队对局）各自握手，不影响主连接的握手状态
+  const extraPeer = isHost(state) && !!from && from !== primary
+  const sender = from ?? primary
+  if (extraPeer) {
+    const rejectExtraPeer = (peer: PeerProtocol): EngineResult => ({
+      state: { ...state, extraHandshakes: { ...state.extraHandshakes, [from]: 'mismatch' } },
+      effects: [{ type: 'error', message: `${teamName(state.teams, from)}：${formatVersionMismatch(peer)}` }],
+    })
+    if (msg.type === 'hello') {
+      const peer: PeerProtocol = { protocolVersion: msg.protocolVersion, capabilities: msg.capabilities }
+      if (!isCompatiblePeer(peer) || !peerSupports(peer, 'multiTeam')) {
+        return rejectExtraPeer(peer)
+      }
+      return assignExtraPeer({ ...state, extraHandshakes: { ...state.extraHandshakes, [from]: 'ok' } }, from)
+    }
+    // 与主连接相同：未发 hello 就发对局消息的是旧版本页面；版本不兼容的加入方在重新握手前一律忽略
+    const handshake = state.extraHandshakes[from] ?? 'pending'
+    if (handshake === 'pending') return rejectExtraPeer(LEGACY_PEER)
+    if (handshake === 'mismatch') return unchanged(state)
+    if (HOST_ONLY_FROM_EXTRA.has(msg.type)) return unchanged(state)
+    if (msg.type === 'assignRolesAck') {
+      return {
+        state,
+        effects: [{ type: 'roleAssignment', message: `${teamName(state.teams, from)}已加入对局。` }],
+      }
+    }
+  } else if (msg.type === 'hello') {
+    const peer: PeerProtocol = {
+      protocolVersion: msg.protocolVersion,
+      capabilities: msg.capabilities,
+    }
+    if (!isCompatiblePeer(peer)) {
+      return rejectPeer(state, peer)
+    }
+    return unchanged({ ...state, handshake: 'ok', peerProtocol: peer })
+  }
+  if (!extraPeer && state.handshake === 'pending') {
+    return rejectPeer(state, LEGACY_PEER)
+  }
+  if (!extraPeer && state.handshake === 'mismatch') {
+    return unchanged(state)
+  }
+
+  const effects: EngineEffect[] = []
+  switch (msg.type) {
+    case 'start': {
+      if (!Number.isFinite(msg.endTime) || msg.endTime <= nowSec) {
+        return unchanged(state)
+      }
+      let next: EngineState = msg.teams ? { ...state, teams: msg.teams } : state
+      if (msg.roles) {
+        next = ensureRoleFromSessionRoles(next, msg.roles, effects)
+      }
+      // 系列赛进度以发起方为准，不带 series 的开局表示单局
+      next = {
+        ...next,
+        series: msg.series ?? null,
+        settings: msg.settings ?? NO_VOTE_LIMITS,
+        scoring: msg.scoring ?? LEGACY_SCORING,
+        // 旧版本发起方只发送红 / 蓝队名
+        teams: msg.teams ?? createTeams(MIN_TEAMS, msg.teamNames),
+      }
+      // 开始时间以发起方在共享时间线上的时间为准，不再使用本机收到消息的时间
+      const started = beginRound(next, msg.roundId, msg.startTime, msg.endTime)
+      if (!started) {
+        return { state: next, effects }
+      }
+      effects.push({ type: 'roundStarted', roundId: msg.roundId }, { type: 'info', message: null })
+      return { state: { ...started, startsIn: Math.max(0, msg.startTime - nowSec) }, effects }
+    }
+    case 'stateSnapshot': {
+      const snapshot = msg.payload
+      if (!snapshot || !snapshot.gameId) {
+        return unchanged(state)
+      }
+      // 来自其他局的快照直接忽略，避免覆盖当前局
+      if (state.roundId && state.roundId !== snapshot.gameId) {
+        return unchanged(state)
+      }
+      // 快照中的 lockedRole / isHost 是发送方视角，落到本机前换算成本机视角；多队对局沿用本机已分配的队伍
+      if (snapshot.teams && isMultiTeam(snapshot.teams) && !state.lockedRole) {
+        return unchanged(state)
+      }
+      const lockedRole =
+        snapshot.teams && isMultiTeam(snapshot.teams)
+          ? (state.lockedRole as Role)
+          : snapshot.isHost === isHost(state)
+            ? snapshot.lockedRole
+            : opponentOf(snapshot.lockedRole)
+      const next: EngineState = {
+        ...hydrate(state, snapshot, lockedRole, nowSec),
+        scoreSync: 'inSync',
+        lastRepairSec: state.scoreSync === 'repairing' ? nowSec : state.lastRepairSec,
+        digestGaps: 0,
+      }
+      const local = buildSnapshot(next, {
+        version: snapshot.version,
+        lastUpdatedAt: snapshot.lastUpdatedAt,
+      })
+      return {
+        state: next,
+        effects: local ? [{ type: 'snapshotApplied', snapshot: local }] : [],
+      }
+    }
+    case 'vote': {
+      if (!isCurrentRound(state, msg.roundId)) return unchanged(state)
+      if (state.gameState !== 'running' && !hasSeq(peerSeqsOf(state, seqOwnerOf(msg)), msg.seq)) {
+        const reopened = reopenSuddenDeath(state, msg)
+        if (reopened) {
+          // 回到加时后按进行中的票处理，随后由 settleSuddenDeath 按这一票重新结束本局
+          const result = reduceMessage(reopened.state, msg, nowSec, localNowMs, from)
+          return { state: result.state, effects: [...reopened.effects, ...result.effects] }
+        }
+        // 结束前投出的票照常计入，结束后的比分变化由 settleSeriesRound 重新记入系列赛
+        if (castAfterEnd(state, msg)) return rejectLateVote(state, msg, sender)
+      }
+      if (multiTeam(state)) return receiveTeamVote(state, msg, sender, localNowMs)
+      // 双队对局中对方投票的目标就是本方阵营，序号按目标阵营记录
+      const owner = msg.target
+      // 重发的投票只补发确认，不重复计分
+      if (hasSeq(peerSeqsOf(state, owner), msg.seq)) {
+        return { state, effects: [ackVote(msg.roundId, msg.seq)] }
+      }
+      if (msg.kind === 'steal' && state.scoring.stealPoints <= 0) {
+        return {
+          state: rejectPeerVote(state, owner, msg.seq),
+          effects: [
+            {
+              type: 'send',
+              message: { type: 'voteRejected', roundId: msg.roundId, seq: msg.seq, reason: 'rules' },
+            },
+          ],
+        }
+      }
+      if (isPausedVote(state, msg)) {
+        return {
+          state: rejectPeerVote(state, owner, msg.seq),
+          effects: [
+            {
+              type: 'send',
+              message: { type: 'voteRejected', roundId: msg.roundId, seq: msg.seq, reason: 'paused' },
+            },
+          ],
+        }
+      }
+      if (msg.atMs !== undefined && state.startTimeSec) {
+        const elapsedNowMs = sharedNowMs(state.clock, localNowMs) - state.startTimeSec * 1000
+        const reason = checkVoteRate(
+          voteTimesOf(state.voteEvents, owner),
+          msg.atMs,
+          state.settings,
+          elapsedNowMs,
+        )
+        if (reason) {
+          return {
+            state: rejectPeerVote(state, owner, msg.seq),
+            effects: [
+              {
+                type: 'send',
+                message: { type: 'voteRejected', roundId: msg.roundId, seq: msg.seq, reason },
+              },
+              {
+                type: 'voteRejected',
+                message: `已拒绝对方 1 票：${formatVoteRejectReason(reason, state.settings)}。`,
+              },
+            ],
+          }
+        }
+      }
+      effects.push(ackVote(msg.roundId, msg.seq))
+      const received = withPeerSeq(state, owner, msg.seq)
+      // 若尚未锁定角色，则根据收到的投票目标进行自动锁定并应用
+      if (!state.lockedRole) {
+        effects.push({
+          type: 'roleSync',
+          message: `角色已锁定：${formatRoleLabel(msg.target)}（根据对局数据自动锁定）`,
+        })
+        const next = { ...received, roleLocked: true, lockedRole: msg.target }
+        return { state: applyVote(next, msg), effects }
+      }
+      // 若已锁定但不一致，则校正为对局数据中的目标再应用
+      if (msg.target !== state.lockedRole) {
+        effects.push({ type: 'roleSync', message: '角色未正确分配，已按对局数据校正。' })
+        const next = { ...received, lockedRole: msg.target }
+        return { state: applyVote(next, msg), effects }
+      }
+      return { state: applyVote(received, msg), effects }
+    }
+    case 'voteAck': {
+      if (!isCurrentRound(state, msg.roundId)) return unchanged(state)
+      if (!state.pendingVotes.some((vote) => vote.seq === msg.seq)) return unchanged(state)
+      return unchanged({
+        ...state,
+        pendingVotes: state.pendingVotes.filter((vote) => vote.seq !== msg.seq),
+      })
+    }
+    case 'voteRejected': {
+      if (!isCurrentRound(state, msg.roundId) || !state.lockedRole) return unchanged(state)
+      const owner = ownSeqOwner(state, state.lockedRole)
+      // 发起方转告的其他队伍被拒绝的票，本机从未收到，只记下序号
+      if (msg.owner && msg.owner !== owner) {
+        return unchanged(rejectPeerVote(state, msg.owner, msg.seq))
+      }
+      // 撤回被对方拒绝的本方投票
+      const index = state.voteEvents.findIndex(
+        (event) => seqOwnerOf(event) === owner && event.seq === msg.seq,
+      )
+      const rejected = withRejectedSeq(
+        { ...state, pendingVotes: state.pendingVotes.filter((vote) => vote.seq !== msg.seq) },
+        owner,
+        msg.seq,
+      )
+      if (index < 0) return unchanged(rejected)
+      return {
+        state: withVoteEvents(
+          rejected,
+          state.voteEvents.filter((_, i) => i !== index),
+        ),
+        effects: [
+          {
+            type: 'voteRejected',
+            message: `你的 1 票被对方拒绝：${formatVoteRejectReason(msg.reason, state.settings)}。`,
+          },
+        ],
+      }
+    }
+    case 'digest': {
+      if (state.roundId && state.roundId !== msg.roundId) return unchanged(state)
+      if (!state.roundId) {
+        // 本机没有这一局（例如刷新后重新连接），向发起方索取完整快照
+        if (isHost(state)) return unchanged(state)
+        return {
+          state,
+          effects: [
+            {
+              type: 'send',
+              message: { type: 'requestResync', roundId: msg.roundId, reason: 'missing' },
+            },
+          ],
+        }
+      }
+      const local = digestEventsUpTo(state.voteEvents, msg.upTo, state.undoneEvents, state.rejectedSeqs)
+      // 截止点之前仍有投票在途，等待重发后再比对
+      if (!local && state.digestGaps + 1 < DIGEST_GAP_LIMIT) {
+        return unchanged({ ...state, digestGaps: state.digestGaps + 1 })
+      }
+      if (local && local.count === msg.count && local.hash === msg.hash) {
+        return unchanged(
+          state.scoreSync === 'inSync' && state.digestGaps === 0
+            ? state
+            : { ...state, scoreSync: 'inSync', digestGaps: 0 },
+        )
+      }
+      if (isHost(state)) {
+        return {
+          state: { ...state, scoreSync: 'repairing', lastRepairSec: nowSec, digestGaps: 0 },
+          effects: [{ type: 'sendStateSnapshot', to: sender }],
+        }
+      }
+      return {
+        state: { ...state, scoreSync: 'repairing', digestGaps: 0 },
+        effects: [
+          {
+            type: 'send',
+            message: { type: 'requestResync', roundId: msg.roundId, reason: 'mismatch' },
+          },
+        ],
+      }
+    }
+    case 'requestResync': {
+      if (!isHost(state) || !isCurrentRound(state, msg.roundId)) return unchanged(state)
+      if (msg.reason === 'missing') {
+        return { state, effects: [{ type: 'sendStateSnapshot', to: sender }] }
+      }
+      return {
+        state: { ...state, scoreSync: 'repairing', lastRepairSec: nowSec },
+        effects: [{ type: 'sendStateSnapshot', to: sender }],
+      }
+    }
+    case 'ping':
+      return {
+        state,
+        effects: [
+          {
+            type: 'send',
+            message: { type: 'pong', sentAt: msg.sentAt, replyAt: sharedNowMs(state.clock, localNowMs) },
+            ...(sender ? { to: sender } : {}),
+          },
+        ],
+      }
+    case 'pong': {
+      // 发起方的时钟就是共享时间线，只有加入方需要校准
+      if (isHost(state) || msg.sentAt > localNowMs) return unchanged(state)
+      const sample = clockSampleFrom(msg.sentAt, msg.replyAt, localNowMs)
+      return unchanged({ ...state, clock: addClockSample(state.clock, sample) })
+    }
+    case 'assignRoles': {
+      const myRole = isHost(state) ? msg.hostRole : msg.guestRole
+      const prev = state.lockedRole
+      const teams = msg.teams ?? DEFAULT_TEAMS
+      if (prev && prev !== myRole) {
+        effects.push({
+          type: 'roleSync',
+          message: `你本地选择的是${labelOf(state, prev)}，已根据发起方方案调整为${labelOf(
+            { teams },
+            myRole,
+          )}。`,
+        })
+      } else {
+        effects.push({ type: 'roleSync', message: `角色已锁定：${labelOf({ teams }, myRole)}。` })
+      }
+      const next: EngineState = {
+        ...state,
+        sessionId: msg.sessionId,
+        sessionRoles: { hostRole: msg.hostRole, guestRole: msg.guestRole },
+        roleLocked: true,
+        lockedRole: myRole,
+        teams,
+      }
+      if (!isHost(state)) {
+        effects.push(
+          { type: 'send', message: { type: 'assignRolesAck', sessionId: msg.sessionId, myRole } },
+          { type: 'roleAssignment', message: '角色分配完成，你的阵营已锁定。' },
+        )
+      }
+      return { state: next, effects }
+    }
+    case 'assignRolesAck': {
+      if (!state.sessionId || msg.sessionId !== state.sessionId) {
+        return unchanged(state)
+      }
+      return {
+        state: { ...state, rolesConfirmed: true },
+        effects: [
+          { type: 'rolesConfirmed' },
+          { type: 'roleAssignment', message: '角色分配完成，双方阵营已同步。' },
+        ],
+      }
+    }
+    case 'proposeEndChange': {
+      if (!isCurrentRound(state, msg.roundId)) return unchanged(state)
+      return unchanged({ ...state, incomingEndChange: { proposedEndTime: msg.proposedEndTime } })
+    }
+    case 'acceptEndChange': {
+      if (!isCurrentRound(state, msg.roundId)) return unchanged(state)
+      return {
+        state: { ...state, endTimeSec: msg.proposedEndTime, incomingEndChange: null },
+        effects: [
+          ...relayToOthers(state, msg, sender),
+          { type: 'info', message: '对方已同意修改结束时间，已同步更新。' },
+        ],
+      }
+    }
+    case 'rejectEndChange': {
+      if (!isCurrentRound(state, msg.roundId)) return unchanged(state)
+      return {
+        state,
+        effects: [{ type: 'info', message: '对方拒绝了本次结束时间修改，本局保持原结束时间。' }],
+      }
+    }
+    case 'proposeEndNow': {
+      if (!isCurrentRound(state, msg.roundId)) return unchanged(state)
+      return unchanged({ ...state, incomingEndNow: true })
+    }
+    case 'acceptEndNow': {
+      if (!isCurrentRound(state, msg.roundId)) return unchanged(state)
+      return {
+        state: endImmediately(state, nowSec),
+        effects: [
+          ...relayToOthers(state, msg, sender),
+          { type: 'info', message: '对方已同意立即结束，本局已结束。' },
+        ],
+      }
+    }
+    case 'rejectEndNow': {
+      if (!isCurrentRound(state, msg.roundId)) return unchanged(state)
+      return {
+        state,
+        effects: [{ type: 'info', message: '对方拒绝立即结束，本局继续进行。' }],
+      }
+    }
+    case 'proposePause': {
+      if (!isCurrentRound(state, msg.roundId) || state.gameState !== 'running') return unchanged(state)
+      if (isPaused(state.pauses)) return unchanged(state)
+      return unchanged({ ...state, incomingPause: true })
+    }
+    case 'acceptPause': {
+      if (!isCurrentRound(state, msg.roundId) || state.gameState !== 'running') return unchanged(state)
+      const pause = activePause(state.pauses)
+      if (pause) {
+        // 双方同时提议并各自同意时都已开始暂停，暂停开始时间取较早的一个，双方结果一致
+        if (msg.pausedAt >= pause.startSec) return unchanged({ ...state, incomingPause: false })
+        return {
+          state: applyPause({ ...state, pauses: setPauseStart(state.pauses, msg.pausedAt) }, msg.pausedAt),
+          effects: relayToOthers(state, msg, sender),
+        }
+      }
+      return {
+        state: applyPause(state, msg.pausedAt),
+        effects: [
+          ...relayToOthers(state, msg, sender),
+          { type: 'info', message: '对方已同意暂停，倒计时已停止，恢复前双方都不能投票。' },
+        ],
+      }
+    }
+    case 'rejectPause': {
+      if (!isCurrentRound(state, msg.roundId)) return unchanged(state)
+      return {
+        state,
+        effects: [{ type: 'info', message: '对方拒绝暂停，本局继续进行。' }],
+      }
+    }
+    case 'resume': {
+      if (!isCurrentRound(state, msg.roundId) || !isPaused(state.pauses)) return unchanged(state)
+      // 以恢复方记录的暂停开始时间为准，双方顺延的时长才会相同；旧版本对端不发送
+      const synced =
+        msg.pausedAt === undefined ? state : { ...state, pauses: setPauseStart(state.pauses, msg.pausedAt) }
+      return {
+        state: applyResume(synced, msg.resumedAt),
+        effects: [
+          ...relayToOthers(state, msg, sender),
+          { type: 'info', message: '对方已恢复对局，结束时间已按暂停时长顺延。' },
+        ],
+      }
+    }
+    case 'ready': {
+      // 发起方只接受各队为自己发出的准备状态；加入方收到的是发起方转发的各队状态
+      if (!sender || (isHost(state) && msg.team !== sender)) return unchanged(state)
+      if (state.gameState === 'running') return unchanged(state)
+      const label = multiTeam(state) ? labelOf(state, msg.team) : '对方'
+      return launchWhenAllReady(
+        {
+          state: { ...state, readyTeams: withReady(state.readyTeams, msg.team, msg.ready) },
+          effects: [
+            ...relayToOthers(state, msg, sender),
+            { type: 'info', message: msg.ready ? `${label}已准备。` : `${label}取消了准备。` },
+          ],
+        },
+        nowSec,
+        localNowMs,
+      )
+    }
+    case 'proposeUndo': {
+      if (!isCurrentRound(state, msg.roundId) || state.gameState !== 'running' || !state.startTimeSec) {
+        return unchanged(state)
+      }
+      // 只能撤销请求方自己的票：多队对局按投出方区分，双队对局中对方的票都投给本方
+      const peerOwner = multiTeam(state) ? sender : state.lockedRole
+      if (!peerOwner || msg.owner !== peerOwner) return unchanged(state)
+      const request = { owner: msg.owner, seq: msg.seq, ...(sender ? { requestedBy: sender } : {}) }
+      const vote = findVote(state.voteEvents, msg.owner, msg.seq)
+      const expiresAtMs = vote ? undoDeadlineMs(state.startTimeSec, vote) : 0
+      if (!vote || sharedNowMs(state.clock, localNowMs) > expiresAtMs) {
+        return { state, effects: [rejectUndo(msg.roundId, request)] }
+      }
+      return unchanged({
+        ...state,
+        incomingUndo: { ...request, target: vote.target, ...(vote.kind ? { kind: vote.kind } : {}), expiresAtMs },
+      })
+    }
+    case 'acceptUndo': {
+      if (!isCurrentRound(state, msg.roundId)) return unchanged(state)
+      const vote = findVote(state.voteEvents, msg.owner, msg.seq)
+      if (!vote) return unchanged(state)
+      const own = !!state.lockedRole && msg.owner === ownSeqOwner(state, state.lockedRole)
+      return {
+        state: applyUndo(state, vote, msg.undoneAt),
+        effects: [
+          ...relayToOthers(state, msg, sender),
+          {
+            type: 'info',
+            message: own
+              ? '对方已同意撤销你的上一票，比分已更新。'
+              : `${labelOf(state, msg.owner)}的 1 票已撤销，比分已更新。`,
+          },
+        ],
+      }
+    }
+    case 'rejectUndo': {
+      if (!isCurrentRound(state, msg.roundId)) return unchanged(state)
+      return {
+        state,
+        effects: [{ type: 'info', message: '对方没有同意撤销你的上一票，这一票仍然有效。' }],
+      }
+    }
+    default:
+      return unchanged(state)
+  }
+}
+
+const reduceLocal = (
+  state: EngineState,
+  action: LocalAction,
+  nowSec: number,
+  localNowMs: number,
+): EngineResult => {
+  switch (action.type) {
+    case 'setMode':
+      if (action.mode === state.mode) return unchanged(state)
+      return unchanged({ ...state, mode: action.mode, clock: createClockSync() })
+    case 'openHandshake':
+      return {
+        state: { ...state, handshake: 'pending', peerProtocol: null },
+        effects: [{ type: 'send', message: createHello() }],
+      }
+    case 'selectRole': {
+      if (!state.teams.some((team) => team.id === action.role)) return unchanged(state)
+      if (state.roleLocked && state.lockedRole && state.lockedRole !== action.role) {
+        return {
+          state,
+          effects: [
+            {
+              type: 'roleSync',
+              message: '角色已锁定，如需更换阵营，请断开当前连接并重新进入房间。',
+            },
+          ],
+        }
+      }
+      return {
+        state: { ...state, lockedRole: action.role, roleLocked: true },
+        effects: [{ type: 'roleSync', message: `角色已锁定：${labelOf(state, action.role)}。` }],
+      }
+    }
+    case 'setTeams': {
+      if (state.sessionId || state.gameState === 'running') {
+        return {
+          state,
+          effects: [{ type: 'error', message: '已建立会话，如需调整队伍请断开连接后重新设置。' }],
+        }
+      }
+      const keepRole = !!state.lockedRole && action.teams.some((team) => team.id === state.lockedRole)
+      return unchanged({
+        ...state,
+        teams: action.teams,
+        scores: emptyScores(teamIdsOf(action.teams)),
+        lockedRole: keepRole ? state.lockedRole : null,
+        roleLocked: keepRole && state.roleLocked,
+      })
+    }
+    case 'lockSessionRoles': {
+      if (!state.lockedRole) {
+        return unchanged(state)
+      }
+      const sessionId = state.sessionId ?? action.sessionId
+      const hostRole = state.lockedRole
+      const guestRole = primaryGuestRoleOf(state, hostRole)
+      return {
+        state: {
+          ...state,
+          sessionId,
+          sessionRoles: { hostRole, guestRole },
+          roleLocked: true,
+          rolesConfirmed: false,
+        },
+        effects: [
+          {
+            type: 'send',
+            message: {
+              type: 'assignRoles',
+              sessionId,
+              hostRole,
+              guestRole,
+              ...(multiTeam(state) ? { teams: state.teams } : {}),
+            },
+            to: guestRole,
+          },
+          { type: 'roleSync', message: `角色已锁定：${labelOf(state, hostRole)}。` },
+        ],
+      }
+    }
+    case 'prepareJoin':
+      return {
+        state: {
+          ...state,
+          roleLocked: false,
+          lockedRole: null,
+          sessionRoles: null,
+          rolesConfirmed: false,
+        },
+        effects: [{ type: 'roleSync', message: '等待发起方分配阵营…' }],
+      }
+    case 'connectionLost':
+      return unchanged({
+        ...state,
+        rolesConfirmed: false,
+        scoreSync: 'unchecked',
+        readyTeams: [],
+        pendingStart: null,
+      })
+    case 'setReady': {
+      const { lockedRole } = state
+      if (!lockedRole || !state.sessionRoles) {
+        return { state, effects: [{ type: 'error', message: '请先完成连接并锁定阵营，再点击准备。' }] }
+      }
+      if (state.gameState === 'running') return unchanged(state)
+      if (action.ready && isHost(state) && !action.start) return unchanged(state)
+      const next: EngineState = {
+        ...state,
+        readyTeams: withReady(state.readyTeams, lockedRole, action.ready),
+        pendingStart: isHost(state) && action.ready ? (action.start ?? null) : null,
+      }
+      return launchWhenAllReady(
+        {
+          state: next,
+          effects: [
+            { type: 'send', message: { type: 'ready', team: lockedRole, ready: action.ready } },
+            { type: 'info', message: action.ready ? '你已准备，等待其他队伍准备。' : '你已取消准备。' },
+          ],
+        },
+        nowSec,
+        localNowMs,
+      )
+    }
+    case 'startRound': {
+      const { lockedRole } = state
+      if (!lockedRole) {
+        return {
+          state,
+          effects: [{ type: 'error', message: '请先在步骤 1 中确认阵营并完成角色锁定。' }],
+        }
+      }
+      const startSec = nowSec + (action.countdownSec ?? 0)
+      const endTimeSec =
+        action.durationSec !== undefined ? startSec + action.durationSec : action.endTimeSec
+      if (endTimeSec === undefined || !Number.isFinite(endTimeSec)) {
+        return { state, effects: [{ type: 'error', message: '请先设置本局时长或结束时间。' }] }
+      }
+      if (endTimeSec <= startSec) {
+        return {
+          state,
+          effects: [
+            {
+              type: 'error',
+              message:
+                action.durationSec !== undefined ? '本局时长必须大于 0。' : '结束时间必须晚于当前时间。',
+            },
+          ],
+        }
+      }
+      if (multiTeam(state) && !isHost(state)) {
+        return { state, effects: [{ type: 'error', message: '多队对局只能由发起方开始。' }] }
+      }
+      const bestOf = action.bestOf ?? 1
+      if (bestOf > 1 && !isHost(state)) {
+        return { state, effects: [{ type: 'error', message: '系列赛只能由发起方设置并开始。' }] }
+      }
+      const series =
+        bestOf > 1
+          ? createSeries(action.seriesId ?? action.roundId, bestOf, endTimeSec - startSec)
+          : null
+      const settings = action.settings ?? DEFAULT_GAME_SETTINGS
+      const scoring = resolveScoring(action.scoring ?? DEFAULT_SCORING_RULES, endTimeSec - startSec)
+      // 队名随队伍保存；多队对局的队名在步骤 1 中设置
+      const teams = action.teamNames && !multiTeam(state) ? createTeams(MIN_TEAMS, action.teamNames) : state.teams
+      return startRoundNow(
+        { ...state, series, settings, scoring, teams },
+        lockedRole,
+        action.roundId,
+        nowSec,
+        startSec,
+        endTimeSec,
+      )
+    }
+    case 'startSeriesRound': {
+      const { lockedRole, series } = state
+      if (!lockedRole || !series || !isHost(state)) return unchanged(state)
+      if (state.gameState === 'running') return unchanged(state)
+      if (isSeriesOver(series)) {
+        return { state, effects: [{ type: 'error', message: '本系列赛已经结束。' }] }
+      }
+      const startSec = nowSec + (action.countdownSec ?? 0)
+      return startRoundNow(
+        { ...state, scoring: resolveScoring(state.scoring, series.roundDurationSec) },
+        lockedRole,
+        action.roundId,
+        nowSec,
+        startSec,
+        startSec + series.roundDurationSec,
+      )
+    }
+    case 'castVote': {
+      if (!state.lockedRole) {
+        return {
+          state,
+          effects: [{ type: 'error', message: '角色尚未锁定，请先在步骤 1 中选择阵营。' }],
+        }
+      }
+      if (state.gameState !== 'running' || !state.startTimeSec || !state.roundId) {
+        return {
+          state,
+          effects: [{ type: 'error', message: '本局尚未开始或已经结束，无法继续投票。' }],
+        }
+      }
+      if (isPaused(state.pauses)) {
+        return { state, effects: [{ type: 'error', message: '本局已暂停，恢复后才能继续投票。' }] }
+      }
+      if (sharedNowMs(state.clock, localNowMs) < state.startTimeSec * 1000) {
+        return { state, effects: [{ type: 'error', message: '倒计时尚未结束，开始后才能投票。' }] }
+      }
+      if (action.kind === 'steal' && state.scoring.stealPoints <= 0) {
+        return { state, effects: [{ type: 'error', message: '本局计分规则没有开启偷分。' }] }
+      }
+      const target = action.target ?? (multiTeam(state) ? null : opponentOf(state.lockedRole))
+      if (!target || !canVoteFor(state.teams, state.lockedRole, target)) {
+        return { state, effects: [{ type: 'error', message: '请选择要投票的队伍（不能投给本队）。' }] }
+      }
+      const atMs = Math.max(0, sharedNowMs(state.clock, localNowMs) - state.startTimeSec * 1000)
+      const reason = checkVoteRate(
+        voteTimesOf(state.voteEvents, ownSeqOwner(state, state.lockedRole)),
+        atMs,
+        state.settings,
+      )
+      if (reason) {
+        return {
+          state,
+          effects: [
+            {
+              type: 'voteRejected',
+              message: `投票过快，本次点击未计入：${formatVoteRejectReason(reason, state.settings)}。`,
+            },
+          ],
+        }
+      }
+      const vote: PendingVote = {
+        seq: state.nextVoteSeq,
+        target,
+        at: Math.max(0, nowSec - state.startTimeSec),
+        atMs,
+        ...(action.kind ? { kind: action.kind } : {}),
+        ...(multiTeam(state) ? { from: state.lockedRole } : {}),
+      }
+      const next: EngineState = {
+        ...state,
+        nextVoteSeq: vote.seq + 1,
+        pendingVotes: [...state.pendingVotes, vote],
+      }
+      return {
+        state: applyVote(next, vote),
+        effects: [sendVote(state.roundId, vote)],
+      }
+    }
+    case 'resendPendingVotes': {
+      const { roundId } = state
+      if (!roundId || state.pendingVotes.length === 0) return unchanged(state)
+      return { state, effects: state.pendingVotes.map((vote) => sendVote(roundId, vote)) }
+    }
+    case 'sendClockPing': {
+      if (isHost(state) || state.handshake !== 'ok' || !peerSupports(state.peerProtocol, 'clockSync')) {
+        return unchanged(state)
+      }
+      return { state, effects: [{ type: 'send', message: { type: 'ping', sentAt: localNowMs } }] }
+    }
+    case 'sendDigest': {
+      const { roundId } = state
+      if (state.handshake !== 'ok' || !peerSupports(state.peerProtocol, 'scoreDigest')) {
+        return unchanged(state)
+      }
+      if (!roundId || state.gameState === 'idle') return unchanged(state)
+      const digest = digestEvents(
+        state.voteEvents,
+        teamIdsOf(state.teams),
+        state.undoneEvents,
+        state.rejectedSeqs,
+      )
+      return {
+        state,
+        effects: [
+          {
+            type: 'send',
+            message: {
+              type: 'digest',
+              roundId,
+              count: digest.count,
+              hash: digest.hash,
+              upTo: digest.upTo,
+            },
+          },
+        ],
+      }
+    }
+    case 'tick': {
+      if (state.gameState !== 'running' || !state.endTimeSec) {
+        return unchanged(state)
+      }
+      // 超过撤销期限仍未处理的请求自动拒绝
+      if (state.roundId && state.incomingUndo && sharedNowMs(state.clock, localNowMs) > state.incomingUndo.expiresAtMs) {
+        return {
+          state: { ...state, incomingUndo: null },
+          effects: [
+            rejectUndo(state.roundId, state.incomingUndo),
+            { type: 'info', message: '对方的撤销请求已超时，已自动拒绝。' },
+          ],
+        }
+      }
+      // 暂停期间倒计时停在暂停开始的那一刻，不会到时结束
+      const paused = isPaused(state.pauses)
+      const untilEnd = paused ? remainingSec(state.endTimeSec, state.pauses, nowSec) : state.endTimeSec - nowSec
+      // 开局倒计时期间剩余时间保持为整局时长
+      const startsIn = state.startTimeSec ? Math.max(0, state.startTimeSec - nowSec) : 0
+      const remaining = state.startTimeSec ? Math.min(untilEnd, state.endTimeSec - state.startTimeSec) : untilEnd
+      if (remaining <= 0 && !paused) {
+        // 突然死亡没有结束时间，由打破平局的一票结束本局
+        if (isSuddenDeath(state.scoring, state.overtime)) {
+          return unchanged(
+            state.timeRemaining === 0 && state.startsIn === 0 ? state : { ...state, timeRemaining: 0, startsIn: 0 },
+          )
+        }
+        const next = nextOvertime(state.scoring, state.scores, state.overtime, state.endTimeSec)
+        if (next) {
+          return {
+            state: {
+              ...state,
+              ...next,
+              timeRemaining: Math.max(0, next.endTimeSec - nowSec),
+              startsIn: 0,
+            },
+            effects: [
+              {
+                type: 'info',
+                message: isSuddenDeath(state.scoring, next.overtime)
+                  ? '常规时间战平，进入突然死亡加时：率先得分的一方赢得本局。'
+                  : `${next.overtime.period === 1 ? '常规时间战平' : '仍是平局'}，进入第 ${next.overtime.period} 段加时。`,
+              },
+            ],
+          }
+        }
+        return unchanged({ ...state, timeRemaining: 0, startsIn: 0, gameState: 'ended', incomingUndo: null })
+      }
+      if (remaining === state.timeRemaining && startsIn === state.startsIn) {
+        return unchanged(state)
+      }
+      return unchanged({ ...state, timeRemaining: remaining, startsIn })
+    }
+    case 'requestEndChange': {
+      if (state.gameState !== 'running' || !state.roundId) {
+        return {
+          state,
+          effects: [{ type: 'error', message: '只有在本局进行中时才能协商修改结束时间。' }],
+        }
+      }
+      if (isPaused(state.pauses)) {
+        return { state, effects: [{ type: 'error', message: '暂停期间不能修改结束时间，请先恢复对局。' }] }
+      }
+      if (state.overtime) {
+        return { state, effects: [{ type: 'error', message: '加时阶段不能修改结束时间。' }] }
+      }
+      if (action.proposedEndTime <= nowSec) {
+        return { state, effects: [{ type: 'error', message: '新的结束时间必须晚于当前时间。' }] }
+      }
+      return {
+        state,
+        effects: [
+          {
+            type: 'send',
+            message: {
+              type: 'proposeEndChange',
+              roundId: state.roundId,
+              proposedEndTime: action.proposedEndTime,
+            },
+          },
+          { type: 'info', message: '已向对方发出修改结束时间的提议，等待对方回应。' },
+        ],
+      }
+    }
+    case 'answerEndChange': {
+      const incoming = state.incomingEndChange
+      if (!incoming || !state.roundId) return unchanged(state)
+      const { proposedEndTime } = incoming
+      if (action.accept) {
+        return {
+          state: { ...state, endTimeSec: proposedEndTime, incomingEndChange: null },
+          effects: [
+            {
+              type: 'send',
+              message: { type: 'acceptEndChange', roundId: state.roundId, proposedEndTime },
+            },
+            { type: 'info', message: '你已同意修改结束时间，已同步更新。' },
+          ],
+        }
+      }
+      return {
+        state: { ...state, incomingEndChange: null },
+        effects: [
+          {
+            type: 'send',
+            message: { type: 'rejectEndChange', roundId: state.roundId, proposedEndTime },
+          },
+          { type: 'info', message: '你已拒绝本次结束时间修改，本局保持原结束时间。' },
+        ],
+      }
+    }
+    case 'dismissEndChange':
+      return unchanged({ ...state, incomingEndChange: null })
+    case 'requestEndNow': {
+      if (state.gameState !== 'running' || !state.roundId) {
+        return {
+          state,
+          effects: [{ type: 'error', message: '只有在本局进行中时才能提议立即结束。' }],
+        }
+      }
+      return {
+        state,
+        effects: [
+          { type: 'send', message: { type: 'proposeEndNow', roundId: state.roundId } },
+          { type: 'info', message: '已向对方发出“立即结束本局”的提议。' },
+        ],
+      }
+    }
+    case 'answerEndNow': {
+      if (!state.roundId) return unchanged(state)
+      if (action.accept) {
+        return {
+          state: endImmediately(state, nowSec),
+          effects: [
+            { type: 'send', message: { type: 'acceptEndNow', roundId: state.roundId } },
+            { type: 'info', message: '你已同意立即结束，本局已结束。' },
+          ],
+        }
+      }
+      return {
+        state: { ...state, incomingEndNow: false },
+        effects: [
+          { type: 'send', message: { type: 'rejectEndNow', roundId: state.roundId } },
+          { type: 'info', message: '你已拒绝立即结束，本局继续进行。' },
+        ],
+      }
+    }
+    case 'dismissEndNow':
+      return unchanged({ ...state, incomingEndNow: false })
+    case 'requestPause': {
+      if (state.gameState !== 'running' || !state.roundId) {
+        return { state, effects: [{ type: 'error', message: '只有在本局进行中时才能提议暂停。' }] }
+      }
+      if (isPaused(state.pauses)) return unchanged(state)
+      return {
+        state,
+        effects: [
+          { type: 'send', message: { type: 'proposePause', roundId: state.roundId } },
+          { type: 'info', message: '已向对方发出暂停提议，等待对方回应。' },
+        ],
+      }
+    }
+    case 'answerPause': {
+      if (!state.roundId || !state.incomingPause) return unchanged(state)
+      if (!action.accept) {
+        return {
+          state: { ...state, incomingPause: false },
+          effects: [
+            { type: 'send', message: { type: 'rejectPause', roundId: state.roundId } },
+            { type: 'info', message: '你已拒绝暂停，本局继续进行。' },
+          ],
+        }
+      }
+      if (state.gameState !== 'running') return unchanged({ ...state, incomingPause: false })
+      return {
+        state: applyPause(state, nowSec),
+        effects: [
+          { type: 'send', message: { type: 'acceptPause', roundId: state.roundId, pausedAt: nowSec } },
+          { type: 'info', message: '你已同意暂停，倒计时已停止，恢复前双方都不能投票。' },
+        ],
+      }
+    }
+    case 'dismissPause':
+      return unchanged({ ...state, incomingPause: false })
+    case 'resume': {
+      const pause = activePause(state.pauses)
+      if (!state.roundId || state.gameState !== 'running' || !pause) return unchanged(state)
+      const resumedAt = Math.max(nowSec, pause.startSec)
+      return {
+        state: applyResume(state, resumedAt),
+        effects: [
+          {
+            type: 'send',
+            message: { type: 'resume', roundId: state.roundId, resumedAt, pausedAt: pause.startSec },
+          },
+          { type: 'info', message: '已恢复对局，结束时间已按暂停时长顺延。' },
+        ],
+      }
+    }
+    case 'requestUndo': {
+      const { lockedRole, roundId, startTimeSec } = state
+      if (state.gameState !== 'running' || !roundId || !startTimeSec || !lockedRole) {
+        return { state, effects: [{ type: 'error', message: '只有在本局进行中时才能撤销投票。' }] }
+      }
+      const vote = lastVoteOf(state.voteEvents, ownSeqOwner(state, lockedRole))
+      if (!vote || vote.seq === undefined) {
+        return { state, effects: [{ type: 'error', message: '本局还没有可以撤销的投票。' }] }
+      }
+      const { seq } = vote
+      if (state.pendingVotes.some((pending) => pending.seq === seq)) {
+        return { state, effects: [{ type: 'error', message: '上一票尚未被对方确认，请稍后再试。' }] }
+      }
+      if (sharedNowMs(state.clock, localNowMs) > undoDeadlineMs(startTimeSec, vote)) {
+        return {
+          state,
+          effects: [{ type: 'error', message: `只能撤销 ${UNDO_WINDOW_SEC} 秒内投出的票。` }],
+        }
+      }
+      return {
+        state,
+        effects: [
+          {
+            type: 'send',
+            message: { type: 'proposeUndo', roundId, owner: seqOwnerOf(vote), seq },
+          },
+          { type: 'info', message: '已请求撤销你的上一票，等待对方同意。' },
+        ],
+      }
+    }
+    case 'answerUndo': {
+      const incoming = state.incomingUndo
+      if (!incoming || !state.roundId) return unchanged(state)
+      const cleared: EngineState = { ...state, incomingUndo: null }
+      const vote = findVote(state.voteEvents, incoming.owner, incoming.seq)
+      const expired = sharedNowMs(state.clock, localNowMs) > incoming.expiresAtMs
+      if (!action.accept || !vote || expired || state.gameState !== 'running') {
+        return {
+          state: cleared,
+          effects: [
+            rejectUndo(state.roundId, incoming),
+            {
+              type: 'info',
+              message: action.accept ? '撤销请求已超时，这一票仍然有效。' : '你已拒绝撤销，这一票仍然有效。',
+            },
+          ],
+        }
+      }
+      return {
+        state: applyUndo(cleared, vote, nowSec),
+        effects: [
+          {
+            type: 'send',
+            message: {
+              type: 'acceptUndo',
+              roundId: state.roundId,
+              owner: incoming.owner,
+              seq: incoming.seq,
+              undoneAt: nowSec,
+            },
+          },
+          { type: 'info', message: '你已同意撤销对方的上一票，比分已更新。' },
+        ],
+      }
+    }
+    case 'dismissUndo':
+      return unchanged({ ...state, incomingUndo: null })
+    case 'hydrate':
+      return unchanged(hydrate(state, action.snapshot, action.snapshot.lockedRole, nowSec))
+    case 'resetRound':
+      return { state: resetRoundFields(state), effects: [{ type: 'info', message: null }] }
+    case 'resetSession':
+      return unchanged({
+        ...state,
+        sessionId: null,
+        sessionRoles: null,
+        rolesConfirmed: false,
+        lockedRole: null,
+        roleLocked: false,
+        clock: createClockSync(),
+      })
+    default:
+      return unchanged(state)
+  }
+}
+
+const LOCAL_ACTION_TYPES = new Set<LocalAction['type']>([
+  'setMode',
+  'openHandshake',
+  'selectRole',
+  'lockSessionRoles',
+  'setTeams',
+  'prepareJoin',
+  'connectionLost',
+  'setReady',
+  'startRound',
+  'startSeriesRound',
+  'castVote',
+  'resendPendingVotes',
+  'sendDigest',
+  'sendClockPing',
+  'tick',
+  'requestEndChange',
+  'answerEndChange',
+  'dismissEndChange',
+  'requestEndNow',
+  'answerEndNow',
+  'dismissEndNow',
+  'requestPause',
+  'answerPause',
+  'dismissPause',
+  'resume',
+  'requestUndo',
+  'answerUndo',
+  'dismissUndo',
+  'hydrate',
+  'resetRound',
+  'resetSession',
+])
+
+/**
+ * 发起方在各队都准备后执行附带的开局参数，开始时间推迟 START_COUNTDOWN_SEC 秒；
+ * 开局失败时取消本方的准备，并通知其他队伍。
+ */
+const launchWhenAllReady = (result: EngineResult, nowSec: number, localNowMs: number): EngineResult => {
+  const { state } = result
+  if (!isHost(state) || !state.pendingStart || !state.lockedRole) return result
+  if (!allReady(state.teams, state.readyTeams)) return result
+  const started = reduceLocal(
+    { ...state, readyTeams: [], pendingStart: null },
+    { ...state.pendingStart, countdownSec: START_COUNTDOWN_SEC },
+    nowSec,
+    localNowMs,
+  )
+  if (started.state.gameState === 'running' && started.state.roundId === state.pendingStart.roundId) {
+    return { state: started.state, effects: [...result.effects, ...started.effects] }
+  }
+  return {
+    state: {
+      ...state,
+      readyTeams: withReady(state.readyTeams, state.lockedRole, false),
+      pendingStart: null,
+    },
+    effects: [
+      ...result.effects,
+      ...started.effects,
+      { type: 'send', message: { type: 'ready', team: state.lockedRole, ready: false } },
+    ],
+  }
+}
+
+export const isLocalAction = (input: EngineInput): input is LocalAction =>
+  LOCAL_ACTION_TYPES.has(input.type as LocalAction['type'])
+
+/**
+ * localNowMs 为本机时间；规则中使用的 nowSec 已按时钟偏移换算到共享时间线。
+ * from 为消息来源连接对应的队伍，不填表示主连接。
+ */
+export const reduce = (
+  state: EngineState,
+  input: EngineInput,
+  localNowMs: number,
+  from?: Role,
+): EngineResult => {
+  const nowSec = Math.floor(sharedNowMs(state.clock, localNowMs) / 1000)
+  const result = isLocalAction(input)
+    ? reduceLocal(state, input, nowSec, localNowMs)
+    : reduceMessage(state, input, nowSec, localNowMs, from)
+  return settleSeriesRound(settleSuddenDeath(settleScoreCap(result, nowSec)))
+}
+
+export type SnapshotSource = Pick<
+  EngineState,
+  | 'mode'
+  | 'roundId'
+  | 'sessionId'
+  | 'lockedRole'
+  | 'startTimeSec'
+  | 'endTimeSec'
+  | 'gameState'
+  | 'scores'
+  | 'voteEvents'
+  | 'series'
+  | 'scoring'
+  | 'teams'
+  | 'pauses'
+  | 'undoneEvents'
+  | 'rejectedSeqs'
+  | 'overtime'
+>
+
+export const buildSnapshot = (
+  state: SnapshotSource,
+  meta: { version: number; lastUpdatedAt: number },
+): GameSnapshot | null => {
+  const { roundId, startTimeSec, endTimeSec, lockedRole, gameState } = state
+  if (!roundId || !startTimeSec || !endTimeSec || !lockedRole) {
+    return null
+  }
+  if (gameState === 'idle') {
+    return null
+  }
+  return {
+    schemaVersion: SNAPSHOT_SCHEMA_VERSION,
+    version: meta.version,
+    lastUpdatedAt: meta.lastUpdatedAt,
+    gameId: roundId,
+    sessionId: state.sessionId,
+    isHost: isHost(state),
+    lockedRole,
+    startTimeSec,
+    endTimeSec,
+    gameState,
+    scoreRed: state.scores.red ?? 0,
+    scoreBlue: state.scores.blue ?? 0,
+    events: state.voteEvents.map(toSnapshotEvent),
+    teams: state.teams,
+    ...(isMultiTeam(state.teams) ? { scores: state.scores } : { teamNames: teamNamesOf(state.teams) }),
+    ...(state.series ? { seriesId: state.series.seriesId } : {}),
+    scoring: state.scoring,
+    ...(state.pauses.length > 0 ? { pauses: state.pauses } : {}),
+    ...(state.undoneEvents.length > 0 ? { undone: state.undoneEvents } : {}),
+    ...(state.rejectedSeqs.length > 0 ? { rejected: state.rejectedSeqs } : {}),
+    ...(state.overtime ? { overtime: state.overtime } : {}),
+  }
+}
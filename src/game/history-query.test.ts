@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest'
+import { DEFAULT_HISTORY_QUERY, queryHistory, winnerFilterOptions } from './history-query'
+import { createTeams } from './teams'
+import type { HistoryIndexEntry } from './types'
+
+const entry = (gameId: string, patch: Partial<HistoryIndexEntry> = {}): HistoryIndexEntry => ({
+  gameId,
+  startTimeSec: 1_700_000_000,
+  endTimeSec: 1_700_000_060,
+  scoreRed: 0,
+  scoreBlue: 0,
+  lastUpdatedAt: 1_700_000_060_000,
+  ...patch,
+})
+
+describe('winnerFilterOptions', () => {
+  it('lists every team that appears in the history', () => {
+    const teams = createTeams(3, { green: '森林队' })
+    const entries = [
+      entry('multi', { teams, scores: { red: 1, blue: 2, green: 5 } }),
+      entry('duo', { scoreRed: 3, scoreBlue: 1 }),
+    ]
+    expect(winnerFilterOptions(entries).map((option) => option.value)).toEqual([
+      'all',
+      'red',
+      'blue',
+      'green',
+      'draw',
+    ])
+    expect(winnerFilterOptions(entries)).toContainEqual({ value: 'green', label: '森林队胜' })
+    expect(queryHistory(entries, { ...DEFAULT_HISTORY_QUERY, winner: 'green' }).map((item) => item.gameId)).toEqual([
+      'multi',
+    ])
+  })
+
+  it('offers no team options for an empty history', () => {
+    expect(winnerFilterOptions([]).map((option) => option.value)).toEqual(['all', 'draw'])
+  })
+})
@@ -0,0 +1,173 @@
+import { roundWinner } from './match'
+import { DEFAULT_TEAMS } from './teams'
+import type { HistoryIndexEntry, Role, Scores } from './types'
+
+/** 历史对局列表的搜索、筛选、排序与分页；只依赖历史列表本身，不读取快照。 */
+
+/** 按胜方筛选：不限、平局，或某一队的 id */
+export type HistoryWinnerFilter = 'all' | 'draw' | Role
+export type HistoryDurationFilter = 'all' | 'short' | 'medium' | 'long'
+export type HistorySortKey = 'endTime' | 'duration' | 'margin' | 'total'
+
+export type HistoryQuery = {
+  /** 匹配 Game ID 或备注，不区分大小写 */
+  search: string
+  /** 结束时间范围（秒）：from 含，to 不含；null 表示不限 */
+  fromSec: number | null
+  toSec: number | null
+  winner: HistoryWinnerFilter
+  /** 最小分差，0 表示不限 */
+  minMargin: number
+  duration: HistoryDurationFilter
+  sortKey: HistorySortKey
+  sortDesc: boolean
+}
+
+export const DEFAULT_HISTORY_QUERY: HistoryQuery = {
+  search: '',
+  fromSec: null,
+  toSec: null,
+  winner: 'all',
+  minMargin: 0,
+  duration: 'all',
+  sortKey: 'endTime',
+  sortDesc: true,
+}
+
+export const HISTORY_PAGE_SIZE = 10
+
+// 短局：5 分钟以内；长局：超过 15 分钟
+const SHORT_GAME_SEC = 5 * 60
+const LONG_GAME_SEC = 15 * 60
+
+export const DURATION_FILTER_LABELS: Record<HistoryDurationFilter, string> = {
+  all: '不限时长',
+  short: '5 分钟以内',
+  medium: '5–15 分钟',
+  long: '15 分钟以上',
+}
+
+export const SORT_KEY_LABELS: Record<HistorySortKey, string> = {
+  endTime: '结束时间',
+  duration: '时长',
+  margin: '分差',
+  total: '总分',
+}
+
+export const entryScores = (entry: HistoryIndexEntry): Scores =>
+  entry.scores ?? { red: entry.scoreRed, blue: entry.scoreBlue }
+
+export const entryDurationSec = (entry: HistoryIndexEntry) => Math.max(0, entry.endTimeSec - entry.startTimeSec)
+
+/** 第一名与第二名的分差 */
+export const entryMargin = (entry: HistoryIndexEntry) => {
+  const ranked = Object.values(entryScores(entry)).sort((a, b) => b - a)
+  return ranked.length > 1 ? ranked[0] - ranked[1] : (ranked[0] ?? 0)
+}
+
+const entryTotal = (entry: HistoryIndexEntry) =>
+  Object.values(entryScores(entry)).reduce((sum, value) => sum + value, 0)
+
+export const entryWinner = (entry: HistoryIndexEntry): Role | null => roundWinner(entryScores(entry))
+
+export type WinnerFilterOption = { value: HistoryWinnerFilter; label: string }
+
+/** 胜方筛选的选项：包含历史中出现过的所有队伍（多队对局与自定义队伍），按在列表中首次出现的顺序排列 */
+export const winnerFilterOptions = (entries: HistoryIndexEntry[]): WinnerFilterOption[] => {
+  const teams = new Map<Role, string>()
+  entries
+    .flatMap((entry) => entry.teams ?? DEFAULT_TEAMS)
+    .forEach((team) => {
+      if (!teams.has(team.id)) teams.set(team.id, team.name)
+    })
+  return [
+    { value: 'all', label: '不限胜方' },
+    ...[...teams].map(([id, name]) => ({ value: id, label: `${name}胜` })),
+    { value: 'draw', label: '平局' },
+  ]
+}
+
+const matchesDuration = (durationSec: number, filter: HistoryDurationFilter) => {
+  switch (filter) {
+    case 'all':
+      return true
+    case 'short':
+      return durationSec <= SHORT_GAME_SEC
+    case 'medium':
+      return durationSec > SHORT_GAME_SEC && durationSec <= LONG_GAME_SEC
+    case 'long':
+      return durationSec > LONG_GAME_SEC
+  }
+}
+
+const sortValue = (entry: HistoryIndexEntry, key: HistorySortKey) => {
+  switch (key) {
+    case 'endTime':
+      return entry.endTimeSec
+    case 'duration':
+      return entryDurationSec(entry)
+    case 'margin':
+      return entryMargin(entry)
+    case 'total':
+      return entryTotal(entry)
+  }
+}
+
+export const isDefaultHistoryQuery = (query: HistoryQuery) =>
+  query.search.trim() === '' &&
+  query.fromSec === null &&
+  query.toSec === null &&
+  query.winner === 'all' &&
+  query.minMargin === 0 &&
+  query.duration === 'all'
+
+/** 筛选并排序；排序值相同的按最后更新时间倒序，保证结果稳定 */
+export const queryHistory = (entries: HistoryIndexEntry[], query: HistoryQuery): HistoryIndexEntry[] => {
+  const search = query.search.trim().toLowerCase()
+  const filtered = entries.filter((entry) => {
+    if (
+      search &&
+      !entry.gameId.toLowerCase().includes(search) &&
+      !(entry.note ?? '').toLowerCase().includes(search)
+    ) {
+      return false
+    }
+    if (query.fromSec !== null && entry.endTimeSec < query.fromSec) return false
+    if (query.toSec !== null && entry.endTimeSec >= query.toSec) return false
+    if (query.winner !== 'all') {
+      const winner = entryWinner(entry)
+      if (query.winner === 'draw' ? winner !== null : winner !== query.winner) return false
+    }
+    if (query.minMargin > 0 && entryMargin(entry) < query.minMargin) return false
+    return matchesDuration(entryDurationSec(entry), query.duration)
+  })
+  const direction = query.sortDesc ? -1 : 1
+  return filtered.sort((a, b) => {
+    const diff = sortValue(a, query.sortKey) - sortValue(b, query.sortKey)
+    return diff !== 0 ? diff * direction : b.lastUpdatedAt - a.lastUpdatedAt
+  })
+}
+
+/** 取第 page 页（从 1 开始）；页码越界时夹到有效范围 */
+export const pageOf = <T>(items: T[], page: number, pageSize: number = HISTORY_PAGE_SIZE) => {
+  const pageCount = Math.max(1, Math.ceil(items.length / pageSize))
+  const current = Math.min(Math.max(1, page), pageCount)
+  return {
+    items: items.slice((current - 1) * pageSize, current * pageSize),
+    page: current,
+    pageCount,
+  }
+}
+
+/** 分页器显示的页码：首尾两页与当前页附近，其余用省略号代替 */
+export const visiblePages = (page: number, pageCount: number): (number | 'ellipsis')[] => {
+  const pages: (number | 'ellipsis')[] = []
+  for (let n = 1; n <= pageCount; n += 1) {
+    if (n === 1 || n === pageCount || Math.abs(n - page) <= 1) {
+      pages.push(n)
+    } else if (pages[pages.length - 1] !== 'ellipsis') {
+      pages.push('ellipsis')
+    }
+  }
+  return pages
+}
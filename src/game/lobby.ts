@@ -0,0 +1,11 @@
+import type { Role, Team } from './types'
+
+/** 各队都准备后，开局前的倒计时秒数；倒计时结束前不能投票 */
+export const START_COUNTDOWN_SEC = 3
+
+export const allReady = (teams: Team[], ready: Role[]) => teams.every((team) => ready.includes(team.id))
+
+export const withReady = (ready: Role[], team: Role, value: boolean): Role[] => {
+  if (!value) return ready.filter((id) => id !== team)
+  return ready.includes(team) ? ready : [...ready, team]
+}
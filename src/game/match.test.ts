@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest'
+import { createSeries, isSeriesOver, maxSeriesRounds, recordSeriesRound, seriesWinner } from './match'
+import type { Role } from './types'
+
+const playRounds = (bestOf: number, winners: Array<Role | null>) =>
+  winners.reduce(
+    (series, winner, index) => recordSeriesRound(series, `round-${index + 1}`, winner),
+    createSeries('series-1', bestOf, 60),
+  )
+
+describe('series', () => {
+  it('is won by the first team to take a majority of rounds', () => {
+    const series = playRounds(3, ['red', null, 'red'])
+    expect(seriesWinner(series)).toBe('red')
+    expect(isSeriesOver(series)).toBe(true)
+  })
+
+  it('keeps playing after a draw until the round cap', () => {
+    const series = playRounds(3, ['red', null, 'blue', null, null])
+    expect(isSeriesOver(series)).toBe(false)
+    expect(maxSeriesRounds(3)).toBe(6)
+  })
+
+  it('ends in a draw when every round up to the cap is drawn', () => {
+    const series = playRounds(3, Array(6).fill(null))
+    expect(seriesWinner(series)).toBeNull()
+    expect(isSeriesOver(series)).toBe(true)
+  })
+
+  it('goes to the team with more wins when the cap is reached', () => {
+    const series = playRounds(3, ['blue', null, null, null, null, null])
+    expect(seriesWinner(series)).toBe('blue')
+  })
+})
@@ -0,0 +1,75 @@
+import { emptyScores, isMultiTeam } from './teams'
+import type { MatchHistoryEntry, MatchSeries, Role, Scores, Team } from './types'
+
+/** 可选的局数，1 表示单局、不组成系列赛 */
+export const BEST_OF_OPTIONS = [1, 3, 5, 7] as const
+
+export const winsNeeded = (bestOf: number) => Math.floor(bestOf / 2) + 1
+
+/** 得分唯一最高的队获胜，最高分并列时为平局。 */
+export const roundWinner = (scores: Scores): Role | null => {
+  const ranked = Object.entries(scores).sort((a, b) => b[1] - a[1])
+  if (ranked.length === 0 || (ranked.length > 1 && ranked[0][1] === ranked[1][1])) return null
+  return ranked[0][0]
+}
+
+export const createSeries = (seriesId: string, bestOf: number, roundDurationSec: number): MatchSeries => ({
+  seriesId,
+  bestOf,
+  roundDurationSec,
+  rounds: [],
+})
+
+export const seriesWins = (series: Pick<MatchSeries, 'rounds'>, teamIds: Role[] = ['red', 'blue']): Scores =>
+  series.rounds.reduce(
+    (acc, round) => (round.winner ? { ...acc, [round.winner]: (acc[round.winner] ?? 0) + 1 } : acc),
+    emptyScores(teamIds),
+  )
+
+/** 平局会加赛，但一个系列赛最多打 bestOf 的两倍局，避免一直战平时永远打不完 */
+export const maxSeriesRounds = (bestOf: number) => bestOf * 2
+
+/**
+ * 任一方先拿到过半胜局即赢下系列赛；平局不计胜负，会多打一局。
+ * 打满局数上限仍无人过半时，胜局唯一最多的一方获胜，并列则系列赛战平（返回 null）。
+ */
+export const seriesWinner = (series: Pick<MatchSeries, 'bestOf' | 'rounds'>): Role | null => {
+  const wins = seriesWins(series)
+  const needed = winsNeeded(series.bestOf)
+  const clinched = Object.keys(wins).find((id) => wins[id] >= needed)
+  if (clinched) return clinched
+  return series.rounds.length >= maxSeriesRounds(series.bestOf) ? roundWinner(wins) : null
+}
+
+/** 系列赛已分出胜负，或已打满局数上限（可能战平） */
+export const isSeriesOver = (series: Pick<MatchSeries, 'bestOf' | 'rounds'>) =>
+  !!seriesWinner(series) || series.rounds.length >= maxSeriesRounds(series.bestOf)
+
+/** 记录（或修正）某一局的结果；结果未变化时返回原对象。 */
+export const recordSeriesRound = (series: MatchSeries, roundId: string, winner: Role | null): MatchSeries => {
+  const index = series.rounds.findIndex((round) => round.roundId === roundId)
+  if (index >= 0) {
+    if (series.rounds[index].winner === winner) return series
+    const rounds = [...series.rounds]
+    rounds[index] = { roundId, winner }
+    return { ...series, rounds }
+  }
+  return { ...series, rounds: [...series.rounds, { roundId, winner }] }
+}
+
+/** 系列赛列表中的一条记录；已有记录时沿用其最早开始与最晚结束时间。 */
+export const toMatchHistoryEntry = (
+  series: MatchSeries,
+  round: { startTimeSec: number; endTimeSec: number; teams: Team[] },
+  existing: MatchHistoryEntry | undefined,
+  nowMs: number,
+): MatchHistoryEntry => ({
+  seriesId: series.seriesId,
+  bestOf: series.bestOf,
+  rounds: series.rounds,
+  winner: seriesWinner(series),
+  startTimeSec: existing ? Math.min(existing.startTimeSec, round.startTimeSec) : round.startTimeSec,
+  endTimeSec: existing ? Math.max(existing.endTimeSec, round.endTimeSec) : round.endTimeSec,
+  lastUpdatedAt: nowMs,
+  ...(isMultiTeam(round.teams) ? { teams: round.teams } : {}),
+})
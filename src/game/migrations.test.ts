@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest'
+import { HISTORY_SCHEMA_VERSION, migrateHistoryEntry, migrateSnapshot, SNAPSHOT_SCHEMA_VERSION } from './migrations'
+import { createTeams } from './teams'
+
+// 最初没有 schemaVersion 的记录，后来加入的字段都缺失
+const v1Snapshot = {
+  gameId: 'game-1',
+  lockedRole: 'red',
+  startTimeSec: 1_700_000_000,
+  endTimeSec: 1_700_000_060,
+  gameState: 'ended',
+  scoreRed: 2,
+  scoreBlue: 1,
+}
+
+const v1Entry = {
+  gameId: 'game-1',
+  startTimeSec: 1_700_000_000,
+  endTimeSec: 1_700_000_060,
+  scoreRed: 2,
+  scoreBlue: 1,
+}
+
+describe('migrateSnapshot', () => {
+  it('upgrades a v1 snapshot to the current schema', () => {
+    const result = migrateSnapshot(v1Snapshot)
+    expect(result).toMatchObject({ ok: true, upgraded: true })
+    if (!result.ok) return
+    expect(result.value).toMatchObject({
+      ...v1Snapshot,
+      schemaVersion: SNAPSHOT_SCHEMA_VERSION,
+      version: 0,
+      sessionId: null,
+      isHost: false,
+      events: [],
+      lastUpdatedAt: 0,
+    })
+  })
+
+  it('fills in team names of a v2 two-team snapshot from its teams', () => {
+    const v2Snapshot = { ...v1Snapshot, schemaVersion: 2, version: 3, lastUpdatedAt: 0, sessionId: null, isHost: true, events: [] }
+    const teams = createTeams(2, { red: '狮子', blue: '老虎' })
+    const result = migrateSnapshot({ ...v2Snapshot, teams })
+    expect(result).toMatchObject({ ok: true, upgraded: true, value: { teamNames: { red: '狮子', blue: '老虎' } } })
+
+    const multi = migrateSnapshot({ ...v2Snapshot, teams: createTeams(3) })
+    expect(multi.ok).toBe(true)
+    expect(multi.ok && multi.value.teamNames).toBe(undefined)
+  })
+
+  it('leaves a current snapshot as it is', () => {
+    const upgraded = migrateSnapshot(v1Snapshot)
+    if (!upgraded.ok) throw new Error(upgraded.error)
+    expect(migrateSnapshot(upgraded.value)).toEqual({ ok: true, value: upgraded.value, upgraded: false })
+  })
+
+  it('rejects a snapshot that fails validation so that it can be quarantined', () => {
+    expect(migrateSnapshot({ ...v1Snapshot, scoreRed: 'two' })).toMatchObject({ ok: false, future: false })
+    expect(migrateSnapshot('not a record')).toMatchObject({ ok: false, future: false })
+  })
+
+  it('marks snapshots from a newer page as future instead of invalid', () => {
+    const result = migrateSnapshot({ ...v1Snapshot, schemaVersion: SNAPSHOT_SCHEMA_VERSION + 1, extra: true })
+    expect(result).toMatchObject({ ok: false, future: true })
+  })
+})
+
+describe('migrateHistoryEntry', () => {
+  it('estimates the missing update time of a v1 entry from its end time', () => {
+    const result = migrateHistoryEntry(v1Entry)
+    expect(result).toMatchObject({
+      ok: true,
+      upgraded: true,
+      value: { ...v1Entry, schemaVersion: HISTORY_SCHEMA_VERSION, lastUpdatedAt: v1Entry.endTimeSec * 1000 },
+    })
+  })
+
+  it('rejects entries without a Game ID', () => {
+    expect(migrateHistoryEntry({ ...v1Entry, gameId: '' })).toMatchObject({ ok: false, future: false })
+  })
+
+  it('marks entries from a newer page as future', () => {
+    expect(migrateHistoryEntry({ ...v1Entry, schemaVersion: HISTORY_SCHEMA_VERSION + 1 })).toMatchObject({
+      ok: false,
+      future: true,
+    })
+  })
+})
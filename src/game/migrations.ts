@@ -0,0 +1,100 @@
+import { z } from 'zod'
+import { describeIssues, gameSnapshotSchema, teamsSchema } from './protocol'
+import { isMultiTeam, teamNamesOf } from './teams'
+import type { GameSnapshot, HistoryIndexEntry, Team } from './types'
+
+/**
+ * 本地记录的结构版本与迁移。schemaVersion 描述记录的结构，与快照里每次保存都会递增的 version 无关。
+ * 读取时按版本逐级升级到当前结构，再用 zod 校验；新增字段时把版本加一，并在这里补一步迁移。
+ *
+ * 快照 / 历史条目的版本：
+ * - 1：最初没有 schemaVersion 的记录；比分只有 scoreRed / scoreBlue，后来陆续加入的可选字段都可能缺失。
+ * - 2：写入时带上 schemaVersion。
+ * - 3（仅快照）：双队对局记录 teamNames；已带队伍的快照从队伍中补出队名。
+ */
+
+export const SNAPSHOT_SCHEMA_VERSION = 3
+export const HISTORY_SCHEMA_VERSION = 2
+
+type RawRecord = Record<string, unknown>
+/** migrations[n] 把版本 n 的记录升级到 n + 1 */
+type Migrations = Record<number, (record: RawRecord) => RawRecord>
+
+const SNAPSHOT_MIGRATIONS: Migrations = {
+  1: (record) => ({
+    version: 0,
+    sessionId: null,
+    isHost: false,
+    events: [],
+    ...record,
+    lastUpdatedAt: typeof record.lastUpdatedAt === 'number' ? record.lastUpdatedAt : 0,
+  }),
+  2: (record) => {
+    const teams = Array.isArray(record.teams) ? (record.teams as Team[]) : null
+    if (record.teamNames || !teams || isMultiTeam(teams)) return record
+    return { ...record, teamNames: teamNamesOf(teams) }
+  },
+}
+
+const HISTORY_MIGRATIONS: Migrations = {
+  1: (record) => ({
+    ...record,
+    // 最早的条目可能没有最后更新时间，按结束时间估计，排序时仍能落在正确位置
+    lastUpdatedAt:
+      typeof record.lastUpdatedAt === 'number'
+        ? record.lastUpdatedAt
+        : typeof record.endTimeSec === 'number'
+          ? record.endTimeSec * 1000
+          : 0,
+  }),
+}
+
+const historyEntrySchema: z.ZodType<HistoryIndexEntry> = z.object({
+  schemaVersion: z.number().int().positive().optional(),
+  gameId: z.string().min(1),
+  startTimeSec: z.number().int(),
+  endTimeSec: z.number().int(),
+  scoreRed: z.number().int().nonnegative(),
+  scoreBlue: z.number().int().nonnegative(),
+  lastUpdatedAt: z.number(),
+  seriesId: z.string().min(1).optional(),
+  teams: teamsSchema.optional(),
+  scores: z.record(z.string(), z.number().int().nonnegative()).optional(),
+  note: z.string().max(200).optional(),
+})
+
+export type MigrationResult<T> =
+  | { ok: true; value: T; upgraded: boolean }
+  /** future：记录来自更新版本的页面，不能理解但也不应隔离 */
+  | { ok: false; future: boolean; error: string }
+
+const migrate = <T>(
+  raw: unknown,
+  current: number,
+  migrations: Migrations,
+  schema: z.ZodType<T>,
+): MigrationResult<T> => {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return { ok: false, future: false, error: '记录不是对象，可能已损坏' }
+  }
+  let record = raw as RawRecord
+  const from = typeof record.schemaVersion === 'number' ? record.schemaVersion : 1
+  if (from > current) {
+    return { ok: false, future: true, error: `记录的结构版本 ${from} 高于当前页面支持的 ${current}` }
+  }
+  for (let version = from; version < current; version += 1) {
+    const step = migrations[version]
+    if (step) record = step(record)
+  }
+  const result = schema.safeParse({ ...record, schemaVersion: current })
+  if (!result.success) {
+    return { ok: false, future: false, error: describeIssues(result.error) }
+  }
+  return { ok: true, value: result.data, upgraded: from < current }
+}
+
+export const migrateSnapshot = (raw: unknown): MigrationResult<GameSnapshot> =>
+  migrate(raw, SNAPSHOT_SCHEMA_VERSION, SNAPSHOT_MIGRATIONS, gameSnapshotSchema)
+
+export const migrateHistoryEntry = (raw: unknown): MigrationResult<HistoryIndexEntry> =>
+  migrate(raw, HISTORY_SCHEMA_VERSION, HISTORY_MIGRATIONS, historyEntrySchema)
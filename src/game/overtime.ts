@@ -0,0 +1,54 @@
+import { roundWinner } from './match'
+import type { OvertimeMode, OvertimeRules, OvertimeState, RoundScoring, Scores } from './types'
+
+/** 默认不加时；选择加时赛时每段 60 秒、最多 1 段 */
+export const DEFAULT_OVERTIME: OvertimeRules = { mode: 'off', periodSec: 60, maxPeriods: 1 }
+
+export const MAX_OVERTIME_PERIODS = 10
+
+export const OVERTIME_MODE_LABELS: Record<OvertimeMode, string> = {
+  off: '不加时',
+  suddenDeath: '突然死亡',
+  periods: '加时赛',
+}
+
+export const isSuddenDeath = (scoring: Pick<RoundScoring, 'overtime'>, overtime: OvertimeState | null) =>
+  !!overtime && scoring.overtime?.mode === 'suddenDeath'
+
+/**
+ * 常规时间（或上一段加时）结束时是否进入加时：只有平局且规则允许时才返回新的加时状态。
+ * 突然死亡不设结束时间，加时赛每段把结束时间顺延 periodSec。
+ */
+export const nextOvertime = (
+  scoring: Pick<RoundScoring, 'overtime'>,
+  scores: Scores,
+  overtime: OvertimeState | null,
+  endTimeSec: number,
+): { overtime: OvertimeState; endTimeSec: number } | null => {
+  const rules = scoring.overtime
+  if (!rules || rules.mode === 'off' || roundWinner(scores) !== null) return null
+  if (rules.mode === 'suddenDeath') {
+    return overtime ? null : { overtime: { startSec: endTimeSec, period: 1 }, endTimeSec }
+  }
+  const period = (overtime?.period ?? 0) + 1
+  if (period > rules.maxPeriods || rules.periodSec <= 0) return null
+  return {
+    overtime: { startSec: overtime?.startSec ?? endTimeSec, period },
+    endTimeSec: endTimeSec + rules.periodSec,
+  }
+}
+
+export const describeOvertime = (rules: OvertimeRules | undefined) => {
+  if (!rules || rules.mode === 'off') return null
+  if (rules.mode === 'suddenDeath') return '平局突然死亡'
+  return `平局加时 ${rules.maxPeriods} × ${rules.periodSec} 秒`
+}
+
+/** 图表用的加时区间：从常规时间结束画到曲线末尾，lastSecond 为曲线最后一个点。 */
+export const overtimeRange = (overtime: OvertimeState, startTimeSec: number, lastSecond: number) => {
+  const from = Math.max(0, Math.min(lastSecond, overtime.startSec - startTimeSec))
+  return { from, to: Math.max(from, lastSecond) }
+}
+
+export const formatOvertimePhase = (scoring: Pick<RoundScoring, 'overtime'>, overtime: OvertimeState) =>
+  scoring.overtime?.mode === 'suddenDeath' ? '加时·突然死亡' : `加时第 ${overtime.period} 段`
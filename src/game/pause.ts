@@ -0,0 +1,49 @@
+import type { PauseInterval } from './types'
+
+/** 正在进行中的暂停（尚未恢复）；没有暂停时返回 null。 */
+export const activePause = (pauses: PauseInterval[]): PauseInterval | null => {
+  const last = pauses[pauses.length - 1]
+  return last && last.endSec === undefined ? last : null
+}
+
+export const isPaused = (pauses: PauseInterval[]) => activePause(pauses) !== null
+
+/** 开始暂停；已在暂停中时原样返回。 */
+export const startPause = (pauses: PauseInterval[], atSec: number): PauseInterval[] =>
+  isPaused(pauses) ? pauses : [...pauses, { startSec: atSec }]
+
+/** 结束当前暂停，恢复时间不早于暂停开始时间；不在暂停中时原样返回。 */
+export const endPause = (pauses: PauseInterval[], atSec: number): PauseInterval[] => {
+  const active = activePause(pauses)
+  if (!active) return pauses
+  return [...pauses.slice(0, -1), { startSec: active.startSec, endSec: Math.max(active.startSec, atSec) }]
+}
+
+/** 把进行中暂停的开始时间改为 atSec，用于与对方记录的暂停对齐；不在暂停中时原样返回。 */
+export const setPauseStart = (pauses: PauseInterval[], atSec: number): PauseInterval[] =>
+  isPaused(pauses) ? [...pauses.slice(0, -1), { startSec: atSec }] : pauses
+
+/**
+ * 本局开始后 elapsedMs 毫秒时是否处于暂停中，用于拒绝暂停期间投出的票；
+ * 暂停前投出、暂停后才到达的票不受影响。
+ */
+export const pausedAtElapsed = (pauses: PauseInterval[], startTimeSec: number, elapsedMs: number) =>
+  pauses.some((pause) => {
+    const fromMs = (pause.startSec - startTimeSec) * 1000
+    const toMs = pause.endSec === undefined ? Infinity : (pause.endSec - startTimeSec) * 1000
+    return elapsedMs >= fromMs && elapsedMs < toMs
+  })
+
+/** 暂停期间倒计时停在暂停开始的那一刻。 */
+export const remainingSec = (endTimeSec: number, pauses: PauseInterval[], nowSec: number) =>
+  Math.max(0, endTimeSec - (activePause(pauses)?.startSec ?? nowSec))
+
+/** 图表用的暂停区间：换算成本局第几秒并截断到本局时长内，进行中的暂停画到本局末尾。 */
+export const pauseRanges = (pauses: PauseInterval[], startTimeSec: number, durationSec: number) =>
+  pauses.map((pause) => {
+    const clamp = (sec: number) => Math.min(durationSec, Math.max(0, sec - startTimeSec))
+    return {
+      from: clamp(pause.startSec),
+      to: pause.endSec === undefined ? durationSec : clamp(pause.endSec),
+    }
+  })
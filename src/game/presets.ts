@@ -0,0 +1,78 @@
+import { z } from 'zod'
+import { gameSettingsSchema, scoringRulesSchema, teamNamesSchema } from './protocol'
+import type { GamePreset, TeamNames } from './types'
+import { DEFAULT_GAME_SETTINGS } from './vote-limits'
+
+/** 开局时可直接选择的常用时长（秒） */
+export const QUICK_DURATIONS_SEC = [180, 300, 600] as const
+
+// 单局时长上限 24 小时，避免误输入导致对局无法结束
+export const MAX_DURATION_SEC = 24 * 60 * 60
+
+export const DEFAULT_TEAM_NAMES: TeamNames = { red: '红方', blue: '蓝方' }
+
+export const formatDuration = (totalSec: number) => {
+  const sec = Math.max(0, Math.floor(totalSec))
+  const minutes = Math.floor(sec / 60)
+  const seconds = sec % 60
+  return `${minutes}:${String(seconds).padStart(2, '0')}`
+}
+
+/** 解析 "mm:ss"、"h:mm:ss" 或纯分钟数（如 "3"、"2.5"），失败时返回 null。 */
+export const parseDuration = (input: string): number | null => {
+  const text = input.trim()
+  if (!text) return null
+  let total: number
+  if (text.includes(':')) {
+    const parts = text.split(':')
+    if (parts.length > 3 || parts.some((part) => !/^\d+$/.test(part))) return null
+    const numbers = parts.map(Number)
+    if (numbers.slice(1).some((value) => value >= 60)) return null
+    total = numbers.reduce((acc, value) => acc * 60 + value, 0)
+  } else {
+    const minutes = Number(text)
+    if (!Number.isFinite(minutes)) return null
+    total = Math.round(minutes * 60)
+  }
+  if (total <= 0 || total > MAX_DURATION_SEC) return null
+  return total
+}
+
+export const formatDurationLabel = (totalSec: number) =>
+  totalSec % 60 === 0 ? `${totalSec / 60} 分钟` : formatDuration(totalSec)
+
+const gamePresetSchema: z.ZodType<GamePreset> = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1).max(40),
+  durationSec: z.number().int().positive().max(MAX_DURATION_SEC),
+  bestOf: z.number().int().positive().max(99),
+  settings: gameSettingsSchema,
+  teamNames: teamNamesSchema,
+  scoring: scoringRulesSchema.optional(),
+})
+
+/** 读取本地保存的预设，格式不对的条目直接丢弃。 */
+export const parsePresets = (raw: unknown): GamePreset[] => {
+  if (!Array.isArray(raw)) return []
+  return raw.flatMap((item) => {
+    const result = gamePresetSchema.safeParse(item)
+    return result.success ? [result.data] : []
+  })
+}
+
+export const createPreset = (
+  id: string,
+  name: string,
+  values: Omit<GamePreset, 'id' | 'name'>,
+): GamePreset => ({
+  id,
+  name: name.trim(),
+  durationSec: values.durationSec,
+  bestOf: values.bestOf,
+  settings: { ...DEFAULT_GAME_SETTINGS, ...values.settings },
+  teamNames: {
+    red: values.teamNames.red.trim() || DEFAULT_TEAM_NAMES.red,
+    blue: values.teamNames.blue.trim() || DEFAULT_TEAM_NAMES.blue,
+  },
+  ...(values.scoring ? { scoring: values.scoring } : {}),
+})
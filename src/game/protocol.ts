@@ -0,0 +1,305 @@
+import { z } from 'zod'
+import { MAX_OVERTIME_PERIODS } from './overtime'
+import type { GameSnapshot, Message, PeerProtocol, SpectatorMessage } from './types'
+
+/**
+ * DataChannel 线协议。任何不兼容的消息格式变更都必须提升 PROTOCOL_VERSION；
+ * 向后兼容的新功能则通过 capabilities 声明，由对端按需启用。
+ */
+export const PROTOCOL_VERSION = 3
+
+export const CAPABILITIES = [
+  'assignRoles',
+  'stateSnapshot',
+  'endChange',
+  'endNow',
+  'reliableVotes',
+  'scoreDigest',
+  'clockSync',
+  'matchSeries',
+  'voteLimits',
+  'scoringRules',
+  'multiTeam',
+  'pause',
+  'undo',
+  'readyCheck',
+  'overtime',
+] as const
+
+export type Capability = (typeof CAPABILITIES)[number]
+
+// 多队对局的队伍 id 不再局限于红 / 蓝，旧版本对端只会收到 'red' / 'blue'
+const roleSchema = z.string().min(1).max(16)
+
+export const teamsSchema = z
+  .array(
+    z.object({
+      id: roleSchema,
+      name: z.string().min(1).max(24),
+      color: z.string().regex(/^#[0-9a-fA-F]{6}$/),
+    }),
+  )
+  .min(2)
+  .max(6)
+
+const scoresSchema = z.record(z.string(), z.number().int().nonnegative())
+
+const gameStateSchema = z.enum(['idle', 'running', 'ended'])
+
+const sessionRolesSchema = z.object({
+  hostRole: roleSchema,
+  guestRole: roleSchema,
+})
+
+const voteSeq = z.number().int().positive()
+
+const snapshotEventSchema = z.object({
+  at: z.number().int().nonnegative(),
+  target: roleSchema,
+  seq: voteSeq.optional(),
+  atMs: z.number().int().nonnegative().optional(),
+  suspicious: z.boolean().optional(),
+  kind: z.literal('steal').optional(),
+  from: roleSchema.optional(),
+})
+
+const undoneEventSchema = snapshotEventSchema.extend({ undoneAt: z.number().int() })
+
+const rejectedSeqSchema = z.object({ owner: roleSchema, seq: voteSeq })
+
+export const scoringRulesSchema = z.object({
+  pointsPerVote: z.number().int().positive().max(1000),
+  finalWindowSec: z.number().int().nonnegative(),
+  finalMultiplier: z.number().int().positive().max(100),
+  stealPoints: z.number().int().nonnegative().max(1000),
+  scoreCap: z.number().int().nonnegative(),
+  overtime: z
+    .object({
+      mode: z.enum(['off', 'suddenDeath', 'periods']),
+      periodSec: z.number().int().positive().max(3600),
+      maxPeriods: z.number().int().positive().max(MAX_OVERTIME_PERIODS),
+    })
+    .optional(),
+})
+
+const overtimeStateSchema = z.object({
+  startSec: z.number().int(),
+  period: z.number().int().positive(),
+})
+
+const roundScoringSchema = scoringRulesSchema.extend({
+  multiplierFromSec: z.number().int().nonnegative(),
+})
+
+const pausesSchema = z.array(
+  z.object({ startSec: z.number().int(), endSec: z.number().int().optional() }),
+)
+
+export const teamNamesSchema = z.object({
+  red: z.string().max(24),
+  blue: z.string().max(24),
+})
+
+export const gameSnapshotSchema: z.ZodType<GameSnapshot> = z.object({
+  version: z.number().int().nonnegative(),
+  lastUpdatedAt: z.number(),
+  gameId: z.string().min(1),
+  sessionId: z.string().nullable(),
+  isHost: z.boolean(),
+  lockedRole: roleSchema,
+  startTimeSec: z.number().int(),
+  endTimeSec: z.number().int(),
+  gameState: gameStateSchema,
+  scoreRed: z.number().int().nonnegative(),
+  scoreBlue: z.number().int().nonnegative(),
+  events: z.array(snapshotEventSchema),
+  teams: teamsSchema.optional(),
+  scores: scoresSchema.optional(),
+  teamNames: teamNamesSchema.optional(),
+  seriesId: z.string().min(1).optional(),
+  scoring: roundScoringSchema.optional(),
+  pauses: pausesSchema.optional(),
+  undone: z.array(undoneEventSchema).optional(),
+  rejected: z.array(rejectedSeqSchema).optional(),
+  overtime: overtimeStateSchema.optional(),
+  schemaVersion: z.number().int().positive().optional(),
+})
+
+const roundId = z.string().min(1)
+const unixSeconds = z.number().int().positive()
+const epochMillis = z.number().int().positive()
+
+const matchSeriesSchema = z.object({
+  seriesId: z.string().min(1),
+  bestOf: z.number().int().positive().max(99),
+  roundDurationSec: z.number().int().positive(),
+  rounds: z.array(z.object({ roundId, winner: roleSchema.nullable() })),
+})
+
+export const gameSettingsSchema = z.object({
+  minVoteIntervalMs: z.number().int().nonnegative().max(60000),
+  maxVotesPerSecond: z.number().int().nonnegative().max(1000),
+})
+
+const seqCutSchema = z.record(z.string(), z.number().int().nonnegative())
+
+const stateSnapshotMessageSchema = z.object({
+  type: z.literal('stateSnapshot'),
+  roundId,
+  payload: gameSnapshotSchema,
+})
+
+export const messageSchema: z.ZodType<Message> = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('hello'),
+    protocolVersion: z.number().int().positive(),
+    capabilities: z.array(z.string()),
+  }),
+  z.object({
+    type: z.literal('start'),
+    roundId,
+    startTime: unixSeconds,
+    endTime: unixSeconds,
+    roles: sessionRolesSchema.optional(),
+    series: matchSeriesSchema.optional(),
+    settings: gameSettingsSchema.optional(),
+    teamNames: teamNamesSchema.optional(),
+    scoring: roundScoringSchema.optional(),
+    teams: teamsSchema.optional(),
+  }),
+  z.object({
+    type: z.literal('vote'),
+    roundId,
+    target: roleSchema,
+    at: z.number().int().nonnegative(),
+    seq: voteSeq,
+    atMs: z.number().int().nonnegative().optional(),
+    kind: z.literal('steal').optional(),
+    from: roleSchema.optional(),
+  }),
+  z.object({ type: z.literal('voteAck'), roundId, seq: voteSeq }),
+  z.object({
+    type: z.literal('voteRejected'),
+    roundId,
+    seq: voteSeq,
+    reason: z.enum(['tooFast', 'rateLimit', 'clock', 'rules', 'paused', 'ended']),
+    owner: roleSchema.optional(),
+  }),
+  z.object({ type: z.literal('proposeEndChange'), roundId, proposedEndTime: unixSeconds }),
+  z.object({ type: z.literal('acceptEndChange'), roundId, proposedEndTime: unixSeconds }),
+  z.object({ type: z.literal('rejectEndChange'), roundId, proposedEndTime: unixSeconds }),
+  z.object({ type: z.literal('proposeEndNow'), roundId }),
+  z.object({ type: z.literal('acceptEndNow'), roundId }),
+  z.object({ type: z.literal('rejectEndNow'), roundId }),
+  z.object({ type: z.literal('proposePause'), roundId }),
+  z.object({ type: z.literal('acceptPause'), roundId, pausedAt: unixSeconds }),
+  z.object({ type: z.literal('rejectPause'), roundId }),
+  z.object({ type: z.literal('resume'), roundId, resumedAt: unixSeconds, pausedAt: unixSeconds.optional() }),
+  z.object({ type: z.literal('proposeUndo'), roundId, owner: roleSchema, seq: voteSeq }),
+  z.object({
+    type: z.literal('acceptUndo'),
+    roundId,
+    owner: roleSchema,
+    seq: voteSeq,
+    undoneAt: unixSeconds,
+  }),
+  z.object({ type: z.literal('rejectUndo'), roundId, owner: roleSchema, seq: voteSeq }),
+  z.object({ type: z.literal('ready'), team: roleSchema, ready: z.boolean() }),
+  z.object({
+    type: z.literal('assignRoles'),
+    sessionId: z.string().min(1),
+    hostRole: roleSchema,
+    guestRole: roleSchema,
+    teams: teamsSchema.optional(),
+  }),
+  z.object({
+    type: z.literal('assignRolesAck'),
+    sessionId: z.string().min(1),
+    myRole: roleSchema,
+  }),
+  stateSnapshotMessageSchema,
+  z.object({
+    type: z.literal('digest'),
+    roundId,
+    count: z.number().int().nonnegative(),
+    hash: z.string().min(1),
+    upTo: seqCutSchema,
+  }),
+  z.object({
+    type: z.literal('requestResync'),
+    roundId,
+    reason: z.enum(['missing', 'mismatch']),
+  }),
+  z.object({ type: z.literal('ping'), sentAt: epochMillis }),
+  z.object({ type: z.literal('pong'), sentAt: epochMillis, replyAt: epochMillis }),
+])
+
+export const spectatorMessageSchema: z.ZodType<SpectatorMessage> = z.discriminatedUnion('type', [
+  stateSnapshotMessageSchema,
+  z.object({
+    type: z.literal('spectatorUpdate'),
+    roundId,
+    fromIndex: z.number().int().nonnegative(),
+    events: z.array(snapshotEventSchema),
+    scoreRed: z.number().int().nonnegative(),
+    scoreBlue: z.number().int().nonnegative(),
+    scores: scoresSchema.optional(),
+    endTimeSec: z.number().int(),
+    gameState: gameStateSchema,
+    pauses: pausesSchema.optional(),
+    overtime: overtimeStateSchema.optional(),
+    scoring: roundScoringSchema.optional(),
+    teamNames: teamNamesSchema.optional(),
+    series: matchSeriesSchema.optional(),
+    hostNowMs: epochMillis,
+  }),
+])
+
+export type ParseResult<T = Message> = { ok: true; message: T } | { ok: false; error: string }
+
+export const describeIssues = (error: z.ZodError) =>
+  error.issues
+    .map((issue) => (issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message))
+    .join('; ')
+
+const parseWith = <T>(schema: z.ZodType<T>, raw: unknown): ParseResult<T> => {
+  if (typeof raw !== 'string') {
+    return { ok: false, error: '消息不是文本格式' }
+  }
+  let data: unknown
+  try {
+    data = JSON.parse(raw)
+  } catch {
+    return { ok: false, error: '消息不是合法的 JSON' }
+  }
+  const result = schema.safeParse(data)
+  if (!result.success) {
+    const type =
+      data && typeof data === 'object' && 'type' in data ? String((data as { type: unknown }).type) : '?'
+    return { ok: false, error: `消息 ${type} 格式不符合协议：${describeIssues(result.error)}` }
+  }
+  return { ok: true, message: result.data }
+}
+
+/** 解析并校验一条 DataChannel 原始消息，失败时返回可读的错误描述而不是抛出异常。 */
+export const parseMessage = (raw: unknown): ParseResult => parseWith(messageSchema, raw)
+
+/** 观众端只接受快照与增量两种消息。 */
+export const parseSpectatorMessage = (raw: unknown): ParseResult<SpectatorMessage> =>
+  parseWith(spectatorMessageSchema, raw)
+
+export const createHello = (): Message => ({
+  type: 'hello',
+  protocolVersion: PROTOCOL_VERSION,
+  capabilities: [...CAPABILITIES],
+})
+
+export const isCompatiblePeer = (peer: PeerProtocol) => peer.protocolVersion === PROTOCOL_VERSION
+
+export const peerSupports = (peer: PeerProtocol | null, capability: Capability) =>
+  !!peer && peer.capabilities.includes(capability)
+
+export const formatVersionMismatch = (peer: PeerProtocol) => {
+  const peerLabel = peer.protocolVersion > 0 ? `v${peer.protocolVersion}` : '旧版本（未声明协议版本）'
+  return `协议版本不一致：本机为 v${PROTOCOL_VERSION}，对方为${peerLabel}。为避免比分错乱，已暂停本次对局同步，请双方刷新到同一版本后重新连接。`
+}
@@ -0,0 +1,88 @@
+import { describeOvertime } from './overtime'
+import { emptyScores } from './teams'
+import type { Role, RoundScoring, ScoringRules, Scores, VoteEvent } from './types'
+
+/** 默认规则即最初的玩法：每票为对方 +1，没有倍数、偷分与封顶。 */
+export const DEFAULT_SCORING_RULES: ScoringRules = {
+  pointsPerVote: 1,
+  finalWindowSec: 0,
+  finalMultiplier: 1,
+  stealPoints: 0,
+  scoreCap: 0,
+}
+
+/** 旧版本快照与未携带规则的对端按默认规则回放。 */
+export const LEGACY_SCORING: RoundScoring = { ...DEFAULT_SCORING_RULES, multiplierFromSec: 0 }
+
+/** 开局时把“最后 N 秒”换算成本局第几秒起生效；之后修改结束时间不会移动倍数窗口。 */
+export const resolveScoring = (rules: ScoringRules, durationSec: number): RoundScoring => ({
+  ...rules,
+  multiplierFromSec: Math.max(0, durationSec - rules.finalWindowSec),
+})
+
+export const isDefaultScoring = (rules: ScoringRules) =>
+  rules.pointsPerVote === DEFAULT_SCORING_RULES.pointsPerVote &&
+  (rules.finalWindowSec === 0 || rules.finalMultiplier === 1) &&
+  rules.stealPoints === 0 &&
+  rules.scoreCap === 0 &&
+  (rules.overtime?.mode ?? 'off') === 'off'
+
+export const inMultiplierWindow = (scoring: RoundScoring, elapsedSec: number) =>
+  scoring.finalWindowSec > 0 && elapsedSec >= scoring.multiplierFromSec
+
+/** 一票对被投阵营的分值，偷分票为负数。 */
+export const votePoints = (event: Pick<VoteEvent, 'elapsed' | 'kind'>, scoring: RoundScoring) => {
+  const multiplier = inMultiplierWindow(scoring, event.elapsed) ? scoring.finalMultiplier : 1
+  const base = event.kind === 'steal' ? -scoring.stealPoints : scoring.pointsPerVote
+  return base * multiplier
+}
+
+export const addVoteScore = (scores: Scores, event: VoteEvent, scoring: RoundScoring): Scores => {
+  const raw = (scores[event.target] ?? 0) + votePoints(event, scoring)
+  const capped = scoring.scoreCap > 0 ? Math.min(scoring.scoreCap, raw) : raw
+  return { ...scores, [event.target]: Math.max(0, capped) }
+}
+
+const eventTimeMs = (event: VoteEvent) => event.atMs ?? event.elapsed * 1000
+
+/**
+ * 封顶与不低于 0 的截断与顺序有关，双方收到投票的顺序可能不同，
+ * 因此统一按投票时间（再按阵营、序号）排序后累计。
+ */
+export const sortVoteEvents = (events: VoteEvent[]) =>
+  [...events].sort(
+    (a, b) =>
+      eventTimeMs(a) - eventTimeMs(b) ||
+      a.target.localeCompare(b.target) ||
+      (a.from ?? '').localeCompare(b.from ?? '') ||
+      (a.seq ?? 0) - (b.seq ?? 0),
+  )
+
+/** teamIds 决定得分表中包含哪些队（没有得票的队也记 0 分）。 */
+export const scoreEvents = (
+  events: VoteEvent[],
+  scoring: RoundScoring,
+  teamIds: Role[] = ['red', 'blue'],
+): Scores =>
+  sortVoteEvents(events).reduce(
+    (acc, event) => addVoteScore(acc, event, scoring),
+    emptyScores(teamIds),
+  )
+
+export const reachedScoreCap = (scores: Scores, scoring: RoundScoring): Role | null => {
+  if (scoring.scoreCap <= 0) return null
+  const capped = Object.keys(scores).find((id) => scores[id] >= scoring.scoreCap)
+  return capped ?? null
+}
+
+export const describeScoring = (rules: ScoringRules) => {
+  const parts = [`每票 +${rules.pointsPerVote}`]
+  if (rules.finalWindowSec > 0 && rules.finalMultiplier !== 1) {
+    parts.push(`最后 ${rules.finalWindowSec} 秒 ×${rules.finalMultiplier}`)
+  }
+  if (rules.stealPoints > 0) parts.push(`偷分 -${rules.stealPoints}`)
+  if (rules.scoreCap > 0) parts.push(`${rules.scoreCap} 分封顶`)
+  const overtime = describeOvertime(rules.overtime)
+  if (overtime) parts.push(overtime)
+  return parts.join('，')
+}
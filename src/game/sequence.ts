@@ -0,0 +1,28 @@
+/**
+ * 记录已收到的序号：watermark 以下（含）全部收到，above 保存乱序到达、尚未连成一段的序号。
+ * 序号从 1 开始，每个发送方每局独立计数。
+ */
+export type SeqWindow = {
+  watermark: number
+  above: number[]
+}
+
+export const emptySeqWindow = (): SeqWindow => ({ watermark: 0, above: [] })
+
+export const hasSeq = (window: SeqWindow, seq: number) =>
+  seq <= window.watermark || window.above.includes(seq)
+
+export const addSeq = (window: SeqWindow, seq: number): SeqWindow => {
+  if (hasSeq(window, seq)) {
+    return window
+  }
+  const above = [...window.above, seq].sort((a, b) => a - b)
+  let watermark = window.watermark
+  while (above.length > 0 && above[0] === watermark + 1) {
+    watermark = above.shift() as number
+  }
+  return { watermark, above }
+}
+
+export const seqWindowFrom = (seqs: number[]): SeqWindow =>
+  seqs.reduce((acc, seq) => addSeq(acc, seq), emptySeqWindow())
@@ -0,0 +1,42 @@
+import { addVoteScore, LEGACY_SCORING, sortVoteEvents } from './scoring'
+import { emptyScores, teamIdsOf } from './teams'
+import type { GameSnapshot, Role, RoundScoring, Scores, VoteEvent } from './types'
+
+/** 每秒一个点，键为各队 id */
+export type ScorePoint = Scores & { second: number }
+
+/** 按秒累计双方得分，时长取约定时长与最后一次投票时间中的较大者；分值按本局计分规则计算。 */
+export const buildScoreSeries = (
+  events: VoteEvent[],
+  durationSec: number,
+  scoring: RoundScoring = LEGACY_SCORING,
+  teamIds: Role[] = ['red', 'blue'],
+): ScorePoint[] => {
+  const maxElapsedFromVotes = events.length > 0 ? Math.max(...events.map((event) => event.elapsed)) : 0
+
+  const finalDuration = Math.max(durationSec, maxElapsedFromVotes)
+  if (finalDuration <= 0) return []
+
+  const sorted = sortVoteEvents(events)
+  const points: ScorePoint[] = []
+  let scores = emptyScores(teamIds)
+  let cursor = 0
+
+  for (let second = 0; second <= finalDuration; second += 1) {
+    while (cursor < sorted.length && sorted[cursor].elapsed <= second) {
+      scores = addVoteScore(scores, sorted[cursor], scoring)
+      cursor += 1
+    }
+    points.push({ ...scores, second })
+  }
+
+  return points
+}
+
+export const buildScoreSeriesForSnapshot = (snapshot: GameSnapshot): ScorePoint[] =>
+  buildScoreSeries(
+    snapshot.events.map(({ at, ...rest }) => ({ ...rest, elapsed: at })),
+    Math.max(0, snapshot.endTimeSec - snapshot.startTimeSec),
+    snapshot.scoring,
+    snapshot.teams ? teamIdsOf(snapshot.teams) : undefined,
+  )
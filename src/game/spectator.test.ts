@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest'
+import { createInitialState } from './engine'
+import { resolveScoring } from './scoring'
+import { applySpectatorMessage, createSpectatorView, nextSpectatorMessages, type SpectatorSource } from './spectator'
+
+const HOST_NOW_MS = 1_700_000_000_000
+
+const runningSource = (): SpectatorSource => ({
+  ...createInitialState('offer'),
+  roundId: 'round-1',
+  lockedRole: 'red',
+  startTimeSec: 1_700_000_000,
+  endTimeSec: 1_700_000_060,
+  gameState: 'running',
+  scoring: resolveScoring(
+    { pointsPerVote: 1, finalWindowSec: 10, finalMultiplier: 2, stealPoints: 0, scoreCap: 0 },
+    60,
+  ),
+})
+
+describe('nextSpectatorMessages', () => {
+  it('pushes scoring changes such as a shifted multiplier window', () => {
+    const source = runningSource()
+    const first = nextSpectatorMessages(null, source, HOST_NOW_MS)
+    let view = first.messages.reduce(
+      (acc, message) => applySpectatorMessage(acc, message, HOST_NOW_MS),
+      createSpectatorView(),
+    )
+
+    const resumed = { ...source, scoring: { ...source.scoring, multiplierFromSec: source.scoring.multiplierFromSec + 5 } }
+    const next = nextSpectatorMessages(first.feed, resumed, HOST_NOW_MS + 1000)
+    expect(next.messages).toHaveLength(1)
+    expect(next.messages[0]).toMatchObject({ type: 'spectatorUpdate', scoring: resumed.scoring })
+
+    view = applySpectatorMessage(view, next.messages[0], HOST_NOW_MS + 1000)
+    expect(view.snapshot?.scoring).toEqual(resumed.scoring)
+  })
+})
@@ -0,0 +1,157 @@
+import { buildSnapshot, type SnapshotSource } from './engine'
+import { remainingSec } from './pause'
+import { isMultiTeam, teamNamesOf } from './teams'
+import type { GameSnapshot, MatchSeries, SpectatorMessage, TeamNames, VoteEvent } from './types'
+
+/**
+ * 观众是只读的：主机先推送完整快照，之后只推送新增投票与比分、时间等变化。
+ * 观众端从不回发消息，发现漏收时只能等待主机下一次推送完整快照。
+ */
+
+export type SpectatorSource = SnapshotSource
+
+/** 主机记录已推送给某位观众的进度 */
+export type SpectatorFeed = {
+  roundId: string
+  eventCount: number
+  lastEventKey: string | null
+  stateKey: string
+}
+
+const eventKey = (event: VoteEvent) => `${event.target}:${event.seq ?? ''}:${event.atMs ?? event.elapsed}`
+
+const stateKeyOf = (source: SpectatorSource) =>
+  JSON.stringify([
+    source.endTimeSec,
+    source.gameState,
+    source.pauses,
+    source.overtime,
+    source.scoring,
+    source.scores,
+    source.teams,
+    source.series,
+  ])
+
+const lastEventKeyOf = (events: VoteEvent[]) =>
+  events.length > 0 ? eventKey(events[events.length - 1]) : null
+
+/**
+ * 计算需要推送给观众的消息。换局、或已推送的事件被撤回（投票被拒）时重新发送完整快照；
+ * 其余情况只发送新增事件。没有变化时返回空列表。
+ */
+export const nextSpectatorMessages = (
+  feed: SpectatorFeed | null,
+  source: SpectatorSource,
+  hostNowMs: number,
+): { feed: SpectatorFeed | null; messages: SpectatorMessage[] } => {
+  const snapshot = buildSnapshot(source, { version: 0, lastUpdatedAt: hostNowMs })
+  if (!snapshot || !source.endTimeSec) {
+    return { feed, messages: [] }
+  }
+  const events = source.voteEvents
+  const stateKey = stateKeyOf(source)
+  const nextFeed: SpectatorFeed = {
+    roundId: snapshot.gameId,
+    eventCount: events.length,
+    lastEventKey: lastEventKeyOf(events),
+    stateKey,
+  }
+  const canAppend =
+    !!feed &&
+    feed.roundId === snapshot.gameId &&
+    feed.eventCount <= events.length &&
+    feed.lastEventKey === lastEventKeyOf(events.slice(0, feed.eventCount))
+  if (canAppend && feed.eventCount === events.length && feed.stateKey === stateKey) {
+    return { feed, messages: [] }
+  }
+
+  const fromIndex = canAppend ? feed.eventCount : events.length
+  const update: SpectatorMessage = {
+    type: 'spectatorUpdate',
+    roundId: snapshot.gameId,
+    fromIndex,
+    events: snapshot.events.slice(fromIndex),
+    scoreRed: snapshot.scoreRed,
+    scoreBlue: snapshot.scoreBlue,
+    ...(snapshot.scores ? { scores: snapshot.scores } : {}),
+    endTimeSec: snapshot.endTimeSec,
+    gameState: snapshot.gameState,
+    ...(snapshot.pauses ? { pauses: snapshot.pauses } : {}),
+    ...(snapshot.overtime ? { overtime: snapshot.overtime } : {}),
+    scoring: source.scoring,
+    // 队名已在快照的 teams 中，旧版本观众页面只认识 teamNames
+    ...(isMultiTeam(source.teams) ? {} : { teamNames: teamNamesOf(source.teams) }),
+    ...(source.series ? { series: source.series } : {}),
+    hostNowMs,
+  }
+  const messages: SpectatorMessage[] = canAppend
+    ? [update]
+    : [{ type: 'stateSnapshot', roundId: snapshot.gameId, payload: snapshot }, update]
+  return { feed: nextFeed, messages }
+}
+
+export type SpectatorView = {
+  snapshot: GameSnapshot | null
+  /** 旧版本主机的快照不带 teams，队名只能取自 teamNames */
+  teamNames: TeamNames | null
+  series: MatchSeries | null
+  /** 主机时间 - 本机时间；单向估计，取见过的最大值（传输延迟只会让估计偏小） */
+  clockOffsetMs: number | null
+  outOfSync: boolean
+}
+
+export const createSpectatorView = (): SpectatorView => ({
+  snapshot: null,
+  teamNames: null,
+  series: null,
+  clockOffsetMs: null,
+  outOfSync: false,
+})
+
+export const applySpectatorMessage = (
+  view: SpectatorView,
+  message: SpectatorMessage,
+  localNowMs: number,
+): SpectatorView => {
+  if (message.type === 'stateSnapshot') {
+    return { ...view, snapshot: message.payload, outOfSync: false }
+  }
+  const offset = message.hostNowMs - localNowMs
+  const clockOffsetMs = view.clockOffsetMs === null ? offset : Math.max(view.clockOffsetMs, offset)
+  const { snapshot } = view
+  if (
+    !snapshot ||
+    snapshot.gameId !== message.roundId ||
+    snapshot.events.length !== message.fromIndex
+  ) {
+    return { ...view, clockOffsetMs, outOfSync: true }
+  }
+  return {
+    snapshot: {
+      ...snapshot,
+      events: [...snapshot.events, ...message.events],
+      scoreRed: message.scoreRed,
+      scoreBlue: message.scoreBlue,
+      ...(message.scores ? { scores: message.scores } : {}),
+      endTimeSec: message.endTimeSec,
+      gameState: message.gameState,
+      pauses: message.pauses,
+      overtime: message.overtime,
+      // 恢复暂停会顺延倍数窗口，加时也会改变计分；旧版本主机不推送时沿用快照中的规则
+      scoring: message.scoring ?? snapshot.scoring,
+      lastUpdatedAt: message.hostNowMs,
+    },
+    teamNames: message.teamNames ?? null,
+    series: message.series ?? null,
+    clockOffsetMs,
+    outOfSync: false,
+  }
+}
+
+/** 观众端倒计时：按估计的主机时间计算，结束以主机推送的状态为准。 */
+export const spectatorTimeRemaining = (view: SpectatorView, localNowMs: number) => {
+  const { snapshot } = view
+  if (!snapshot || snapshot.gameState !== 'running') return 0
+  const hostNowSec = Math.floor((localNowMs + (view.clockOffsetMs ?? 0)) / 1000)
+  return remainingSec(snapshot.endTimeSec, snapshot.pauses ?? [], hostNowSec)
+}
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest'
+import { computeStats } from './stats'
+import type { GameSnapshot } from './types'
+
+// 趋势按本地日期分组，用本地时间构造结束时间，测试结果与时区无关
+const localSec = (day: number, hour: number) => new Date(2026, 0, day, hour).getTime() / 1000
+
+/** 本机固定为红方的一局 60 秒对局，事件数等于双方得分之和 */
+const game = (gameId: string, endTimeSec: number, scoreRed: number, scoreBlue: number): GameSnapshot => ({
+  version: 1,
+  lastUpdatedAt: endTimeSec * 1000,
+  gameId,
+  sessionId: 'session-1',
+  isHost: true,
+  lockedRole: 'red',
+  startTimeSec: endTimeSec - 60,
+  endTimeSec,
+  gameState: 'ended',
+  scoreRed,
+  scoreBlue,
+  events: [
+    ...Array.from({ length: scoreRed }, (_, at) => ({ at, target: 'red' })),
+    ...Array.from({ length: scoreBlue }, (_, at) => ({ at, target: 'blue' })),
+  ],
+})
+
+describe('computeStats', () => {
+  it('finds the longest win and loss streaks in end-time order', () => {
+    const stats = computeStats([
+      game('w3', localSec(1, 13), 3, 1),
+      game('w1', localSec(1, 11), 2, 0),
+      game('l1', localSec(1, 14), 0, 1),
+      game('w2', localSec(1, 12), 4, 2),
+      game('l2', localSec(1, 15), 1, 2),
+    ])
+    expect(stats.longestWinStreak).toEqual({ length: 3, fromGameId: 'w1', toGameId: 'w3' })
+    expect(stats.longestLossStreak).toEqual({ length: 2, fromGameId: 'l1', toGameId: 'l2' })
+    expect(stats.roles).toEqual([{ role: 'red', played: 5, wins: 3, losses: 2, draws: 0 }])
+  })
+
+  it('breaks a streak on a draw', () => {
+    const stats = computeStats([
+      game('w1', localSec(1, 11), 2, 0),
+      game('w2', localSec(1, 12), 3, 1),
+      game('d1', localSec(1, 13), 2, 2),
+      game('w3', localSec(1, 14), 1, 0),
+    ])
+    expect(stats.longestWinStreak).toEqual({ length: 2, fromGameId: 'w1', toGameId: 'w2' })
+    expect(stats.roles[0].draws).toBe(1)
+  })
+
+  it('averages the margin over ended games only', () => {
+    const stats = computeStats([
+      game('a', localSec(1, 11), 5, 1),
+      game('b', localSec(1, 12), 2, 2),
+      game('c', localSec(1, 13), 0, 3),
+      { ...game('running', localSec(1, 14), 9, 0), gameState: 'running' },
+    ])
+    expect(stats.games).toBe(3)
+    // (4 + 0 + 3) / 3，保留一位小数
+    expect(stats.avgMargin).toBe(2.3)
+    expect(stats.maxMargin).toEqual({ margin: 4, gameId: 'a' })
+    // 13 票 / 3 分钟
+    expect(stats.votesPerMinute).toBe(4.3)
+  })
+
+  it('groups the trend by local day', () => {
+    const stats = computeStats([
+      game('a', localSec(1, 11), 3, 1),
+      game('b', localSec(1, 20), 0, 2),
+      game('c', localSec(2, 9), 1, 1),
+    ])
+    expect(stats.trend).toEqual([
+      { day: '2026-01-01', games: 2, winRate: 50, avgMargin: 2, votesPerMinute: 3 },
+      { day: '2026-01-02', games: 1, winRate: 0, avgMargin: 0, votesPerMinute: 2 },
+    ])
+  })
+})
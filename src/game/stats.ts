@@ -0,0 +1,148 @@
+import { roundWinner } from './match'
+import type { GameSnapshot, Role, Scores } from './types'
+
+/**
+ * 跨对局统计：胜负按本机在该局中的阵营（快照的 lockedRole）计算，
+ * 分差与投票速度按整局计算。只统计已结束的对局。
+ */
+
+export type GameOutcome = 'win' | 'loss' | 'draw'
+
+export type RoleRecord = {
+  role: Role
+  played: number
+  wins: number
+  losses: number
+  draws: number
+}
+
+export type Streak = {
+  length: number
+  /** 连胜（连败）区间的首末两局 */
+  fromGameId: string | null
+  toGameId: string | null
+}
+
+/** 趋势图按本地日期分组，每天一个点 */
+export type TrendPoint = {
+  day: string
+  games: number
+  /** 胜率（%），平局不算胜 */
+  winRate: number
+  avgMargin: number
+  votesPerMinute: number
+}
+
+export type GameStats = {
+  games: number
+  roles: RoleRecord[]
+  avgMargin: number
+  maxMargin: { margin: number; gameId: string } | null
+  votesPerMinute: number
+  longestWinStreak: Streak
+  longestLossStreak: Streak
+  trend: TrendPoint[]
+}
+
+const snapshotScores = (snapshot: GameSnapshot): Scores =>
+  snapshot.scores ?? { red: snapshot.scoreRed, blue: snapshot.scoreBlue }
+
+const marginOf = (scores: Scores) => {
+  const ranked = Object.values(scores).sort((a, b) => b - a)
+  return ranked.length > 1 ? ranked[0] - ranked[1] : (ranked[0] ?? 0)
+}
+
+export const outcomeOf = (snapshot: GameSnapshot): GameOutcome => {
+  const winner = roundWinner(snapshotScores(snapshot))
+  if (winner === null) return 'draw'
+  return winner === snapshot.lockedRole ? 'win' : 'loss'
+}
+
+const durationMinutes = (snapshot: GameSnapshot) => Math.max(0, snapshot.endTimeSec - snapshot.startTimeSec) / 60
+
+const round1 = (value: number) => Math.round(value * 10) / 10
+
+const dayKey = (sec: number) => {
+  const date = new Date(sec * 1000)
+  const month = String(date.getMonth() + 1).padStart(2, '0')
+  const day = String(date.getDate()).padStart(2, '0')
+  return `${date.getFullYear()}-${month}-${day}`
+}
+
+const emptyStreak = (): Streak => ({ length: 0, fromGameId: null, toGameId: null })
+
+/** 按结束时间顺序找最长的连续同一结果；平局会打断连胜与连败 */
+const longestStreak = (games: GameSnapshot[], outcome: GameOutcome): Streak => {
+  let best = emptyStreak()
+  let current = emptyStreak()
+  for (const game of games) {
+    if (outcomeOf(game) !== outcome) {
+      current = emptyStreak()
+      continue
+    }
+    current = {
+      length: current.length + 1,
+      fromGameId: current.fromGameId ?? game.gameId,
+      toGameId: game.gameId,
+    }
+    if (current.length > best.length) best = current
+  }
+  return best
+}
+
+const votesPerMinuteOf = (games: GameSnapshot[]) => {
+  const minutes = games.reduce((sum, game) => sum + durationMinutes(game), 0)
+  const votes = games.reduce((sum, game) => sum + game.events.length, 0)
+  return minutes > 0 ? round1(votes / minutes) : 0
+}
+
+const averageMargin = (games: GameSnapshot[]) =>
+  games.length > 0
+    ? round1(games.reduce((sum, game) => sum + marginOf(snapshotScores(game)), 0) / games.length)
+    : 0
+
+export const computeStats = (snapshots: GameSnapshot[]): GameStats => {
+  const games = snapshots
+    .filter((snapshot) => snapshot.gameState === 'ended')
+    .sort((a, b) => a.endTimeSec - b.endTimeSec)
+
+  const roles = new Map<Role, RoleRecord>()
+  let maxMargin: GameStats['maxMargin'] = null
+  const byDay = new Map<string, GameSnapshot[]>()
+  for (const game of games) {
+    const record = roles.get(game.lockedRole) ?? { role: game.lockedRole, played: 0, wins: 0, losses: 0, draws: 0 }
+    const outcome = outcomeOf(game)
+    roles.set(game.lockedRole, {
+      ...record,
+      played: record.played + 1,
+      wins: record.wins + (outcome === 'win' ? 1 : 0),
+      losses: record.losses + (outcome === 'loss' ? 1 : 0),
+      draws: record.draws + (outcome === 'draw' ? 1 : 0),
+    })
+    const margin = marginOf(snapshotScores(game))
+    if (!maxMargin || margin > maxMargin.margin) {
+      maxMargin = { margin, gameId: game.gameId }
+    }
+    const key = dayKey(game.endTimeSec)
+    byDay.set(key, [...(byDay.get(key) ?? []), game])
+  }
+
+  return {
+    games: games.length,
+    roles: [...roles.values()].sort((a, b) => b.played - a.played),
+    avgMargin: averageMargin(games),
+    maxMargin,
+    votesPerMinute: votesPerMinuteOf(games),
+    longestWinStreak: longestStreak(games, 'win'),
+    longestLossStreak: longestStreak(games, 'loss'),
+    trend: [...byDay.entries()].map(([day, dayGames]) => ({
+      day,
+      games: dayGames.length,
+      winRate: Math.round(
+        (dayGames.filter((game) => outcomeOf(game) === 'win').length / dayGames.length) * 100,
+      ),
+      avgMargin: averageMargin(dayGames),
+      votesPerMinute: votesPerMinuteOf(dayGames),
+    })),
+  }
+}
@@ -0,0 +1,53 @@
+import type { GameSnapshot, Role, Scores, Team, TeamNames } from './types'
+
+/** 队伍配色表：前两队沿用红 / 蓝，双队对局与旧版本完全一致 */
+export const TEAM_PALETTE: Team[] = [
+  { id: 'red', name: '红方', color: '#f97373' },
+  { id: 'blue', name: '蓝方', color: '#0ea5e9' },
+  { id: 'green', name: '绿方', color: '#22c55e' },
+  { id: 'amber', name: '黄方', color: '#f59e0b' },
+  { id: 'violet', name: '紫方', color: '#8b5cf6' },
+  { id: 'pink', name: '粉方', color: '#ec4899' },
+]
+
+export const MIN_TEAMS = 2
+export const MAX_TEAMS = TEAM_PALETTE.length
+
+export const DEFAULT_TEAMS: Team[] = TEAM_PALETTE.slice(0, MIN_TEAMS)
+
+/** 按队伍数从配色表中取前几队，names 可覆盖默认队名 */
+export const createTeams = (count: number, names: Partial<Record<Role, string>> = {}): Team[] =>
+  TEAM_PALETTE.slice(0, Math.min(MAX_TEAMS, Math.max(MIN_TEAMS, Math.floor(count)))).map((team) => ({
+    ...team,
+    name: names[team.id]?.trim() || team.name,
+  }))
+
+export const isMultiTeam = (teams: Team[]) => teams.length > MIN_TEAMS
+
+export const teamIdsOf = (teams: Team[]) => teams.map((team) => team.id)
+
+export const emptyScores = (ids: Role[]): Scores =>
+  Object.fromEntries(ids.map((id) => [id, 0])) as Scores
+
+export const findTeam = (teams: Team[], id: Role) =>
+  teams.find((team) => team.id === id) ?? TEAM_PALETTE.find((team) => team.id === id)
+
+export const teamName = (teams: Team[], id: Role) => findTeam(teams, id)?.name ?? id
+
+/** 双队对局的红 / 蓝队名；只为旧版本页面保留，新页面直接使用 teams */
+export const teamNamesOf = (teams: Team[]): TeamNames => ({
+  red: teamName(teams, 'red'),
+  blue: teamName(teams, 'blue'),
+})
+
+/** 回放快照时显示的红 / 蓝队名；没有记录队名的旧快照使用默认队名 */
+export const snapshotTeamNames = (snapshot: Pick<GameSnapshot, 'teamNames' | 'teams'>): TeamNames =>
+  snapshot.teamNames ?? teamNamesOf(snapshot.teams ?? DEFAULT_TEAMS)
+
+export const teamColor = (teams: Team[], id: Role) => findTeam(teams, id)?.color ?? '#64748b'
+
+/** 投票规则：可以投给除本队以外的任意一队；双队对局中即只能投给对方。 */
+export const canVoteFor = (teams: Team[], voter: Role, target: Role) =>
+  voter !== target && teams.some((team) => team.id === target)
+
+export const votableTeams = (teams: Team[], voter: Role) => teams.filter((team) => team.id !== voter)
@@ -0,0 +1,276 @@
+/** 阵营（队伍）id：双队对局为 'red' / 'blue'，多队对局的其余 id 见 teams.ts 中的配色表 */
+export type Role = string
+
+export type Team = {
+  id: Role
+  name: string
+  /** 十六进制颜色，用于比分板与曲线 */
+  color: string
+}
+
+export type ConnectionMode = 'offer' | 'answer'
+export type GameState = 'idle' | 'running' | 'ended'
+
+/** 各队得分；双队对局即 { red, blue } */
+export type Scores = Record<Role, number>
+
+/** 偷分票：从被投阵营扣分，而不是加分 */
+export type VoteKind = 'steal'
+
+/** 平局加时：suddenDeath 为突然死亡（先得分者胜），periods 为固定时长的加时段 */
+export type OvertimeMode = 'off' | 'suddenDeath' | 'periods'
+
+export type OvertimeRules = {
+  mode: OvertimeMode
+  periodSec: number
+  maxPeriods: number
+}
+
+/** 进入加时的时刻（共享时间线上的秒，即常规时间的结束时间）与当前是第几段加时 */
+export type OvertimeState = { startSec: number; period: number }
+
+/** 计分规则，开局时随 start 下发；0 表示对应规则关闭 */
+export type ScoringRules = {
+  pointsPerVote: number
+  /** 最后多少秒内每票乘以 finalMultiplier */
+  finalWindowSec: number
+  finalMultiplier: number
+  stealPoints: number
+  /** 任一方达到该分数即封顶并结束本局 */
+  scoreCap: number
+  /** 旧版本规则没有该字段，视为不加时 */
+  overtime?: OvertimeRules
+}
+
+/** 落到某一局的计分规则：倍数窗口在开局时换算为本局第几秒起生效 */
+export type RoundScoring = ScoringRules & { multiplierFromSec: number }
+
+export type VoteEvent = {
+  target: Role
+  elapsed: number
+  /** 投出方的投票序号；旧版本快照中的事件没有该字段 */
+  seq?: number
+  /** 本局开始后的毫秒数，用于节奏限制与连点检测 */
+  atMs?: number
+  /** 点击节奏过于规律，疑似连点器 */
+  suspicious?: boolean
+  kind?: VoteKind
+  /** 投出方；只在多队对局中携带，双队对局中投出方就是目标的对手 */
+  from?: Role
+}
+
+/** 各序号归属方的序号截止点：双队对局按投票目标区分，多队对局按投出方区分 */
+export type SeqCut = Record<Role, number>
+
+export type SnapshotEvent = {
+  at: number
+  target: Role
+  seq?: number
+  atMs?: number
+  suspicious?: boolean
+  kind?: VoteKind
+  from?: Role
+}
+
+/** 经对方同意撤销的投票，作为墓碑保留在快照中以便核对；undoneAt 为撤销时共享时间线上的秒 */
+export type UndoneEvent = SnapshotEvent & { undoneAt: number }
+
+/** 被拒绝的投票只留下序号，不计分；owner 为序号归属方（见 seqOwnerOf） */
+export type RejectedSeq = { owner: Role; seq: number }
+
+/** 每局的投票节奏限制，随 start 消息下发，双方都按此校验。0 表示不限制。 */
+export type GameSettings = {
+  minVoteIntervalMs: number
+  maxVotesPerSecond: number
+}
+
+export type VoteRejectReason = 'tooFast' | 'rateLimit' | 'clock' | 'rules' | 'paused' | 'ended'
+
+/** 一次暂停，时间为共享时间线上的秒；尚未恢复时没有 endSec */
+export type PauseInterval = { startSec: number; endSec?: number }
+
+/** 对局中显示的队名，阵营本身仍是红 / 蓝 */
+export type TeamNames = { red: string; blue: string }
+
+/** 本机保存的开局预设：时长、赛制、投票限制与队名 */
+export type GamePreset = {
+  id: string
+  name: string
+  durationSec: number
+  bestOf: number
+  settings: GameSettings
+  teamNames: TeamNames
+  scoring?: ScoringRules
+}
+
+export type GameSnapshot = {
+  /** 记录结构的版本，见 migrations.ts；旧版本页面与对端发来的快照没有该字段 */
+  schemaVersion?: number
+  /** 写入计数，每次保存递增 */
+  version: number
+  lastUpdatedAt: number
+  gameId: string
+  sessionId: string | null
+  isHost: boolean
+  lockedRole: Role
+  startTimeSec: number
+  endTimeSec: number
+  gameState: GameState
+  scoreRed: number
+  scoreBlue: number
+  events: SnapshotEvent[]
+  /** 本局的队伍（旧版本快照只有多队对局才有）；各队得分只在多队对局中记录，双队对局使用 scoreRed / scoreBlue */
+  teams?: Team[]
+  scores?: Scores
+  /** 双队对局的红 / 蓝队名，供历史回放与导出显示自定义队名 */
+  teamNames?: TeamNames
+  /** 所属系列赛；单局对局没有该字段 */
+  seriesId?: string
+  /** 本局计分规则；旧版本快照没有该字段，按每票 +1 回放 */
+  scoring?: RoundScoring
+  /** 本局的暂停区间；endTimeSec 已包含暂停顺延的时间 */
+  pauses?: PauseInterval[]
+  /** 本局被撤销的投票，不计分 */
+  undone?: UndoneEvent[]
+  /** 本局被拒绝的投票序号 */
+  rejected?: RejectedSeq[]
+  /** 本局进入了平局加时 */
+  overtime?: OvertimeState
+}
+
+export type HistoryIndexEntry = {
+  schemaVersion?: number
+  gameId: string
+  startTimeSec: number
+  endTimeSec: number
+  scoreRed: number
+  scoreBlue: number
+  lastUpdatedAt: number
+  seriesId?: string
+  teams?: Team[]
+  scores?: Scores
+  /** 本机为该局添加的备注，只存在历史列表中，不随快照同步 */
+  note?: string
+}
+
+/** 系列赛中一局的结果，winner 为 null 表示平局（不计入任何一方胜局） */
+export type MatchRoundResult = {
+  roundId: string
+  winner: Role | null
+}
+
+/** 多局制系列赛（BO3 / BO5 / BO7），以发起方记录的结果为准 */
+export type MatchSeries = {
+  seriesId: string
+  bestOf: number
+  roundDurationSec: number
+  rounds: MatchRoundResult[]
+}
+
+export type MatchHistoryEntry = {
+  seriesId: string
+  bestOf: number
+  rounds: MatchRoundResult[]
+  winner: Role | null
+  startTimeSec: number
+  endTimeSec: number
+  lastUpdatedAt: number
+  /** 多队对局的队伍列表，双队对局不记录 */
+  teams?: Team[]
+}
+
+export type HandshakeState = 'pending' | 'ok' | 'mismatch'
+
+export type PeerProtocol = {
+  protocolVersion: number
+  capabilities: string[]
+}
+
+export type ScoreSyncStatus = 'unchecked' | 'inSync' | 'repairing'
+
+export type ResyncReason = 'missing' | 'mismatch'
+
+export type SessionRoles = {
+  hostRole: Role
+  guestRole: Role
+}
+
+export type Message =
+  | { type: 'hello'; protocolVersion: number; capabilities: string[] }
+  | {
+      type: 'start'
+      roundId: string
+      startTime: number
+      endTime: number
+      roles?: SessionRoles
+      series?: MatchSeries
+      settings?: GameSettings
+      teamNames?: TeamNames
+      scoring?: RoundScoring
+      teams?: Team[]
+    }
+  | {
+      type: 'vote'
+      roundId: string
+      target: Role
+      at: number
+      seq: number
+      atMs?: number
+      kind?: VoteKind
+      from?: Role
+    }
+  | { type: 'voteAck'; roundId: string; seq: number }
+  /** owner 只在发起方转告其他加入方时携带，不填表示被拒绝的是收到方自己的票 */
+  | { type: 'voteRejected'; roundId: string; seq: number; reason: VoteRejectReason; owner?: Role }
+  | { type: 'proposeEndChange'; roundId: string; proposedEndTime: number }
+  | { type: 'acceptEndChange'; roundId: string; proposedEndTime: number }
+  | { type: 'rejectEndChange'; roundId: string; proposedEndTime: number }
+  | { type: 'proposeEndNow'; roundId: string }
+  | { type: 'acceptEndNow'; roundId: string }
+  | { type: 'rejectEndNow'; roundId: string }
+  | { type: 'proposePause'; roundId: string }
+  | { type: 'acceptPause'; roundId: string; pausedAt: number }
+  | { type: 'rejectPause'; roundId: string }
+  | {
+      type: 'resume'
+      roundId: string
+      resumedAt: number
+      /** 恢复方记录的暂停开始时间，接收方以此为准 */
+      pausedAt?: number
+    }
+  | { type: 'proposeUndo'; roundId: string; owner: Role; seq: number }
+  | { type: 'acceptUndo'; roundId: string; owner: Role; seq: number; undoneAt: number }
+  | { type: 'rejectUndo'; roundId: string; owner: Role; seq: number }
+  | { type: 'ready'; team: Role; ready: boolean }
+  | { type: 'assignRoles'; sessionId: string; hostRole: Role; guestRole: Role; teams?: Team[] }
+  | { type: 'assignRolesAck'; sessionId: string; myRole: Role }
+  | { type: 'stateSnapshot'; roundId: string; payload: GameSnapshot }
+  | { type: 'digest'; roundId: string; count: number; hash: string; upTo: SeqCut }
+  | { type: 'requestResync'; roundId: string; reason: ResyncReason }
+  | { type: 'ping'; sentAt: number }
+  | { type: 'pong'; sentAt: number; replyAt: number }
+
+/** 观众连接上主机单向推送的消息：先发完整快照，之后只发增量 */
+export type SpectatorMessage =
+  | { type: 'stateSnapshot'; roundId: string; payload: GameSnapshot }
+  | {
+      type: 'spectatorUpdate'
+      roundId: string
+      /** 本批新事件在完整事件列表中的起始下标，用于发现漏收 */
+      fromIndex: number
+      events: SnapshotEvent[]
+      scoreRed: number
+      scoreBlue: number
+      /** 多队对局的各队得分 */
+      scores?: Scores
+      endTimeSec: number
+      gameState: GameState
+      pauses?: PauseInterval[]
+      overtime?: OvertimeState
+      /** 本局当前的计分规则 */
+      scoring?: RoundScoring
+      teamNames?: TeamNames
+      series?: MatchSeries
+      /** 主机共享时间线上的发送时间（毫秒），观众据此估计时钟偏移 */
+      hostNowMs: number
+    }
@@ -0,0 +1,35 @@
+import { seqOwnerOf } from './digest'
+import type { Role, UndoneEvent, VoteEvent } from './types'
+
+/** 投票后多少秒内可以请求撤销，对方也必须在此之前同意 */
+export const UNDO_WINDOW_SEC = 10
+
+/** 某一方最后一张带序号的票；没有时返回 null。 */
+export const lastVoteOf = (events: VoteEvent[], owner: Role): VoteEvent | null => {
+  for (let i = events.length - 1; i >= 0; i -= 1) {
+    const event = events[i]
+    if (seqOwnerOf(event) === owner && event.seq !== undefined) return event
+  }
+  return null
+}
+
+export const findVote = (events: VoteEvent[], owner: Role, seq: number) =>
+  events.find((event) => seqOwnerOf(event) === owner && event.seq === seq) ?? null
+
+/** 撤销期限（共享时间线上的毫秒）：按投票时刻计算，旧事件没有 atMs 时按秒估计。 */
+export const undoDeadlineMs = (startTimeSec: number, event: VoteEvent) =>
+  startTimeSec * 1000 + (event.atMs ?? event.elapsed * 1000) + UNDO_WINDOW_SEC * 1000
+
+/** 从事件列表中移除被撤销的票，并把它作为墓碑记下。 */
+export const undoVote = (
+  events: VoteEvent[],
+  undone: UndoneEvent[],
+  target: VoteEvent,
+  undoneAt: number,
+): { events: VoteEvent[]; undone: UndoneEvent[] } => {
+  const { elapsed, ...rest } = target
+  return {
+    events: events.filter((event) => event !== target),
+    undone: [...undone, { ...rest, at: elapsed, undoneAt }],
+  }
+}
@@ -0,0 +1,81 @@
+import type { GameSettings, VoteRejectReason } from './types'
+
+/** 默认节奏限制：正常手点很难超过，连点器或脚本会被拦下。0 表示不限制。 */
+export const DEFAULT_GAME_SETTINGS: GameSettings = {
+  minVoteIntervalMs: 80,
+  maxVotesPerSecond: 8,
+}
+
+/** 对方未在 start 中携带设置（旧版本）时不做限制，避免误拒。 */
+export const NO_VOTE_LIMITS: GameSettings = {
+  minVoteIntervalMs: 0,
+  maxVotesPerSecond: 0,
+}
+
+// 对方时钟允许的超前量，超过视为伪造的投票时间
+const FUTURE_TOLERANCE_MS = 3000
+
+/**
+ * 按同一投票方此前各票的时间（本局开始后的毫秒数）检查新的一票是否超出限制，
+ * 返回拒绝原因；未超限时返回 null。
+ */
+export const checkVoteRate = (
+  previousAtMs: number[],
+  atMs: number,
+  settings: GameSettings,
+  elapsedNowMs?: number,
+): VoteRejectReason | null => {
+  if (elapsedNowMs !== undefined && atMs > elapsedNowMs + FUTURE_TOLERANCE_MS) {
+    return 'clock'
+  }
+  if (settings.minVoteIntervalMs > 0 && previousAtMs.length > 0) {
+    const last = Math.max(...previousAtMs)
+    if (atMs - last < settings.minVoteIntervalMs) {
+      return 'tooFast'
+    }
+  }
+  if (settings.maxVotesPerSecond > 0) {
+    const inLastSecond = previousAtMs.filter((at) => at > atMs - 1000 && at <= atMs).length
+    if (inLastSecond >= settings.maxVotesPerSecond) {
+      return 'rateLimit'
+    }
+  }
+  return null
+}
+
+export const formatVoteRejectReason = (reason: VoteRejectReason, settings: GameSettings) => {
+  switch (reason) {
+    case 'tooFast':
+      return `两次投票间隔不足 ${settings.minVoteIntervalMs} 毫秒`
+    case 'rateLimit':
+      return `每秒最多 ${settings.maxVotesPerSecond} 票`
+    case 'clock':
+      return '投票时间超前于共享时钟'
+    case 'rules':
+      return '本局计分规则不允许这种投票'
+    case 'paused':
+      return '投票时本局处于暂停中'
+    case 'ended':
+      return '投票到达时本局已经结束'
+    default:
+      return '超出投票限制'
+  }
+}
+
+// 至少观察多少个点击间隔才做规律性判断
+const REGULARITY_WINDOW = 8
+// 间隔的标准差低于均值的该比例（且不低于下限毫秒数）时视为机器节奏
+const REGULARITY_RATIO = 0.04
+const REGULARITY_MIN_JITTER_MS = 6
+
+/** 最近若干次点击的间隔几乎完全一致时，认为是连点器或脚本。 */
+export const isSuspiciouslyRegular = (atMsList: number[]) => {
+  if (atMsList.length < REGULARITY_WINDOW + 1) return false
+  const recent = atMsList.slice(-(REGULARITY_WINDOW + 1))
+  const intervals = recent.slice(1).map((at, index) => at - recent[index])
+  const mean = intervals.reduce((sum, value) => sum + value, 0) / intervals.length
+  if (mean <= 0 || mean > 1000) return false
+  const variance =
+    intervals.reduce((sum, value) => sum + (value - mean) ** 2, 0) / intervals.length
+  return Math.sqrt(variance) < Math.max(REGULARITY_MIN_JITTER_MS, mean * REGULARITY_RATIO)
+}
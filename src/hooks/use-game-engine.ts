@@ -0,0 +1,31 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { createInitialState, reduce, type EngineEffect, type EngineInput, type EngineState } from '@/game/engine'
+import type { Role } from '@/game/types'
+
+/**
+ * 把纯函数引擎接入 React：stateRef 始终指向最新状态（供回调同步读取），
+ * state 用于渲染；reduce 产生的副作用连同新状态按顺序交给 onEffect 执行。
+ * 多队对局中发起方收到的消息带上 from（发送方所在队伍）。
+ */
+export function useGameEngine(onEffect: (effect: EngineEffect, state: EngineState) => void) {
+  const [state, setState] = useState<EngineState>(() => createInitialState())
+  const stateRef = useRef<EngineState>(state)
+  const onEffectRef = useRef(onEffect)
+
+  useEffect(() => {
+    onEffectRef.current = onEffect
+  }, [onEffect])
+
+  const dispatch = useCallback((input: EngineInput, from?: Role) => {
+    const result = reduce(stateRef.current, input, Date.now(), from)
+    if (result.state !== stateRef.current) {
+      stateRef.current = result.state
+      setState(result.state)
+    }
+    result.effects.forEach((effect) => {
+      onEffectRef.current(effect, result.state)
+    })
+  }, [])
+
+  return { state, stateRef, dispatch }
+}
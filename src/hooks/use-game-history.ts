@@ -0,0 +1,193 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { mergeImportedGames, sortHistoryIndex, toHistoryEntry } from '@/game/archive'
+import { toMatchHistoryEntry } from '@/game/match'
+import type { GameSnapshot, HistoryIndexEntry, MatchHistoryEntry, MatchSeries, Team } from '@/game/types'
+import { getGameStore, writeGameStore } from '@/storage/game-store'
+
+/**
+ * 本机的历史对局列表、系列赛列表与隔离区计数：挂载时从本地存储读取，
+ * 之后的每次修改都在更新状态的同时写回存储。读取失败时通过 onLoadError 提示。
+ */
+export function useGameHistory(onLoadError: (message: string) => void) {
+  const [historyIndex, setHistoryIndex] = useState<HistoryIndexEntry[]>([])
+  const [matchIndex, setMatchIndex] = useState<MatchHistoryEntry[]>([])
+  /** 读取时无法解析、已移到隔离区的本地记录数 */
+  const [quarantineCount, setQuarantineCount] = useState(0)
+  // 最新的列表：修改时先据此算出新列表并写入存储，再更新状态；状态更新函数必须没有副作用
+  const historyIndexRef = useRef<HistoryIndexEntry[]>([])
+  const matchIndexRef = useRef<MatchHistoryEntry[]>([])
+
+  const replaceHistoryIndex = useCallback((next: HistoryIndexEntry[]) => {
+    historyIndexRef.current = next
+    setHistoryIndex(next)
+  }, [])
+
+  const replaceMatchIndex = useCallback((next: MatchHistoryEntry[]) => {
+    matchIndexRef.current = next
+    setMatchIndex(next)
+  }, [])
+
+  useEffect(() => {
+    let cancelled = false
+    const loadHistoryIndex = async () => {
+      const store = await getGameStore()
+      // 条目在读取时已升级到当前结构，无法读取的条目已移到隔离区
+      const parsed = await store.getHistoryIndex()
+      const quarantined = await store.getQuarantine()
+      if (cancelled) return
+      setQuarantineCount(quarantined.length)
+      if (parsed.length === 0) return
+      replaceHistoryIndex(sortHistoryIndex(parsed))
+    }
+    loadHistoryIndex().catch((e) => {
+      console.error(e)
+      onLoadError('读取历史对局列表失败，本地存储可能已被清理。')
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [onLoadError, replaceHistoryIndex])
+
+  useEffect(() => {
+    let cancelled = false
+    const loadMatchIndex = async () => {
+      const store = await getGameStore()
+      const parsed = await store.getMatchIndex()
+      if (cancelled || parsed.length === 0) return
+      replaceMatchIndex(
+        parsed.filter((item) => item && typeof item.seriesId === 'string' && Array.isArray(item.rounds)),
+      )
+    }
+    loadMatchIndex().catch((e) => {
+      console.error(e)
+      onLoadError('读取系列赛记录失败，本地存储可能已被清理。')
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [onLoadError, replaceMatchIndex])
+
+  /** 本局结束时快照与历史列表在同一个事务中写入，避免列表中出现找不到快照的对局 */
+  const recordEndedGame = useCallback(
+    (snapshot: GameSnapshot) => {
+      if (snapshot.gameState !== 'ended') return
+      const prev = historyIndexRef.current
+      const note = prev.find((item) => item.gameId === snapshot.gameId)?.note
+      const entry = { ...toHistoryEntry(snapshot), ...(note ? { note } : {}) }
+      const next = sortHistoryIndex([...prev.filter((item) => item.gameId !== entry.gameId), entry])
+      writeGameStore((tx) => {
+        tx.putSnapshot(snapshot)
+        tx.setMeta('lastSnapshotId', snapshot.gameId)
+        tx.putHistoryIndex(next)
+      })
+      replaceHistoryIndex(next)
+    },
+    [replaceHistoryIndex],
+  )
+
+  const recordSeries = useCallback(
+    (series: MatchSeries, round: { startTimeSec: number; endTimeSec: number; teams: Team[] }) => {
+      const prev = matchIndexRef.current
+      const existing = prev.find((item) => item.seriesId === series.seriesId)
+      const entry = toMatchHistoryEntry(series, round, existing, Date.now())
+      const next = [entry, ...prev.filter((item) => item.seriesId !== series.seriesId)]
+      next.sort((a, b) => b.endTimeSec - a.endTimeSec)
+      writeGameStore((tx) => tx.putMatchIndex(next))
+      replaceMatchIndex(next)
+    },
+    [replaceMatchIndex],
+  )
+
+  const changeNote = useCallback(
+    (gameId: string, note: string) => {
+      const trimmed = note.trim()
+      const prev = historyIndexRef.current
+      const current = prev.find((item) => item.gameId === gameId)
+      if (!current || (current.note ?? '') === trimmed) return
+      const next = prev.map((item) => (item.gameId === gameId ? { ...item, note: trimmed || undefined } : item))
+      writeGameStore((tx) => tx.putHistoryIndex(next))
+      replaceHistoryIndex(next)
+    },
+    [replaceHistoryIndex],
+  )
+
+  const deleteGame = useCallback(
+    (gameId: string) => {
+      const next = historyIndexRef.current.filter((item) => item.gameId !== gameId)
+      writeGameStore((tx) => {
+        tx.putHistoryIndex(next)
+        tx.deleteSnapshot(gameId)
+      })
+      replaceHistoryIndex(next)
+    },
+    [replaceHistoryIndex],
+  )
+
+  const deleteMatch = useCallback(
+    (seriesId: string) => {
+      const next = matchIndexRef.current.filter((item) => item.seriesId !== seriesId)
+      writeGameStore((tx) => tx.putMatchIndex(next))
+      replaceMatchIndex(next)
+    },
+    [replaceMatchIndex],
+  )
+
+  /** 把导入的对局并入历史列表，快照与列表一起写入；返回合并结果 */
+  const importGames = useCallback(
+    async (games: GameSnapshot[]) => {
+      const before = historyIndexRef.current
+      const merged = mergeImportedGames(before, games)
+      if (merged.added.length === 0) return merged
+      // 与其他修改一样先更新列表再写入，写入期间的保存与备注修改都基于合并后的列表
+      replaceHistoryIndex(merged.index)
+      try {
+        const store = await getGameStore()
+        await store.transaction((tx) => {
+          merged.added.forEach((snapshot) => tx.putSnapshot(snapshot))
+          tx.putHistoryIndex(merged.index)
+        })
+      } catch (e) {
+        // 写入失败时撤回导入的条目，被替换的条目恢复为导入前的样子
+        const added = new Set(merged.added.map((snapshot) => snapshot.gameId))
+        const previous = new Map(before.map((item) => [item.gameId, item]))
+        replaceHistoryIndex(
+          historyIndexRef.current.flatMap((item) => {
+            if (!added.has(item.gameId)) return [item]
+            const restored = previous.get(item.gameId)
+            return restored ? [restored] : []
+          }),
+        )
+        throw e
+      }
+      return merged
+    },
+    [replaceHistoryIndex],
+  )
+
+  const loadQuarantine = useCallback(async () => {
+    const store = await getGameStore()
+    const records = await store.getQuarantine()
+    setQuarantineCount(records.length)
+    return records
+  }, [])
+
+  const clearQuarantine = useCallback(async () => {
+    const store = await getGameStore()
+    await store.transaction((tx) => tx.clearQuarantine())
+    setQuarantineCount(0)
+  }, [])
+
+  return {
+    historyIndex,
+    matchIndex,
+    quarantineCount,
+    recordEndedGame,
+    recordSeries,
+    changeNote,
+    deleteGame,
+    deleteMatch,
+    importGames,
+    loadQuarantine,
+    clearQuarantine,
+  }
+}
@@ -0,0 +1,48 @@
+import { useCallback, useState } from 'react'
+import { parsePresets } from '@/game/presets'
+import type { GamePreset } from '@/game/types'
+
+const PRESETS_STORAGE_KEY = 'vote2p:presets'
+
+const loadPresets = (): GamePreset[] => {
+  try {
+    const raw = window.localStorage.getItem(PRESETS_STORAGE_KEY)
+    return raw ? parsePresets(JSON.parse(raw)) : []
+  } catch (e) {
+    console.error(e)
+    return []
+  }
+}
+
+/** 本机保存的开局预设；同名预设会被覆盖。 */
+export function useGamePresets() {
+  const [presets, setPresets] = useState<GamePreset[]>(loadPresets)
+
+  const update = useCallback((updater: (prev: GamePreset[]) => GamePreset[]) => {
+    setPresets((prev) => {
+      const next = updater(prev)
+      try {
+        window.localStorage.setItem(PRESETS_STORAGE_KEY, JSON.stringify(next))
+      } catch (e) {
+        console.error(e)
+      }
+      return next
+    })
+  }, [])
+
+  const savePreset = useCallback(
+    (preset: GamePreset) => {
+      update((prev) => [...prev.filter((item) => item.name !== preset.name), preset])
+    },
+    [update],
+  )
+
+  const deletePreset = useCallback(
+    (id: string) => {
+      update((prev) => prev.filter((item) => item.id !== id))
+    },
+    [update],
+  )
+
+  return { presets, savePreset, deletePreset }
+}
@@ -0,0 +1,142 @@
+import { useCallback, useState } from 'react'
+import { DEFAULT_HISTORY_QUERY, type HistoryQuery, type HistorySortKey } from '@/game/history-query'
+import type { GameSnapshot } from '@/game/types'
+import { getGameStore } from '@/storage/game-store'
+
+export type HistoryTab = { gameId: string; title: string }
+
+export const CURRENT_TAB_KEY = 'current'
+
+const historyTabKey = (gameId: string) => `hist-${gameId}`
+
+const historyTabTitle = (gameId: string) =>
+  gameId.startsWith('GID-') ? `GID-${gameId.slice(4, 11)}` : gameId.slice(0, 10)
+
+/**
+ * 历史对局的浏览状态：打开的历史标签页与已读取的快照、列表的筛选 / 排序 / 分页与勾选，
+ * 以及历史区域的错误与提示。historyViewSnapshot 不为空时页面回放该快照而不是当前对局。
+ */
+export function useHistoryView() {
+  const [historyError, setHistoryError] = useState<string | null>(null)
+  const [historyNotice, setHistoryNotice] = useState<string | null>(null)
+  const [selectedHistoryIds, setSelectedHistoryIds] = useState<string[]>([])
+  const [historyQuery, setHistoryQuery] = useState<HistoryQuery>(DEFAULT_HISTORY_QUERY)
+  const [historyPage, setHistoryPage] = useState(1)
+  const [historyViewSnapshot, setHistoryViewSnapshot] = useState<GameSnapshot | null>(null)
+  const [openHistoryTabs, setOpenHistoryTabs] = useState<HistoryTab[]>([])
+  const [activeTabKey, setActiveTabKey] = useState<string>(CURRENT_TAB_KEY)
+  // 打开过的历史快照，切换标签页时不再读取存储
+  const [historyViewSnapshots, setHistoryViewSnapshots] = useState<Record<string, GameSnapshot>>({})
+
+  /** 读取历史快照，优先使用缓存；本地已没有该快照时返回 null */
+  const loadHistorySnapshot = useCallback(
+    async (gameId: string) => {
+      const cached = historyViewSnapshots[gameId]
+      if (cached) return cached
+      const store = await getGameStore()
+      const snapshot = await store.getSnapshot(gameId)
+      if (snapshot) setHistoryViewSnapshots((prev) => ({ ...prev, [gameId]: snapshot }))
+      return snapshot
+    },
+    [historyViewSnapshots],
+  )
+
+  /** 导入覆盖了本地记录后，丢弃这些对局的缓存 */
+  const forgetHistorySnapshots = useCallback((gameIds: string[]) => {
+    if (gameIds.length === 0) return
+    setHistoryViewSnapshots((prev) => {
+      const next = { ...prev }
+      gameIds.forEach((gameId) => {
+        delete next[gameId]
+      })
+      return next
+    })
+  }, [])
+
+  /** 打开（或切换到）该对局的标签页并回放快照 */
+  const showHistoryGame = useCallback((snapshot: GameSnapshot) => {
+    const { gameId } = snapshot
+    setOpenHistoryTabs((prev) =>
+      prev.some((item) => item.gameId === gameId) ? prev : [...prev, { gameId, title: historyTabTitle(gameId) }],
+    )
+    setActiveTabKey(historyTabKey(gameId))
+    setHistoryViewSnapshot(snapshot)
+  }, [])
+
+  /** 切换标签页；历史标签页的快照由调用方读取后通过 showHistoryGame 显示 */
+  const selectTab = useCallback((value: string) => {
+    setActiveTabKey(value)
+    if (!value.startsWith('hist-')) setHistoryViewSnapshot(null)
+  }, [])
+
+  /** 停止回放，回到当前对局 */
+  const exitHistoryView = useCallback(() => {
+    setHistoryViewSnapshot(null)
+    setActiveTabKey(CURRENT_TAB_KEY)
+  }, [])
+
+  /** 当前对局被替换（新局、恢复快照、断开连接）时不再回放历史快照，标签页保持不变 */
+  const clearHistoryViewSnapshot = useCallback(() => setHistoryViewSnapshot(null), [])
+
+  const closeHistoryTab = useCallback(
+    (gameId: string) => {
+      setOpenHistoryTabs((prev) => prev.filter((item) => item.gameId !== gameId))
+      if (activeTabKey === historyTabKey(gameId)) exitHistoryView()
+    },
+    [activeTabKey, exitHistoryView],
+  )
+
+  /** 对局从历史中删除后关闭其标签页并取消勾选 */
+  const forgetHistoryGame = useCallback(
+    (gameId: string) => {
+      closeHistoryTab(gameId)
+      setSelectedHistoryIds((prev) => prev.filter((id) => id !== gameId))
+    },
+    [closeHistoryTab],
+  )
+
+  const toggleHistorySelected = useCallback((gameId: string, selected: boolean) => {
+    setSelectedHistoryIds((prev) =>
+      selected ? [...prev.filter((id) => id !== gameId), gameId] : prev.filter((id) => id !== gameId),
+    )
+  }, [])
+
+  const changeHistoryQuery = useCallback((patch: Partial<HistoryQuery>) => {
+    setHistoryQuery((prev) => ({ ...prev, ...patch }))
+    setHistoryPage(1)
+  }, [])
+
+  /** 点击当前排序列切换升降序，点击其他列时按该列降序 */
+  const sortHistory = useCallback((sortKey: HistorySortKey) => {
+    setHistoryQuery((prev) =>
+      prev.sortKey === sortKey ? { ...prev, sortDesc: !prev.sortDesc } : { ...prev, sortKey, sortDesc: true },
+    )
+  }, [])
+
+  return {
+    historyError,
+    setHistoryError,
+    historyNotice,
+    setHistoryNotice,
+    selectedHistoryIds,
+    setSelectedHistoryIds,
+    historyQuery,
+    historyPage,
+    setHistoryPage,
+    historyViewSnapshot,
+    historyViewSnapshots,
+    openHistoryTabs,
+    activeTabKey,
+    loadHistorySnapshot,
+    forgetHistorySnapshots,
+    showHistoryGame,
+    selectTab,
+    exitHistoryView,
+    clearHistoryViewSnapshot,
+    closeHistoryTab,
+    forgetHistoryGame,
+    toggleHistorySelected,
+    changeHistoryQuery,
+    sortHistory,
+  }
+}
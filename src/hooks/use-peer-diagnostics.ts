@@ -0,0 +1,57 @@
+import { useCallback, useState } from 'react'
+
+/** 调试面板显示的主连接状态；none 表示还没有创建 PeerConnection / DataChannel */
+export type PeerDiagnostics = {
+  connectionState: RTCPeerConnectionState | 'none'
+  iceConnectionState: RTCIceConnectionState | 'none'
+  dataChannelState: RTCDataChannelState | 'none'
+  localIceCandidateCount: number
+  /** 最近一次错误，包括收到的无法解析的消息；重建连接时不清除 */
+  lastError: string | null
+}
+
+const INITIAL_DIAGNOSTICS: PeerDiagnostics = {
+  connectionState: 'none',
+  iceConnectionState: 'none',
+  dataChannelState: 'none',
+  localIceCandidateCount: 0,
+  lastError: null,
+}
+
+/** 主连接的诊断信息，只用于显示，不参与连接逻辑 */
+export function usePeerDiagnostics() {
+  const [peerDiagnostics, setPeerDiagnostics] = useState<PeerDiagnostics>(INITIAL_DIAGNOSTICS)
+
+  const resetPeerDiagnostics = useCallback(() => {
+    setPeerDiagnostics((prev) => ({ ...INITIAL_DIAGNOSTICS, lastError: prev.lastError }))
+  }, [])
+
+  const notePeerConnection = useCallback((pc: RTCPeerConnection) => {
+    setPeerDiagnostics((prev) => ({
+      ...prev,
+      connectionState: pc.connectionState,
+      iceConnectionState: pc.iceConnectionState,
+    }))
+  }, [])
+
+  const noteDataChannel = useCallback((channel: RTCDataChannel) => {
+    setPeerDiagnostics((prev) => ({ ...prev, dataChannelState: channel.readyState }))
+  }, [])
+
+  const countLocalIceCandidate = useCallback(() => {
+    setPeerDiagnostics((prev) => ({ ...prev, localIceCandidateCount: prev.localIceCandidateCount + 1 }))
+  }, [])
+
+  const noteError = useCallback((message: string) => {
+    setPeerDiagnostics((prev) => ({ ...prev, lastError: message }))
+  }, [])
+
+  return {
+    peerDiagnostics,
+    resetPeerDiagnostics,
+    notePeerConnection,
+    noteDataChannel,
+    countLocalIceCandidate,
+    noteError,
+  }
+}
@@ -0,0 +1,154 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { createHello, parseMessage } from '@/game/protocol'
+import type { Message, Role } from '@/game/types'
+import { ICE_SERVERS } from '@/signaling/ice-servers'
+import { decodeSignal, encodeSignal, extractSignalText } from '@/signaling/codec'
+
+export type PlayerStatus = 'inviting' | 'waiting-answer' | 'connecting' | 'connected' | 'closed'
+
+export type PlayerPeer = {
+  /** 该连接对应的队伍 id */
+  team: Role
+  /** 邀请用的 Offer 文本，ICE 候选收集完成后才有值 */
+  offer: string
+  status: PlayerStatus
+}
+
+type PlayerConnection = {
+  pc: RTCPeerConnection
+  channel: RTCDataChannel
+}
+
+/**
+ * 多队对局的星形拓扑（发起方一侧）：主连接之外的每支队伍各用一条 RTCPeerConnection，
+ * 加入方之间不直接相连，消息都由发起方中继。收到的消息带上队伍 id 交给 onMessage。
+ */
+export function usePlayerHub(onMessage: (message: Message, team: Role) => void) {
+  const [players, setPlayers] = useState<PlayerPeer[]>([])
+  const connectionsRef = useRef(new Map<Role, PlayerConnection>())
+  const onMessageRef = useRef(onMessage)
+
+  useEffect(() => {
+    onMessageRef.current = onMessage
+  }, [onMessage])
+
+  const updatePeer = useCallback((team: Role, patch: Partial<PlayerPeer>) => {
+    setPlayers((prev) => prev.map((peer) => (peer.team === team ? { ...peer, ...patch } : peer)))
+  }, [])
+
+  const closeConnection = useCallback((team: Role) => {
+    const connection = connectionsRef.current.get(team)
+    connection?.channel.close()
+    connection?.pc.close()
+    connectionsRef.current.delete(team)
+  }, [])
+
+  /** 按 to / exclude 发送给主连接之外的队伍，返回是否至少发出一条。 */
+  const sendToPlayers = useCallback((message: Message, routing: { to?: Role; exclude?: Role } = {}) => {
+    let sent = false
+    connectionsRef.current.forEach(({ channel }, team) => {
+      if (routing.to !== undefined && routing.to !== team) return
+      if (routing.exclude === team || channel.readyState !== 'open') return
+      try {
+        channel.send(JSON.stringify(message))
+        sent = true
+      } catch (e) {
+        console.error(e)
+      }
+    })
+    return sent
+  }, [])
+
+  const invitePlayer = useCallback(
+    async (team: Role) => {
+      closeConnection(team)
+      const pc = new RTCPeerConnection({ iceServers: ICE_SERVERS })
+      const channel = pc.createDataChannel('vote-channel')
+      connectionsRef.current.set(team, { pc, channel })
+      setPlayers((prev) => [
+        ...prev.filter((peer) => peer.team !== team),
+        { team, offer: '', status: 'inviting' },
+      ])
+
+      channel.onopen = () => {
+        updatePeer(team, { status: 'connected' })
+        channel.send(JSON.stringify(createHello()))
+      }
+      channel.onclose = () => {
+        updatePeer(team, { status: 'closed' })
+      }
+      channel.onmessage = (event) => {
+        const parsed = parseMessage(event.data)
+        if (!parsed.ok) {
+          console.warn(parsed.error)
+          return
+        }
+        onMessageRef.current(parsed.message, team)
+      }
+      pc.onconnectionstatechange = () => {
+        if (pc.connectionState === 'failed' || pc.connectionState === 'closed') {
+          updatePeer(team, { status: 'closed' })
+        }
+      }
+      pc.onicecandidate = (event) => {
+        if (event.candidate || !pc.localDescription) return
+        encodeSignal(pc.localDescription)
+          .catch((e) => {
+            console.error('生成紧凑信令失败，回退为完整 JSON', e)
+            return JSON.stringify(pc.localDescription)
+          })
+          .then((offer) => updatePeer(team, { offer, status: 'waiting-answer' }))
+      }
+
+      try {
+        await pc.setLocalDescription(await pc.createOffer())
+      } catch (e) {
+        console.error(e)
+        updatePeer(team, { status: 'closed' })
+      }
+    },
+    [closeConnection, updatePeer],
+  )
+
+  /** 应用该队回传的 Answer，成功返回 true。 */
+  const acceptPlayerAnswer = useCallback(
+    async (team: Role, raw: string) => {
+      const connection = connectionsRef.current.get(team)
+      if (!connection || connection.pc.signalingState !== 'have-local-offer') return false
+      try {
+        const answer = await decodeSignal(extractSignalText(raw))
+        if (answer.type !== 'answer') return false
+        await connection.pc.setRemoteDescription(answer)
+        updatePeer(team, { status: 'connecting' })
+        return true
+      } catch (e) {
+        console.error(e)
+        return false
+      }
+    },
+    [updatePeer],
+  )
+
+  const removePlayer = useCallback(
+    (team: Role) => {
+      closeConnection(team)
+      setPlayers((prev) => prev.filter((peer) => peer.team !== team))
+    },
+    [closeConnection],
+  )
+
+  const removeAllPlayers = useCallback(() => {
+    connectionsRef.current.forEach((_, team) => closeConnection(team))
+    setPlayers([])
+  }, [closeConnection])
+
+  useEffect(() => {
+    const connections = connectionsRef.current
+    return () => {
+      connections.forEach(({ pc }) => pc.close())
+      connections.clear()
+    }
+  }, [])
+
+  return { players, sendToPlayers, invitePlayer, acceptPlayerAnswer, removePlayer, removeAllPlayers }
+}
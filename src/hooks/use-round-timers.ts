@@ -0,0 +1,95 @@
+import { useEffect, useRef } from 'react'
+import { CLOCK_SETTLED_SAMPLES } from '@/game/clock'
+import type { EngineInput, EngineState } from '@/game/engine'
+import { isSeriesOver } from '@/game/match'
+import { peerSupports } from '@/game/protocol'
+import { generateGameId } from '@/lib/ids'
+
+// 系列赛两局之间的休息时间，之后由发起方自动开始下一局
+export const SERIES_NEXT_ROUND_DELAY_MS = 5000
+const DIGEST_INTERVAL_MS = 5000
+const CLOCK_PING_INTERVAL_MS = 2000
+const CLOCK_RESYNC_INTERVAL_MS = 30000
+
+/**
+ * 引擎需要按时间推进的输入：倒计时 tick、时钟校准、事件摘要交换与系列赛局间自动开下一局。
+ * isConnected 表示连接已建立且握手完成。
+ */
+export function useRoundTimers(state: EngineState, isConnected: boolean, dispatch: (input: EngineInput) => void) {
+  const { gameState, endTimeSec, mode, roundId, series, peerProtocol, lockedRole } = state
+  const hostReady = !!lockedRole && state.readyTeams.includes(lockedRole)
+  const autoReadyRoundRef = useRef<string | null>(null)
+  const clockSettled = state.clock.samples.length >= CLOCK_SETTLED_SAMPLES
+  const hasActiveRound = !!roundId && gameState !== 'idle'
+
+  useEffect(() => {
+    if (!endTimeSec || gameState !== 'running') {
+      return
+    }
+
+    dispatch({ type: 'tick' })
+    const timer = window.setInterval(() => {
+      dispatch({ type: 'tick' })
+    }, 1000)
+
+    return () => {
+      window.clearInterval(timer)
+    }
+  }, [dispatch, endTimeSec, gameState])
+
+  useEffect(() => {
+    // 系列赛未结束时，由发起方在局间休息后开始下一局；对方支持准备确认时改为自动准备，各队都准备后才开局
+    if (!series || mode !== 'offer' || gameState !== 'ended' || !roundId) {
+      return
+    }
+    if (!isConnected || isSeriesOver(series) || hostReady || autoReadyRoundRef.current === roundId) {
+      return
+    }
+    if (!series.rounds.some((round) => round.roundId === roundId)) {
+      return
+    }
+    const timer = window.setTimeout(() => {
+      if (!peerSupports(peerProtocol, 'readyCheck')) {
+        dispatch({ type: 'startSeriesRound', roundId: generateGameId() })
+        return
+      }
+      // 每局只自动准备一次，发起方之后取消准备时不再替其准备
+      autoReadyRoundRef.current = roundId
+      dispatch({ type: 'setReady', ready: true, start: { type: 'startSeriesRound', roundId: generateGameId() } })
+    }, SERIES_NEXT_ROUND_DELAY_MS)
+    return () => {
+      window.clearTimeout(timer)
+    }
+  }, [dispatch, gameState, hostReady, isConnected, mode, peerProtocol, roundId, series])
+
+  // 加入方连上后先密集采样时钟偏移，稳定后降低频率持续校准
+  useEffect(() => {
+    if (!isConnected || mode !== 'answer') {
+      return
+    }
+    dispatch({ type: 'sendClockPing' })
+    const timer = window.setInterval(
+      () => {
+        dispatch({ type: 'sendClockPing' })
+      },
+      clockSettled ? CLOCK_RESYNC_INTERVAL_MS : CLOCK_PING_INTERVAL_MS,
+    )
+    return () => {
+      window.clearInterval(timer)
+    }
+  }, [clockSettled, dispatch, isConnected, mode])
+
+  // 定期交换事件日志摘要，发现不一致时由发起方下发快照修复
+  useEffect(() => {
+    if (!isConnected || !hasActiveRound) {
+      return
+    }
+    dispatch({ type: 'sendDigest' })
+    const timer = window.setInterval(() => {
+      dispatch({ type: 'sendDigest' })
+    }, DIGEST_INTERVAL_MS)
+    return () => {
+      window.clearInterval(timer)
+    }
+  }, [dispatch, hasActiveRound, isConnected])
+}
@@ -0,0 +1,182 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { createBroadcastTransport } from '@/signaling/broadcast-transport'
+import { createManualTransport, type ManualTransport } from '@/signaling/manual-transport'
+import { createSameDeviceTransport } from '@/signaling/same-device-transport'
+import type { SignalingTransport, SignalingTransportKind, SignalMessage } from '@/signaling/transport'
+import {
+  createWebSocketTransport,
+  defaultSignalServerUrl,
+  type RoomRole,
+  type RoomStatus,
+} from '@/signaling/websocket-transport'
+
+const SIGNAL_SERVER_URL_KEY = 'vote2p:signalServerUrl'
+
+const readSignalServerUrl = () => {
+  try {
+    return window.localStorage.getItem(SIGNAL_SERVER_URL_KEY) || defaultSignalServerUrl()
+  } catch {
+    return defaultSignalServerUrl()
+  }
+}
+
+/**
+ * 主连接的信令通道：首次 Offer / Answer 交换使用的主通道（房间、同设备配对或手动复制粘贴），
+ * 以及同一浏览器内标签页之间的 BroadcastChannel。各通道收到的信令都交给 onMessage。
+ */
+export function useSignalingTransports(onMessage: (message: SignalMessage) => void) {
+  const [roomServerUrl, setRoomServerUrl] = useState(readSignalServerUrl)
+  const [roomCodeInput, setRoomCodeInput] = useState('')
+  const [activeRoomCode, setActiveRoomCode] = useState<string | null>(null)
+  const [primaryTransportKind, setPrimaryTransportKind] = useState<SignalingTransportKind>('manual')
+  const [roomStatus, setRoomStatus] = useState<RoomStatus | 'idle'>('idle')
+  const [roomStatusDetail, setRoomStatusDetail] = useState<string | null>(null)
+  const broadcastTransportRef = useRef<SignalingTransport | null>(null)
+  // 当前用于首次 Offer / Answer 交换的传输方式；为空时视为手动复制粘贴
+  const primaryTransportRef = useRef<SignalingTransport | null>(null)
+  const manualTransportRef = useRef<ManualTransport | null>(null)
+  const onMessageRef = useRef(onMessage)
+
+  useEffect(() => {
+    onMessageRef.current = onMessage
+  }, [onMessage])
+
+  const handleRoomStatus = useCallback((status: RoomStatus | 'idle', detail?: string | null) => {
+    setRoomStatus(status)
+    setRoomStatusDetail(detail ?? null)
+  }, [])
+
+  /** 离开房间或取消同设备配对，回到手动复制粘贴 */
+  const leaveRoom = useCallback(() => {
+    primaryTransportRef.current?.close()
+    primaryTransportRef.current = null
+    setPrimaryTransportKind('manual')
+    setActiveRoomCode(null)
+    handleRoomStatus('idle')
+  }, [handleRoomStatus])
+
+  const closeSignalTransports = useCallback(() => {
+    broadcastTransportRef.current?.close()
+    broadcastTransportRef.current = null
+    leaveRoom()
+  }, [leaveRoom])
+
+  const ensureBroadcastTransport = useCallback((): SignalingTransport | null => {
+    if (broadcastTransportRef.current) {
+      return broadcastTransportRef.current
+    }
+    const transport = createBroadcastTransport()
+    if (!transport) {
+      return null
+    }
+    transport.subscribe((message) => onMessageRef.current(message))
+    broadcastTransportRef.current = transport
+    return transport
+  }, [])
+
+  /** 只在 BroadcastChannel 已经打开时发送，用于回复从该通道收到的信令 */
+  const sendOnBroadcast = useCallback((message: SignalMessage) => {
+    broadcastTransportRef.current?.send(message)
+  }, [])
+
+  // ICE 重启信令优先走当前的房间通道；手动模式下只能依赖同一浏览器内的 BroadcastChannel
+  const ensureSignalTransport = useCallback((): SignalingTransport | null => {
+    const primary = primaryTransportRef.current
+    if (primary && primary.kind !== 'manual') {
+      return primary
+    }
+    return ensureBroadcastTransport()
+  }, [ensureBroadcastTransport])
+
+  /** 经房间或同设备配对自动发送本地信令；手动模式下由用户自己复制，不发送 */
+  const sendOnPrimaryTransport = useCallback((message: SignalMessage) => {
+    const transport = primaryTransportRef.current
+    if (!transport || transport.kind === 'manual') return
+    transport.send(message)
+  }, [])
+
+  const getManualTransport = useCallback((): ManualTransport => {
+    if (!manualTransportRef.current) {
+      const transport = createManualTransport()
+      transport.subscribe((message) => onMessageRef.current(message))
+      manualTransportRef.current = transport
+    }
+    return manualTransportRef.current
+  }, [])
+
+  const attachPrimaryTransport = useCallback((transport: SignalingTransport) => {
+    transport.subscribe((message) => onMessageRef.current(message))
+    primaryTransportRef.current = transport
+    setPrimaryTransportKind(transport.kind)
+  }, [])
+
+  /** 经信令服务器的房间交换 Offer / Answer；连接成功后记住服务器地址 */
+  const openRoomTransport = useCallback(
+    (code: string, role: RoomRole) => {
+      primaryTransportRef.current?.close()
+      setActiveRoomCode(code)
+      handleRoomStatus('connecting')
+      const url = roomServerUrl.trim()
+      const transport = createWebSocketTransport({
+        url,
+        room: code,
+        role,
+        onStatus: (status, detail) => {
+          if (primaryTransportRef.current !== transport) return
+          handleRoomStatus(status, detail)
+        },
+      })
+      attachPrimaryTransport(transport)
+      try {
+        window.localStorage.setItem(SIGNAL_SERVER_URL_KEY, url)
+      } catch (e) {
+        console.error(e)
+      }
+    },
+    [attachPrimaryTransport, handleRoomStatus, roomServerUrl],
+  )
+
+  /** 与同一浏览器的另一个标签页自动配对；浏览器不支持 BroadcastChannel 时返回 false */
+  const openSameDeviceTransport = useCallback(
+    (role: RoomRole): boolean => {
+      primaryTransportRef.current?.close()
+      primaryTransportRef.current = null
+      setActiveRoomCode(null)
+      const transport = createSameDeviceTransport({
+        role,
+        onStatus: (status, detail) => {
+          if (primaryTransportRef.current !== transport) return
+          handleRoomStatus(status, detail)
+        },
+      })
+      if (!transport) {
+        handleRoomStatus('idle')
+        return false
+      }
+      handleRoomStatus('waiting-peer')
+      attachPrimaryTransport(transport)
+      return true
+    },
+    [attachPrimaryTransport, handleRoomStatus],
+  )
+
+  return {
+    roomServerUrl,
+    setRoomServerUrl,
+    roomCodeInput,
+    setRoomCodeInput,
+    activeRoomCode,
+    primaryTransportKind,
+    roomStatus,
+    roomStatusDetail,
+    ensureBroadcastTransport,
+    sendOnBroadcast,
+    ensureSignalTransport,
+    sendOnPrimaryTransport,
+    getManualTransport,
+    openRoomTransport,
+    openSameDeviceTransport,
+    leaveRoom,
+    closeSignalTransports,
+  }
+}
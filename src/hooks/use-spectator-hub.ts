@@ -0,0 +1,134 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { nextSpectatorMessages, type SpectatorFeed, type SpectatorSource } from '@/game/spectator'
+import { ICE_SERVERS } from '@/signaling/ice-servers'
+import { decodeSignal, encodeSignal, extractSignalText } from '@/signaling/codec'
+
+export type SpectatorStatus = 'inviting' | 'waiting-answer' | 'connecting' | 'watching' | 'closed'
+
+export type SpectatorPeer = {
+  id: string
+  /** 邀请用的 Offer 文本，ICE 候选收集完成后才有值 */
+  offer: string
+  status: SpectatorStatus
+}
+
+type SpectatorConnection = {
+  pc: RTCPeerConnection
+  channel: RTCDataChannel
+  feed: SpectatorFeed | null
+}
+
+const createSpectatorId = () => Math.random().toString(36).slice(2, 8)
+
+/**
+ * 主机端的观众连接：每位观众一条独立的 RTCPeerConnection，手动交换 Offer / Answer。
+ * 通道打开后先推送完整快照，之后随对局状态推送增量；观众发来的任何消息都会被忽略。
+ */
+export function useSpectatorHub() {
+  const [spectators, setSpectators] = useState<SpectatorPeer[]>([])
+  const connectionsRef = useRef(new Map<string, SpectatorConnection>())
+  const latestRef = useRef<{ source: SpectatorSource; hostNowMs: () => number } | null>(null)
+
+  const updatePeer = useCallback((id: string, patch: Partial<SpectatorPeer>) => {
+    setSpectators((prev) => prev.map((peer) => (peer.id === id ? { ...peer, ...patch } : peer)))
+  }, [])
+
+  const pushTo = useCallback((connection: SpectatorConnection) => {
+    const latest = latestRef.current
+    if (!latest || connection.channel.readyState !== 'open') return
+    const { feed, messages } = nextSpectatorMessages(connection.feed, latest.source, latest.hostNowMs())
+    connection.feed = feed
+    try {
+      messages.forEach((message) => connection.channel.send(JSON.stringify(message)))
+    } catch (e) {
+      console.error(e)
+      // 发送失败时下次重新推送完整快照
+      connection.feed = null
+    }
+  }, [])
+
+  /** 对局状态变化时调用；hostNowMs 返回主机共享时间线上的当前时间。 */
+  const publish = useCallback(
+    (source: SpectatorSource, hostNowMs: () => number) => {
+      latestRef.current = { source, hostNowMs }
+      connectionsRef.current.forEach(pushTo)
+    },
+    [pushTo],
+  )
+
+  const inviteSpectator = useCallback(async () => {
+    const id = createSpectatorId()
+    const pc = new RTCPeerConnection({ iceServers: ICE_SERVERS })
+    const channel = pc.createDataChannel('spectator-channel')
+    const connection: SpectatorConnection = { pc, channel, feed: null }
+    connectionsRef.current.set(id, connection)
+    setSpectators((prev) => [...prev, { id, offer: '', status: 'inviting' }])
+
+    channel.onopen = () => {
+      updatePeer(id, { status: 'watching' })
+      connection.feed = null
+      pushTo(connection)
+    }
+    channel.onclose = () => {
+      updatePeer(id, { status: 'closed' })
+    }
+    pc.onconnectionstatechange = () => {
+      if (pc.connectionState === 'failed' || pc.connectionState === 'closed') {
+        updatePeer(id, { status: 'closed' })
+      }
+    }
+    pc.onicecandidate = (event) => {
+      if (event.candidate || !pc.localDescription) return
+      encodeSignal(pc.localDescription)
+        .catch((e) => {
+          console.error('生成紧凑信令失败，回退为完整 JSON', e)
+          return JSON.stringify(pc.localDescription)
+        })
+        .then((offer) => updatePeer(id, { offer, status: 'waiting-answer' }))
+    }
+
+    try {
+      await pc.setLocalDescription(await pc.createOffer())
+    } catch (e) {
+      console.error(e)
+      updatePeer(id, { status: 'closed' })
+    }
+  }, [pushTo, updatePeer])
+
+  /** 应用观众回传的 Answer，成功返回 true。 */
+  const acceptSpectatorAnswer = useCallback(
+    async (id: string, raw: string) => {
+      const connection = connectionsRef.current.get(id)
+      if (!connection || connection.pc.signalingState !== 'have-local-offer') return false
+      try {
+        const answer = await decodeSignal(extractSignalText(raw))
+        if (answer.type !== 'answer') return false
+        await connection.pc.setRemoteDescription(answer)
+        updatePeer(id, { status: 'connecting' })
+        return true
+      } catch (e) {
+        console.error(e)
+        return false
+      }
+    },
+    [updatePeer],
+  )
+
+  const removeSpectator = useCallback((id: string) => {
+    const connection = connectionsRef.current.get(id)
+    connection?.channel.close()
+    connection?.pc.close()
+    connectionsRef.current.delete(id)
+    setSpectators((prev) => prev.filter((peer) => peer.id !== id))
+  }, [])
+
+  useEffect(() => {
+    const connections = connectionsRef.current
+    return () => {
+      connections.forEach(({ pc }) => pc.close())
+      connections.clear()
+    }
+  }, [])
+
+  return { spectators, publish, inviteSpectator, acceptSpectatorAnswer, removeSpectator }
+}
@@ -0,0 +1,86 @@
+import { useEffect, useState } from 'react'
+import { parseSpectatorMessage } from '@/game/protocol'
+import { applySpectatorMessage, createSpectatorView, type SpectatorView } from '@/game/spectator'
+import { ICE_SERVERS } from '@/signaling/ice-servers'
+import { decodeSignal, encodeSignal } from '@/signaling/codec'
+
+export type SpectatorSessionStatus = 'preparing' | 'waiting-host' | 'watching' | 'disconnected' | 'error'
+
+/**
+ * 观众端：用主机邀请中的 Offer 生成 Answer，连接后只接收主机推送的快照与增量，
+ * 本端不会通过数据通道发送任何消息。
+ */
+export function useSpectatorSession(offerText: string) {
+  const [status, setStatus] = useState<SpectatorSessionStatus>('preparing')
+  const [answer, setAnswer] = useState('')
+  const [view, setView] = useState<SpectatorView>(createSpectatorView)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    const pc = new RTCPeerConnection({ iceServers: ICE_SERVERS })
+
+    pc.ondatachannel = (event) => {
+      const channel = event.channel
+      channel.onopen = () => {
+        if (!cancelled) setStatus('watching')
+      }
+      channel.onclose = () => {
+        if (!cancelled) setStatus('disconnected')
+      }
+      channel.onmessage = (messageEvent) => {
+        const result = parseSpectatorMessage(messageEvent.data)
+        if (!result.ok) {
+          console.warn(result.error)
+          return
+        }
+        const receivedAt = Date.now()
+        setView((prev) => applySpectatorMessage(prev, result.message, receivedAt))
+      }
+    }
+    pc.onconnectionstatechange = () => {
+      if (cancelled) return
+      if (pc.connectionState === 'failed' || pc.connectionState === 'disconnected') {
+        setStatus('disconnected')
+      }
+    }
+    pc.onicecandidate = (event) => {
+      if (event.candidate || !pc.localDescription || cancelled) return
+      encodeSignal(pc.localDescription)
+        .catch((e) => {
+          console.error('生成紧凑信令失败，回退为完整 JSON', e)
+          return JSON.stringify(pc.localDescription)
+        })
+        .then((text) => {
+          if (cancelled) return
+          setAnswer(text)
+          setStatus((prev) => (prev === 'preparing' ? 'waiting-host' : prev))
+        })
+    }
+
+    const prepare = async () => {
+      try {
+        const offer = await decodeSignal(offerText)
+        if (offer.type !== 'offer') {
+          throw new Error('观战链接中的信令不是 Offer')
+        }
+        await pc.setRemoteDescription(offer)
+        await pc.setLocalDescription(await pc.createAnswer())
+      } catch (e) {
+        console.error(e)
+        if (cancelled) return
+        setStatus('error')
+        setError('观战链接无效或已过期，请让主机重新生成邀请。')
+      }
+    }
+
+    prepare()
+
+    return () => {
+      cancelled = true
+      pc.close()
+    }
+  }, [offerText])
+
+  return { status, answer, view, error }
+}
@@ -0,0 +1,31 @@
+import { useCallback, useEffect, useMemo, useRef } from 'react'
+
+/**
+ * 最多只有一个待触发的 setTimeout：重新安排前先取消上一个，卸载时自动取消。
+ * 用于握手超时、角色分配重试与自动重连这类“最新一次为准”的计时。
+ */
+export function useTimeout() {
+  const timerRef = useRef<number | null>(null)
+
+  const clear = useCallback(() => {
+    if (timerRef.current !== null) {
+      window.clearTimeout(timerRef.current)
+      timerRef.current = null
+    }
+  }, [])
+
+  const schedule = useCallback(
+    (callback: () => void, delayMs: number) => {
+      clear()
+      timerRef.current = window.setTimeout(() => {
+        timerRef.current = null
+        callback()
+      }, delayMs)
+    },
+    [clear],
+  )
+
+  useEffect(() => clear, [clear])
+
+  return useMemo(() => ({ schedule, clear }), [clear, schedule])
+}
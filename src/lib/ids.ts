@@ -0,0 +1,20 @@
+/** 对局 ID：24 字节随机数的 base64url 编码，加上 GID- 前缀 */
+export const generateGameId = () => {
+  const bytes = new Uint8Array(24)
+  if (window.crypto && window.crypto.getRandomValues) {
+    window.crypto.getRandomValues(bytes)
+  } else {
+    for (let i = 0; i < bytes.length; i += 1) {
+      bytes[i] = Math.floor(Math.random() * 256)
+    }
+  }
+  let binary = ''
+  for (let i = 0; i < bytes.length; i += 1) {
+    binary += String.fromCharCode(bytes[i])
+  }
+  const base64 = btoa(binary)
+  const base64url = base64.replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/g, '')
+  return `GID-${base64url}`
+}
+
+export const generateSessionId = () => `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`
@@ -2,9 +2,14 @@ import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
 import './index.css'
 import App from './App.tsx'
+import { SpectatorPage } from './components/spectator-page'
+import { readSpectatorOffer } from './signaling/codec'
+
+// 观战链接直接进入只读页面，不建立对局连接
+const spectatorOffer = readSpectatorOffer(window.location.href)
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
-    <App />
+    {spectatorOffer ? <SpectatorPage offer={spectatorOffer} /> : <App />}
   </StrictMode>,
 )
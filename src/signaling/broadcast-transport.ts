@@ -0,0 +1,34 @@
+import { createListenerSet, isSignalMessage, type SignalingTransport } from './transport'
+
+export const SIGNAL_CHANNEL_NAME = 'vote2p-signal'
+
+/** 同一浏览器内各标签页之间的信令通道；不支持 BroadcastChannel 时返回 null。 */
+export const createBroadcastTransport = (
+  channelName: string = SIGNAL_CHANNEL_NAME,
+): SignalingTransport | null => {
+  if (typeof window === 'undefined' || !('BroadcastChannel' in window)) {
+    return null
+  }
+  const channel = new BroadcastChannel(channelName)
+  const listeners = createListenerSet()
+  channel.onmessage = (event) => {
+    if (isSignalMessage(event.data)) {
+      listeners.emit(event.data)
+    }
+  }
+  return {
+    kind: 'broadcast',
+    send(message) {
+      channel.postMessage(message)
+    },
+    subscribe: listeners.add,
+    close() {
+      listeners.clear()
+      try {
+        channel.close()
+      } catch (e) {
+        console.error(e)
+      }
+    },
+  }
+}
@@ -0,0 +1,90 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { answerTargetHref, buildAnswerLink, decodeSignal, encodeSignal, readAnswerFromHash, toBase64Url } from './codec'
+
+const FINGERPRINT =
+  'sha-256 8F:2A:11:C4:5B:00:7E:9D:3A:6F:21:B8:44:D0:19:E2:5C:73:AA:0B:96:3D:E1:48:7F:02:C5:BB:60:1E:9A:D7'
+
+const offer: RTCSessionDescriptionInit = {
+  type: 'offer',
+  sdp: [
+    'v=0',
+    'o=- 4611731400430051336 2 IN IP4 127.0.0.1',
+    's=-',
+    't=0 0',
+    'a=group:BUNDLE 0',
+    'm=application 9 UDP/DTLS/SCTP webrtc-datachannel',
+    'c=IN IP4 0.0.0.0',
+    'a=candidate:842163049 1 udp 1677729535 203.0.113.7 61234 typ srflx raddr 192.168.1.5 rport 61234 generation 0 network-id 1',
+    'a=ice-ufrag:Xq7b',
+    'a=ice-pwd:9Jk2mN4pQr6sTu8vWx0yZa1b',
+    `a=fingerprint:${FINGERPRINT}`,
+    'a=setup:actpass',
+    'a=mid:0',
+    'a=sctp-port:5000',
+    'a=max-message-size:262144',
+    '',
+  ].join('\r\n'),
+}
+
+const encodeText = (value: unknown) => toBase64Url(new TextEncoder().encode(JSON.stringify(value)))
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+})
+
+describe('encodeSignal / decodeSignal', () => {
+  it('round-trips the fields a DataChannel needs through the compressed format', async () => {
+    const text = await encodeSignal(offer)
+    expect(text.startsWith('c1.')).toBe(true)
+    expect(text).toMatch(/^[\w.-]+$/)
+    const decoded = await decodeSignal(text)
+    expect(decoded.type).toBe('offer')
+    const lines = decoded.sdp?.split('\r\n') ?? []
+    expect(lines).toContain('a=ice-ufrag:Xq7b')
+    expect(lines).toContain('a=ice-pwd:9Jk2mN4pQr6sTu8vWx0yZa1b')
+    expect(lines).toContain(`a=fingerprint:${FINGERPRINT}`)
+    expect(lines).toContain('a=setup:actpass')
+    expect(lines).toContain('a=max-message-size:262144')
+    // 候选地址去掉了 generation、network-id 等扩展属性
+    expect(lines).toContain(
+      'a=candidate:842163049 1 udp 1677729535 203.0.113.7 61234 typ srflx raddr 192.168.1.5 rport 61234',
+    )
+  })
+
+  it('falls back to the uncompressed format without CompressionStream', async () => {
+    const compressed = await decodeSignal(await encodeSignal(offer))
+    vi.stubGlobal('CompressionStream', undefined)
+    const text = await encodeSignal(offer)
+    expect(text.startsWith('c0.')).toBe(true)
+    expect(await decodeSignal(text)).toEqual(compressed)
+  })
+
+  it('still decodes the legacy full JSON and its base64url form', async () => {
+    expect(await decodeSignal(JSON.stringify(offer))).toEqual(offer)
+    expect(await decodeSignal(encodeText(offer))).toEqual(offer)
+  })
+
+  it('rejects malformed input and unknown prefixes', async () => {
+    await expect(decodeSignal('c1.not-deflate')).rejects.toThrow()
+    await expect(decodeSignal('c0.bm90IGpzb24')).rejects.toThrow()
+    await expect(decodeSignal('c9.abc')).rejects.toThrow()
+    const incomplete = `c0.${encodeText({ t: 'offer', u: 'x' })}`
+    await expect(decodeSignal(incomplete)).rejects.toThrow('不是有效的 Offer / Answer')
+    await expect(decodeSignal(JSON.stringify({ type: 'pranswer', sdp: '' }))).rejects.toThrow()
+  })
+
+  it('refuses to encode an SDP without ICE credentials', async () => {
+    await expect(encodeSignal({ type: 'offer', sdp: 'v=0\r\n' })).rejects.toThrow('ICE')
+  })
+})
+
+describe('buildAnswerLink', () => {
+  it('differs from the waiting host address only in the hash', () => {
+    const hostHref = answerTargetHref('https://example.com/vote/?gid=GID-abc&sdp=offer#stale')
+    const link = buildAnswerLink('https://example.com/vote/?sdp=offer&gid=GID-abc&watch=x', 'answer-text')
+    const url = new URL(link)
+    expect(hostHref).toBe('https://example.com/vote/?gid=GID-abc')
+    expect(`${url.origin}${url.pathname}${url.search}`).toBe(hostHref)
+    expect(readAnswerFromHash(url.hash)).not.toBeNull()
+  })
+})
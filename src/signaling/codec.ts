@@ -0,0 +1,281 @@
+/**
+ * 手动信令的紧凑编码：只保留建立 DataChannel 必需的字段（ICE ufrag/pwd、DTLS 指纹、候选地址等），
+ * 压缩后用 base64url 表示，接收方再还原为完整 SDP。
+ * 旧格式（完整的 RTCSessionDescription JSON，或其 base64url）依然可以解码。
+ */
+
+// c1 = deflate-raw 压缩；c0 = 浏览器不支持 CompressionStream 时的未压缩紧凑格式
+const COMPRESSED_PREFIX = 'c1.'
+const PLAIN_PREFIX = 'c0.'
+
+const DEFAULT_SCTP_PORT = '5000'
+
+type CompactDescription = {
+  t: 'offer' | 'answer'
+  o: string
+  u: string
+  p: string
+  f: string
+  s: string
+  m: string
+  sp: string
+  mm?: string
+  c: string[]
+}
+
+export const toBase64Url = (bytes: Uint8Array): string => {
+  let binary = ''
+  for (let i = 0; i < bytes.length; i += 1) {
+    binary += String.fromCharCode(bytes[i])
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/g, '')
+}
+
+export const fromBase64Url = (str: string): Uint8Array => {
+  let base64 = str.replace(/-/g, '+').replace(/_/g, '/')
+  const padding = (4 - (base64.length % 4)) % 4
+  if (padding) {
+    base64 += '='.repeat(padding)
+  }
+  const binary = atob(base64)
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i += 1) {
+    bytes[i] = binary.charCodeAt(i)
+  }
+  return bytes
+}
+
+const supportsCompression = () =>
+  typeof CompressionStream !== 'undefined' && typeof DecompressionStream !== 'undefined'
+
+const pipeBytes = async (
+  bytes: Uint8Array,
+  transform: CompressionStream | DecompressionStream,
+): Promise<Uint8Array> => {
+  const stream = new Blob([bytes]).stream().pipeThrough(transform)
+  return new Uint8Array(await new Response(stream).arrayBuffer())
+}
+
+// 候选地址只保留到 typ / raddr / rport / tcptype，去掉 generation、network-id 等扩展属性
+const shortenCandidate = (value: string) => {
+  const parts = value.split(' ')
+  const kept = parts.slice(0, 8)
+  for (let i = 8; i + 1 < parts.length; i += 2) {
+    if (parts[i] === 'raddr' || parts[i] === 'rport' || parts[i] === 'tcptype') {
+      kept.push(parts[i], parts[i + 1])
+    }
+  }
+  return kept.join(' ')
+}
+
+// 指纹 "sha-256 8F:2A:…" 中的十六进制几乎无法压缩，改为字节的 base64url
+const packFingerprint = (value: string) => {
+  const [algorithm, hex] = value.split(' ')
+  if (!hex || !/^([0-9A-Fa-f]{2}:)*[0-9A-Fa-f]{2}$/.test(hex)) return value
+  const bytes = Uint8Array.from(hex.split(':'), (byte) => parseInt(byte, 16))
+  return `${algorithm} ${toBase64Url(bytes)}`
+}
+
+const unpackFingerprint = (value: string) => {
+  const [algorithm, packed] = value.split(' ')
+  if (!packed || packed.includes(':')) return value
+  const hex = Array.from(fromBase64Url(packed), (byte) =>
+    byte.toString(16).toUpperCase().padStart(2, '0'),
+  )
+  return `${algorithm} ${hex.join(':')}`
+}
+
+const compactFromDescription = (desc: RTCSessionDescriptionInit): CompactDescription => {
+  if (desc.type !== 'offer' && desc.type !== 'answer') {
+    throw new Error(`不支持的 SDP 类型：${desc.type}`)
+  }
+  const lines = (desc.sdp ?? '').split(/\r?\n/)
+  const attr = (name: string) => {
+    const prefix = `a=${name}:`
+    const line = lines.find((item) => item.startsWith(prefix))
+    return line ? line.slice(prefix.length).trim() : ''
+  }
+  const originLine = lines.find((item) => item.startsWith('o='))
+  const origin = originLine ? originLine.slice(2).split(' ') : []
+  const compact: CompactDescription = {
+    t: desc.type,
+    o: origin.length >= 3 ? `${origin[1]} ${origin[2]}` : '0 0',
+    u: attr('ice-ufrag'),
+    p: attr('ice-pwd'),
+    f: packFingerprint(attr('fingerprint')),
+    s: attr('setup'),
+    m: attr('mid') || '0',
+    sp: attr('sctp-port') || DEFAULT_SCTP_PORT,
+    c: lines
+      .filter((item) => item.startsWith('a=candidate:'))
+      .map((item) => shortenCandidate(item.slice('a=candidate:'.length).trim())),
+  }
+  const maxMessageSize = attr('max-message-size')
+  if (maxMessageSize) {
+    compact.mm = maxMessageSize
+  }
+  if (!compact.u || !compact.p || !compact.f || !compact.s) {
+    throw new Error('SDP 缺少 ICE 凭据或 DTLS 指纹，无法生成紧凑信令')
+  }
+  return compact
+}
+
+const descriptionFromCompact = (compact: CompactDescription): RTCSessionDescriptionInit => {
+  const lines = [
+    'v=0',
+    `o=- ${compact.o} IN IP4 127.0.0.1`,
+    's=-',
+    't=0 0',
+    `a=group:BUNDLE ${compact.m}`,
+    'm=application 9 UDP/DTLS/SCTP webrtc-datachannel',
+    'c=IN IP4 0.0.0.0',
+    ...compact.c.map((candidate) => `a=candidate:${candidate}`),
+    'a=end-of-candidates',
+    `a=ice-ufrag:${compact.u}`,
+    `a=ice-pwd:${compact.p}`,
+    'a=ice-options:trickle',
+    `a=fingerprint:${unpackFingerprint(compact.f)}`,
+    `a=setup:${compact.s}`,
+    `a=mid:${compact.m}`,
+    `a=sctp-port:${compact.sp}`,
+  ]
+  if (compact.mm) {
+    lines.push(`a=max-message-size:${compact.mm}`)
+  }
+  return { type: compact.t, sdp: `${lines.join('\r\n')}\r\n` }
+}
+
+const isCompactDescription = (value: unknown): value is CompactDescription => {
+  if (!value || typeof value !== 'object') return false
+  const item = value as Record<string, unknown>
+  return (
+    (item.t === 'offer' || item.t === 'answer') &&
+    ['o', 'u', 'p', 'f', 's', 'm', 'sp'].every((key) => typeof item[key] === 'string') &&
+    Array.isArray(item.c) &&
+    item.c.every((candidate) => typeof candidate === 'string')
+  )
+}
+
+const isSessionDescription = (value: unknown): value is RTCSessionDescriptionInit => {
+  if (!value || typeof value !== 'object') return false
+  const item = value as Record<string, unknown>
+  return (item.type === 'offer' || item.type === 'answer') && typeof item.sdp === 'string'
+}
+
+/** 把本地 SDP 编码为可直接复制或放进链接的短文本（URL 安全）。 */
+export const encodeSignal = async (desc: RTCSessionDescriptionInit): Promise<string> => {
+  const json = new TextEncoder().encode(JSON.stringify(compactFromDescription(desc)))
+  if (!supportsCompression()) {
+    return `${PLAIN_PREFIX}${toBase64Url(json)}`
+  }
+  const compressed = await pipeBytes(json, new CompressionStream('deflate-raw'))
+  return `${COMPRESSED_PREFIX}${toBase64Url(compressed)}`
+}
+
+/**
+ * 解码对方发来的信令文本，兼容三种格式：紧凑编码、旧版完整 JSON、旧版分享链接中的 base64url JSON。
+ * 无法识别时抛出异常，由调用方提示用户重新复制。
+ */
+export const decodeSignal = async (text: string): Promise<RTCSessionDescriptionInit> => {
+  const trimmed = text.trim()
+  let parsed: unknown
+  if (trimmed.startsWith(COMPRESSED_PREFIX)) {
+    if (!supportsCompression()) {
+      throw new Error('当前浏览器不支持解压信令，请让对方发送完整 JSON 文本')
+    }
+    const bytes = await pipeBytes(
+      fromBase64Url(trimmed.slice(COMPRESSED_PREFIX.length)),
+      new DecompressionStream('deflate-raw'),
+    )
+    parsed = JSON.parse(new TextDecoder().decode(bytes))
+  } else if (trimmed.startsWith(PLAIN_PREFIX)) {
+    parsed = JSON.parse(new TextDecoder().decode(fromBase64Url(trimmed.slice(PLAIN_PREFIX.length))))
+  } else if (trimmed.startsWith('{')) {
+    parsed = JSON.parse(trimmed)
+  } else {
+    parsed = JSON.parse(new TextDecoder().decode(fromBase64Url(trimmed)))
+  }
+  if (isCompactDescription(parsed)) {
+    return descriptionFromCompact(parsed)
+  }
+  if (isSessionDescription(parsed)) {
+    return parsed
+  }
+  throw new Error('信令内容不是有效的 Offer / Answer')
+}
+
+/** 分享链接中的 sdp 参数：紧凑编码本身已是 URL 安全的，旧版 JSON 文本则按原方式 base64url 编码。 */
+export const signalToUrlParam = (text: string) =>
+  text.startsWith(COMPRESSED_PREFIX) || text.startsWith(PLAIN_PREFIX)
+    ? text
+    : toBase64Url(new TextEncoder().encode(text))
+
+const ANSWER_HASH_KEY = 'answer'
+const GAME_ID_PARAM = 'gid'
+
+/**
+ * 发起方等待 Answer 时的地址，也是回传链接去掉 hash 后的部分：查询参数只保留 gid。
+ * 两者只差 hash 时，浏览器打开回传链接只触发 hashchange，不会重新加载页面。
+ */
+export const answerTargetHref = (href: string) => {
+  const url = new URL(href)
+  const gameId = url.searchParams.get(GAME_ID_PARAM)
+  url.search = ''
+  url.hash = ''
+  if (gameId) url.searchParams.set(GAME_ID_PARAM, gameId)
+  return url.toString()
+}
+
+/** 加入方的回传链接：Answer 放在 hash 中，发起方在原标签页粘贴打开时不会刷新页面、不会断开 PeerConnection。 */
+export const buildAnswerLink = (baseHref: string, answerText: string) => {
+  const url = new URL(answerTargetHref(baseHref))
+  url.hash = `${ANSWER_HASH_KEY}=${signalToUrlParam(answerText)}`
+  return url.toString()
+}
+
+export const readAnswerFromHash = (hash: string): string | null => {
+  const params = new URLSearchParams(hash.replace(/^#/, ''))
+  return params.get(ANSWER_HASH_KEY) || null
+}
+
+/** 粘贴或扫码得到的可能是分享链接 / 回传链接，也可能是信令文本本身；链接则取出其中的信令。 */
+export const extractSignalText = (raw: string): string => {
+  const text = raw.trim()
+  if (!/^https?:\/\//i.test(text)) {
+    return text
+  }
+  try {
+    const url = new URL(text)
+    return readAnswerFromHash(url.hash) ?? url.searchParams.get('sdp') ?? text
+  } catch {
+    return text
+  }
+}
+
+/** 多队对局中其他队伍的加入链接：与普通分享链接相同，打开后按加入方流程生成 Answer。 */
+export const buildPlayerLink = (baseHref: string, offerText: string) => {
+  const url = new URL(baseHref)
+  url.search = ''
+  url.hash = ''
+  url.searchParams.set('sdp', signalToUrlParam(offerText))
+  return url.toString()
+}
+
+const WATCH_PARAM = 'watch'
+
+/** 观战邀请链接：Offer 放在 watch 参数中，打开后进入只读的观众页面。 */
+export const buildSpectatorLink = (baseHref: string, offerText: string) => {
+  const url = new URL(baseHref)
+  url.search = ''
+  url.hash = ''
+  url.searchParams.set(WATCH_PARAM, signalToUrlParam(offerText))
+  return url.toString()
+}
+
+export const readSpectatorOffer = (href: string): string | null => {
+  try {
+    return new URL(href).searchParams.get(WATCH_PARAM) || null
+  } catch {
+    return null
+  }
+}
@@ -0,0 +1,6 @@
+/** 对局连接与观众连接共用的 STUN 配置 */
+export const ICE_SERVERS: RTCIceServer[] = [
+  {
+    urls: 'stun:stun.l.google.com:19302',
+  },
+]
@@ -0,0 +1,18 @@
+import { createListenerSet, type SignalMessage, type SignalingTransport } from './transport'
+
+export type ManualTransport = SignalingTransport & {
+  /** 用户粘贴、扫码或打开链接得到对方信令后，交给订阅者处理。 */
+  deliver(message: SignalMessage): void
+}
+
+/** 手动复制粘贴：本地信令由界面展示给用户自行转发，send 不做任何事。 */
+export const createManualTransport = (): ManualTransport => {
+  const listeners = createListenerSet()
+  return {
+    kind: 'manual',
+    send() {},
+    subscribe: listeners.add,
+    deliver: listeners.emit,
+    close: listeners.clear,
+  }
+}
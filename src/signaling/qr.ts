@@ -0,0 +1,30 @@
+import jsQR from 'jsqr'
+
+// 手机照片分辨率很高，先缩到这个边长以内再识别，速度更快且识别率不受影响
+const MAX_DECODE_EDGE = 1600
+
+/** 从截图或照片中识别二维码，返回其中的原始文本；识别失败时抛出异常。 */
+export const decodeQrImage = async (file: Blob): Promise<string> => {
+  const bitmap = await createImageBitmap(file)
+  try {
+    const scale = Math.min(1, MAX_DECODE_EDGE / Math.max(bitmap.width, bitmap.height))
+    const width = Math.max(1, Math.round(bitmap.width * scale))
+    const height = Math.max(1, Math.round(bitmap.height * scale))
+    const canvas = document.createElement('canvas')
+    canvas.width = width
+    canvas.height = height
+    const context = canvas.getContext('2d', { willReadFrequently: true })
+    if (!context) {
+      throw new Error('当前浏览器不支持 Canvas，无法识别二维码')
+    }
+    context.drawImage(bitmap, 0, 0, width, height)
+    const image = context.getImageData(0, 0, width, height)
+    const result = jsQR(image.data, width, height, { inversionAttempts: 'attemptBoth' })
+    if (!result || !result.data) {
+      throw new Error('图片中没有找到可识别的二维码')
+    }
+    return result.data
+  } finally {
+    bitmap.close()
+  }
+}
@@ -0,0 +1,149 @@
+import { isSignalMessage, createListenerSet, type SignalMessage, type SignalingTransport } from './transport'
+import type { RoomRole, RoomStatus } from './websocket-transport'
+
+/**
+ * 同一浏览器内两个标签页 / 窗口之间的完整信令：先互相发现并一对一配对，再交换 Offer / Answer。
+ * 每条信令都带上发送方与接收方的标签页 ID，同时打开的第三个标签页不会误收。
+ */
+
+export const SAME_DEVICE_CHANNEL_NAME = 'vote2p-same-device'
+
+type PairEnvelope =
+  | { kind: 'hello'; from: string; to?: string; role: RoomRole }
+  | { kind: 'pair'; from: string; to: string }
+  | { kind: 'leave'; from: string; to: string }
+  | { kind: 'signal'; from: string; to: string; message: SignalMessage }
+
+const isPairEnvelope = (data: unknown): data is PairEnvelope => {
+  if (!data || typeof data !== 'object') return false
+  const value = data as { kind?: unknown; from?: unknown }
+  return (
+    typeof value.from === 'string' &&
+    (value.kind === 'hello' || value.kind === 'pair' || value.kind === 'leave' || value.kind === 'signal')
+  )
+}
+
+export const createTabId = () => {
+  const bytes = new Uint8Array(6)
+  window.crypto.getRandomValues(bytes)
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('')
+}
+
+export type SameDeviceTransportOptions = {
+  role: RoomRole
+  tabId?: string
+  onStatus?: (status: RoomStatus, detail?: string) => void
+}
+
+/** 不支持 BroadcastChannel 时返回 null。 */
+export const createSameDeviceTransport = ({
+  role,
+  tabId = createTabId(),
+  onStatus,
+}: SameDeviceTransportOptions): SignalingTransport | null => {
+  if (typeof window === 'undefined' || !('BroadcastChannel' in window)) {
+    return null
+  }
+  const channel = new BroadcastChannel(SAME_DEVICE_CHANNEL_NAME)
+  const listeners = createListenerSet()
+  // 配对前生成的 Offer / Answer 先排队，配对后补发
+  const outbox: SignalMessage[] = []
+  let peerId: string | null = null
+  let closed = false
+
+  const post = (envelope: PairEnvelope) => {
+    try {
+      channel.postMessage(envelope)
+    } catch (e) {
+      console.error(e)
+    }
+  }
+
+  const announce = (to?: string) => {
+    post({ kind: 'hello', from: tabId, to, role })
+  }
+
+  const pairWith = (id: string) => {
+    peerId = id
+    onStatus?.('paired', `已与本机标签页 ${id.slice(0, 4)} 配对`)
+    outbox.splice(0).forEach((message) => post({ kind: 'signal', from: tabId, to: id, message }))
+  }
+
+  channel.onmessage = (event) => {
+    const data = event.data
+    if (!isPairEnvelope(data) || data.from === tabId) return
+    if (data.kind !== 'hello' && data.to !== tabId) return
+
+    switch (data.kind) {
+      case 'hello':
+        if (data.to && data.to !== tabId) return
+        if (peerId || data.role === role) return
+        if (role === 'offer') {
+          // 发起方决定配对对象，加入方确认后双方才开始交换信令
+          post({ kind: 'pair', from: tabId, to: data.from })
+        } else if (!data.to) {
+          // 发起方晚于加入方打开时，回应其广播让对方发现自己
+          announce(data.from)
+        }
+        break
+      case 'pair':
+        if (peerId === data.from) return
+        if (peerId) {
+          post({ kind: 'leave', from: tabId, to: data.from })
+          return
+        }
+        if (role === 'answer') {
+          post({ kind: 'pair', from: tabId, to: data.from })
+        }
+        pairWith(data.from)
+        break
+      case 'leave':
+        if (peerId !== data.from) return
+        peerId = null
+        onStatus?.('waiting-peer', '对方标签页已关闭或改为与其他标签页配对')
+        announce()
+        break
+      case 'signal':
+        if (peerId !== data.from || !isSignalMessage(data.message)) return
+        listeners.emit(data.message)
+        break
+      default:
+        break
+    }
+  }
+
+  const handleUnload = () => {
+    if (peerId) {
+      post({ kind: 'leave', from: tabId, to: peerId })
+    }
+  }
+  window.addEventListener('pagehide', handleUnload)
+
+  // 初始状态为 waiting-peer，由调用方自行设置
+  announce()
+
+  return {
+    kind: 'same-device',
+    send(message) {
+      if (closed) return
+      if (peerId) {
+        post({ kind: 'signal', from: tabId, to: peerId, message })
+      } else {
+        outbox.push(message)
+      }
+    },
+    subscribe: listeners.add,
+    close() {
+      if (closed) return
+      closed = true
+      handleUnload()
+      window.removeEventListener('pagehide', handleUnload)
+      listeners.clear()
+      try {
+        channel.close()
+      } catch (e) {
+        console.error(e)
+      }
+    },
+  }
+}
@@ -0,0 +1,65 @@
+/**
+ * 信令通道抽象：Offer / Answer、ICE 重启以及回传链接转交都通过同一种消息在不同传输方式之间流转。
+ * payload 为信令文本（紧凑编码或旧版 JSON）或 RTCSessionDescriptionInit，由接收方用 decodeSignal 解析。
+ */
+export type SignalMessageType =
+  | 'offer'
+  | 'answer'
+  | 'restart-offer'
+  | 'restart-answer'
+  | 'answer-link'
+  | 'answer-link-ack'
+
+export type SignalMessage = {
+  type: SignalMessageType
+  sessionId?: string | null
+  payload?: unknown
+}
+
+export type SignalingTransportKind = 'manual' | 'broadcast' | 'same-device' | 'websocket'
+
+export interface SignalingTransport {
+  readonly kind: SignalingTransportKind
+  send(message: SignalMessage): void
+  /** 订阅对方发来的信令，返回取消订阅函数。 */
+  subscribe(listener: (message: SignalMessage) => void): () => void
+  close(): void
+}
+
+const SIGNAL_MESSAGE_TYPES = new Set<string>([
+  'offer',
+  'answer',
+  'restart-offer',
+  'restart-answer',
+  'answer-link',
+  'answer-link-ack',
+])
+
+export const isSignalMessage = (data: unknown): data is SignalMessage =>
+  !!data &&
+  typeof data === 'object' &&
+  SIGNAL_MESSAGE_TYPES.has(String((data as { type?: unknown }).type))
+
+export const createListenerSet = () => {
+  const listeners = new Set<(message: SignalMessage) => void>()
+  return {
+    add(listener: (message: SignalMessage) => void) {
+      listeners.add(listener)
+      return () => {
+        listeners.delete(listener)
+      }
+    },
+    emit(message: SignalMessage) {
+      listeners.forEach((listener) => {
+        try {
+          listener(message)
+        } catch (e) {
+          console.error(e)
+        }
+      })
+    },
+    clear() {
+      listeners.clear()
+    },
+  }
+}
@@ -0,0 +1,133 @@
+import { createListenerSet, isSignalMessage, type SignalMessage, type SignalingTransport } from './transport'
+
+/**
+ * 通过自建的 WebSocket 汇合服务器（scripts/signal-server.mjs）按房间码配对。
+ * 服务器只负责转发，对方尚未进入房间时会暂存消息，进入后依次补发。
+ */
+
+export const DEFAULT_SIGNAL_SERVER_PORT = 8787
+
+export type RoomRole = 'offer' | 'answer'
+
+export type RoomStatus = 'connecting' | 'waiting-peer' | 'paired' | 'closed' | 'error'
+
+type ServerMessage =
+  | { type: 'joined'; room: string; peers: number }
+  | { type: 'peer-joined' }
+  | { type: 'peer-left' }
+  | { type: 'signal'; message: unknown }
+  | { type: 'error'; message: string }
+
+// 去掉 0/O、1/I/L 等容易看错的字符，方便口头报出房间码
+const ROOM_CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789'
+const ROOM_CODE_LENGTH = 6
+
+export const generateRoomCode = () => {
+  const bytes = new Uint8Array(ROOM_CODE_LENGTH)
+  window.crypto.getRandomValues(bytes)
+  return Array.from(bytes, (byte) => ROOM_CODE_ALPHABET[byte % ROOM_CODE_ALPHABET.length]).join('')
+}
+
+export const normalizeRoomCode = (input: string) => input.trim().toUpperCase().replace(/[^A-Z0-9]/g, '')
+
+export const defaultSignalServerUrl = () => {
+  const host = window.location.hostname || 'localhost'
+  const scheme = window.location.protocol === 'https:' ? 'wss' : 'ws'
+  return `${scheme}://${host}:${DEFAULT_SIGNAL_SERVER_PORT}`
+}
+
+export type WebSocketTransportOptions = {
+  url: string
+  room: string
+  role: RoomRole
+  onStatus?: (status: RoomStatus, detail?: string) => void
+}
+
+export const createWebSocketTransport = ({
+  url,
+  room,
+  role,
+  onStatus,
+}: WebSocketTransportOptions): SignalingTransport => {
+  const listeners = createListenerSet()
+  // 连接建立前发送的信令先排队
+  const outbox: SignalMessage[] = []
+  let closed = false
+
+  // 初始状态为 connecting，由调用方自行设置；回调只报告之后的变化
+  const socket = new WebSocket(url)
+
+  const sendRaw = (data: object) => {
+    socket.send(JSON.stringify(data))
+  }
+
+  socket.onopen = () => {
+    sendRaw({ type: 'join', room, role })
+    outbox.splice(0).forEach((message) => sendRaw({ type: 'signal', message }))
+  }
+
+  socket.onmessage = (event) => {
+    let data: ServerMessage
+    try {
+      data = JSON.parse(String(event.data)) as ServerMessage
+    } catch (e) {
+      console.error('信令服务器消息格式错误', e)
+      return
+    }
+    switch (data.type) {
+      case 'joined':
+        onStatus?.(data.peers > 1 ? 'paired' : 'waiting-peer')
+        break
+      case 'peer-joined':
+        onStatus?.('paired')
+        break
+      case 'peer-left':
+        onStatus?.('waiting-peer', '对方已离开房间')
+        break
+      case 'signal':
+        if (isSignalMessage(data.message)) {
+          listeners.emit(data.message)
+        }
+        break
+      case 'error':
+        onStatus?.('error', data.message)
+        break
+      default:
+        break
+    }
+  }
+
+  socket.onerror = () => {
+    if (!closed) {
+      onStatus?.('error', `无法连接信令服务器 ${url}`)
+    }
+  }
+
+  socket.onclose = () => {
+    if (!closed) {
+      closed = true
+      onStatus?.('closed')
+    }
+  }
+
+  return {
+    kind: 'websocket',
+    send(message) {
+      if (socket.readyState === WebSocket.OPEN) {
+        sendRaw({ type: 'signal', message })
+      } else if (socket.readyState === WebSocket.CONNECTING) {
+        outbox.push(message)
+      }
+    },
+    subscribe: listeners.add,
+    close() {
+      closed = true
+      listeners.clear()
+      try {
+        socket.close()
+      } catch (e) {
+        console.error(e)
+      }
+    },
+  }
+}
@@ -0,0 +1,31 @@
+import { createIndexedDbStore } from './indexeddb-store'
+import { createLocalStore } from './local-store'
+import { createGameStore } from './migrating-store'
+import type { GameStore, GameStoreBackend, GameStoreTx } from './store'
+
+const openBackend = async (): Promise<GameStoreBackend> => {
+  try {
+    const backend = await createIndexedDbStore()
+    if (backend) return backend
+  } catch (e) {
+    console.error(e)
+  }
+  return createLocalStore()
+}
+
+const openGameStore = async (): Promise<GameStore> => createGameStore(await openBackend())
+
+let storePromise: Promise<GameStore> | null = null
+
+/** 整个页面共用一个存储实例；首次调用时打开数据库并完成一次性迁移。 */
+export const getGameStore = () => {
+  storePromise ??= openGameStore()
+  return storePromise
+}
+
+/** 写入本地对局存储；写入失败只记录日志，不影响当前对局 */
+export const writeGameStore = (write: (tx: GameStoreTx) => void) => {
+  getGameStore()
+    .then((store) => store.transaction(write))
+    .catch((e) => console.error(e))
+}
@@ -0,0 +1,205 @@
+import type { GameSnapshot } from '@/game/types'
+import {
+  LEGACY_HISTORY_INDEX_KEY,
+  LEGACY_MATCH_INDEX_KEY,
+  LEGACY_META_KEYS,
+  LEGACY_SNAPSHOT_KEY_PREFIX,
+  readLocalJson,
+} from './local-store'
+import {
+  asArray,
+  collectOps,
+  isSnapshot,
+  type GameStoreBackend,
+  type GameStoreMetaKey,
+  type GameStoreOp,
+  type QuarantinedRecord,
+} from './store'
+
+const DB_NAME = 'vote2p'
+const DB_VERSION = 2
+/** 快照按 gameId 存放；历史列表、系列赛列表与各标记存放在 kv 中；隔离的记录按写入顺序存放（版本 2 起） */
+const SNAPSHOTS = 'snapshots'
+const KV = 'kv'
+const QUARANTINE = 'quarantine'
+const HISTORY_INDEX = 'historyIndex'
+const MATCH_INDEX = 'matchIndex'
+const MIGRATED = 'migratedFromLocalStorage'
+const LAST_SNAPSHOT_ID: GameStoreMetaKey = 'lastSnapshotId'
+
+const requestResult = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+
+const transactionDone = (tx: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve()
+    tx.onerror = () => reject(tx.error)
+    tx.onabort = () => reject(tx.error ?? new Error('IndexedDB 事务已中止'))
+  })
+
+const openDatabase = () =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    const request = window.indexedDB.open(DB_NAME, DB_VERSION)
+    request.onupgradeneeded = () => {
+      const db = request.result
+      if (!db.objectStoreNames.contains(SNAPSHOTS)) db.createObjectStore(SNAPSHOTS, { keyPath: 'gameId' })
+      if (!db.objectStoreNames.contains(KV)) db.createObjectStore(KV)
+      if (!db.objectStoreNames.contains(QUARANTINE)) db.createObjectStore(QUARANTINE, { autoIncrement: true })
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+
+/**
+ * 在同一个事务中提交写操作。先读出 lastSnapshotId，删除快照时据此判断是否一并清除，
+ * 避免回调里再发起读取、与后续写操作交错。
+ */
+const applyOps = (tx: IDBTransaction, ops: GameStoreOp[]) => {
+  const snapshots = tx.objectStore(SNAPSHOTS)
+  const kv = tx.objectStore(KV)
+  const quarantine = tx.objectStore(QUARANTINE)
+  const lastRequest = kv.get(LAST_SNAPSHOT_ID)
+  lastRequest.onsuccess = () => {
+    let lastSnapshotId: unknown = lastRequest.result ?? null
+    const setKv = (key: string, value: unknown) => {
+      if (value === null) kv.delete(key)
+      else kv.put(value, key)
+    }
+    for (const op of ops) {
+      switch (op.type) {
+        case 'putSnapshot':
+          snapshots.put(op.snapshot)
+          break
+        case 'deleteSnapshot':
+          snapshots.delete(op.gameId)
+          if (lastSnapshotId === op.gameId) {
+            setKv(LAST_SNAPSHOT_ID, null)
+            lastSnapshotId = null
+          }
+          break
+        case 'putHistoryIndex':
+          setKv(HISTORY_INDEX, op.entries)
+          break
+        case 'putMatchIndex':
+          setKv(MATCH_INDEX, op.entries)
+          break
+        case 'setMeta':
+          setKv(op.key, op.value)
+          if (op.key === LAST_SNAPSHOT_ID) lastSnapshotId = op.value
+          break
+        case 'quarantine':
+          quarantine.add(op.record)
+          break
+        case 'clearQuarantine':
+          quarantine.clear()
+          break
+      }
+    }
+  }
+}
+
+const readLegacyJson = (key: string): unknown => {
+  try {
+    return readLocalJson(key)
+  } catch (e) {
+    console.error(e)
+    return null
+  }
+}
+
+/**
+ * 一次性把旧版本写在 localStorage 中的快照、列表与标记搬进 IndexedDB。
+ * 迁移标记与数据在同一个事务中写入；事务提交后才删除旧键，中途失败时下次打开会重新迁移。
+ */
+const migrateFromLocalStorage = async (db: IDBDatabase) => {
+  const storage = window.localStorage
+  const snapshots: GameSnapshot[] = []
+  const legacyKeys: string[] = []
+  for (let i = 0; i < storage.length; i += 1) {
+    const key = storage.key(i)
+    if (!key?.startsWith(LEGACY_SNAPSHOT_KEY_PREFIX)) continue
+    const value = readLegacyJson(key)
+    if (isSnapshot(value)) {
+      snapshots.push(value)
+      legacyKeys.push(key)
+    }
+  }
+  const historyIndex = readLegacyJson(LEGACY_HISTORY_INDEX_KEY)
+  const matchIndex = readLegacyJson(LEGACY_MATCH_INDEX_KEY)
+  const meta = Object.entries(LEGACY_META_KEYS).map(
+    ([key, legacyKey]) => [key, storage.getItem(legacyKey)] as const,
+  )
+
+  const tx = db.transaction([SNAPSHOTS, KV], 'readwrite')
+  const kv = tx.objectStore(KV)
+  let migrated = false
+  const check = kv.get(MIGRATED)
+  check.onsuccess = () => {
+    if (check.result) return
+    migrated = true
+    const store = tx.objectStore(SNAPSHOTS)
+    snapshots.forEach((snapshot) => store.put(snapshot))
+    if (Array.isArray(historyIndex)) kv.put(historyIndex, HISTORY_INDEX)
+    if (Array.isArray(matchIndex)) kv.put(matchIndex, MATCH_INDEX)
+    meta.forEach(([key, value]) => {
+      if (value !== null) kv.put(value, key)
+    })
+    kv.put(Date.now(), MIGRATED)
+  }
+  await transactionDone(tx)
+  if (!migrated) return
+  const obsoleteKeys = [
+    ...legacyKeys,
+    LEGACY_HISTORY_INDEX_KEY,
+    LEGACY_MATCH_INDEX_KEY,
+    ...Object.values(LEGACY_META_KEYS),
+  ]
+  try {
+    obsoleteKeys.forEach((key) => storage.removeItem(key))
+  } catch (e) {
+    console.error(e)
+  }
+}
+
+/** 打开 IndexedDB 存储；浏览器不支持 IndexedDB 时返回 null，由调用方回退到 localStorage。 */
+export const createIndexedDbStore = async (): Promise<GameStoreBackend | null> => {
+  if (typeof window === 'undefined' || !window.indexedDB) {
+    return null
+  }
+  const db = await openDatabase()
+  await migrateFromLocalStorage(db)
+
+  const readKv = (key: string) => requestResult(db.transaction(KV, 'readonly').objectStore(KV).get(key))
+
+  return {
+    kind: 'indexeddb',
+    async readSnapshot(gameId) {
+      const request = db.transaction(SNAPSHOTS, 'readonly').objectStore(SNAPSHOTS).get(gameId)
+      return requestResult<unknown>(request)
+    },
+    async readHistoryIndex() {
+      return readKv(HISTORY_INDEX)
+    },
+    async getMatchIndex() {
+      return asArray(await readKv(MATCH_INDEX))
+    },
+    async getMeta(key) {
+      const value: unknown = await readKv(key)
+      return typeof value === 'string' ? value : null
+    },
+    async getQuarantine() {
+      const request = db.transaction(QUARANTINE, 'readonly').objectStore(QUARANTINE).getAll()
+      return asArray<QuarantinedRecord>(await requestResult(request))
+    },
+    async transaction(write) {
+      const ops = collectOps(write)
+      if (ops.length === 0) return
+      const tx = db.transaction([SNAPSHOTS, KV, QUARANTINE], 'readwrite')
+      applyOps(tx, ops)
+      await transactionDone(tx)
+    },
+  }
+}
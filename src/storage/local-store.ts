@@ -0,0 +1,101 @@
+import { asArray, collectOps, type GameStoreBackend, type GameStoreMetaKey, type GameStoreOp } from './store'
+
+/** 早期版本直接写入 localStorage 的键；回退存储沿用它们，IndexedDB 存储从这里迁移 */
+export const LEGACY_SNAPSHOT_KEY_PREFIX = 'vote2p:snapshot:'
+export const LEGACY_HISTORY_INDEX_KEY = 'vote2p:historyIndex'
+export const LEGACY_MATCH_INDEX_KEY = 'vote2p:matchIndex'
+export const LEGACY_META_KEYS: Record<GameStoreMetaKey, string> = {
+  currentGameId: 'currentGameId',
+  lastSnapshotId: 'vote2p:lastSnapshotId',
+}
+const QUARANTINE_KEY = 'vote2p:quarantine'
+
+const snapshotKey = (gameId: string) => `${LEGACY_SNAPSHOT_KEY_PREFIX}${gameId}`
+
+export const readLocalJson = (key: string): unknown => {
+  const raw = window.localStorage.getItem(key)
+  return raw ? JSON.parse(raw) : null
+}
+
+/** 与 readLocalJson 相同，但解析失败时返回原始字符串，交给迁移流程隔离 */
+const readLocalRecord = (key: string): unknown => {
+  try {
+    return readLocalJson(key)
+  } catch {
+    return window.localStorage.getItem(key)
+  }
+}
+
+/** 执行一个写操作，返回需要改动的键及其新值（null 表示删除） */
+const applyOp = (op: GameStoreOp, read: (key: string) => string | null): [string, string | null][] => {
+  switch (op.type) {
+    case 'putSnapshot':
+      return [[snapshotKey(op.snapshot.gameId), JSON.stringify(op.snapshot)]]
+    case 'deleteSnapshot':
+      return read(LEGACY_META_KEYS.lastSnapshotId) === op.gameId
+        ? [
+            [snapshotKey(op.gameId), null],
+            [LEGACY_META_KEYS.lastSnapshotId, null],
+          ]
+        : [[snapshotKey(op.gameId), null]]
+    case 'putHistoryIndex':
+      return [[LEGACY_HISTORY_INDEX_KEY, JSON.stringify(op.entries)]]
+    case 'putMatchIndex':
+      return [[LEGACY_MATCH_INDEX_KEY, JSON.stringify(op.entries)]]
+    case 'setMeta':
+      return [[LEGACY_META_KEYS[op.key], op.value]]
+    case 'quarantine': {
+      const current = read(QUARANTINE_KEY)
+      const records: unknown[] = current ? asArray(JSON.parse(current)) : []
+      return [[QUARANTINE_KEY, JSON.stringify([...records, op.record])]]
+    }
+    case 'clearQuarantine':
+      return [[QUARANTINE_KEY, null]]
+  }
+}
+
+/**
+ * localStorage 回退存储。localStorage 没有事务，这里先记下被改动键的原值，
+ * 中途写入失败（通常是超出容量）时恢复原值，再把错误抛给调用方。
+ */
+export const createLocalStore = (): GameStoreBackend => ({
+  kind: 'local',
+  async readSnapshot(gameId) {
+    return readLocalRecord(snapshotKey(gameId))
+  },
+  async readHistoryIndex() {
+    return readLocalRecord(LEGACY_HISTORY_INDEX_KEY)
+  },
+  async getMatchIndex() {
+    return asArray(readLocalJson(LEGACY_MATCH_INDEX_KEY))
+  },
+  async getMeta(key) {
+    return window.localStorage.getItem(LEGACY_META_KEYS[key])
+  },
+  async getQuarantine() {
+    return asArray(readLocalRecord(QUARANTINE_KEY))
+  },
+  async transaction(write) {
+    const storage = window.localStorage
+    const original = new Map<string, string | null>()
+    try {
+      for (const op of collectOps(write)) {
+        for (const [key, value] of applyOp(op, (k) => storage.getItem(k))) {
+          if (!original.has(key)) original.set(key, storage.getItem(key))
+          if (value === null) storage.removeItem(key)
+          else storage.setItem(key, value)
+        }
+      }
+    } catch (e) {
+      original.forEach((value, key) => {
+        try {
+          if (value === null) storage.removeItem(key)
+          else storage.setItem(key, value)
+        } catch (restoreError) {
+          console.error(restoreError)
+        }
+      })
+      throw e
+    }
+  },
+})
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest'
+import { HISTORY_SCHEMA_VERSION } from '@/game/migrations'
+import { createGameStore } from './migrating-store'
+import { collectOps, type GameStoreBackend, type QuarantinedRecord } from './store'
+
+/** 只支持历史列表与隔离区的内存存储 */
+const memoryBackend = (historyIndex: unknown) => {
+  const data = { historyIndex, quarantine: [] as QuarantinedRecord[] }
+  const backend: GameStoreBackend = {
+    kind: 'local',
+    readSnapshot: async () => null,
+    readHistoryIndex: async () => data.historyIndex,
+    getMatchIndex: async () => [],
+    getMeta: async () => null,
+    getQuarantine: async () => data.quarantine,
+    async transaction(write) {
+      collectOps(write).forEach((op) => {
+        if (op.type === 'putHistoryIndex') data.historyIndex = op.entries
+        if (op.type === 'quarantine') data.quarantine = [...data.quarantine, op.record]
+      })
+    },
+  }
+  return { backend, data }
+}
+
+const entry = (gameId: string, schemaVersion = HISTORY_SCHEMA_VERSION) => ({
+  schemaVersion,
+  gameId,
+  startTimeSec: 1_700_000_000,
+  endTimeSec: 1_700_000_060,
+  scoreRed: 1,
+  scoreBlue: 0,
+  lastUpdatedAt: 1_700_000_060_000,
+})
+
+describe('createGameStore', () => {
+  it('keeps history entries from a newer page when the list is written back', async () => {
+    const future = { ...entry('future', HISTORY_SCHEMA_VERSION + 1), extra: 'field' }
+    const { backend, data } = memoryBackend([entry('current'), future])
+    const store = createGameStore(backend)
+
+    const entries = await store.getHistoryIndex()
+    expect(entries.map((item) => item.gameId)).toEqual(['current'])
+
+    await store.transaction((tx) => tx.putHistoryIndex([...entries, entry('new')]))
+    expect(data.historyIndex).toEqual([entry('current'), entry('new'), future])
+  })
+
+  it('quarantines invalid entries but keeps future ones in the list', async () => {
+    const future = entry('future', HISTORY_SCHEMA_VERSION + 1)
+    const { backend, data } = memoryBackend([entry('current'), { gameId: 42 }, future])
+    const entries = await createGameStore(backend).getHistoryIndex()
+    expect(entries.map((item) => item.gameId)).toEqual(['current'])
+    expect(data.quarantine).toMatchObject([{ source: 'historyIndex', key: '#1' }])
+    expect(data.historyIndex).toEqual([entry('current'), future])
+  })
+})
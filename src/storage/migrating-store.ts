@@ -0,0 +1,109 @@
+import { migrateHistoryEntry, migrateSnapshot } from '@/game/migrations'
+import type { HistoryIndexEntry } from '@/game/types'
+import { collectOps, replayOps, type GameStore, type GameStoreBackend, type QuarantinedRecord } from './store'
+
+const quarantinedRecord = (
+  source: QuarantinedRecord['source'],
+  key: string,
+  reason: string,
+  raw: unknown,
+): QuarantinedRecord => ({ source, key, reason, raw, quarantinedAt: Date.now() })
+
+/** 隔离失败只记录日志：读取方拿到的仍是过滤后的结果，下次读取会再尝试隔离 */
+const writeQuietly = async (backend: GameStoreBackend, write: Parameters<GameStoreBackend['transaction']>[0]) => {
+  try {
+    await backend.transaction(write)
+  } catch (e) {
+    console.error(e)
+  }
+}
+
+/** 存储中来自更新版本页面的历史条目，原样返回 */
+const readFutureHistoryEntries = async (backend: GameStoreBackend): Promise<unknown[]> => {
+  const raw = await backend.readHistoryIndex()
+  if (!Array.isArray(raw)) return []
+  return raw.filter((item: unknown) => {
+    const result = migrateHistoryEntry(item)
+    return !result.ok && result.future
+  })
+}
+
+const gameIdOf = (item: unknown) => (item as { gameId?: unknown } | null)?.gameId
+
+/**
+ * 在存储实现外面套一层读取时迁移：旧结构的记录升级到当前结构后返回，但不回写，
+ * 下次保存时自然以新结构写入。无法读取的记录移到隔离区并从原处删除，不再抛错；
+ * 来自更新版本页面的记录保持原样，只是这一次读不出来。
+ * 读出的历史列表不含更新版本的条目，写回列表时把存储中的这些条目接在后面，避免被覆盖掉。
+ */
+export const createGameStore = (backend: GameStoreBackend): GameStore => ({
+  kind: backend.kind,
+  getMatchIndex: () => backend.getMatchIndex(),
+  getMeta: (key) => backend.getMeta(key),
+  getQuarantine: () => backend.getQuarantine(),
+  async transaction(write) {
+    const ops = collectOps(write)
+    const future = ops.some((op) => op.type === 'putHistoryIndex') ? await readFutureHistoryEntries(backend) : []
+    if (future.length === 0) return backend.transaction((tx) => replayOps(tx, ops))
+    const merged = ops.map((op) => {
+      if (op.type !== 'putHistoryIndex') return op
+      const ids = new Set(op.entries.map((entry) => entry.gameId))
+      const kept = future.filter((item) => !ids.has(gameIdOf(item) as string))
+      return { ...op, entries: [...op.entries, ...(kept as HistoryIndexEntry[])] }
+    })
+    return backend.transaction((tx) => replayOps(tx, merged))
+  },
+  async getSnapshot(gameId) {
+    const raw = await backend.readSnapshot(gameId)
+    if (raw === null || raw === undefined) return null
+    const result = migrateSnapshot(raw)
+    if (result.ok && result.value.gameId === gameId) return result.value
+    if (!result.ok && result.future) {
+      console.warn(`快照 ${gameId}：${result.error}`)
+      return null
+    }
+    const reason = result.ok ? '快照中的 Game ID 与存放位置不一致' : result.error
+    await writeQuietly(backend, (tx) => {
+      tx.quarantine(quarantinedRecord('snapshot', gameId, reason, raw))
+      tx.deleteSnapshot(gameId)
+    })
+    return null
+  },
+  async getHistoryIndex() {
+    const raw = await backend.readHistoryIndex()
+    if (raw === null || raw === undefined) return []
+    if (!Array.isArray(raw)) {
+      await writeQuietly(backend, (tx) => {
+        tx.quarantine(quarantinedRecord('historyIndex', '*', '历史列表不是数组，可能已损坏', raw))
+        tx.putHistoryIndex([])
+      })
+      return []
+    }
+    const entries: HistoryIndexEntry[] = []
+    const rejected: QuarantinedRecord[] = []
+    const kept: unknown[] = []
+    raw.forEach((item: unknown, position) => {
+      const result = migrateHistoryEntry(item)
+      if (result.ok) {
+        entries.push(result.value)
+        kept.push(item)
+        return
+      }
+      // 来自更新版本的条目原样留在列表中，这里只是不显示
+      if (result.future) {
+        kept.push(item)
+        return
+      }
+      const gameId = gameIdOf(item)
+      const key = typeof gameId === 'string' ? gameId : `#${position}`
+      rejected.push(quarantinedRecord('historyIndex', key, result.error, item))
+    })
+    if (rejected.length > 0) {
+      await writeQuietly(backend, (tx) => {
+        rejected.forEach((record) => tx.quarantine(record))
+        tx.putHistoryIndex(kept as HistoryIndexEntry[])
+      })
+    }
+    return entries
+  },
+})
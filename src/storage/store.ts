@@ -0,0 +1,102 @@
+import type { GameSnapshot, HistoryIndexEntry, MatchHistoryEntry } from '@/game/types'
+
+/**
+ * 本地对局存储：快照、历史对局列表、系列赛列表与刷新恢复用的几个标记。
+ * 优先使用 IndexedDB（长对局的事件很多，localStorage 容量不够），不可用时回退到 localStorage。
+ * 读取都是异步的；写入集中在 transaction 中，快照与列表要么一起写入，要么都不写入。
+ */
+
+export type GameStoreKind = 'indexeddb' | 'local'
+
+/** currentGameId：进行中的 Game ID；lastSnapshotId：最近一次保存的快照，用于刷新后恢复 */
+export type GameStoreMetaKey = 'currentGameId' | 'lastSnapshotId'
+
+/** 读取时无法解析或校验失败的记录，原样移到隔离区，供用户导出排查 */
+export type QuarantinedRecord = {
+  source: 'snapshot' | 'historyIndex'
+  /** 快照为 gameId；历史条目为 gameId，缺失时为其在列表中的位置 */
+  key: string
+  reason: string
+  raw: unknown
+  quarantinedAt: number
+}
+
+export interface GameStoreTx {
+  putSnapshot(snapshot: GameSnapshot): void
+  /** 删除快照；它若是最近保存的快照，lastSnapshotId 一并清除 */
+  deleteSnapshot(gameId: string): void
+  putHistoryIndex(entries: HistoryIndexEntry[]): void
+  putMatchIndex(entries: MatchHistoryEntry[]): void
+  setMeta(key: GameStoreMetaKey, value: string | null): void
+  quarantine(record: QuarantinedRecord): void
+  clearQuarantine(): void
+}
+
+/** 各存储实现只读写原始记录；迁移、校验与隔离由 createGameStore 统一处理 */
+export interface GameStoreBackend {
+  readonly kind: GameStoreKind
+  readSnapshot(gameId: string): Promise<unknown>
+  readHistoryIndex(): Promise<unknown>
+  getMatchIndex(): Promise<MatchHistoryEntry[]>
+  getMeta(key: GameStoreMetaKey): Promise<string | null>
+  getQuarantine(): Promise<QuarantinedRecord[]>
+  /** 事务内的写操作只是登记，transaction 回调返回后一次性提交 */
+  transaction(write: (tx: GameStoreTx) => void): Promise<void>
+}
+
+export interface GameStore extends Omit<GameStoreBackend, 'readSnapshot' | 'readHistoryIndex'> {
+  /** 读出的快照已升级到当前结构；无法读取的快照被隔离并返回 null */
+  getSnapshot(gameId: string): Promise<GameSnapshot | null>
+  getHistoryIndex(): Promise<HistoryIndexEntry[]>
+}
+
+export type GameStoreOp =
+  | { type: 'putSnapshot'; snapshot: GameSnapshot }
+  | { type: 'deleteSnapshot'; gameId: string }
+  | { type: 'putHistoryIndex'; entries: HistoryIndexEntry[] }
+  | { type: 'putMatchIndex'; entries: MatchHistoryEntry[] }
+  | { type: 'setMeta'; key: GameStoreMetaKey; value: string | null }
+  | { type: 'quarantine'; record: QuarantinedRecord }
+  | { type: 'clearQuarantine' }
+
+/** 把 transaction 回调中的写操作按顺序收集起来，由各实现统一提交。 */
+export const collectOps = (write: (tx: GameStoreTx) => void): GameStoreOp[] => {
+  const ops: GameStoreOp[] = []
+  write({
+    putSnapshot: (snapshot) => ops.push({ type: 'putSnapshot', snapshot }),
+    deleteSnapshot: (gameId) => ops.push({ type: 'deleteSnapshot', gameId }),
+    putHistoryIndex: (entries) => ops.push({ type: 'putHistoryIndex', entries }),
+    putMatchIndex: (entries) => ops.push({ type: 'putMatchIndex', entries }),
+    setMeta: (key, value) => ops.push({ type: 'setMeta', key, value }),
+    quarantine: (record) => ops.push({ type: 'quarantine', record }),
+    clearQuarantine: () => ops.push({ type: 'clearQuarantine' }),
+  })
+  return ops
+}
+
+/** 把收集到的写操作按原顺序登记到另一个事务中 */
+export const replayOps = (tx: GameStoreTx, ops: GameStoreOp[]) => {
+  ops.forEach((op) => {
+    switch (op.type) {
+      case 'putSnapshot':
+        return tx.putSnapshot(op.snapshot)
+      case 'deleteSnapshot':
+        return tx.deleteSnapshot(op.gameId)
+      case 'putHistoryIndex':
+        return tx.putHistoryIndex(op.entries)
+      case 'putMatchIndex':
+        return tx.putMatchIndex(op.entries)
+      case 'setMeta':
+        return tx.setMeta(op.key, op.value)
+      case 'quarantine':
+        return tx.quarantine(op.record)
+      case 'clearQuarantine':
+        return tx.clearQuarantine()
+    }
+  })
+}
+
+export const isSnapshot = (value: unknown): value is GameSnapshot =>
+  !!value && typeof value === 'object' && typeof (value as { gameId?: unknown }).gameId === 'string'
+
+export const asArray = <T>(value: unknown): T[] => (Array.isArray(value) ? (value as T[]) : [])